@@ -15,8 +15,23 @@
  *   foundry_write_skill  — Write a skill package
  *   foundry_add_tool     — Add a tool to an existing extension
  *   foundry_add_hook     — Add a hook to an existing extension
+ *   foundry_update_tool / foundry_rename_tool / foundry_remove_tool
+ *                        — Edit tools in an existing extension (validated)
+ *   foundry_update_hook / foundry_remove_hook
+ *                        — Edit hooks in an existing extension (validated)
+ *   foundry_test         — Run an extension's tool test cases
+ *   foundry_secrets      — Set, rotate and list encrypted secrets
+ *   foundry_run_browser_action — Replay a browser skill's structured steps
  *   foundry_list         — List written extensions/skills
- *   foundry_docs         — Read OpenClaw plugin/hooks documentation
+ *   foundry_lint_skill   — Check a skill's SKILL.md and host requirements
+ *   foundry_install_skill_deps — Plan, run and remove a skill's install specs
+ *   foundry_docs         — Browse/search the local OpenClaw docs tree
+ *   foundry_docs_snapshot — Export/import an offline docs bundle
+ *   foundry_docs_changes — Flag artifacts affected by doc changes
+ *   foundry_explain      — Show the lineage of a generated artifact
+ *   foundry_history      — List and diff versions of a generated artifact
+ *   foundry_rollback     — Restore an earlier version of an artifact
+ *   foundry_remove       — Uninstall a generated artifact
  */
 
 import type {
@@ -29,9 +44,118 @@ import {
   readFileSync,
   writeFileSync,
   readdirSync,
+  rmSync,
+  renameSync,
+  cpSync,
+  symlinkSync,
 } from "node:fs";
-import { join } from "node:path";
+import {
+  basename,
+  delimiter,
+  dirname,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
 import { homedir } from "node:os";
+import { DocsCache, type DocsCacheEntry } from "./src/docs-cache.js";
+import { DocsCatalog, parseLlmsTxt } from "./src/docs-catalog.js";
+import {
+  SectionIndex,
+  splitSections,
+  type DocSection,
+  type SectionSearchOptions,
+} from "./src/docs-search.js";
+import { CONVERTER_VERSION, htmlToMarkdown } from "./src/html-to-markdown.js";
+import { LocalDocs } from "./src/local-docs.js";
+import {
+  emitExtension,
+  emitPackageJson,
+  emitPluginJson,
+  emitTestFile,
+  stringLiteral,
+  validateToolName,
+} from "./src/code-emitter.js";
+import type { JsonSchema } from "./src/json-schema.js";
+import {
+  credentialEnvVar,
+  emitApiClient,
+  emitApiSkillContent,
+  normalizeOAuthDef,
+  oauthSecretNames,
+  validateClientConfig,
+  type ApiAuthSchemeDef,
+  type ApiBodyDef,
+  type ApiClientConfig,
+  type ApiOAuthDef,
+  type ApiParamDef,
+  type ApiResponseDef,
+  type ApiServerDef,
+  type ApiTagDef,
+} from "./src/api-emitter.js";
+import {
+  emitGraphQLClient,
+  emitGraphQLSkillContent,
+  validateSelectionDepth,
+} from "./src/graphql-emitter.js";
+import { importGraphQL, type GqlSchemaDef } from "./src/graphql.js";
+import {
+  BROWSER_ACTIONS_FILE,
+  DEFAULT_BROWSER_CONTROL_URL,
+  actionSlug,
+  describeStep,
+  isStructured,
+  openClawBrowser,
+  parseBrowserActions,
+  runBrowserAction,
+  validateBrowserActions,
+  type BrowserActionDef,
+  type BrowserActionsFile,
+  type BrowserStep,
+} from "./src/browser-steps.js";
+import {
+  HookEventCatalog,
+  mockHookEvent,
+  mockWorkspaceFiles,
+} from "./src/hook-events.js";
+import { importOpenApi } from "./src/openapi.js";
+import { SkillDeps, type InstallStep } from "./src/skill-deps.js";
+import {
+  describeGaps,
+  formatLintIssues,
+  formatSkillLint,
+  lintSkillDir,
+  lintSkillMd,
+  skillHost,
+  type SkillHost,
+  type SkillLintResult,
+} from "./src/skill-lint.js";
+import {
+  exportSecretsDir,
+  referencedSecrets,
+  secretName,
+  secretRef,
+  SecretStore,
+  validateSecretName,
+} from "./src/secret-store.js";
+import {
+  SECRET_FILES,
+  VersionStore,
+  type VersionedKind,
+  type VersionInfo,
+} from "./src/version-store.js";
+import {
+  ProvenanceTracker,
+  formatProvenance,
+  type Provenance,
+} from "./src/provenance.js";
+import {
+  DocsWatch,
+  captureSource,
+  type DocSource,
+  type WatchedArtifactKind,
+} from "./src/docs-watch.js";
 
 // ── Documentation URLs ───────────────────────────────────────────────────────
 
@@ -43,7 +167,8 @@ const OPENCLAW_LLMS_TXT = `${OPENCLAW_DOCS_BASE}/llms.txt`;
 const DOCS_BASE = "https://docs.molt.bot";
 const LLMS_TXT = `${DOCS_BASE}/llms.txt`;
 
-// Key documentation pages for different capabilities
+// Seed documentation pages for well-known topics. The full page catalog is
+// parsed from llms.txt at runtime; these keep topic names stable offline.
 // Prioritizes OpenClaw docs for skills, falls back to molt.bot for other topics
 const DOC_PAGES: Record<string, string[]> = {
   // OpenClaw primary docs (skills, plugins, clawdhub)
@@ -83,6 +208,47 @@ class DocsFetcher {
     new Map();
   private cacheTtl = 1000 * 60 * 30; // 30 minutes
   private openclawIndex: string | null = null;
+  private diskCache: DocsCache | null;
+  private catalog: DocsCatalog;
+  private catalogRefreshed = false;
+  private sectionIndex = new SectionIndex();
+  // Sections returned to the agent recently, keyed by url#anchor. `taken` is
+  // set once recorded for an artifact and cleared when consulted again.
+  private consulted: Map<
+    string,
+    { url: string; anchor?: string; at: number; taken?: boolean }
+  > = new Map();
+  /** Called with every page fetched from the network (for change detection). */
+  onPageFetched?: (url: string, content: string) => void;
+
+  /**
+   * @param cacheDir - Directory for the persistent page cache
+   * @param localMirrors - Local llms.txt copies (e.g. from an OpenClaw checkout)
+   * @param localDocs - Docs from the local install, used when a host is unreachable
+   */
+  constructor(
+    cacheDir?: string,
+    private localMirrors: string[] = [],
+    private localDocs?: LocalDocs,
+  ) {
+    this.diskCache = cacheDir ? new DocsCache(cacheDir) : null;
+    // Start from whatever llms.txt we already have on disk; refreshed lazily
+    this.catalog = this.buildCatalog(
+      this.diskCache?.get(OPENCLAW_LLMS_TXT)?.content,
+      this.diskCache?.get(LLMS_TXT)?.content,
+    );
+    this.indexCachedPages();
+  }
+
+  /**
+   * Make every disk-cached page searchable, even offline.
+   */
+  private indexCachedPages(): void {
+    for (const entry of this.diskCache?.entries() ?? []) {
+      if (!entry.url.endsWith("/llms.txt"))
+        this.sectionIndex.addPage(entry.url, entry.content);
+    }
+  }
 
   /**
    * Fetch the OpenClaw llms.txt index for discovering available documentation pages.
@@ -92,13 +258,9 @@ class DocsFetcher {
     if (this.openclawIndex) return this.openclawIndex;
 
     try {
-      const res = await fetch(OPENCLAW_LLMS_TXT);
-      if (res.ok) {
-        this.openclawIndex = await res.text();
-        this.cache.set(OPENCLAW_LLMS_TXT, {
-          content: this.openclawIndex,
-          fetchedAt: Date.now(),
-        });
+      const result = await this.fetchCached(OPENCLAW_LLMS_TXT, false);
+      if (result.ok) {
+        this.openclawIndex = result.content;
         return this.openclawIndex;
       }
     } catch (err) {
@@ -116,6 +278,144 @@ class DocsFetcher {
       : DOCS_BASE;
   }
 
+  /**
+   * Fetch a URL through the memory and disk caches. Stale disk entries are
+   * revalidated with ETag / Last-Modified; if the network is unreachable or
+   * the host answers with a server error or 429, the stale copy is served
+   * instead so offline machines still get docs. Entries extracted by another
+   * converter version are refetched, and only kept for that fallback.
+   */
+  private async fetchCached(
+    url: string,
+    extract: boolean,
+    force = false,
+  ): Promise<{ ok: boolean; content: string; status?: number }> {
+    const cached = this.cache.get(url);
+    if (!force && cached && Date.now() - cached.fetchedAt < this.cacheTtl) {
+      return { ok: true, content: cached.content };
+    }
+
+    const extractor = extract ? CONVERTER_VERSION : undefined;
+    const stored = this.diskCache?.get(url);
+    const current = stored?.extractor === extractor;
+    const serveStored = () => {
+      this.cache.set(url, { content: stored!.content, fetchedAt: Date.now() });
+      return { ok: true, content: stored!.content };
+    };
+    if (
+      !force &&
+      stored &&
+      current &&
+      Date.now() - stored.fetchedAt < this.cacheTtl
+    ) {
+      return serveStored();
+    }
+
+    const headers: Record<string, string> = {};
+    if (current && stored?.etag) headers["If-None-Match"] = stored.etag;
+    if (current && stored?.lastModified)
+      headers["If-Modified-Since"] = stored.lastModified;
+
+    let res: Response;
+    try {
+      res = await fetch(url, { headers });
+    } catch (err) {
+      if (stored) return serveStored();
+      throw err;
+    }
+
+    if (res.status === 304 && stored && current) {
+      this.diskCache?.touch(url);
+      return serveStored();
+    }
+
+    if (!res.ok) {
+      // Host down or rate limiting: the stale copy beats no docs
+      if (stored && (res.status >= 500 || res.status === 429)) {
+        return serveStored();
+      }
+      return { ok: false, content: "", status: res.status };
+    }
+
+    const body = await res.text();
+    const content = extract ? this.extractContent(body, url) : body;
+    this.cache.set(url, { content, fetchedAt: Date.now() });
+    this.diskCache?.set({
+      url,
+      content,
+      fetchedAt: Date.now(),
+      etag: res.headers.get("etag") || undefined,
+      lastModified: res.headers.get("last-modified") || undefined,
+      extractor,
+    });
+    this.onPageFetched?.(url, content);
+    return { ok: true, content };
+  }
+
+  // ── Page Catalog ──────────────────────────────────────────────────────────
+
+  private buildCatalog(openclawTxt?: string, moltTxt?: string): DocsCatalog {
+    const catalog = DocsCatalog.fromSeed(DOC_PAGES, (topic) =>
+      this.getBaseUrl(topic),
+    );
+    for (const mirror of this.localMirrors) {
+      if (!existsSync(mirror)) continue;
+      try {
+        catalog.merge(
+          parseLlmsTxt(readFileSync(mirror, "utf-8"), OPENCLAW_DOCS_BASE),
+          true,
+        );
+      } catch {
+        // Unreadable mirror, skip
+      }
+    }
+    // Live llms.txt wins over the local mirror
+    if (openclawTxt)
+      catalog.merge(parseLlmsTxt(openclawTxt, OPENCLAW_DOCS_BASE), true);
+    if (moltTxt) catalog.merge(parseLlmsTxt(moltTxt, DOCS_BASE));
+    return catalog;
+  }
+
+  /**
+   * Refresh the page catalog from llms.txt (once per process, cached on disk).
+   */
+  async loadCatalog(): Promise<DocsCatalog> {
+    if (this.catalogRefreshed) return this.catalog;
+    this.catalogRefreshed = true;
+
+    let openclawTxt: string | undefined;
+    let moltTxt: string | undefined;
+    try {
+      const result = await this.fetchCached(OPENCLAW_LLMS_TXT, false);
+      if (result.ok) {
+        openclawTxt = result.content;
+        this.openclawIndex = result.content;
+      }
+    } catch {
+      // Offline - keep seed + mirrors
+    }
+    try {
+      const result = await this.fetchCached(LLMS_TXT, false);
+      if (result.ok) moltTxt = result.content;
+    } catch {
+      // Offline - keep seed + mirrors
+    }
+
+    this.catalog = this.buildCatalog(openclawTxt, moltTxt);
+    return this.catalog;
+  }
+
+  /**
+   * Topics currently known to the catalog (sync; used for tool schemas).
+   */
+  getTopics(): string[] {
+    return this.catalog.topics();
+  }
+
+  getCatalog(): DocsCatalog {
+    return this.catalog;
+  }
+
   async fetchPage(path: string, preferOpenClaw = false): Promise<string> {
     // Determine base URL
     let baseUrl = DOCS_BASE;
@@ -130,236 +430,249 @@ class DocsFetcher {
 
     const url = path.startsWith("http") ? path : `${baseUrl}${path}`;
 
-    // Check cache
-    const cached = this.cache.get(url);
-    if (cached && Date.now() - cached.fetchedAt < this.cacheTtl) {
-      return cached.content;
-    }
-
     try {
-      const res = await fetch(url);
-      if (!res.ok) {
+      const result = await this.fetchCached(url, true);
+      if (!result.ok) {
         // If OpenClaw fails, try molt.bot as fallback
-        if (baseUrl === OPENCLAW_DOCS_BASE) {
-          const fallbackUrl = `${DOCS_BASE}${path}`;
-          const fallbackRes = await fetch(fallbackUrl);
-          if (fallbackRes.ok) {
-            const html = await fallbackRes.text();
-            const content = this.extractContent(html);
-            this.cache.set(fallbackUrl, { content, fetchedAt: Date.now() });
-            return content;
+        if (url.startsWith(OPENCLAW_DOCS_BASE)) {
+          const fallbackUrl = `${DOCS_BASE}${url.slice(OPENCLAW_DOCS_BASE.length)}`;
+          const fallback = await this.fetchCached(fallbackUrl, true);
+          if (fallback.ok) {
+            this.sectionIndex.addPage(fallbackUrl, fallback.content);
+            return fallback.content;
           }
         }
-        return `Failed to fetch ${url}: ${res.status}`;
+        return (
+          this.fromLocalDocs(url) ?? `Failed to fetch ${url}: ${result.status}`
+        );
       }
+      this.sectionIndex.addPage(url, result.content);
+      return result.content;
+    } catch (err) {
+      return (
+        this.fromLocalDocs(url) ??
+        `Error fetching ${url}: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Serve a page from the local OpenClaw install when the host can't be reached.
+   */
+  private fromLocalDocs(url: string): string | undefined {
+    const page = this.localDocs?.findForUrl(url);
+    if (!page) return undefined;
+    this.sectionIndex.addPage(page.file, page.content);
+    return page.content;
+  }
 
-      const html = await res.text();
-      // Extract main content - simple markdown extraction
-      const content = this.extractContent(html);
+  // ── Offline Snapshots ─────────────────────────────────────────────────────
 
-      this.cache.set(url, { content, fetchedAt: Date.now() });
-      return content;
-    } catch (err) {
-      return `Error fetching ${url}: ${(err as Error).message}`;
+  /**
+   * Fetch llms.txt and every mapped doc page so the disk cache holds a full bundle.
+   */
+  async prefetchAll(): Promise<{ fetched: number; failed: string[] }> {
+    const catalog = await this.loadCatalog();
+    const failed: string[] = [];
+    let fetched = 0;
+    for (const page of catalog.all()) {
+      const content = await this.fetchPage(page.url);
+      if (
+        content.startsWith("Failed to fetch") ||
+        content.startsWith("Error fetching")
+      )
+        failed.push(page.path);
+      else fetched++;
+    }
+    return { fetched, failed };
+  }
+
+  exportSnapshot(path: string): number {
+    if (!this.diskCache) throw new Error("Docs disk cache is not enabled");
+    return this.diskCache.exportSnapshot(path);
+  }
+
+  importSnapshot(
+    path: string,
+    overwrite = false,
+  ): { imported: number; skipped: number } {
+    if (!this.diskCache) throw new Error("Docs disk cache is not enabled");
+    const result = this.diskCache.importSnapshot(path, overwrite);
+    // Drop hot copies so imported content is picked up immediately
+    this.cache.clear();
+    this.openclawIndex = null;
+    this.catalogRefreshed = false;
+    this.indexCachedPages();
+    return result;
+  }
+
+  getCachedEntries(): DocsCacheEntry[] {
+    return this.diskCache?.entries() ?? [];
+  }
+
+  // ── Consulted Sources ─────────────────────────────────────────────────────
+
+  /**
+   * Remember that a section was shown to the agent, so artifacts written next
+   * can record which docs they were built from.
+   */
+  noteConsulted(url: string, anchor?: string): void {
+    const key = anchor === undefined ? url : `${url}#${anchor}`;
+    this.consulted.delete(key);
+    this.consulted.set(key, { url, anchor, at: Date.now() });
+  }
+
+  /**
+   * Note the sections that fall within the first `shownChars` of a page.
+   */
+  private noteShownSections(url: string, shownChars: number): void {
+    const candidates = [
+      url,
+      url.startsWith(OPENCLAW_DOCS_BASE)
+        ? `${DOCS_BASE}${url.slice(OPENCLAW_DOCS_BASE.length)}`
+        : url,
+      this.localDocs?.findForUrl(url)?.file,
+    ];
+    const indexedUrl = candidates.find(
+      (u): u is string => !!u && this.sectionIndex.hasPage(u),
+    );
+    if (!indexedUrl) return;
+    let used = 0;
+    for (const section of this.sectionIndex.sections(indexedUrl)) {
+      if (used >= shownChars) break;
+      this.noteConsulted(indexedUrl, section.anchor);
+      used += section.text.length;
+    }
+  }
+
+  /**
+   * Sections of a page from the search index or the local docs.
+   */
+  sectionsFor(url: string): DocSection[] {
+    if (this.sectionIndex.hasPage(url)) return this.sectionIndex.sections(url);
+    const local = this.localDocs?.getByFile(url);
+    return local ? splitSections(local.content, local.file) : [];
+  }
+
+  /**
+   * Doc sections consulted within the cache TTL and since the last call, with
+   * content hashes. Each consultation is handed out once, so an artifact
+   * records the docs read for it rather than everything read lately.
+   */
+  takeSources(): DocSource[] {
+    const sources: DocSource[] = [];
+    const cutoff = Date.now() - this.cacheTtl;
+    for (const ref of this.consulted.values()) {
+      if (ref.at < cutoff || ref.taken) continue;
+      ref.taken = true;
+      const source = captureSource(
+        ref.url,
+        this.sectionsFor(ref.url),
+        ref.anchor,
+      );
+      if (source) sources.push(source);
+    }
+    return sources;
+  }
+
+  /**
+   * url#anchor of the sections `takeSources` would hand out now, without
+   * taking them: the docs consulted for the write in progress (for
+   * provenance, captured before the write succeeds).
+   */
+  pendingDocUrls(): string[] {
+    const cutoff = Date.now() - this.cacheTtl;
+    return [...this.consulted.entries()]
+      .filter(([, ref]) => ref.at >= cutoff && !ref.taken)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Re-fetch a page bypassing the cache TTL. Returns undefined when unreachable.
+   */
+  async refreshPage(url: string): Promise<string | undefined> {
+    try {
+      const result = await this.fetchCached(url, true, true);
+      if (!result.ok) return undefined;
+      this.sectionIndex.addPage(url, result.content);
+      return result.content;
+    } catch {
+      return undefined;
     }
   }
 
   async fetchForTopic(topic: string): Promise<string> {
-    const pages = DOC_PAGES[topic.toLowerCase()];
-    if (!pages) {
+    const catalog = await this.loadCatalog();
+    const pages = catalog.pagesForTopic(topic);
+    if (pages.length === 0) {
       // Try to find matching topic
-      const matchingTopic = Object.keys(DOC_PAGES).find(
-        (k) =>
-          k.includes(topic.toLowerCase()) || topic.toLowerCase().includes(k),
-      );
-      if (matchingTopic) {
+      const matchingTopic = catalog.matchTopic(topic);
+      if (matchingTopic && matchingTopic !== topic.toLowerCase()) {
         return this.fetchForTopic(matchingTopic);
       }
-      return `No documentation pages mapped for topic: ${topic}. Available topics: ${Object.keys(DOC_PAGES).join(", ")}`;
-    }
-
-    // For skills topics, always fetch OpenClaw index first for context
-    if (OPENCLAW_TOPICS.has(topic.toLowerCase())) {
-      await this.fetchOpenClawIndex();
+      return `No documentation pages mapped for topic: ${topic}. Available topics: ${catalog.topics().join(", ")}`;
     }
 
-    const preferOpenClaw = OPENCLAW_TOPICS.has(topic.toLowerCase());
     const results: string[] = [];
     for (const page of pages.slice(0, 2)) {
       // Limit to 2 pages to avoid too much content
-      const content = await this.fetchPage(page, preferOpenClaw);
-      const baseUrl = preferOpenClaw ? OPENCLAW_DOCS_BASE : DOCS_BASE;
-      results.push(`## ${baseUrl}${page}\n\n${content.slice(0, 4000)}`);
+      const content = await this.fetchPage(page.url);
+      results.push(`## ${page.url}\n\n${content.slice(0, 4000)}`);
+      this.noteShownSections(page.url, 4000);
     }
     return results.join("\n\n---\n\n");
   }
 
-  async search(query: string): Promise<string> {
-    // Find relevant topics based on query keywords
-    const queryLower = query.toLowerCase();
-    const relevantTopics: string[] = [];
-
-    for (const [topic, pages] of Object.entries(DOC_PAGES)) {
-      if (
-        queryLower.includes(topic) ||
-        topic.includes(queryLower.split(" ")[0])
-      ) {
-        relevantTopics.push(topic);
-      }
+  /**
+   * Ranked retrieval: fetch the catalog pages most likely to match, then
+   * return the best BM25-scoring sections that fit the character budget.
+   */
+  async search(
+    query: string,
+    opts: SectionSearchOptions = {},
+  ): Promise<string> {
+    const catalog = await this.loadCatalog();
+    const candidates = catalog.searchPages(query, 5);
+
+    for (const page of candidates) {
+      if (!this.sectionIndex.hasPage(page.url)) await this.fetchPage(page.url);
     }
 
-    // Check for specific keywords
-    if (queryLower.includes("hook") || queryLower.includes("event"))
-      relevantTopics.push("hooks");
-    if (queryLower.includes("tool") || queryLower.includes("plugin"))
-      relevantTopics.push("plugin", "tools");
-    if (queryLower.includes("browser") || queryLower.includes("playwright"))
-      relevantTopics.push("browser");
-    if (
-      queryLower.includes("skill") ||
-      queryLower.includes("api") ||
-      queryLower.includes("agentskill")
-    )
-      relevantTopics.push("skills");
-    if (queryLower.includes("agent") || queryLower.includes("prompt"))
-      relevantTopics.push("agent");
-    if (queryLower.includes("channel") || queryLower.includes("message"))
-      relevantTopics.push("channels");
-    if (queryLower.includes("cron") || queryLower.includes("schedule"))
-      relevantTopics.push("automation");
-    if (queryLower.includes("clawdhub") || queryLower.includes("registry"))
-      relevantTopics.push("clawdhub");
-    if (
-      queryLower.includes("openclaw") ||
-      queryLower.includes("frontmatter") ||
-      queryLower.includes("metadata")
-    )
-      relevantTopics.push("skills");
-
-    const uniqueTopics = [...new Set(relevantTopics)].slice(0, 3);
-
-    if (uniqueTopics.length === 0) {
-      return `No matching documentation found for: "${query}"\n\nAvailable topics: ${Object.keys(DOC_PAGES).join(", ")}`;
+    let hits = this.sectionIndex.search(query, opts);
+    // Nothing fetched or cached matches (e.g. offline): use local install docs
+    if (hits.length === 0 && this.localDocs)
+      hits = this.localDocs.search(query, opts);
+    if (hits.length === 0) {
+      return `No matching documentation found for: "${query}"\n\nAvailable topics: ${catalog.topics().join(", ")}`;
     }
 
-    // Always fetch OpenClaw index for context
-    const openclawIndex = await this.fetchOpenClawIndex();
-
     const results: string[] = [`# Documentation for: ${query}\n`];
-
-    // Include OpenClaw index summary if skills-related
-    if (uniqueTopics.some((t) => OPENCLAW_TOPICS.has(t))) {
+    for (const hit of hits) {
+      const { section } = hit;
+      this.noteConsulted(section.url, section.anchor);
+      const title =
+        [...section.headingPath, section.heading].filter(Boolean).join(" › ") ||
+        section.url;
+      const source = section.anchor
+        ? `${section.url}#${section.anchor}`
+        : section.url;
       results.push(
-        `## OpenClaw Documentation Index\n\n${openclawIndex.slice(0, 1500)}\n`,
+        `## ${title}\n\nSource: ${source} (score ${hit.score.toFixed(2)})\n\n${section.text}${hit.truncated ? "\n\n[truncated]" : ""}`,
       );
     }
 
-    for (const topic of uniqueTopics) {
-      const content = await this.fetchForTopic(topic);
-      results.push(`## Topic: ${topic}\n\n${content.slice(0, 3000)}`);
-    }
-
     return results.join("\n\n---\n\n");
   }
 
-  private extractContent(html: string): string {
-    // Remove scripts, styles, nav
-    let content = html
-      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-      .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, "")
-      .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, "")
-      .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, "");
-
-    // Convert common HTML to markdown-ish
-    content = content
-      .replace(/<h1[^>]*>(.*?)<\/h1>/gi, "# $1\n")
-      .replace(/<h2[^>]*>(.*?)<\/h2>/gi, "## $1\n")
-      .replace(/<h3[^>]*>(.*?)<\/h3>/gi, "### $1\n")
-      .replace(/<h4[^>]*>(.*?)<\/h4>/gi, "#### $1\n")
-      .replace(/<p[^>]*>(.*?)<\/p>/gi, "$1\n\n")
-      .replace(/<li[^>]*>(.*?)<\/li>/gi, "- $1\n")
-      .replace(/<code[^>]*>(.*?)<\/code>/gi, "`$1`")
-      .replace(/<pre[^>]*>(.*?)<\/pre>/gis, "```\n$1\n```\n")
-      .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "[$2]($1)")
-      .replace(/<strong[^>]*>(.*?)<\/strong>/gi, "**$1**")
-      .replace(/<em[^>]*>(.*?)<\/em>/gi, "*$1*")
-      .replace(/<br\s*\/?>/gi, "\n")
-      .replace(/<[^>]+>/g, "") // Remove remaining tags
-      .replace(/&nbsp;/g, " ")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/&amp;/g, "&")
-      .replace(/\n{3,}/g, "\n\n") // Collapse multiple newlines
-      .trim();
-
-    return content;
+  private extractContent(html: string, url: string): string {
+    // Mintlify and other hosts may serve Markdown directly
+    if (!/^\s*</.test(html)) return html.trim();
+    return htmlToMarkdown(html, url);
   }
 }
 
 // ── Templates ────────────────────────────────────────────────────────────────
 
-const EXTENSION_TEMPLATE = `/**
- * {{NAME}} — Auto-generated by foundry
- * {{DESCRIPTION}}
- * Generated: {{DATE}}
- */
-
-import type { ClawdbotPluginApi } from "clawdbot/plugin-sdk";
-
-export default {
-  id: "{{ID}}",
-  name: "{{NAME}}",
-  description: "{{DESCRIPTION}}",
-
-  register(api: ClawdbotPluginApi) {
-    const logger = api.logger;
-
-{{TOOLS}}
-
-{{HOOKS}}
-
-    logger.info("[{{ID}}] Extension loaded");
-  },
-};
-`;
-
-const TOOL_TEMPLATE = `    api.registerTool({
-      name: "{{NAME}}",
-      label: "{{LABEL}}",
-      description: "{{DESCRIPTION}}",
-      parameters: {
-        type: "object",
-        properties: {
-{{PROPERTIES}}
-        },
-        required: [{{REQUIRED}}],
-      },
-      async execute(_toolCallId: string, params: unknown) {
-        const p = params as any;
-{{CODE}}
-      },
-    });
-`;
-
-const HOOK_TEMPLATE = `    api.on("{{EVENT}}", async (event: any, ctx: any) => {
-{{CODE}}
-    });
-`;
-
-const PLUGIN_JSON_TEMPLATE = `{
-  "id": "{{ID}}",
-  "name": "{{NAME}}",
-  "description": "{{DESCRIPTION}}",
-  "version": "0.1.0",
-  "configSchema": {
-    "type": "object",
-    "properties": {},
-    "additionalProperties": false
-  }
-}
-`;
-
 // OpenClaw/AgentSkills-compatible SKILL.md template
 // Format: YAML frontmatter + markdown content
 // See: https://docs.openclaw.ai/tools/skills
@@ -371,29 +684,6 @@ description: {{DESCRIPTION}}
 {{CONTENT}}
 `;
 
-const API_CLIENT_TEMPLATE = `/**
- * {{NAME}} API Client
- * Auto-generated by foundry
- */
-
-const BASE_URL = "{{BASE_URL}}";
-
-export class {{CLIENT_NAME}} {
-  private headers: Record<string, string>;
-
-  constructor(authHeaders?: Record<string, string>) {
-    this.headers = {
-      "Content-Type": "application/json",
-      ...authHeaders,
-    };
-  }
-
-{{METHODS}}
-}
-
-export default {{CLIENT_NAME}};
-`;
-
 // Browser automation skill template - uses OpenClaw browser tool
 const BROWSER_SKILL_TEMPLATE = `---
 name: {{NAME}}
@@ -467,6 +757,9 @@ const HOOK_HANDLER_TEMPLATE = `/**
 
 import type { HookHandler, HookEvent } from "openclaw/hooks";
 
+/** \`event.context\` for {{EVENTS}}. */
+type HookContext = {{CONTEXT_TYPE}};
+
 {{CODE}}
 
 export default handler;
@@ -599,20 +892,45 @@ interface ExtensionDef {
   tools: ToolDef[];
   hooks: HookDef[];
   createdAt: string;
+  provenance?: Provenance;
+  adoptedAt?: string; // Adopted from files foundry didn't generate (tools/hooks unknown)
+  lib?: string; // Shared top-level helpers (and imports) available to every tool body
+  modules?: ExtensionModule[]; // Extra files, imported from `lib`
+  dependencies?: Record<string, string>; // npm package → version range
+  secrets?: string[]; // Secret names the code reads with secret("NAME")
+}
+
+interface ExtensionModule {
+  path: string; // Relative, e.g. "lib/http.ts"
+  code: string;
 }
 
 interface ToolDef {
   name: string;
   label?: string;
   description: string;
-  properties: Record<string, { type: string; description: string }>;
+  properties: Record<string, JsonSchema>; // JSON Schema per parameter
   required: string[];
   code: string;
+  tests?: ToolTestCase[]; // Run by foundry_test (emitted into foundry.test.ts)
+  provenance?: Provenance; // Set when added after the extension was written
+}
+
+interface ToolTestCase {
+  name?: string;
+  input: Record<string, unknown>;
+  expect?: {
+    text?: string;
+    contains?: string | string[];
+    matches?: string;
+    throws?: boolean;
+  };
 }
 
 interface HookDef {
   event: string;
   code: string;
+  provenance?: Provenance;
 }
 
 // OpenClaw/AgentSkills-compatible skill metadata
@@ -658,9 +976,30 @@ interface SkillDef {
   baseUrl?: string;
   endpoints?: EndpointDef[];
   authHeaders?: Record<string, string>;
+  // Filled in when imported from an OpenAPI document
+  servers?: ApiServerDef[];
+  authSchemes?: ApiAuthSchemeDef[];
+  security?: string[]; // Default auth schemes (any one)
+  tags?: ApiTagDef[];
+  importedFrom?: string; // "OpenAPI 3.0.3: <path or inline>"
+  client?: ApiClientConfig; // Opt in to the production api.ts client
+  oauth?: ApiOAuthDef; // Token handling in api.ts; credentials are secrets
+  // GraphQL skill: client generated from the schema instead of endpoints
+  graphql?: {
+    endpoint: string;
+    schema: GqlSchemaDef; // Trimmed to the imported operations
+    depth?: number; // Nested object levels in default selections
+    importedFrom: string; // "SDL: <path or inline>"
+  };
+  // Browser skill: replayable actions, also written to actions.json
+  browser?: {
+    targetUrl?: string;
+    actions: BrowserActionDef[];
+  };
   // Skill content (markdown body after frontmatter)
   content?: string;
   createdAt: string;
+  provenance?: Provenance;
 }
 
 interface EndpointDef {
@@ -668,6 +1007,14 @@ interface EndpointDef {
   path: string;
   description: string;
   params?: Record<string, string>;
+  // From OpenAPI imports
+  operationId?: string;
+  tags?: string[];
+  parameters?: ApiParamDef[];
+  body?: ApiBodyDef;
+  response?: ApiResponseDef;
+  security?: string[];
+  deprecated?: boolean;
 }
 
 // Browser skill definition - for browser automation skills
@@ -676,11 +1023,12 @@ interface BrowserSkillDef {
   description: string;
   // Target site/service
   targetUrl?: string;
-  // Browser actions to document
+  // Browser actions: free-text steps are documented, structured ones replayable
   actions?: {
     name: string;
     description: string;
-    steps?: string[];
+    params?: string[];
+    steps?: (string | BrowserStep)[];
   }[];
   // Authentication approach
   authMethod?: "manual" | "cookie" | "header" | "oauth";
@@ -690,21 +1038,15 @@ interface BrowserSkillDef {
   // Custom content
   content?: string;
   createdAt?: string;
+  provenance?: Provenance;
 }
 
 // Hook definition - for event-driven automation
 interface OpenClawHookDef {
   name: string;
   description: string;
-  // Events to trigger on
-  events: (
-    | "command:new"
-    | "command:reset"
-    | "command:stop"
-    | "agent:bootstrap"
-    | "gateway:startup"
-    | "tool_result_persist"
-  )[];
+  // Events to trigger on (standalone events in the hook event catalog)
+  events: string[];
   // Hook code (handler function body)
   code: string;
   // OpenClaw metadata
@@ -720,6 +1062,37 @@ interface OpenClawHookDef {
     };
   };
   createdAt?: string;
+  provenance?: Provenance;
+}
+
+// Manifest record for standalone hooks (OpenClaw hook dirs and crystallized hooks)
+interface HookRecord {
+  name: string;
+  kind: "openclaw" | "crystallized";
+  path: string;
+  events?: string[];
+  patternId?: string; // Learning pattern a crystallized hook came from
+  createdAt: string;
+  provenance?: Provenance;
+}
+
+interface RemovalPlan {
+  kind: VersionedKind;
+  id: string;
+  hookKind?: HookRecord["kind"];
+  paths: string[]; // Files and directories to delete (existing ones only)
+  inManifest: boolean;
+  linkedIds: string[]; // IDs learning entries may be crystallized to
+}
+
+type DriftStatus = "missing" | "modified" | "unmanaged";
+
+interface DriftItem {
+  kind: VersionedKind;
+  id: string;
+  status: DriftStatus;
+  path: string;
+  files?: string[]; // Changed files, for "modified"
 }
 
 // ── Extension Writer ─────────────────────────────────────────────────────────
@@ -728,14 +1101,20 @@ class CodeWriter {
   private extensionsDir: string;
   private skillsDir: string;
   private manifestPath: string;
-  private manifest: { extensions: ExtensionDef[]; skills: SkillDef[] } = {
+  private manifest: {
+    extensions: ExtensionDef[];
+    skills: SkillDef[];
+    hooks: HookRecord[];
+    ignored: string[]; // "kind:id" of unmanaged artifacts the user chose to forget
+  } = {
     extensions: [],
     skills: [],
+    hooks: [],
+    ignored: [],
   };
-  private openclawDocs: { plugin: string; hooks: string } = {
-    plugin: "",
-    hooks: "",
-  };
+  private localDocs: LocalDocs;
+  private versions: VersionStore;
+  private secrets: SecretStore;
 
   constructor(
     private dataDir: string,
@@ -745,6 +1124,9 @@ class CodeWriter {
     this.extensionsDir = join(homedir(), ".openclaw", "extensions");
     this.skillsDir = join(homedir(), ".openclaw", "skills");
     this.manifestPath = join(dataDir, "manifest.json");
+    this.localDocs = new LocalDocs(openclawPath);
+    this.versions = new VersionStore(dataDir);
+    this.secrets = new SecretStore(dataDir);
 
     if (!existsSync(this.extensionsDir))
       mkdirSync(this.extensionsDir, { recursive: true });
@@ -752,6 +1134,7 @@ class CodeWriter {
       mkdirSync(this.skillsDir, { recursive: true });
 
     this.loadManifest();
+    this.migratePlaintextAuth();
     this.loadOpenClawDocs();
   }
 
@@ -763,9 +1146,11 @@ class CodeWriter {
         this.manifest = {
           extensions: Array.isArray(data?.extensions) ? data.extensions : [],
           skills: Array.isArray(data?.skills) ? data.skills : [],
+          hooks: Array.isArray(data?.hooks) ? data.hooks : [],
+          ignored: Array.isArray(data?.ignored) ? data.ignored : [],
         };
       } catch {
-        this.manifest = { extensions: [], skills: [] };
+        this.manifest = { extensions: [], skills: [], hooks: [], ignored: [] };
       }
     }
   }
@@ -777,21 +1162,34 @@ class CodeWriter {
   }
 
   private loadOpenClawDocs(): void {
-    const pluginDocPath = join(this.openclawPath, "docs", "plugin.md");
-    const hooksDocPath = join(this.openclawPath, "docs", "hooks.md");
-
-    if (existsSync(pluginDocPath)) {
-      this.openclawDocs.plugin = readFileSync(pluginDocPath, "utf-8");
-      this.logger?.info("[foundry] Loaded plugin docs");
-    }
-    if (existsSync(hooksDocPath)) {
-      this.openclawDocs.hooks = readFileSync(hooksDocPath, "utf-8");
-      this.logger?.info("[foundry] Loaded hooks docs");
+    const { docs, types } = this.localDocs.load();
+    if (docs > 0 || types > 0) {
+      this.logger?.info(
+        `[foundry] Indexed ${docs} local doc pages and ${types} type declaration files`,
+      );
     }
   }
 
+  /**
+   * Plugin and hooks reference pages from the local install (empty if absent).
+   */
   getDocs(): { plugin: string; hooks: string } {
-    return this.openclawDocs;
+    return {
+      plugin: this.localDocs.getPage("plugin")?.content || "",
+      hooks: this.localDocs.getPage("hooks")?.content || "",
+    };
+  }
+
+  getLocalDocs(): LocalDocs {
+    return this.localDocs;
+  }
+
+  /**
+   * Hook events known to this install: the built-in catalog plus events the
+   * local type declarations and docs add.
+   */
+  hookEvents(): HookEventCatalog {
+    return new HookEventCatalog(this.localDocs.pages());
   }
 
   // ── Extension Writing ─────────────────────────────────────────────────────
@@ -802,54 +1200,83 @@ class CodeWriter {
   async writeExtension(
     def: Omit<ExtensionDef, "createdAt">,
     validator?: CodeValidator,
+    note = "write",
   ): Promise<{ path: string; validation: ValidationResult }> {
     const full: ExtensionDef = { ...def, createdAt: new Date().toISOString() };
 
-    const toolsCode = def.tools
-      .map((t) => {
-        const props = Object.entries(t.properties)
-          .map(
-            ([k, v]) =>
-              `          ${k}: { type: "${v.type}", description: "${v.description.replace(/"/g, '\\"')}" },`,
-          )
-          .join("\n");
-        const req = t.required.map((r) => `"${r}"`).join(", ");
-
-        return TOOL_TEMPLATE.replace(/\{\{NAME\}\}/g, t.name)
-          .replace(/\{\{LABEL\}\}/g, t.label || t.name)
-          .replace(/\{\{DESCRIPTION\}\}/g, t.description.replace(/"/g, '\\"'))
-          .replace(/\{\{PROPERTIES\}\}/g, props)
-          .replace(/\{\{REQUIRED\}\}/g, req)
-          .replace(
-            /\{\{CODE\}\}/g,
-            t.code
-              .split("\n")
-              .map((l) => "        " + l)
-              .join("\n"),
-          );
-      })
-      .join("\n");
-
-    const hooksCode = def.hooks
-      .map((h) => {
-        return HOOK_TEMPLATE.replace(/\{\{EVENT\}\}/g, h.event).replace(
-          /\{\{CODE\}\}/g,
-          h.code
-            .split("\n")
-            .map((l) => "      " + l)
-            .join("\n"),
+    // Hook events must be in the catalog; handlers get its payload types
+    const catalog = this.hookEvents();
+    const hooks = def.hooks.map((hook) => {
+      try {
+        catalog.validate(hook.event, "plugin");
+      } catch (err: any) {
+        throw new Error(`Hook validation failed: ${err.message}`);
+      }
+      return { ...hook, ...catalog.pluginHandlerSignature(hook.event) };
+    });
+
+    // Names are validated and strings emitted as literals (throws on bad input)
+    const files: Record<string, string> = {
+      "index.ts": emitExtension({ ...def, hooks }, full.createdAt),
+      "openclaw.plugin.json": emitPluginJson(def),
+      "package.json": emitPackageJson(def),
+    };
+    if (def.tools.length > 0) files["foundry.test.ts"] = emitTestFile(def);
+    for (const mod of def.modules || []) files[mod.path] = mod.code;
+
+    const extDir = join(this.extensionsDir, def.id);
+    // Hand edits to generated files would be overwritten without a trace
+    const latest = this.versions.latest("extension", def.id);
+    if (latest && existsSync(extDir)) {
+      const edited = this.versions
+        .changedFiles("extension", def.id, latest.version, extDir)
+        .filter((file) => latest.files.includes(file));
+      if (edited.length > 0) {
+        throw new Error(
+          `Extension "${def.id}" has local edits to ${edited.join(", ")} that this write would overwrite. ` +
+            `Resolve them with \`foundry_list\` first: \`restore\` discards them, \`adopt\` keeps them in history.`,
         );
-      })
-      .join("\n");
+      }
+    }
+    const validation = await this.installPackage(
+      def.id,
+      files,
+      extDir,
+      validator,
+    );
 
-    const extensionCode = EXTENSION_TEMPLATE.replace(/\{\{ID\}\}/g, def.id)
-      .replace(/\{\{NAME\}\}/g, def.name)
-      .replace(/\{\{DESCRIPTION\}\}/g, def.description)
-      .replace(/\{\{DATE\}\}/g, full.createdAt)
-      .replace(/\{\{TOOLS\}\}/g, toolsCode)
-      .replace(/\{\{HOOKS\}\}/g, hooksCode);
+    const idx = this.manifest.extensions.findIndex((e) => e.id === def.id);
+    if (idx >= 0) this.manifest.extensions[idx] = full;
+    else this.manifest.extensions.push(full);
+    this.saveManifest();
+    const version = this.versions.snapshot(
+      "extension",
+      def.id,
+      extDir,
+      full,
+      note,
+    );
+
+    this.logger?.info(
+      `[foundry] Wrote extension: ${def.id} v${version} (${validation.warnings.length} warnings, ${validation.securityFlags.length} flags)`,
+    );
+    return { path: extDir, validation };
+  }
 
-    // Validate before writing
+  /**
+   * Stage an extension package, install its dependencies, validate and
+   * sandbox it, then swap it into `targetDir`. Files in `targetDir` that
+   * foundry didn't generate (data files, `.env`, runtime state) are carried
+   * into the staged package; `node_modules` is reinstalled and files of the
+   * latest version that `files` no longer has are dropped. Throws (leaving
+   * `targetDir` untouched) when anything fails.
+   */
+  private async installPackage(
+    id: string,
+    files: Record<string, string | Buffer>,
+    targetDir: string,
+    validator?: CodeValidator,
+  ): Promise<ValidationResult> {
     let validation: ValidationResult = {
       valid: true,
       errors: [],
@@ -857,12 +1284,16 @@ class CodeWriter {
       securityFlags: [],
     };
     if (validator) {
-      validation = await validator.validate(extensionCode, "extension");
+      validation = await validator.validate(
+        files["index.ts"].toString(),
+        "extension",
+      );
+      await this.validateModules(files, validator, validation, "index.ts");
 
       // Block if validation failed
       if (!validation.valid) {
         this.logger?.info(
-          `[foundry] Extension ${def.id} BLOCKED: ${validation.errors.join(", ")}`,
+          `[foundry] Extension ${id} BLOCKED: ${validation.errors.join(", ")}`,
         );
         throw new Error(
           `Code validation failed: ${validation.errors.join(", ")}`,
@@ -872,66 +1303,304 @@ class CodeWriter {
       // Log warnings
       if (validation.warnings.length > 0) {
         this.logger?.info(
-          `[foundry] Extension ${def.id} warnings: ${validation.warnings.join(", ")}`,
+          `[foundry] Extension ${id} warnings: ${validation.warnings.join(", ")}`,
         );
       }
+    }
 
-      // Run in sandbox to catch runtime errors BEFORE writing
-      const sandboxDir = join(this.dataDir, "sandbox");
-      const sandboxResult = await validator.testInSandbox(
-        extensionCode,
-        sandboxDir,
-      );
-      if (!sandboxResult.success) {
-        this.logger?.info(
-          `[foundry] Extension ${def.id} SANDBOX FAILED: ${sandboxResult.error}`,
+    const stagingDir = join(this.dataDir, "staging", `${id}_${Date.now()}`);
+    const generated = new Set(
+      this.versions.latest("extension", id)?.files ?? [],
+    );
+    try {
+      if (existsSync(targetDir)) {
+        cpSync(targetDir, stagingDir, {
+          recursive: true,
+          filter: (src) => {
+            const path = relative(targetDir, src).split(sep).join("/");
+            return (
+              path.split("/")[0] !== "node_modules" && !generated.has(path)
+            );
+          },
+        });
+      }
+      for (const [path, content] of Object.entries(files)) {
+        const file = join(stagingDir, path);
+        mkdirSync(join(file, ".."), { recursive: true });
+        writeFileSync(file, content);
+      }
+
+      const pkg = files["package.json"]
+        ? JSON.parse(files["package.json"].toString())
+        : {};
+      if (Object.keys(pkg.dependencies || {}).length > 0) {
+        await this.installDependencies(stagingDir);
+      }
+
+      // Run the staged package in the sandbox to catch runtime errors BEFORE writing
+      if (validator) {
+        const sandboxResult = await validator.testInSandbox(
+          files["index.ts"].toString(),
+          join(this.dataDir, "sandbox"),
+          stagingDir,
         );
-        throw new Error(`Sandbox test failed: ${sandboxResult.error}`);
+        if (!sandboxResult.success) {
+          this.logger?.info(
+            `[foundry] Extension ${id} SANDBOX FAILED: ${sandboxResult.error}`,
+          );
+          throw new Error(`Sandbox test failed: ${sandboxResult.error}`);
+        }
+        this.logger?.info(`[foundry] Extension ${id} passed sandbox test`);
       }
-      this.logger?.info(`[foundry] Extension ${def.id} passed sandbox test`);
+
+      moveIntoPlace(stagingDir, targetDir);
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
     }
+    return validation;
+  }
 
-    const extDir = join(this.extensionsDir, def.id);
-    if (!existsSync(extDir)) mkdirSync(extDir, { recursive: true });
+  /**
+   * Validate and scan every TS/JS file in `files` (but `skip`) as a module,
+   * adding its results to `validation` prefixed with the file's path.
+   */
+  private async validateModules(
+    files: Record<string, string | Buffer>,
+    validator: CodeValidator,
+    validation: ValidationResult,
+    skip?: string,
+  ): Promise<void> {
+    for (const [path, code] of Object.entries(files)) {
+      if (path === skip || !/\.(ts|js|mjs)$/.test(path)) continue;
+      const result = await validator.validate(code.toString(), "module");
+      validation.errors.push(...result.errors.map((e) => `${path}: ${e}`));
+      validation.warnings.push(...result.warnings.map((w) => `${path}: ${w}`));
+      validation.securityFlags.push(
+        ...result.securityFlags.map((f) => `${path}: ${f}`),
+      );
+    }
+    validation.valid = validation.errors.length === 0;
+  }
 
-    writeFileSync(join(extDir, "index.ts"), extensionCode);
-    writeFileSync(
-      join(extDir, "openclaw.plugin.json"),
-      PLUGIN_JSON_TEMPLATE.replace(/\{\{ID\}\}/g, def.id)
-        .replace(/\{\{NAME\}\}/g, def.name)
-        .replace(/\{\{DESCRIPTION\}\}/g, def.description),
+  /**
+   * npm install into a staged package. Uses foundry's own npm cache
+   * (`dataDir/npm-cache`) and prefers it over the network, so packages that
+   * were installed once keep installing offline. Install scripts are skipped.
+   */
+  private async installDependencies(dir: string): Promise<void> {
+    const { execFile } = require("node:child_process");
+    const args = [
+      "install",
+      "--omit=dev",
+      "--ignore-scripts",
+      "--no-audit",
+      "--no-fund",
+      "--prefer-offline",
+      "--cache",
+      join(this.dataDir, "npm-cache"),
+    ];
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        "npm",
+        args,
+        { cwd: dir, timeout: 180000 },
+        (error: any, _stdout: string, stderr: string) => {
+          if (!error) return resolve();
+          const detail = (stderr || error.message)
+            .trim()
+            .split("\n")
+            .filter((line: string) => /^npm (ERR!|error)/i.test(line))
+            .slice(-3)
+            .join(" ");
+          reject(new Error(`npm install failed: ${detail || error.message}`));
+        },
+      );
+    });
+    this.logger?.info(`[foundry] Installed dependencies in ${dir}`);
+  }
+
+  // ── Tool & Hook Operations ────────────────────────────────────────────────
+  // Each builds a modified copy of the extension and rewrites it through
+  // writeExtension, which validates (and sandboxes) before touching disk or
+  // the manifest — a failed validation leaves the previous version in place.
+
+  private editableExtension(extensionId: string): ExtensionDef {
+    const ext = this.getExtension(extensionId);
+    if (!ext) throw new Error(`Extension "${extensionId}" not found`);
+    if (ext.adoptedAt) {
+      throw new Error(
+        `Extension "${extensionId}" was adopted from files foundry didn't generate, so it can't be regenerated. ` +
+          `Edit its index.ts directly or rewrite it with foundry_write_extension.`,
+      );
+    }
+    return ext;
+  }
+
+  private findTool(ext: ExtensionDef, name: string): number {
+    const idx = ext.tools.findIndex((t) => t.name === name);
+    if (idx === -1) {
+      throw new Error(
+        `Tool "${name}" not found in ${ext.id} (has: ${ext.tools.map((t) => t.name).join(", ") || "none"})`,
+      );
+    }
+    return idx;
+  }
+
+  /**
+   * Hooks are identified by event; `index` picks among several hooks on the
+   * same event (0-based, in registration order).
+   */
+  private findHook(ext: ExtensionDef, event: string, index?: number): number {
+    const matches = ext.hooks
+      .map((h, i) => (h.event === event ? i : -1))
+      .filter((i) => i !== -1);
+    if (matches.length === 0) {
+      throw new Error(
+        `No "${event}" hook in ${ext.id} (has: ${ext.hooks.map((h) => h.event).join(", ") || "none"})`,
+      );
+    }
+    if (index === undefined && matches.length > 1) {
+      throw new Error(
+        `${ext.id} has ${matches.length} "${event}" hooks; pass index (0-${matches.length - 1}) to pick one`,
+      );
+    }
+    const idx = matches[index ?? 0];
+    if (idx === undefined) {
+      throw new Error(
+        `Hook index ${index} out of range (${matches.length} "${event}" hooks)`,
+      );
+    }
+    return idx;
+  }
+
+  async addTool(
+    extensionId: string,
+    tool: ToolDef,
+    validator?: CodeValidator,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    return this.writeExtension(
+      { ...ext, tools: [...ext.tools, tool] },
+      validator,
+      `add_tool ${tool.name}`,
     );
+  }
 
-    const idx = this.manifest.extensions.findIndex((e) => e.id === def.id);
-    if (idx >= 0) this.manifest.extensions[idx] = full;
-    else this.manifest.extensions.push(full);
-    this.saveManifest();
+  async updateTool(
+    extensionId: string,
+    name: string,
+    changes: Partial<Omit<ToolDef, "name">>,
+    validator?: CodeValidator,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    const idx = this.findTool(ext, name);
+    const tools = [...ext.tools];
+    tools[idx] = { ...tools[idx], ...changes };
+    return this.writeExtension(
+      { ...ext, tools },
+      validator,
+      `update_tool ${name}`,
+    );
+  }
 
-    this.logger?.info(
-      `[foundry] Wrote extension: ${def.id} (${validation.warnings.length} warnings, ${validation.securityFlags.length} flags)`,
+  async renameTool(
+    extensionId: string,
+    name: string,
+    newName: string,
+    validator?: CodeValidator,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    const idx = this.findTool(ext, name);
+    validateToolName(newName);
+    if (ext.tools.some((t) => t.name === newName)) {
+      throw new Error(`Tool "${newName}" already exists in ${extensionId}`);
+    }
+    const tools = [...ext.tools];
+    tools[idx] = {
+      ...tools[idx],
+      name: newName,
+      // Keep a custom label; a label that just echoed the name follows it
+      label:
+        !tools[idx].label || tools[idx].label === name
+          ? undefined
+          : tools[idx].label,
+    };
+    return this.writeExtension(
+      { ...ext, tools },
+      validator,
+      `rename_tool ${name} → ${newName}`,
     );
-    return { path: extDir, validation };
   }
 
-  addTool(extensionId: string, tool: ToolDef): boolean {
-    const ext = this.manifest.extensions.find((e) => e.id === extensionId);
-    if (!ext) return false;
-    ext.tools.push(tool);
-    this.writeExtension(ext);
-    return true;
+  async removeTool(
+    extensionId: string,
+    name: string,
+    validator?: CodeValidator,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    const idx = this.findTool(ext, name);
+    return this.writeExtension(
+      { ...ext, tools: ext.tools.filter((_, i) => i !== idx) },
+      validator,
+      `remove_tool ${name}`,
+    );
   }
 
-  addHook(extensionId: string, hook: HookDef): boolean {
-    const ext = this.manifest.extensions.find((e) => e.id === extensionId);
-    if (!ext) return false;
-    ext.hooks.push(hook);
-    this.writeExtension(ext);
-    return true;
+  async addHook(
+    extensionId: string,
+    hook: HookDef,
+    validator?: CodeValidator,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    return this.writeExtension(
+      { ...ext, hooks: [...ext.hooks, hook] },
+      validator,
+      `add_hook ${hook.event}`,
+    );
+  }
+
+  async updateHook(
+    extensionId: string,
+    event: string,
+    changes: Partial<HookDef>,
+    validator?: CodeValidator,
+    index?: number,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    const idx = this.findHook(ext, event, index);
+    const hooks = [...ext.hooks];
+    hooks[idx] = { ...hooks[idx], ...changes };
+    return this.writeExtension(
+      { ...ext, hooks },
+      validator,
+      `update_hook ${event}`,
+    );
+  }
+
+  async removeHook(
+    extensionId: string,
+    event: string,
+    validator?: CodeValidator,
+    index?: number,
+  ): Promise<{ path: string; validation: ValidationResult }> {
+    const ext = this.editableExtension(extensionId);
+    const idx = this.findHook(ext, event, index);
+    return this.writeExtension(
+      { ...ext, hooks: ext.hooks.filter((_, i) => i !== idx) },
+      validator,
+      `remove_hook ${event}`,
+    );
   }
 
   // ── Skill Writing (OpenClaw/AgentSkills-compatible) ─────────────────────────
 
   writeSkill(def: Omit<SkillDef, "createdAt">): string {
+    if (def.authHeaders) {
+      def = {
+        ...def,
+        authHeaders: this.sealAuthHeaders(def.name, def.authHeaders),
+      };
+    }
     const full: SkillDef = { ...def, createdAt: new Date().toISOString() };
     const skillDir = join(
       this.skillsDir,
@@ -974,81 +1643,27 @@ class CodeWriter {
     // Build skill content
     let content = def.content || "";
 
-    // If legacy API-based skill, generate content from endpoints
+    // API-based skill: generate content and api.ts from endpoints
     if (def.baseUrl && def.endpoints && def.endpoints.length > 0) {
-      const endpointsDoc = def.endpoints
-        .map((e) => `- \`${e.method} ${e.path}\` — ${e.description}`)
-        .join("\n");
-
-      content = `## Endpoints
-
-${endpointsDoc}
-
-## Usage
-
-\`\`\`typescript
-import { ${toPascalCase(def.name)}Client } from "./api";
-
-const client = new ${toPascalCase(def.name)}Client();
-// Use the client methods...
-\`\`\`
-
-## Auth
-
-${def.authHeaders ? "Auth headers stored in auth.json" : "No auth required"}`;
-
-      // Generate api.ts for API-based skills
-      const methods = def.endpoints
-        .map((e) => {
-          const methodName = toMethodName(e.method, e.path);
-          const pathParams = (e.path.match(/\{(\w+)\}/g) || []).map((p) =>
-            p.slice(1, -1),
-          );
-
-          let methodCode = `  async ${methodName}(`;
-          if (pathParams.length > 0) {
-            methodCode += pathParams.map((p) => `${p}: string`).join(", ");
-          }
-          if (e.method !== "GET" && e.method !== "DELETE") {
-            methodCode += pathParams.length > 0 ? ", body?: any" : "body?: any";
-          }
-          methodCode += `) {\n`;
-
-          let urlCode = `\`\${BASE_URL}${e.path}\``;
-          for (const p of pathParams) {
-            urlCode = urlCode.replace(`{${p}}`, `\${${p}}`);
-          }
-
-          methodCode += `    const url = ${urlCode};\n`;
-          methodCode += `    const res = await fetch(url, {\n`;
-          methodCode += `      method: "${e.method}",\n`;
-          methodCode += `      headers: this.headers,\n`;
-          if (e.method !== "GET" && e.method !== "DELETE") {
-            methodCode += `      body: body ? JSON.stringify(body) : undefined,\n`;
-          }
-          methodCode += `    });\n`;
-          methodCode += `    return res.json();\n`;
-          methodCode += `  }\n`;
-
-          return methodCode;
-        })
-        .join("\n");
-
-      const apiTs = API_CLIENT_TEMPLATE.replace(/\{\{NAME\}\}/g, def.name)
-        .replace(/\{\{BASE_URL\}\}/g, def.baseUrl)
-        .replace(/\{\{CLIENT_NAME\}\}/g, toPascalCase(def.name) + "Client")
-        .replace(/\{\{METHODS\}\}/g, methods);
-
-      writeFileSync(join(skillDir, "api.ts"), apiTs);
-
-      // Save auth if provided
-      if (def.authHeaders) {
-        writeFileSync(
-          join(skillDir, "auth.json"),
-          JSON.stringify({ headers: def.authHeaders }, null, 2),
-        );
-      }
+      const apiDef = {
+        ...def,
+        baseUrl: def.baseUrl,
+        endpoints: def.endpoints,
+      };
+      content = emitApiSkillContent(apiDef);
+      writeFileSync(join(skillDir, "api.ts"), emitApiClient(apiDef));
+    } else if (def.graphql) {
+      const graphqlDef = {
+        name: def.name,
+        description: def.description,
+        ...def.graphql,
+        authHeaders: def.authHeaders,
+      };
+      content = emitGraphQLSkillContent(graphqlDef);
+      writeFileSync(join(skillDir, "api.ts"), emitGraphQLClient(graphqlDef));
     }
+    // Credentials live in the secret store; drop plaintext from older versions
+    rmSync(join(skillDir, "auth.json"), { force: true });
 
     // Generate SKILL.md with proper OpenClaw/AgentSkills format
     const skillMd = SKILL_TEMPLATE.replace(/\{\{NAME\}\}/g, def.name)
@@ -1062,6 +1677,7 @@ ${def.authHeaders ? "Auth headers stored in auth.json" : "No auth required"}`;
     if (idx >= 0) this.manifest.skills[idx] = full;
     else this.manifest.skills.push(full);
     this.saveManifest();
+    this.versions.snapshot("skill", def.name, skillDir, full, "write");
 
     this.logger?.info(`[foundry] Wrote skill: ${def.name}`);
     return skillDir;
@@ -1093,19 +1709,58 @@ ${def.authHeaders ? "Auth headers stored in auth.json" : "No auth required"}`;
 
     const frontmatter = frontmatterLines.join("\n") + "\n";
 
+    // Structured actions are stored for foundry_run_browser_action
+    const replayable: BrowserActionDef[] = (def.actions || [])
+      .filter((a) => isStructured(a.steps))
+      .map((a) => ({
+        name: a.name,
+        description: a.description,
+        ...(a.params?.length ? { params: a.params } : {}),
+        steps: a.steps as BrowserStep[],
+      }));
+    const actionsPath = join(skillDir, BROWSER_ACTIONS_FILE);
+    if (replayable.length > 0) {
+      const file: BrowserActionsFile = {
+        version: 1,
+        targetUrl: def.targetUrl,
+        actions: replayable,
+      };
+      writeFileSync(actionsPath, JSON.stringify(file, null, 2) + "\n");
+    } else if (existsSync(actionsPath)) {
+      rmSync(actionsPath);
+    }
+
     // Build actions content
     let actionsContent = "";
     if (def.actions && def.actions.length > 0) {
       actionsContent = "### Documented Actions\n\n";
       for (const action of def.actions) {
         actionsContent += `#### ${action.name}\n\n${action.description}\n\n`;
+        const structured = isStructured(action.steps);
+        if (structured && action.params?.length) {
+          actionsContent += `Params: ${action.params.map((p) => `\`${p}\``).join(", ")}\n\n`;
+        }
         if (action.steps && action.steps.length > 0) {
           actionsContent += "Steps:\n";
           action.steps.forEach((step, i) => {
-            actionsContent += `${i + 1}. ${step}\n`;
+            const line = typeof step === "string" ? step : describeStep(step);
+            actionsContent += `${i + 1}. ${line}\n`;
           });
           actionsContent += "\n";
         }
+        if (structured) {
+          const params = (action.params || [])
+            .map((p) => `${p}: "..."`)
+            .join(", ");
+          actionsContent +=
+            `Replay: \`foundry_run_browser_action({ skill: "${def.name}", action: "${action.name}"` +
+            `${params ? `, params: { ${params} }` : ""} })\`\n\n`;
+        }
+      }
+      if (replayable.length > 0) {
+        actionsContent +=
+          `Structured steps are stored in \`{baseDir}/${BROWSER_ACTIONS_FILE}\`. ` +
+          "To perform them by hand, open the page, snapshot, and act on the element matching each selector.\n\n";
       }
     }
 
@@ -1137,16 +1792,46 @@ ${def.authHeaders ? "Auth headers stored in auth.json" : "No auth required"}`;
 
     writeFileSync(join(skillDir, "SKILL.md"), skillMd);
 
+    const record: SkillDef = {
+      name: def.name,
+      description: def.description,
+      metadata,
+      ...(replayable.length > 0
+        ? { browser: { targetUrl: def.targetUrl, actions: replayable } }
+        : {}),
+      content: fullContent,
+      createdAt: def.createdAt || new Date().toISOString(),
+      provenance: def.provenance,
+    };
+    const idx = this.manifest.skills.findIndex((s) => s.name === def.name);
+    if (idx >= 0) this.manifest.skills[idx] = record;
+    else this.manifest.skills.push(record);
+    this.saveManifest();
+    this.versions.snapshot("skill", def.name, skillDir, record, "write");
+
     this.logger?.info(`[foundry] Wrote browser skill: ${def.name}`);
     return skillDir;
   }
 
   // ── Hook Writing ──────────────────────────────────────────────────────────
 
-  writeHook(def: OpenClawHookDef): string {
+  /**
+   * Write a standalone hook. Like extensions, the handler is validated and
+   * scanned, then staged and run in the sandbox against a mock of every
+   * declared event; nothing is installed unless all of them pass.
+   */
+  async writeHook(
+    def: OpenClawHookDef,
+    validator?: CodeValidator,
+  ): Promise<{
+    path: string;
+    validation: ValidationResult;
+    sandbox: HookSandboxResult[];
+  }> {
     const hooksDir = join(homedir(), ".openclaw", "hooks");
     const hookDir = join(hooksDir, def.name.toLowerCase().replace(/\s+/g, "-"));
-    if (!existsSync(hookDir)) mkdirSync(hookDir, { recursive: true });
+
+    const catalog = this.checkHookEvents(def.events);
 
     // Build metadata - events go at openclaw level per hook spec
     const metadata: Record<string, any> = def.metadata || {};
@@ -1172,703 +1857,1648 @@ ${def.authHeaders ? "Auth headers stored in auth.json" : "No auth required"}`;
           : "No custom behavior defined.",
       );
 
-    writeFileSync(join(hookDir, "HOOK.md"), hookMd);
-
     // Generate handler.ts
     const handlerCode =
       def.code ||
       `const handler: HookHandler = async (event: HookEvent) => {
   // Event type: ${eventsStr}
-  console.log("[${def.name}] Hook triggered:", event.type, event.action);
+  const context = event.context as HookContext;
+  console.log("[${def.name}] Hook triggered:", event.type, event.action, Object.keys(context));
 };`;
 
     const handlerTs = HOOK_HANDLER_TEMPLATE.replace(/\{\{NAME\}\}/g, def.name)
       .replace(/\{\{EVENTS\}\}/g, eventsStr)
+      .replace(
+        /\{\{CONTEXT_TYPE\}\}/g,
+        catalog.standaloneContextType(def.events),
+      )
       .replace(/\{\{CODE\}\}/g, handlerCode);
 
-    writeFileSync(join(hookDir, "handler.ts"), handlerTs);
+    const stagingDir = join(
+      this.dataDir,
+      "staging",
+      `hook_${basename(hookDir)}_${Date.now()}`,
+    );
+    let checked: { validation: ValidationResult; sandbox: HookSandboxResult[] };
+    try {
+      mkdirSync(stagingDir, { recursive: true });
+      writeFileSync(join(stagingDir, "HOOK.md"), hookMd);
+      writeFileSync(join(stagingDir, "handler.ts"), handlerTs);
+      checked = await this.checkStagedHook(
+        def.name,
+        stagingDir,
+        def.events,
+        validator,
+      );
+      moveIntoPlace(stagingDir, hookDir);
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+    }
+    const { validation, sandbox } = checked;
+
+    const record: HookRecord = {
+      name: def.name,
+      kind: "openclaw",
+      path: hookDir,
+      events: def.events,
+      createdAt: def.createdAt || new Date().toISOString(),
+      provenance: def.provenance,
+    };
+    this.recordHook(record);
+    this.versions.snapshot("hook", def.name, hookDir, record, "write");
 
     this.logger?.info(`[foundry] Wrote hook: ${def.name}`);
-    return hookDir;
+    return { path: hookDir, validation, sandbox };
   }
 
-  // ── Getters ───────────────────────────────────────────────────────────────
-
-  getExtensions(): ExtensionDef[] {
-    return this.manifest.extensions;
+  /**
+   * Check declared hook events against the catalog for standalone hooks.
+   */
+  private checkHookEvents(events: unknown): HookEventCatalog {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error("Hook validation failed: no events declared");
+    }
+    const catalog = this.hookEvents();
+    try {
+      for (const event of events) catalog.validate(event, "standalone");
+    } catch (err: any) {
+      throw new Error(`Hook validation failed: ${err.message}`);
+    }
+    return catalog;
   }
 
-  getSkills(): SkillDef[] {
-    return this.manifest.skills;
+  /**
+   * Validate and scan a staged hook's handler, then fire every declared event
+   * at it in the sandbox. Throws when anything fails.
+   */
+  private async checkStagedHook(
+    name: string,
+    stagingDir: string,
+    events: string[],
+    validator?: CodeValidator,
+  ): Promise<{ validation: ValidationResult; sandbox: HookSandboxResult[] }> {
+    let validation: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+      securityFlags: [],
+    };
+    if (!validator) return { validation, sandbox: [] };
+
+    const handlerPath = join(stagingDir, "handler.ts");
+    const handlerTs = existsSync(handlerPath)
+      ? readFileSync(handlerPath, "utf-8")
+      : "";
+    validation = await validator.validate(handlerTs, "module");
+    if (!/\b(?:const|let|var|function)\s+handler\b/.test(handlerTs)) {
+      validation.errors.push("Hook code must define a `handler` function");
+      validation.valid = false;
+    }
+    if (!validation.valid) {
+      this.logger?.info(
+        `[foundry] Hook ${name} BLOCKED: ${validation.errors.join(", ")}`,
+      );
+      throw new Error(
+        `Code validation failed: ${validation.errors.join(", ")}`,
+      );
+    }
+    if (validation.warnings.length > 0) {
+      this.logger?.info(
+        `[foundry] Hook ${name} warnings: ${validation.warnings.join(", ")}`,
+      );
+    }
+
+    // Fire every declared event at the staged handler BEFORE installing
+    const run = await validator.testHookInSandbox(
+      handlerPath,
+      events,
+      join(this.dataDir, "sandbox"),
+    );
+    if (!run.success) {
+      this.logger?.info(`[foundry] Hook ${name} SANDBOX FAILED: ${run.error}`);
+      throw new Error(`Sandbox test failed: ${run.error}`);
+    }
+    const failed = run.results.filter((r) => !r.ok);
+    if (failed.length > 0) {
+      const error = failed.map((r) => `${r.event}: ${r.error}`).join("; ");
+      this.logger?.info(`[foundry] Hook ${name} SANDBOX FAILED: ${error}`);
+      throw new Error(`Sandbox test failed: ${error}`);
+    }
+    this.logger?.info(`[foundry] Hook ${name} passed sandbox test`);
+    return { validation, sandbox: run.results };
   }
 
-  getExtension(id: string): ExtensionDef | undefined {
-    return this.manifest.extensions.find((e) => e.id === id);
+  /**
+   * Add or replace a standalone hook in the manifest.
+   */
+  recordHook(record: HookRecord): void {
+    const idx = this.manifest.hooks.findIndex(
+      (h) => h.name === record.name && h.kind === record.kind,
+    );
+    if (idx >= 0) this.manifest.hooks[idx] = record;
+    else this.manifest.hooks.push(record);
+    this.saveManifest();
   }
-}
 
-// ── Learning Engine ─────────────────────────────────────────────────────────
+  // ── History ───────────────────────────────────────────────────────────────
 
-class LearningEngine {
-  private learningsPath: string;
-  private pendingSessionPath: string;
-  private metricsPath: string;
-  private outcomesPath: string;
-  private insightsPath: string;
-  private workflowsPath: string;
-  private workflowPatternsPath: string;
-  private learnings: LearningEntry[] = [];
-  private pendingSession: PendingSession | null = null;
-  private toolMetrics: Map<string, ToolMetrics> = new Map();
-  private overseerInterval: NodeJS.Timeout | null = null;
-  private lastOverseerReport: OverseerReport | null = null;
-  // Outcome-based learning
-  private outcomes: TaskOutcome[] = [];
-  private taskTypeInsights: Map<string, TaskTypeInsights> = new Map();
-  private feedbackCollectionInterval: NodeJS.Timeout | null = null;
-  // Workflow learning
-  private workflows: WorkflowEntry[] = [];
-  private workflowPatterns: Map<string, WorkflowPattern> = new Map();
-  private currentWorkflow: {
-    goal: string;
-    tools: string[];
-    startedAt: number;
-  } | null = null;
+  /**
+   * Directory an artifact is written to, or undefined if it isn't in the manifest.
+   */
+  artifactPath(kind: VersionedKind, id: string): string | undefined {
+    if (kind === "extension") return join(this.extensionsDir, id);
+    if (kind === "skill") {
+      return join(this.skillsDir, id.toLowerCase().replace(/\s+/g, "-"));
+    }
+    return this.manifest.hooks.find(
+      (h) => h.name === id && h.kind === "openclaw",
+    )?.path;
+  }
 
-  constructor(
-    private dataDir: string,
-    private logger?: {
-      info: (msg: string) => void;
-      warn?: (msg: string) => void;
-    },
-  ) {
-    this.learningsPath = join(dataDir, "learnings.json");
-    this.pendingSessionPath = join(dataDir, "pending-session.json");
-    this.metricsPath = join(dataDir, "metrics.json");
-    this.outcomesPath = join(dataDir, "outcomes.json");
-    this.insightsPath = join(dataDir, "task-insights.json");
-    this.workflowsPath = join(dataDir, "workflows.json");
-    this.workflowPatternsPath = join(dataDir, "workflow-patterns.json");
+  /**
+   * Kind of the written artifact with this ID (extensions first).
+   */
+  findArtifactKind(id: string): VersionedKind | undefined {
+    if (this.manifest.extensions.some((e) => e.id === id)) return "extension";
+    if (this.manifest.skills.some((s) => s.name === id)) return "skill";
+    if (this.manifest.hooks.some((h) => h.name === id && h.kind === "openclaw"))
+      return "hook";
+    // Removed from the manifest but still has history
+    return (["extension", "skill", "hook"] as const).find(
+      (kind) => this.versions.list(kind, id).length > 0,
+    );
+  }
 
-    if (!existsSync(dataDir)) mkdirSync(dataDir, { recursive: true });
-    this.loadLearnings();
-    this.loadPendingSession();
-    this.loadOutcomes();
-    this.loadMetrics();
-    this.loadWorkflows();
+  getHistory(kind: VersionedKind, id: string): VersionInfo[] {
+    return this.versions.list(kind, id);
   }
 
-  private loadMetrics(): void {
-    if (existsSync(this.metricsPath)) {
-      try {
-        const data = JSON.parse(readFileSync(this.metricsPath, "utf-8"));
-        this.toolMetrics = new Map(Object.entries(data));
-      } catch {
-        this.toolMetrics = new Map();
+  diffVersions(
+    kind: VersionedKind,
+    id: string,
+    from: number,
+    to: number,
+  ): string {
+    return this.versions.diff(kind, id, from, to);
+  }
+
+  /**
+   * Restore version N of an artifact. The version goes through the same
+   * checks as a fresh write before anything is overwritten: extensions are
+   * reinstalled via `installPackage`, skill code is validated and scanned,
+   * and hooks are validated and sandboxed against their events. The restore
+   * itself is recorded as a new version. `skipped` lists files the version
+   * didn't store (over 1 MB), which the restore couldn't bring back.
+   */
+  async rollback(
+    kind: VersionedKind,
+    id: string,
+    version: number,
+    validator?: CodeValidator,
+  ): Promise<{
+    path: string;
+    version: number;
+    validation?: ValidationResult;
+    sandbox?: HookSandboxResult[];
+    skipped?: string[];
+  }> {
+    const snapshot = this.versions.get(kind, id, version);
+    if (!snapshot)
+      throw new Error(`Version ${version} of ${kind} "${id}" not found`);
+
+    const path =
+      this.artifactPath(kind, id) ||
+      join(
+        homedir(),
+        ".openclaw",
+        "hooks",
+        id.toLowerCase().replace(/\s+/g, "-"),
+      );
+
+    let validation: ValidationResult | undefined;
+    let sandbox: HookSandboxResult[] | undefined;
+    if (kind === "extension") {
+      if (snapshot.contents["index.ts"] === undefined)
+        throw new Error(`Version ${version} of "${id}" has no index.ts`);
+      // Reinstalls dependencies, since node_modules isn't part of a version
+      validation = await this.installPackage(
+        id,
+        snapshot.contents,
+        path,
+        validator,
+      );
+    } else if (kind === "hook") {
+      if (snapshot.contents["handler.ts"] === undefined)
+        throw new Error(`Version ${version} of "${id}" has no handler.ts`);
+      const events = (snapshot.entry as HookRecord).events ?? [];
+      this.checkHookEvents(events);
+      ({ validation, sandbox } = await this.restoreStaged(
+        kind,
+        id,
+        version,
+        path,
+        (stagingDir) => this.checkStagedHook(id, stagingDir, events, validator),
+      ));
+    } else {
+      validation = await this.restoreStaged(kind, id, version, path, () =>
+        this.checkSkillCode(id, snapshot.contents, validator),
+      );
+    }
+
+    if (kind === "extension") {
+      const entry = snapshot.entry as ExtensionDef;
+      const idx = this.manifest.extensions.findIndex((e) => e.id === id);
+      if (idx >= 0) this.manifest.extensions[idx] = entry;
+      else this.manifest.extensions.push(entry);
+    } else if (kind === "skill") {
+      let entry = snapshot.entry as SkillDef;
+      if (entry.authHeaders) {
+        // Never bring plaintext credentials back from an old version
+        entry = {
+          ...entry,
+          authHeaders: this.sealAuthHeaders(id, entry.authHeaders, true),
+        };
+        snapshot.entry = entry;
       }
+      const idx = this.manifest.skills.findIndex((s) => s.name === id);
+      if (idx >= 0) this.manifest.skills[idx] = entry;
+      else this.manifest.skills.push(entry);
+    } else {
+      this.recordHook({ ...(snapshot.entry as HookRecord), path });
     }
+    this.saveManifest();
+
+    const newVersion = this.versions.snapshot(
+      kind,
+      id,
+      path,
+      snapshot.entry,
+      `rollback to v${version}`,
+    );
+    this.logger?.info(
+      `[foundry] Rolled back ${kind} ${id} to v${version} (now v${newVersion})`,
+    );
+    return {
+      path,
+      version: newVersion,
+      validation,
+      sandbox,
+      skipped: snapshot.skipped,
+    };
   }
 
-  private saveMetrics(): void {
-    const obj = Object.fromEntries(this.toolMetrics);
-    writeFileSync(this.metricsPath, JSON.stringify(obj, null, 2));
+  /**
+   * Restore a skill or hook version into a staged copy of `targetDir`, run
+   * `check` against the staged files, then swap it in. Files a version never
+   * holds (secret files, node_modules) carry over from the current directory,
+   * as with an in-place restore. Throws, leaving `targetDir` untouched, when
+   * the check fails.
+   */
+  private async restoreStaged<T>(
+    kind: VersionedKind,
+    id: string,
+    version: number,
+    targetDir: string,
+    check: (stagingDir: string) => Promise<T>,
+  ): Promise<T> {
+    const stagingDir = join(
+      this.dataDir,
+      "staging",
+      `${kind}_${basename(targetDir)}_${Date.now()}`,
+    );
+    try {
+      if (existsSync(targetDir)) {
+        cpSync(targetDir, stagingDir, { recursive: true });
+      }
+      this.versions.restore(kind, id, version, stagingDir);
+      const result = await check(stagingDir);
+      moveIntoPlace(stagingDir, targetDir);
+      return result;
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+    }
   }
 
-  // ADAS: Record tool execution for fitness tracking
-  recordToolExecution(
-    toolName: string,
-    success: boolean,
-    latencyMs: number,
-  ): void {
-    let metrics = this.toolMetrics.get(toolName);
-    if (!metrics) {
-      metrics = {
-        toolName,
-        successCount: 0,
-        failureCount: 0,
-        totalLatencyMs: 0,
-        fitness: 0.5,
-      };
+  /**
+   * Validate and scan a skill's code files (the generated api.ts, scripts).
+   * Throws when validation fails.
+   */
+  private async checkSkillCode(
+    name: string,
+    files: Record<string, Buffer>,
+    validator?: CodeValidator,
+  ): Promise<ValidationResult> {
+    const validation: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: [],
+      securityFlags: [],
+    };
+    if (!validator) return validation;
+    await this.validateModules(files, validator, validation);
+    if (!validation.valid) {
+      this.logger?.info(
+        `[foundry] Skill ${name} BLOCKED: ${validation.errors.join(", ")}`,
+      );
+      throw new Error(
+        `Code validation failed: ${validation.errors.join(", ")}`,
+      );
     }
-    if (success) metrics.successCount++;
-    else metrics.failureCount++;
-    metrics.totalLatencyMs += latencyMs;
-    metrics.fitness =
-      metrics.successCount / (metrics.successCount + metrics.failureCount);
-    this.toolMetrics.set(toolName, metrics);
-    this.saveMetrics();
+    return validation;
   }
 
-  getToolFitness(toolName: string): number {
-    return this.toolMetrics.get(toolName)?.fitness ?? 0.5;
+  // ── Removal ───────────────────────────────────────────────────────────────
+
+  /**
+   * What removing an artifact would delete. Crystallized hooks are also found
+   * by file name under `dataDir/hooks` (overseer-written ones aren't in the
+   * manifest). A directory with no manifest entry is only planned with
+   * `force`; otherwise this throws. Returns undefined when nothing matches.
+   */
+  planRemoval(
+    id: string,
+    kind?: VersionedKind,
+    force = false,
+  ): RemovalPlan | undefined {
+    const existing = (paths: string[]) => paths.filter((p) => existsSync(p));
+    const unmanaged = (dir: string) => {
+      if (!force)
+        throw new Error(
+          `\`${dir}\` is not managed by foundry; pass force to remove it anyway`,
+        );
+    };
+
+    if (!kind || kind === "extension") {
+      const ext = this.manifest.extensions.find((e) => e.id === id);
+      const dir = childPath(this.extensionsDir, id);
+      if (ext || (kind === "extension" && existsSync(dir))) {
+        if (!ext) unmanaged(dir);
+        return {
+          kind: "extension",
+          id,
+          paths: existing([dir]),
+          inManifest: !!ext,
+          linkedIds: [id, ...(ext?.tools.map((t) => t.name) || [])],
+        };
+      }
+    }
+    if (!kind || kind === "skill") {
+      const skill = this.manifest.skills.find((s) => s.name === id);
+      const dir = childPath(
+        this.skillsDir,
+        id.toLowerCase().replace(/\s+/g, "-"),
+      );
+      if (skill || (kind === "skill" && existsSync(dir))) {
+        if (!skill) unmanaged(dir);
+        return {
+          kind: "skill",
+          id,
+          paths: existing([dir]),
+          inManifest: !!skill,
+          linkedIds: [id],
+        };
+      }
+    }
+    if (!kind || kind === "hook") {
+      const hook = this.manifest.hooks.find((h) => h.name === id);
+      const crystallizedPath = `${childPath(join(this.dataDir, "hooks"), id)}.ts`;
+      if (hook) {
+        return {
+          kind: "hook",
+          id,
+          hookKind: hook.kind,
+          paths: existing([hook.path]),
+          inManifest: true,
+          linkedIds: [id],
+        };
+      }
+      if (existsSync(crystallizedPath)) {
+        return {
+          kind: "hook",
+          id,
+          hookKind: "crystallized",
+          paths: [crystallizedPath],
+          inManifest: false,
+          linkedIds: [id],
+        };
+      }
+    }
+    return undefined;
   }
 
-  getAllToolMetrics(): ToolMetrics[] {
-    return Array.from(this.toolMetrics.values());
+  /**
+   * Delete an artifact's files and manifest entry. Version history is kept so
+   * the artifact can still be restored with `rollback`.
+   */
+  remove(plan: RemovalPlan): void {
+    for (const path of plan.paths)
+      rmSync(path, { recursive: true, force: true });
+
+    if (plan.kind === "extension") {
+      this.manifest.extensions = this.manifest.extensions.filter(
+        (e) => e.id !== plan.id,
+      );
+    } else if (plan.kind === "skill") {
+      this.manifest.skills = this.manifest.skills.filter(
+        (s) => s.name !== plan.id,
+      );
+    } else {
+      this.manifest.hooks = this.manifest.hooks.filter(
+        (h) => !(h.name === plan.id && h.kind === plan.hookKind),
+      );
+    }
+    if (plan.inManifest) this.saveManifest();
+    this.logger?.info(`[foundry] Removed ${plan.kind}: ${plan.id}`);
   }
 
-  private loadLearnings(): void {
-    if (existsSync(this.learningsPath)) {
-      try {
-        const data = JSON.parse(readFileSync(this.learningsPath, "utf-8"));
-        // Ensure learnings is always an array
-        this.learnings = Array.isArray(data) ? data : [];
-      } catch {
-        this.learnings = [];
+  // ── Drift Reconciliation ──────────────────────────────────────────────────
+
+  /**
+   * Compare the manifest with what is on disk. An artifact is "modified" when
+   * its files differ from its latest recorded version; entries without any
+   * version yet get a baseline snapshot of their current files instead.
+   * "Unmanaged" covers directories under extensions/, skills/ and hooks/ that
+   * foundry didn't write (minus forgotten ones and foundry's own).
+   */
+  reconcile(): DriftItem[] {
+    const items: DriftItem[] = [];
+    const managed: { kind: VersionedKind; id: string; entry: unknown }[] = [
+      ...this.manifest.extensions.map((e) => ({
+        kind: "extension" as const,
+        id: e.id,
+        entry: e,
+      })),
+      ...this.manifest.skills.map((s) => ({
+        kind: "skill" as const,
+        id: s.name,
+        entry: s,
+      })),
+      ...this.manifest.hooks
+        .filter((h) => h.kind === "openclaw")
+        .map((h) => ({ kind: "hook" as const, id: h.name, entry: h })),
+    ];
+
+    for (const { kind, id, entry } of managed) {
+      const path = this.artifactPath(kind, id)!;
+      if (!existsSync(path)) {
+        items.push({ kind, id, status: "missing", path });
+        continue;
+      }
+      const latest = this.versions.latest(kind, id);
+      if (!latest) {
+        this.versions.snapshot(kind, id, path, entry, "baseline");
+        continue;
       }
+      const files = this.versions.changedFiles(kind, id, latest.version, path);
+      if (files.length > 0)
+        items.push({ kind, id, status: "modified", path, files });
     }
-  }
 
-  private saveLearnings(): void {
-    writeFileSync(this.learningsPath, JSON.stringify(this.learnings, null, 2));
+    const dirs: { kind: VersionedKind; root: string; marker: string }[] = [
+      { kind: "extension", root: this.extensionsDir, marker: "index.ts" },
+      { kind: "skill", root: this.skillsDir, marker: "SKILL.md" },
+      {
+        kind: "hook",
+        root: join(homedir(), ".openclaw", "hooks"),
+        marker: "HOOK.md",
+      },
+    ];
+    for (const { kind, root, marker } of dirs) {
+      if (!existsSync(root)) continue;
+      const known = new Set(
+        managed
+          .filter((m) => m.kind === kind)
+          .map((m) => this.artifactPath(kind, m.id)),
+      );
+      for (const name of readdirSync(root).sort()) {
+        const path = join(root, name);
+        if (
+          name.startsWith(".") ||
+          known.has(path) ||
+          this.manifest.ignored.includes(`${kind}:${name}`) ||
+          !existsSync(join(path, marker)) ||
+          (kind === "extension" && this.isOwnPlugin(path))
+        )
+          continue;
+        items.push({ kind, id: name, status: "unmanaged", path });
+      }
+    }
+    return items;
   }
 
-  private loadPendingSession(): void {
-    if (existsSync(this.pendingSessionPath)) {
+  /**
+   * Whether an extensions/ directory holds foundry itself, whatever name it
+   * was installed under.
+   */
+  private isOwnPlugin(path: string): boolean {
+    for (const file of ["openclaw.plugin.json", "clawdbot.plugin.json"]) {
       try {
-        this.pendingSession = JSON.parse(
-          readFileSync(this.pendingSessionPath, "utf-8"),
-        );
-        this.logger?.info(
-          `[foundry] Found pending session from: ${this.pendingSession?.reason}`,
+        const meta = JSON.parse(readFileSync(join(path, file), "utf-8"));
+        return meta?.id === PLUGIN_ID;
+      } catch {}
+    }
+    return false;
+  }
+
+  /**
+   * Resolve one drift item:
+   * - adopt: accept what is on disk (record local edits as a new version, or
+   *   add an unmanaged artifact to the manifest)
+   * - restore: rewrite the files from the latest version, or regenerate them
+   *   from the manifest entry when there is no history
+   * - forget: drop the manifest entry (files are left alone), or stop
+   *   reporting an unmanaged artifact
+   */
+  async resolveDrift(
+    item: DriftItem,
+    action: "adopt" | "restore" | "forget",
+  ): Promise<string> {
+    const { kind, id, path } = item;
+
+    if (action === "forget") {
+      if (item.status === "unmanaged") {
+        this.manifest.ignored.push(`${kind}:${id}`);
+        this.saveManifest();
+        return `No longer reporting unmanaged ${kind} "${id}".`;
+      }
+      const plan = this.planRemoval(id, kind);
+      if (plan) this.remove({ ...plan, paths: [] });
+      return `Forgot ${kind} "${id}" (files left in place).`;
+    }
+
+    if (action === "restore") {
+      if (item.status === "unmanaged")
+        throw new Error(
+          `"${id}" is not managed by foundry; nothing to restore`,
         );
-      } catch {
-        this.pendingSession = null;
+      const latest = this.versions.latest(kind, id);
+      if (latest) {
+        this.versions.restore(kind, id, latest.version, path);
+        return `Restored ${kind} "${id}" from v${latest.version}.`;
       }
+      if (kind === "extension") {
+        await this.writeExtension(this.getExtension(id)!, undefined, "restore");
+        return `Regenerated extension "${id}" from its manifest entry.`;
+      }
+      if (kind === "skill") {
+        const skill = this.manifest.skills.find((s) => s.name === id)!;
+        this.writeSkill(skill);
+        return `Regenerated skill "${id}" from its manifest entry.`;
+      }
+      throw new Error(`No saved version of hook "${id}" to restore from`);
     }
-  }
 
-  // ── Learning from failures ───────────────────────────────────────────────
-  // RISE (arXiv:2407.18219): Recursive introspection with attempt tracking
+    // adopt
+    if (item.status === "missing")
+      throw new Error(`"${id}" has no files to adopt; use restore or forget`);
+    if (item.status === "modified") {
+      const entry =
+        kind === "extension"
+          ? this.getExtension(id)
+          : kind === "skill"
+            ? this.manifest.skills.find((s) => s.name === id)
+            : this.manifest.hooks.find((h) => h.name === id);
+      const version = this.versions.snapshot(
+        kind,
+        id,
+        path,
+        entry,
+        "adopt local edits",
+      );
+      return `Adopted local edits to ${kind} "${id}" as v${version}.`;
+    }
 
-  private extractErrorSignature(error: string): string {
-    return error
-      .replace(/\d+/g, "N")
-      .replace(/0x[a-f0-9]+/gi, "ADDR")
-      .replace(/["'][^"']*["']/g, "STR")
-      .replace(/at .*:\d+:\d+/g, "at LOCATION")
-      .slice(0, 150);
+    const now = new Date().toISOString();
+    let entry: unknown;
+    let entryId = id;
+    if (kind === "extension") {
+      const manifestFile = ["openclaw.plugin.json", "clawdbot.plugin.json"]
+        .map((f) => join(path, f))
+        .find((f) => existsSync(f));
+      let meta: { id?: string; name?: string; description?: string } = {};
+      try {
+        if (manifestFile)
+          meta = JSON.parse(readFileSync(manifestFile, "utf-8"));
+      } catch {}
+      const ext: ExtensionDef = {
+        id,
+        name: meta.name || id,
+        description: meta.description || "",
+        tools: [],
+        hooks: [],
+        createdAt: now,
+        adoptedAt: now,
+      };
+      this.manifest.extensions.push(ext);
+      entry = ext;
+    } else if (kind === "skill") {
+      const md = readFileSync(join(path, "SKILL.md"), "utf-8");
+      const front = md.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] || "";
+      const field = (key: string) =>
+        front.match(new RegExp(`^${key}:\\s*(.+)$`, "m"))?.[1].trim();
+      const name = field("name");
+      // The manifest keys skills by name, which must map back to this directory
+      entryId =
+        name && name.toLowerCase().replace(/\s+/g, "-") === id ? name : id;
+      const skill: SkillDef = {
+        name: entryId,
+        description: field("description") || "",
+        content: md.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, "").trim(),
+        createdAt: now,
+      };
+      this.manifest.skills.push(skill);
+      entry = skill;
+    } else {
+      const md = readFileSync(join(path, "HOOK.md"), "utf-8");
+      let events: string[] = [];
+      try {
+        const metadata = JSON.parse(
+          md.match(/^metadata:\s*(\{.*\})\s*$/m)?.[1] || "{}",
+        );
+        events = metadata?.openclaw?.events || [];
+      } catch {}
+      const hook: HookRecord = {
+        name: id,
+        kind: "openclaw",
+        path,
+        events,
+        createdAt: now,
+      };
+      this.manifest.hooks.push(hook);
+      entry = hook;
+    }
+    this.saveManifest();
+    const version = this.versions.snapshot(kind, entryId, path, entry, "adopt");
+    return `Adopted unmanaged ${kind} "${entryId}" (v${version}).`;
   }
 
-  findSimilarPattern(tool: string, error: string): LearningEntry | undefined {
-    const signature = this.extractErrorSignature(error);
-    return this.learnings.find(
-      (l) =>
-        l.type === "pattern" &&
-        l.tool === tool &&
-        l.error &&
-        this.extractErrorSignature(l.error) === signature,
-    );
-  }
+  // ── Secrets ───────────────────────────────────────────────────────────────
 
-  private findSimilarFailure(
-    tool: string,
-    error: string,
-  ): LearningEntry | undefined {
-    const signature = this.extractErrorSignature(error);
-    return this.learnings.find(
-      (l) =>
-        l.type === "failure" &&
-        l.tool === tool &&
-        l.error &&
-        this.extractErrorSignature(l.error) === signature,
+  /**
+   * Move plaintext auth header values into the secret store as
+   * `<SKILL>_<HEADER>`, leaving `{{secret:NAME}}` references. Values that
+   * already reference a secret are kept, and a Bearer/Basic/Token prefix
+   * stays in the header template.
+   */
+  private sealAuthHeaders(
+    skillName: string,
+    headers: Record<string, string>,
+    keepExisting = false, // Only reference a secret that is already set
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([header, value]) => {
+        const text = String(value);
+        if (referencedSecrets(text).length > 0) return [header, text];
+        const [, prefix = "", credential] =
+          /^((?:Bearer|Basic|Token)\s+)?([\s\S]*)$/i.exec(text)!;
+        if (!credential) return [header, text];
+        const name = secretName(skillName, header);
+        if (!keepExisting || !this.secrets.has(name)) {
+          this.secrets.set(name, credential);
+        }
+        return [header, prefix + secretRef(name)];
+      }),
     );
   }
 
-  recordFailure(
-    tool: string,
-    error: string,
-    context?: string,
-    executionFeedback?: string,
-  ): string {
-    // RISE: Check for similar past failures to track attempt progression
-    const similar = this.findSimilarFailure(tool, error);
-    const attemptCount = similar ? (similar.attemptCount || 0) + 1 : 1;
-    const trajectory = similar
-      ? [...(similar.improvementTrajectory || []), 0]
-      : [0];
-
-    const id = `fail_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const entry: LearningEntry = {
-      id,
-      type: "failure",
-      tool,
-      error,
-      context,
-      timestamp: new Date().toISOString(),
-      useCount: 0,
-      attemptCount,
-      improvementTrajectory: trajectory,
-      executionFeedback: executionFeedback ? [executionFeedback] : [],
+  /**
+   * One-time migration for data written before auth headers were sealed:
+   * plaintext `authHeaders` in the manifest and in version history, and
+   * `auth.json` files in skill folders and snapshots. Values move into the
+   * secret store; history never overwrites a secret the current skill set.
+   */
+  private migratePlaintextAuth(): void {
+    const marker = join(this.dataDir, ".auth-sealed");
+    if (existsSync(marker)) return;
+    let sealed = 0;
+    const seal = (
+      skillName: string,
+      headers: Record<string, string>,
+      keepExisting: boolean,
+    ) => {
+      const result = this.sealAuthHeaders(skillName, headers, keepExisting);
+      if (JSON.stringify(result) !== JSON.stringify(headers)) sealed++;
+      return result;
     };
-    this.learnings.push(entry);
-    this.saveLearnings();
 
-    if (attemptCount > 1) {
-      this.logger?.info(
-        `[foundry] RISE: Attempt #${attemptCount} for ${tool} - ${error.slice(0, 40)}...`,
+    for (const skill of this.manifest.skills) {
+      if (skill.authHeaders)
+        skill.authHeaders = seal(skill.name, skill.authHeaders, false);
+    }
+
+    // Old writeSkill kept a copy as auth.json ({ headers }) next to SKILL.md
+    const skillDirs = existsSync(this.skillsDir)
+      ? readdirSync(this.skillsDir)
+      : [];
+    for (const dirName of skillDirs) {
+      const authPath = join(this.skillsDir, dirName, "auth.json");
+      if (!existsSync(authPath)) continue;
+      let headers: Record<string, string> | undefined;
+      try {
+        headers = JSON.parse(readFileSync(authPath, "utf-8"))?.headers;
+      } catch {
+        // Unreadable: plaintext either way, so it still goes
+      }
+      const skill = this.manifest.skills.find(
+        (s) =>
+          this.artifactPath("skill", s.name) === join(this.skillsDir, dirName),
       );
-    } else {
+      if (headers && typeof headers === "object") {
+        const refs = seal(
+          skill?.name || dirName,
+          headers,
+          !!skill?.authHeaders,
+        );
+        if (skill) skill.authHeaders ??= refs;
+        else {
+          // Unmanaged skill: keep its headers, as references
+          writeFileSync(authPath, JSON.stringify({ headers: refs }, null, 2));
+          continue;
+        }
+      }
+      rmSync(authPath, { force: true });
+    }
+    if (sealed) this.saveManifest();
+
+    const scrubbed = this.versions.rewrite("skill", (entry, info) => {
+      const secretFiles = info.files.filter((f) =>
+        SECRET_FILES.has(f.split("/").pop()!),
+      );
+      const skill = entry as SkillDef | undefined;
+      const plaintext =
+        skill?.authHeaders &&
+        Object.values(skill.authHeaders).some(
+          (v) => referencedSecrets(String(v)).length === 0,
+        );
+      if (!secretFiles.length && !plaintext) return undefined;
+      return {
+        entry: plaintext
+          ? {
+              ...skill,
+              authHeaders: seal(skill!.name, skill!.authHeaders!, true),
+            }
+          : entry,
+        removeFiles: secretFiles,
+      };
+    });
+
+    mkdirSync(this.dataDir, { recursive: true });
+    writeFileSync(marker, new Date().toISOString());
+    if (sealed || scrubbed) {
       this.logger?.info(
-        `[foundry] Recorded failure: ${tool} - ${error.slice(0, 50)}...`,
+        `[foundry] Sealed plaintext auth headers into the secret store (${sealed} header set(s), ${scrubbed} version(s) scrubbed)`,
       );
     }
-    return id;
   }
 
-  // SelfEvolve: Add interpreter feedback to existing failure
-  addExecutionFeedback(failureId: string, feedback: string): void {
-    const entry = this.learnings.find((l) => l.id === failureId);
-    if (entry) {
-      entry.executionFeedback = entry.executionFeedback || [];
-      entry.executionFeedback.push(feedback);
-      this.saveLearnings();
+  /**
+   * Store OAuth2 client credentials passed with a skill under the names its
+   * client reads (see oauthSecretNames). Returns the names written.
+   */
+  sealOAuthCredentials(
+    skillName: string,
+    credentials: {
+      clientId?: string;
+      clientSecret?: string;
+      refreshToken?: string;
+    },
+  ): string[] {
+    const names = oauthSecretNames(skillName);
+    const written: string[] = [];
+    for (const key of ["clientId", "clientSecret", "refreshToken"] as const) {
+      const value = credentials[key];
+      if (value === undefined || value === "") continue;
+      this.secrets.set(names[key], String(value));
+      written.push(names[key]);
     }
+    return written;
   }
 
-  recordResolution(failureId: string, resolution: string): void {
-    const entry = this.learnings.find((l) => l.id === failureId);
-    if (entry) {
-      entry.resolution = resolution;
-      entry.type = "pattern";
-      // RISE: Mark success in trajectory
-      if (
-        entry.improvementTrajectory &&
-        entry.improvementTrajectory.length > 0
-      ) {
-        const lastIdx = entry.improvementTrajectory.length - 1;
-        entry.improvementTrajectory[lastIdx] = 1.0;
-      }
-      this.saveLearnings();
-      this.logger?.info(
-        `[foundry] Pattern created (attempt #${entry.attemptCount || 1}): ${entry.tool}`,
-      );
-    }
+  getSecretStore(): SecretStore {
+    return this.secrets;
   }
 
-  // HexMachina: Check if pattern should be crystallized
-  // Lowered threshold: any pattern with a resolution can be manually crystallized
-  shouldCrystallize(pattern: LearningEntry): boolean {
-    return (
-      pattern.type === "pattern" &&
-      !pattern.crystallizedTo &&
-      !!pattern.resolution
+  /**
+   * Artifacts that read each secret name: skill auth header and browser
+   * step references, skill auth scheme and OAuth2 credentials (which an env var may also
+   * supply) and extensions' declared `secrets`. `required` is false when
+   * only those env-backed credentials use the name.
+   */
+  secretUsage(): Map<string, { users: string[]; required: boolean }> {
+    const usage = new Map<string, { users: string[]; required: boolean }>();
+    const add = (name: string, user: string, required: boolean) => {
+      const entry = usage.get(name) || { users: [], required: false };
+      if (!entry.users.includes(user)) entry.users.push(user);
+      entry.required ||= required;
+      usage.set(name, entry);
+    };
+    for (const skill of this.manifest.skills) {
+      for (const value of Object.values(skill.authHeaders || {})) {
+        for (const name of referencedSecrets(String(value))) {
+          add(name, `skill ${skill.name}`, true);
+        }
+      }
+      for (const action of skill.browser?.actions || []) {
+        for (const name of referencedSecrets(JSON.stringify(action.steps))) {
+          add(name, `skill ${skill.name}`, true);
+        }
+      }
+      if (skill.baseUrl && skill.endpoints?.length) {
+        for (const scheme of skill.authSchemes || []) {
+          add(
+            credentialEnvVar(skill.name, scheme),
+            `skill ${skill.name}`,
+            false,
+          );
+        }
+        if (skill.oauth) {
+          const names = oauthSecretNames(skill.name);
+          add(names.clientId, `skill ${skill.name}`, false);
+          if (skill.oauth.flow !== "authorization_code") {
+            add(names.clientSecret, `skill ${skill.name}`, false);
+          }
+          if (skill.oauth.flow === "refresh_token") {
+            add(names.refreshToken, `skill ${skill.name}`, false);
+          }
+          add(names.token, `skill ${skill.name}`, false); // Token cache
+        }
+      }
+    }
+    for (const ext of this.manifest.extensions) {
+      for (const name of ext.secrets || [])
+        add(name, `extension ${ext.id}`, true);
+    }
+    return usage;
+  }
+
+  // ── Skill Checks ──────────────────────────────────────────────────────────
+
+  /**
+   * Lint every skill folder in the skills directory (written by foundry,
+   * installed from the marketplace or by hand) and check it against `host`.
+   */
+  lintSkills(host: SkillHost): SkillLintResult[] {
+    if (!existsSync(this.skillsDir)) return [];
+    return readdirSync(this.skillsDir)
+      .sort()
+      .map((name) => join(this.skillsDir, name))
+      .filter((path) => existsSync(join(path, "SKILL.md")))
+      .map((path) => lintSkillDir(path, host));
+  }
+
+  /**
+   * Folder of a skill given as a folder path, or as a skill name / folder in
+   * the skills directory. Undefined if there is no such skill.
+   */
+  findSkillDir(skill: string): string | undefined {
+    const candidates = [
+      skill,
+      join(this.skillsDir, skill),
+      join(this.skillsDir, skill.toLowerCase().replace(/\s+/g, "-")),
+    ];
+    return candidates.find(
+      (path) =>
+        (path !== skill || /[\\/]/.test(skill)) &&
+        existsSync(join(path, "SKILL.md")),
     );
   }
 
-  getCrystallizationCandidates(): LearningEntry[] {
-    return this.learnings.filter((l) => this.shouldCrystallize(l));
+  /** Lint one skill (see `findSkillDir`). */
+  lintSkill(skill: string, host: SkillHost): SkillLintResult | undefined {
+    const dir = this.findSkillDir(skill);
+    return dir ? lintSkillDir(dir, host) : undefined;
   }
 
-  markCrystallized(patternId: string, artifactId: string): void {
-    const entry = this.learnings.find((l) => l.id === patternId);
-    if (entry) {
-      entry.crystallizedTo = artifactId;
-      entry.crystallizedAt = new Date().toISOString();
-      this.saveLearnings();
-      this.logger?.info(
-        `[foundry] HexMachina: Crystallized ${patternId} → ${artifactId}`,
-      );
-    }
+  // ── Getters ───────────────────────────────────────────────────────────────
+
+  getExtensions(): ExtensionDef[] {
+    return this.manifest.extensions;
   }
 
-  // RISE: Calculate pattern effectiveness score
-  calculatePatternScore(entry: LearningEntry): number {
-    let score = entry.useCount || 0;
-    const trajectory = entry.improvementTrajectory || [];
-    if (trajectory.length > 0) {
-      const avgSuccess =
-        trajectory.reduce((a, b) => a + b, 0) / trajectory.length;
-      score += avgSuccess * 5;
-    }
-    if (entry.crystallizedTo) score += 10;
-    return score;
+  getSkills(): SkillDef[] {
+    return this.manifest.skills;
   }
 
-  recordPatternUse(patternId: string): void {
-    const entry = this.learnings.find((l) => l.id === patternId);
-    if (entry) {
-      entry.useCount = (entry.useCount || 0) + 1;
-      this.saveLearnings();
-    }
+  getHooks(): HookRecord[] {
+    return this.manifest.hooks;
   }
 
-  // RISE: Record that a pattern-assisted retry succeeded
-  recordPatternSuccess(patternId: string): void {
-    const entry = this.learnings.find((l) => l.id === patternId);
-    if (entry) {
-      // Update improvement trajectory to show success
-      if (!entry.improvementTrajectory) entry.improvementTrajectory = [];
-      entry.improvementTrajectory.push(1.0);
-      this.saveLearnings();
-      this.logger?.info(
-        `[foundry] RISE: Pattern ${patternId} success recorded (trajectory: ${entry.improvementTrajectory.length})`,
-      );
-    }
+  getExtension(id: string): ExtensionDef | undefined {
+    return this.manifest.extensions.find((e) => e.id === id);
   }
+}
 
-  // RISE: Check if pattern should auto-crystallize based on successful uses
-  shouldAutoCrystallize(pattern: LearningEntry): boolean {
-    if (pattern.crystallizedTo) return false; // Already crystallized
-    if (!pattern.resolution) return false; // No resolution to crystallize
+// ── Learning Engine ─────────────────────────────────────────────────────────
 
-    // Auto-crystallize after 3 successful RISE-assisted retries
-    const trajectory = pattern.improvementTrajectory || [];
-    const successCount = trajectory.filter((v) => v === 1.0).length;
-    return successCount >= 3;
+class LearningEngine {
+  private learningsPath: string;
+  private pendingSessionPath: string;
+  private metricsPath: string;
+  private outcomesPath: string;
+  private insightsPath: string;
+  private workflowsPath: string;
+  private workflowPatternsPath: string;
+  private learnings: LearningEntry[] = [];
+  private pendingSession: PendingSession | null = null;
+  private toolMetrics: Map<string, ToolMetrics> = new Map();
+  private overseerInterval: NodeJS.Timeout | null = null;
+  private lastOverseerReport: OverseerReport | null = null;
+  // Outcome-based learning
+  private outcomes: TaskOutcome[] = [];
+  private taskTypeInsights: Map<string, TaskTypeInsights> = new Map();
+  private feedbackCollectionInterval: NodeJS.Timeout | null = null;
+  // Workflow learning
+  private workflows: WorkflowEntry[] = [];
+  private workflowPatterns: Map<string, WorkflowPattern> = new Map();
+  private currentWorkflow: {
+    goal: string;
+    tools: string[];
+    startedAt: number;
+  } | null = null;
+
+  constructor(
+    private dataDir: string,
+    private logger?: {
+      info: (msg: string) => void;
+      warn?: (msg: string) => void;
+    },
+  ) {
+    this.learningsPath = join(dataDir, "learnings.json");
+    this.pendingSessionPath = join(dataDir, "pending-session.json");
+    this.metricsPath = join(dataDir, "metrics.json");
+    this.outcomesPath = join(dataDir, "outcomes.json");
+    this.insightsPath = join(dataDir, "task-insights.json");
+    this.workflowsPath = join(dataDir, "workflows.json");
+    this.workflowPatternsPath = join(dataDir, "workflow-patterns.json");
+
+    if (!existsSync(dataDir)) mkdirSync(dataDir, { recursive: true });
+    this.loadLearnings();
+    this.loadPendingSession();
+    this.loadOutcomes();
+    this.loadMetrics();
+    this.loadWorkflows();
   }
 
-  // Get a specific pattern by ID
-  getPattern(patternId: string): LearningEntry | undefined {
-    return this.learnings.find((l) => l.id === patternId);
+  private loadMetrics(): void {
+    if (existsSync(this.metricsPath)) {
+      try {
+        const data = JSON.parse(readFileSync(this.metricsPath, "utf-8"));
+        this.toolMetrics = new Map(Object.entries(data));
+      } catch {
+        this.toolMetrics = new Map();
+      }
+    }
   }
 
-  // Get all learnings
-  getAll(): LearningEntry[] {
-    return this.learnings;
+  private saveMetrics(): void {
+    const obj = Object.fromEntries(this.toolMetrics);
+    writeFileSync(this.metricsPath, JSON.stringify(obj, null, 2));
   }
 
-  // Self-Improving Coding Agent: Overseer mechanism
-  // Takes AUTONOMOUS ACTION - not just reporting
-  runOverseer(dataDir?: string): OverseerReport {
-    const report: OverseerReport = {
-      timestamp: new Date().toISOString(),
-      patternsAnalyzed: this.learnings.filter((l) => l.type === "pattern")
-        .length,
-      crystallizationCandidates: this.getCrystallizationCandidates(),
-      recurringFailures: [],
-      evolutionCandidates: [],
-      actionsExecuted: [],
-    };
+  // ADAS: Record tool execution for fitness tracking
+  recordToolExecution(
+    toolName: string,
+    success: boolean,
+    latencyMs: number,
+  ): void {
+    let metrics = this.toolMetrics.get(toolName);
+    if (!metrics) {
+      metrics = {
+        toolName,
+        successCount: 0,
+        failureCount: 0,
+        totalLatencyMs: 0,
+        fitness: 0.5,
+      };
+    }
+    if (success) metrics.successCount++;
+    else metrics.failureCount++;
+    metrics.totalLatencyMs += latencyMs;
+    metrics.fitness =
+      metrics.successCount / (metrics.successCount + metrics.failureCount);
+    this.toolMetrics.set(toolName, metrics);
+    this.saveMetrics();
+  }
 
-    // ADAS: Identify underperforming tools for evolution
-    const EVOLUTION_THRESHOLD = 0.4; // Tools below 40% fitness
-    const MIN_SAMPLES = 5; // Need at least 5 executions
-    for (const [toolName, metrics] of this.toolMetrics) {
-      const totalCalls = metrics.successCount + metrics.failureCount;
-      if (totalCalls >= MIN_SAMPLES && metrics.fitness < EVOLUTION_THRESHOLD) {
-        report.evolutionCandidates.push(metrics);
+  getToolFitness(toolName: string): number {
+    return this.toolMetrics.get(toolName)?.fitness ?? 0.5;
+  }
+
+  getAllToolMetrics(): ToolMetrics[] {
+    return Array.from(this.toolMetrics.values());
+  }
+
+  private loadLearnings(): void {
+    if (existsSync(this.learningsPath)) {
+      try {
+        const data = JSON.parse(readFileSync(this.learningsPath, "utf-8"));
+        // Ensure learnings is always an array
+        this.learnings = Array.isArray(data) ? data : [];
+      } catch {
+        this.learnings = [];
       }
     }
+  }
 
-    // Find recurring failures (same error signature 3+ times without resolution)
-    const failureCounts = new Map<string, LearningEntry[]>();
-    for (const l of this.learnings.filter(
-      (l) => l.type === "failure" && !l.resolution,
-    )) {
-      const sig = `${l.tool}:${this.extractErrorSignature(l.error || "")}`;
-      const existing = failureCounts.get(sig) || [];
-      existing.push(l);
-      failureCounts.set(sig, existing);
-    }
+  private saveLearnings(): void {
+    writeFileSync(this.learningsPath, JSON.stringify(this.learnings, null, 2));
+  }
 
-    for (const [sig, entries] of failureCounts) {
-      if (entries.length >= 3) {
-        report.recurringFailures.push({
-          signature: sig,
-          count: entries.length,
-          entries,
-        });
+  private loadPendingSession(): void {
+    if (existsSync(this.pendingSessionPath)) {
+      try {
+        this.pendingSession = JSON.parse(
+          readFileSync(this.pendingSessionPath, "utf-8"),
+        );
+        this.logger?.info(
+          `[foundry] Found pending session from: ${this.pendingSession?.reason}`,
+        );
+      } catch {
+        this.pendingSession = null;
       }
     }
+  }
 
-    // AUTONOMOUS ACTION 1: Auto-crystallize high-value patterns
-    // Only when we have a dataDir to write hooks to
-    if (dataDir) {
-      const hooksDir = join(dataDir, "hooks");
-      if (!existsSync(hooksDir)) mkdirSync(hooksDir, { recursive: true });
+  // ── Learning from failures ───────────────────────────────────────────────
+  // RISE (arXiv:2407.18219): Recursive introspection with attempt tracking
 
-      for (const candidate of report.crystallizationCandidates) {
-        // Auto-crystallize patterns that have been used 5+ times (very high value)
-        if (candidate.useCount >= 5 && candidate.resolution) {
-          const hookId = `auto_crystallized_${candidate.tool}_${Date.now()}`;
-          const escapedError = (candidate.error || "")
-            .replace(/`/g, "'")
-            .slice(0, 100);
-          const escapedResolution = (candidate.resolution || "")
-            .replace(/`/g, "'")
-            .slice(0, 200);
+  private extractErrorSignature(error: string): string {
+    return error
+      .replace(/\d+/g, "N")
+      .replace(/0x[a-f0-9]+/gi, "ADDR")
+      .replace(/["'][^"']*["']/g, "STR")
+      .replace(/at .*:\d+:\d+/g, "at LOCATION")
+      .slice(0, 150);
+  }
 
-          const hookCode = `
-    // Auto-crystallized by Overseer from pattern: ${candidate.id}
-    api.on("before_tool_call", async (event, ctx) => {
-      if (event.toolName === "${candidate.tool}") {
-        // Original error: ${escapedError}
-        // Learned resolution: ${escapedResolution}
-        if (ctx?.injectSystemMessage) {
-          ctx.injectSystemMessage(\`
-[AUTO-CRYSTALLIZED PATTERN]
-Before calling ${candidate.tool}, apply this learned approach:
-${escapedResolution}
-\`);
-        }
-      }
-    });`;
+  findSimilarPattern(tool: string, error: string): LearningEntry | undefined {
+    const signature = this.extractErrorSignature(error);
+    return this.learnings.find(
+      (l) =>
+        l.type === "pattern" &&
+        l.tool === tool &&
+        l.error &&
+        this.extractErrorSignature(l.error) === signature,
+    );
+  }
 
-          const hookPath = join(hooksDir, `${hookId}.ts`);
-          writeFileSync(hookPath, hookCode);
-          this.markCrystallized(candidate.id, hookId);
-          report.actionsExecuted.push(
-            `Auto-crystallized pattern ${candidate.id} → ${hookId}`,
-          );
-        }
-      }
-    }
+  private findSimilarFailure(
+    tool: string,
+    error: string,
+  ): LearningEntry | undefined {
+    const signature = this.extractErrorSignature(error);
+    return this.learnings.find(
+      (l) =>
+        l.type === "failure" &&
+        l.tool === tool &&
+        l.error &&
+        this.extractErrorSignature(l.error) === signature,
+    );
+  }
 
-    // AUTONOMOUS ACTION 2: Prune stale patterns (no uses in 30 days, never crystallized)
-    const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
-    const stalePruned = this.learnings.filter((l) => {
-      if (l.type !== "pattern" || l.crystallizedTo) return false;
-      const ts = new Date(l.timestamp).getTime();
-      return ts < thirtyDaysAgo && (l.useCount || 0) === 0;
-    });
+  recordFailure(
+    tool: string,
+    error: string,
+    context?: string,
+    executionFeedback?: string,
+  ): string {
+    // RISE: Check for similar past failures to track attempt progression
+    const similar = this.findSimilarFailure(tool, error);
+    const attemptCount = similar ? (similar.attemptCount || 0) + 1 : 1;
+    const trajectory = similar
+      ? [...(similar.improvementTrajectory || []), 0]
+      : [0];
 
-    if (stalePruned.length > 0) {
-      this.learnings = this.learnings.filter((l) => !stalePruned.includes(l));
-      this.saveLearnings();
-      report.actionsExecuted.push(
-        `Pruned ${stalePruned.length} stale patterns`,
+    const id = `fail_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const entry: LearningEntry = {
+      id,
+      type: "failure",
+      tool,
+      error,
+      context,
+      timestamp: new Date().toISOString(),
+      useCount: 0,
+      attemptCount,
+      improvementTrajectory: trajectory,
+      executionFeedback: executionFeedback ? [executionFeedback] : [],
+    };
+    this.learnings.push(entry);
+    this.saveLearnings();
+
+    if (attemptCount > 1) {
+      this.logger?.info(
+        `[foundry] RISE: Attempt #${attemptCount} for ${tool} - ${error.slice(0, 40)}...`,
+      );
+    } else {
+      this.logger?.info(
+        `[foundry] Recorded failure: ${tool} - ${error.slice(0, 50)}...`,
       );
     }
+    return id;
+  }
 
-    // AUTONOMOUS ACTION 3: Consolidate duplicate failures into patterns
-    for (const { signature, count, entries } of report.recurringFailures) {
-      if (count >= 5) {
-        // This failure is recurring enough to warrant attention
-        // Create an insight about it
-        const latest = entries[entries.length - 1];
-        this.recordInsight(
-          `Recurring failure (${count}x): ${signature.slice(0, 80)}`,
-          `Tool: ${latest.tool}, Error: ${latest.error?.slice(0, 100)}`,
-        );
-        report.actionsExecuted.push(
-          `Created insight for recurring failure: ${signature.slice(0, 50)}...`,
-        );
-      }
+  // SelfEvolve: Add interpreter feedback to existing failure
+  addExecutionFeedback(failureId: string, feedback: string): void {
+    const entry = this.learnings.find((l) => l.id === failureId);
+    if (entry) {
+      entry.executionFeedback = entry.executionFeedback || [];
+      entry.executionFeedback.push(feedback);
+      this.saveLearnings();
     }
+  }
 
-    // AUTONOMOUS ACTION 4: Auto-promote known error patterns
-    const autoPromoted = this.autoPromoteKnownPatterns();
-    if (autoPromoted > 0) {
-      report.actionsExecuted.push(`Auto-promoted ${autoPromoted} known error patterns`);
+  recordResolution(failureId: string, resolution: string): void {
+    const entry = this.learnings.find((l) => l.id === failureId);
+    if (entry) {
+      entry.resolution = resolution;
+      entry.type = "pattern";
+      // RISE: Mark success in trajectory
+      if (
+        entry.improvementTrajectory &&
+        entry.improvementTrajectory.length > 0
+      ) {
+        const lastIdx = entry.improvementTrajectory.length - 1;
+        entry.improvementTrajectory[lastIdx] = 1.0;
+      }
+      this.saveLearnings();
+      this.logger?.info(
+        `[foundry] Pattern created (attempt #${entry.attemptCount || 1}): ${entry.tool}`,
+      );
     }
+  }
 
-    this.logger?.info(
-      `[foundry] Overseer: ${report.patternsAnalyzed} patterns, ${report.crystallizationCandidates.length} candidates, ${report.recurringFailures.length} recurring failures, ${report.evolutionCandidates.length} evolution candidates, ${report.actionsExecuted.length} actions taken`,
+  // HexMachina: Check if pattern should be crystallized
+  // Lowered threshold: any pattern with a resolution can be manually crystallized
+  shouldCrystallize(pattern: LearningEntry): boolean {
+    return (
+      pattern.type === "pattern" &&
+      !pattern.crystallizedTo &&
+      !!pattern.resolution
     );
-
-    // Save report for proactive evolution injection
-    this.lastOverseerReport = report;
-    return report;
   }
 
-  getLastOverseerReport(): OverseerReport | null {
-    return this.lastOverseerReport;
+  getCrystallizationCandidates(): LearningEntry[] {
+    return this.learnings.filter((l) => this.shouldCrystallize(l));
   }
 
-  // Start autonomous overseer
-  startOverseer(intervalMs = 60 * 60 * 1000, dataDir?: string): void {
-    if (this.overseerInterval) return;
-    this.overseerInterval = setInterval(() => {
-      this.runOverseer(dataDir);
-    }, intervalMs);
-    this.logger?.info(
-      `[foundry] Autonomous overseer started (interval: ${intervalMs}ms)`,
-    );
+  markCrystallized(patternId: string, artifactId: string): void {
+    const entry = this.learnings.find((l) => l.id === patternId);
+    if (entry) {
+      entry.crystallizedTo = artifactId;
+      entry.crystallizedAt = new Date().toISOString();
+      this.saveLearnings();
+      this.logger?.info(
+        `[foundry] HexMachina: Crystallized ${patternId} → ${artifactId}`,
+      );
+    }
   }
 
-  stopOverseer(): void {
-    if (this.overseerInterval) {
-      clearInterval(this.overseerInterval);
-      this.overseerInterval = null;
+  /**
+   * Point crystallization links at a renamed artifact.
+   */
+  relinkCrystallized(oldId: string, newId: string): void {
+    let changed = false;
+    for (const entry of this.learnings) {
+      if (entry.crystallizedTo !== oldId) continue;
+      entry.crystallizedTo = newId;
+      changed = true;
+    }
+    for (const pattern of this.workflowPatterns.values()) {
+      if (pattern.crystallizedTo !== oldId) continue;
+      pattern.crystallizedTo = newId;
+      changed = true;
+    }
+    if (changed) {
+      this.saveLearnings();
+      this.saveWorkflows();
     }
   }
 
-  // Auto-promote known error patterns with standard resolutions
-  autoPromoteKnownPatterns(): number {
-    const KNOWN_PATTERNS: { match: RegExp; resolution: string }[] = [
-      {
-        match: /Cannot use import statement outside a module/i,
-        resolution: "Use inline code only. Do not use import/require statements. All dependencies must be inlined or use global APIs available in the plugin context.",
-      },
-      {
-        match: /BLOCKED: Child process import/i,
-        resolution: "Do not import child_process, exec, spawn, or execSync. Use HTTP APIs or built-in Node APIs instead of shell commands.",
-      },
-      {
-        match: /BLOCKED: Shell execution/i,
-        resolution: "Do not use exec(), spawn(), or shell commands. Use direct API calls or the plugin SDK methods instead.",
-      },
-      {
-        match: /BLOCKED: Dynamic code execution/i,
-        resolution: "Do not use eval() or new Function(). Use static code patterns only.",
-      },
-      {
-        match: /Sandbox.*failed|runtime.*error/i,
-        resolution: "Ensure all variables are defined before use, handle null/undefined cases, and use try/catch for async operations.",
-      },
-    ];
-
-    let promoted = 0;
-    const unresolved = this.learnings.filter(l => l.type === "failure" && !l.resolution);
-
-    for (const failure of unresolved) {
-      const error = failure.error || "";
-      for (const { match, resolution } of KNOWN_PATTERNS) {
-        if (match.test(error)) {
-          failure.resolution = resolution;
-          failure.type = "pattern";
-          promoted++;
-          this.logger?.info(`[foundry] Auto-promoted pattern: ${error.slice(0, 50)}...`);
-          break;
-        }
-      }
+  /**
+   * Clear crystallization links to removed artifacts so the patterns become
+   * candidates again. Returns the learning/workflow pattern IDs unlinked.
+   */
+  unlinkCrystallized(artifactIds: string[], dryRun = false): string[] {
+    const ids = new Set(artifactIds);
+    const unlinked: string[] = [];
+    for (const entry of this.learnings) {
+      if (!entry.crystallizedTo || !ids.has(entry.crystallizedTo)) continue;
+      unlinked.push(entry.id);
+      if (dryRun) continue;
+      delete entry.crystallizedTo;
+      delete entry.crystallizedAt;
     }
-
-    if (promoted > 0) {
+    for (const pattern of this.workflowPatterns.values()) {
+      if (!pattern.crystallizedTo || !ids.has(pattern.crystallizedTo)) continue;
+      unlinked.push(pattern.id);
+      if (!dryRun) delete pattern.crystallizedTo;
+    }
+    if (!dryRun && unlinked.length > 0) {
       this.saveLearnings();
+      this.saveWorkflows();
     }
-    return promoted;
+    return unlinked;
   }
 
-  recordSuccess(tool: string, context: string): void {
-    const entry: LearningEntry = {
-      id: `success_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      type: "success",
-      tool,
-      context,
-      timestamp: new Date().toISOString(),
-      useCount: 1,
-    };
-    this.learnings.push(entry);
-
-    // Keep only last 100 success entries to avoid bloat
-    const successEntries = this.learnings.filter((l) => l.type === "success");
-    if (successEntries.length > 100) {
-      const oldest = successEntries[0];
-      this.learnings = this.learnings.filter((l) => l.id !== oldest.id);
+  // RISE: Calculate pattern effectiveness score
+  calculatePatternScore(entry: LearningEntry): number {
+    let score = entry.useCount || 0;
+    const trajectory = entry.improvementTrajectory || [];
+    if (trajectory.length > 0) {
+      const avgSuccess =
+        trajectory.reduce((a, b) => a + b, 0) / trajectory.length;
+      score += avgSuccess * 5;
     }
+    if (entry.crystallizedTo) score += 10;
+    return score;
+  }
 
-    this.saveLearnings();
+  recordPatternUse(patternId: string): void {
+    const entry = this.learnings.find((l) => l.id === patternId);
+    if (entry) {
+      entry.useCount = (entry.useCount || 0) + 1;
+      this.saveLearnings();
+    }
   }
 
-  recordInsight(insight: string, context?: string): void {
-    const entry: LearningEntry = {
-      id: `insight_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      type: "insight",
-      context: `${insight}${context ? `\n\nContext: ${context}` : ""}`,
-      timestamp: new Date().toISOString(),
-      useCount: 0,
-    };
-    this.learnings.push(entry);
-    this.saveLearnings();
-    this.logger?.info(`[foundry] Recorded insight: ${insight.slice(0, 50)}...`);
+  // RISE: Record that a pattern-assisted retry succeeded
+  recordPatternSuccess(patternId: string): void {
+    const entry = this.learnings.find((l) => l.id === patternId);
+    if (entry) {
+      // Update improvement trajectory to show success
+      if (!entry.improvementTrajectory) entry.improvementTrajectory = [];
+      entry.improvementTrajectory.push(1.0);
+      this.saveLearnings();
+      this.logger?.info(
+        `[foundry] RISE: Pattern ${patternId} success recorded (trajectory: ${entry.improvementTrajectory.length})`,
+      );
+    }
   }
 
-  // ── Query learnings ──────────────────────────────────────────────────────
-  // RISE: Sort by improvement trajectory success rate
+  // RISE: Check if pattern should auto-crystallize based on successful uses
+  shouldAutoCrystallize(pattern: LearningEntry): boolean {
+    if (pattern.crystallizedTo) return false; // Already crystallized
+    if (!pattern.resolution) return false; // No resolution to crystallize
 
-  findRelevantLearnings(tool?: string, errorPattern?: string): LearningEntry[] {
-    const relevant = this.learnings.filter((l) => {
-      if (tool && l.tool !== tool) return false;
-      if (errorPattern && l.error && !l.error.includes(errorPattern))
-        return false;
-      return l.type === "pattern" || l.type === "insight";
-    });
-    // Sort by RISE effectiveness score
-    return relevant
-      .sort(
-        (a, b) => this.calculatePatternScore(b) - this.calculatePatternScore(a),
-      )
-      .slice(0, 10);
+    // Auto-crystallize after 3 successful RISE-assisted retries
+    const trajectory = pattern.improvementTrajectory || [];
+    const successCount = trajectory.filter((v) => v === 1.0).length;
+    return successCount >= 3;
   }
 
-  getRecentFailures(limit = 5): LearningEntry[] {
-    return this.learnings
-      .filter((l) => l.type === "failure" && !l.resolution)
-      .slice(-limit);
+  // Get a specific pattern by ID
+  getPattern(patternId: string): LearningEntry | undefined {
+    return this.learnings.find((l) => l.id === patternId);
   }
 
-  getPatterns(): LearningEntry[] {
-    return this.learnings.filter((l) => l.type === "pattern");
+  // Get all learnings
+  getAll(): LearningEntry[] {
+    return this.learnings;
   }
 
-  getInsights(): LearningEntry[] {
-    return this.learnings.filter((l) => l.type === "insight");
-  }
+  // Self-Improving Coding Agent: Overseer mechanism
+  // Takes AUTONOMOUS ACTION - not just reporting
+  runOverseer(dataDir?: string): OverseerReport {
+    const report: OverseerReport = {
+      timestamp: new Date().toISOString(),
+      patternsAnalyzed: this.learnings.filter((l) => l.type === "pattern")
+        .length,
+      crystallizationCandidates: this.getCrystallizationCandidates(),
+      recurringFailures: [],
+      evolutionCandidates: [],
+      actionsExecuted: [],
+    };
 
-  getLearningsSummary(): string {
-    const failures = this.learnings.filter((l) => l.type === "failure").length;
-    const patterns = this.learnings.filter((l) => l.type === "pattern").length;
-    const crystallized = this.learnings.filter((l) => l.crystallizedTo).length;
-    const insights = this.learnings.filter((l) => l.type === "insight").length;
-    const successes = this.learnings.filter((l) => l.type === "success").length;
-    const pending = this.getCrystallizationCandidates().length;
+    // ADAS: Identify underperforming tools for evolution
+    const EVOLUTION_THRESHOLD = 0.4; // Tools below 40% fitness
+    const MIN_SAMPLES = 5; // Need at least 5 executions
+    for (const [toolName, metrics] of this.toolMetrics) {
+      const totalCalls = metrics.successCount + metrics.failureCount;
+      if (totalCalls >= MIN_SAMPLES && metrics.fitness < EVOLUTION_THRESHOLD) {
+        report.evolutionCandidates.push(metrics);
+      }
+    }
 
-    return `${patterns} patterns (${crystallized} crystallized, ${pending} pending), ${insights} insights, ${failures} unresolved, ${successes} successes`;
-  }
+    // Find recurring failures (same error signature 3+ times without resolution)
+    const failureCounts = new Map<string, LearningEntry[]>();
+    for (const l of this.learnings.filter(
+      (l) => l.type === "failure" && !l.resolution,
+    )) {
+      const sig = `${l.tool}:${this.extractErrorSignature(l.error || "")}`;
+      const existing = failureCounts.get(sig) || [];
+      existing.push(l);
+      failureCounts.set(sig, existing);
+    }
 
-  // ── Pending session management ───────────────────────────────────────────
+    for (const [sig, entries] of failureCounts) {
+      if (entries.length >= 3) {
+        report.recurringFailures.push({
+          signature: sig,
+          count: entries.length,
+          entries,
+        });
+      }
+    }
 
-  savePendingSession(session: Omit<PendingSession, "createdAt">): void {
-    this.pendingSession = {
-      ...session,
-      createdAt: new Date().toISOString(),
-    };
-    writeFileSync(
-      this.pendingSessionPath,
-      JSON.stringify(this.pendingSession, null, 2),
-    );
-    this.logger?.info(`[foundry] Saved pending session: ${session.reason}`);
-  }
+    // AUTONOMOUS ACTION 1: Auto-crystallize high-value patterns
+    // Only when we have a dataDir to write hooks to
+    if (dataDir) {
+      const hooksDir = join(dataDir, "hooks");
+      if (!existsSync(hooksDir)) mkdirSync(hooksDir, { recursive: true });
 
-  getPendingSession(): PendingSession | null {
-    return this.pendingSession;
-  }
+      for (const candidate of report.crystallizationCandidates) {
+        // Auto-crystallize patterns that have been used 5+ times (very high value)
+        if (candidate.useCount >= 5 && candidate.resolution) {
+          const hookId = `auto_crystallized_${candidate.tool}_${Date.now()}`;
+          const escapedError = (candidate.error || "")
+            .replace(/`/g, "'")
+            .slice(0, 100);
+          const escapedResolution = (candidate.resolution || "")
+            .replace(/`/g, "'")
+            .slice(0, 200);
 
-  clearPendingSession(): void {
-    this.pendingSession = null;
-    if (existsSync(this.pendingSessionPath)) {
-      const fs = require("node:fs");
-      fs.unlinkSync(this.pendingSessionPath);
+          const hookCode = `
+    // Auto-crystallized by Overseer from pattern: ${candidate.id}
+    api.on("before_tool_call", async (event, ctx) => {
+      if (event.toolName === "${candidate.tool}") {
+        // Original error: ${escapedError}
+        // Learned resolution: ${escapedResolution}
+        if (ctx?.injectSystemMessage) {
+          ctx.injectSystemMessage(\`
+[AUTO-CRYSTALLIZED PATTERN]
+Before calling ${candidate.tool}, apply this learned approach:
+${escapedResolution}
+\`);
+        }
+      }
+    });`;
+
+          const hookPath = join(hooksDir, `${hookId}.ts`);
+          writeFileSync(hookPath, hookCode);
+          this.markCrystallized(candidate.id, hookId);
+          report.actionsExecuted.push(
+            `Auto-crystallized pattern ${candidate.id} → ${hookId}`,
+          );
+        }
+      }
     }
-    this.logger?.info(`[foundry] Cleared pending session`);
-  }
 
-  hasPendingSession(): boolean {
-    return this.pendingSession !== null;
-  }
+    // AUTONOMOUS ACTION 2: Prune stale patterns (no uses in 30 days, never crystallized)
+    const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const stalePruned = this.learnings.filter((l) => {
+      if (l.type !== "pattern" || l.crystallizedTo) return false;
+      const ts = new Date(l.timestamp).getTime();
+      return ts < thirtyDaysAgo && (l.useCount || 0) === 0;
+    });
 
-  // ── Outcome-based Learning ────────────────────────────────────────────────
-  // Track real-world feedback signals (e.g., TikTok views, tweet engagement)
+    if (stalePruned.length > 0) {
+      this.learnings = this.learnings.filter((l) => !stalePruned.includes(l));
+      this.saveLearnings();
+      report.actionsExecuted.push(
+        `Pruned ${stalePruned.length} stale patterns`,
+      );
+    }
 
-  private loadOutcomes(): void {
-    try {
-      if (existsSync(this.outcomesPath)) {
-        this.outcomes = JSON.parse(readFileSync(this.outcomesPath, "utf-8"));
-      }
-      if (existsSync(this.insightsPath)) {
-        const insights = JSON.parse(readFileSync(this.insightsPath, "utf-8"));
-        this.taskTypeInsights = new Map(Object.entries(insights));
+    // AUTONOMOUS ACTION 3: Consolidate duplicate failures into patterns
+    for (const { signature, count, entries } of report.recurringFailures) {
+      if (count >= 5) {
+        // This failure is recurring enough to warrant attention
+        // Create an insight about it
+        const latest = entries[entries.length - 1];
+        this.recordInsight(
+          `Recurring failure (${count}x): ${signature.slice(0, 80)}`,
+          `Tool: ${latest.tool}, Error: ${latest.error?.slice(0, 100)}`,
+        );
+        report.actionsExecuted.push(
+          `Created insight for recurring failure: ${signature.slice(0, 50)}...`,
+        );
       }
-    } catch (err) {
-      this.logger?.warn?.(`[foundry] Failed to load outcomes: ${err}`);
     }
-  }
 
-  private saveOutcomes(): void {
-    writeFileSync(this.outcomesPath, JSON.stringify(this.outcomes, null, 2));
-    writeFileSync(
-      this.insightsPath,
-      JSON.stringify(Object.fromEntries(this.taskTypeInsights), null, 2),
+    // AUTONOMOUS ACTION 4: Auto-promote known error patterns
+    const autoPromoted = this.autoPromoteKnownPatterns();
+    if (autoPromoted > 0) {
+      report.actionsExecuted.push(`Auto-promoted ${autoPromoted} known error patterns`);
+    }
+
+    this.logger?.info(
+      `[foundry] Overseer: ${report.patternsAnalyzed} patterns, ${report.crystallizationCandidates.length} candidates, ${report.recurringFailures.length} recurring failures, ${report.evolutionCandidates.length} evolution candidates, ${report.actionsExecuted.length} actions taken`,
     );
+
+    // Save report for proactive evolution injection
+    this.lastOverseerReport = report;
+    return report;
   }
 
-  // Register a task for outcome tracking
-  trackOutcome(
-    taskType: string,
-    taskDescription: string,
-    taskParams: Record<string, any>,
+  getLastOverseerReport(): OverseerReport | null {
+    return this.lastOverseerReport;
+  }
+
+  // Start autonomous overseer
+  startOverseer(intervalMs = 60 * 60 * 1000, dataDir?: string): void {
+    if (this.overseerInterval) return;
+    this.overseerInterval = setInterval(() => {
+      this.runOverseer(dataDir);
+    }, intervalMs);
+    // Runs alongside the gateway; never the reason the process stays up
+    this.overseerInterval.unref();
+    this.logger?.info(
+      `[foundry] Autonomous overseer started (interval: ${intervalMs}ms)`,
+    );
+  }
+
+  stopOverseer(): void {
+    if (this.overseerInterval) {
+      clearInterval(this.overseerInterval);
+      this.overseerInterval = null;
+    }
+  }
+
+  // Auto-promote known error patterns with standard resolutions
+  autoPromoteKnownPatterns(): number {
+    const KNOWN_PATTERNS: { match: RegExp; resolution: string }[] = [
+      {
+        match: /Cannot use import statement outside a module/i,
+        resolution: "Use inline code only. Do not use import/require statements. All dependencies must be inlined or use global APIs available in the plugin context.",
+      },
+      {
+        match: /BLOCKED: Child process import/i,
+        resolution: "Do not import child_process, exec, spawn, or execSync. Use HTTP APIs or built-in Node APIs instead of shell commands.",
+      },
+      {
+        match: /BLOCKED: Shell execution/i,
+        resolution: "Do not use exec(), spawn(), or shell commands. Use direct API calls or the plugin SDK methods instead.",
+      },
+      {
+        match: /BLOCKED: Dynamic code execution/i,
+        resolution: "Do not use eval() or new Function(). Use static code patterns only.",
+      },
+      {
+        match: /Sandbox.*failed|runtime.*error/i,
+        resolution: "Ensure all variables are defined before use, handle null/undefined cases, and use try/catch for async operations.",
+      },
+    ];
+
+    let promoted = 0;
+    const unresolved = this.learnings.filter(l => l.type === "failure" && !l.resolution);
+
+    for (const failure of unresolved) {
+      const error = failure.error || "";
+      for (const { match, resolution } of KNOWN_PATTERNS) {
+        if (match.test(error)) {
+          failure.resolution = resolution;
+          failure.type = "pattern";
+          promoted++;
+          this.logger?.info(`[foundry] Auto-promoted pattern: ${error.slice(0, 50)}...`);
+          break;
+        }
+      }
+    }
+
+    if (promoted > 0) {
+      this.saveLearnings();
+    }
+    return promoted;
+  }
+
+  recordSuccess(tool: string, context: string): void {
+    const entry: LearningEntry = {
+      id: `success_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: "success",
+      tool,
+      context,
+      timestamp: new Date().toISOString(),
+      useCount: 1,
+    };
+    this.learnings.push(entry);
+
+    // Keep only last 100 success entries to avoid bloat
+    const successEntries = this.learnings.filter((l) => l.type === "success");
+    if (successEntries.length > 100) {
+      const oldest = successEntries[0];
+      this.learnings = this.learnings.filter((l) => l.id !== oldest.id);
+    }
+
+    this.saveLearnings();
+  }
+
+  recordInsight(insight: string, context?: string): void {
+    const entry: LearningEntry = {
+      id: `insight_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: "insight",
+      context: `${insight}${context ? `\n\nContext: ${context}` : ""}`,
+      timestamp: new Date().toISOString(),
+      useCount: 0,
+    };
+    this.learnings.push(entry);
+    this.saveLearnings();
+    this.logger?.info(`[foundry] Recorded insight: ${insight.slice(0, 50)}...`);
+  }
+
+  // ── Query learnings ──────────────────────────────────────────────────────
+  // RISE: Sort by improvement trajectory success rate
+
+  findRelevantLearnings(tool?: string, errorPattern?: string): LearningEntry[] {
+    const relevant = this.learnings.filter((l) => {
+      if (tool && l.tool !== tool) return false;
+      if (errorPattern && l.error && !l.error.includes(errorPattern))
+        return false;
+      return l.type === "pattern" || l.type === "insight";
+    });
+    // Sort by RISE effectiveness score
+    return relevant
+      .sort(
+        (a, b) => this.calculatePatternScore(b) - this.calculatePatternScore(a),
+      )
+      .slice(0, 10);
+  }
+
+  getRecentFailures(limit = 5): LearningEntry[] {
+    return this.learnings
+      .filter((l) => l.type === "failure" && !l.resolution)
+      .slice(-limit);
+  }
+
+  getPatterns(): LearningEntry[] {
+    return this.learnings.filter((l) => l.type === "pattern");
+  }
+
+  getInsights(): LearningEntry[] {
+    return this.learnings.filter((l) => l.type === "insight");
+  }
+
+  getLearningsSummary(): string {
+    const failures = this.learnings.filter((l) => l.type === "failure").length;
+    const patterns = this.learnings.filter((l) => l.type === "pattern").length;
+    const crystallized = this.learnings.filter((l) => l.crystallizedTo).length;
+    const insights = this.learnings.filter((l) => l.type === "insight").length;
+    const successes = this.learnings.filter((l) => l.type === "success").length;
+    const pending = this.getCrystallizationCandidates().length;
+
+    return `${patterns} patterns (${crystallized} crystallized, ${pending} pending), ${insights} insights, ${failures} unresolved, ${successes} successes`;
+  }
+
+  // ── Pending session management ───────────────────────────────────────────
+
+  savePendingSession(session: Omit<PendingSession, "createdAt">): void {
+    this.pendingSession = {
+      ...session,
+      createdAt: new Date().toISOString(),
+    };
+    writeFileSync(
+      this.pendingSessionPath,
+      JSON.stringify(this.pendingSession, null, 2),
+    );
+    this.logger?.info(`[foundry] Saved pending session: ${session.reason}`);
+  }
+
+  getPendingSession(): PendingSession | null {
+    return this.pendingSession;
+  }
+
+  clearPendingSession(): void {
+    this.pendingSession = null;
+    if (existsSync(this.pendingSessionPath)) {
+      const fs = require("node:fs");
+      fs.unlinkSync(this.pendingSessionPath);
+    }
+    this.logger?.info(`[foundry] Cleared pending session`);
+  }
+
+  hasPendingSession(): boolean {
+    return this.pendingSession !== null;
+  }
+
+  // ── Outcome-based Learning ────────────────────────────────────────────────
+  // Track real-world feedback signals (e.g., TikTok views, tweet engagement)
+
+  private loadOutcomes(): void {
+    try {
+      if (existsSync(this.outcomesPath)) {
+        this.outcomes = JSON.parse(readFileSync(this.outcomesPath, "utf-8"));
+      }
+      if (existsSync(this.insightsPath)) {
+        const insights = JSON.parse(readFileSync(this.insightsPath, "utf-8"));
+        this.taskTypeInsights = new Map(Object.entries(insights));
+      }
+    } catch (err) {
+      this.logger?.warn?.(`[foundry] Failed to load outcomes: ${err}`);
+    }
+  }
+
+  private saveOutcomes(): void {
+    writeFileSync(this.outcomesPath, JSON.stringify(this.outcomes, null, 2));
+    writeFileSync(
+      this.insightsPath,
+      JSON.stringify(Object.fromEntries(this.taskTypeInsights), null, 2),
+    );
+  }
+
+  // Register a task for outcome tracking
+  trackOutcome(
+    taskType: string,
+    taskDescription: string,
+    taskParams: Record<string, any>,
     successThreshold?: Record<string, number>,
   ): string {
     const outcome: TaskOutcome = {
@@ -2521,6 +4151,23 @@ interface ValidationResult {
   securityFlags: string[];
 }
 
+interface HookSandboxResult {
+  event: string;
+  ok: boolean;
+  ms: number;
+  messages: number; // Replies the handler pushed onto event.messages
+  error?: string;
+}
+
+interface ToolTestResult {
+  tool: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  output: string;
+  latencyMs: number;
+}
+
 class CodeValidator {
   private logger?: {
     info: (msg: string) => void;
@@ -2539,18 +4186,22 @@ class CodeValidator {
    */
   async validate(
     code: string,
-    type: "extension" | "tool" | "hook",
+    type: "extension" | "tool" | "hook" | "module",
   ): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
     const securityFlags: string[] = [];
 
-    // 1. Basic syntax check - try to parse as function
-    try {
-      // Wrap in function to check syntax
-      new Function(code);
-    } catch (err: any) {
-      errors.push(`Syntax error: ${err.message}`);
+    // 1. Basic syntax check - try to parse as function. Extensions and their
+    // modules are TypeScript (imports, annotations) that new Function can't
+    // parse; their syntax is checked by the sandbox run under tsx instead.
+    if (type !== "extension" && type !== "module") {
+      try {
+        // Wrap in function to check syntax
+        new Function(code);
+      } catch (err: any) {
+        errors.push(`Syntax error: ${err.message}`);
+      }
     }
 
     // 2. Security pattern scan (same as skill-review)
@@ -2659,10 +4310,13 @@ class CodeValidator {
 
   /**
    * Test code in isolated subprocess - actually runs the extension to catch runtime errors.
+   * With `packageDir`, its index.ts is loaded in place (so sibling modules and
+   * node_modules resolve) and `code` is not written.
    */
   async testInSandbox(
     code: string,
     tempDir: string,
+    packageDir?: string,
   ): Promise<{ success: boolean; error?: string }> {
     const { spawn } = require("node:child_process");
     const fs = require("node:fs");
@@ -2673,12 +4327,12 @@ class CodeValidator {
     const testDir = join(tempDir, testId);
     fs.mkdirSync(testDir, { recursive: true });
 
-    const indexFile = join(testDir, "index.ts");
+    const indexFile = join(packageDir || testDir, "index.ts");
     const runnerFile = join(testDir, "runner.mjs");
 
     try {
       // Write extension code
-      fs.writeFileSync(indexFile, code);
+      if (!packageDir) fs.writeFileSync(indexFile, code);
 
       // Write a runner that loads and tests the extension
       const runnerCode = `
@@ -2741,6 +4395,16 @@ try {
 
         let stdout = "";
         let stderr = "";
+        let settled = false;
+        const finish = (result: { success: boolean; error?: string }) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          try {
+            fs.rmSync(testDir, { recursive: true, force: true });
+          } catch {}
+          resolve(result);
+        };
 
         proc.stdout?.on("data", (data: Buffer) => {
           stdout += data.toString();
@@ -2750,32 +4414,24 @@ try {
         });
 
         proc.on("close", (code: number) => {
-          // Clean up
-          try {
-            fs.rmSync(testDir, { recursive: true, force: true });
-          } catch {}
-
           if (code === 0 && stdout.includes("SANDBOX_OK")) {
-            resolve({ success: true });
+            finish({ success: true });
           } else {
             const errorMatch = stderr.match(/SANDBOX_ERROR:\s*(.+)/);
             const error =
               errorMatch?.[1] || stderr.slice(0, 500) || `Exit code ${code}`;
-            resolve({ success: false, error });
+            finish({ success: false, error });
           }
         });
 
         proc.on("error", (err: Error) => {
-          try {
-            fs.rmSync(testDir, { recursive: true, force: true });
-          } catch {}
-          resolve({ success: false, error: err.message });
+          finish({ success: false, error: err.message });
         });
 
         // Timeout fallback
-        setTimeout(() => {
+        const timer = setTimeout(() => {
           proc.kill();
-          resolve({ success: false, error: "Sandbox timeout (15s)" });
+          finish({ success: false, error: "Sandbox timeout (15s)" });
         }, 15000);
       });
     } catch (err: any) {
@@ -2786,1033 +4442,3674 @@ try {
       return { success: false, error: err.message };
     }
   }
-}
 
-// ── Helpers ──────────────────────────────────────────────────────────────────
+  /**
+   * Load a standalone hook's handler.ts in an isolated subprocess and call it
+   * once per event with a mock HookEvent (see src/hook-events.ts) whose paths
+   * point into a throwaway workspace. Each call gets `eventTimeoutMs`; thrown
+   * errors and timeouts are reported per event.
+   */
+  async testHookInSandbox(
+    handlerFile: string,
+    events: string[],
+    tempDir: string,
+    eventTimeoutMs = 5000,
+  ): Promise<{
+    success: boolean;
+    results: HookSandboxResult[];
+    error?: string;
+  }> {
+    const { spawn } = require("node:child_process");
+    const fs = require("node:fs");
 
-function toPascalCase(s: string): string {
-  return s
-    .split(/[-_\s]+/)
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
-    .join("");
-}
+    const testDir = join(tempDir, `hook_sandbox_${Date.now()}`);
+    const workspaceDir = join(testDir, "workspace");
+    for (const [path, content] of Object.entries(mockWorkspaceFiles())) {
+      const file = join(workspaceDir, path);
+      fs.mkdirSync(join(file, ".."), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
 
-function toMethodName(method: string, path: string): string {
-  const parts = path
-    .split("/")
-    .filter(Boolean)
-    .map((p) => {
-      if (p.startsWith("{")) return "By" + toPascalCase(p.slice(1, -1));
-      return toPascalCase(p);
-    });
-  return method.toLowerCase() + parts.join("");
-}
+    const mocks = events.map((event) => ({
+      event,
+      payload: mockHookEvent(event, workspaceDir),
+    }));
+    const runnerFile = join(testDir, "runner.mjs");
+    fs.writeFileSync(
+      runnerFile,
+      `
+import { pathToFileURL } from "url";
 
-// ── Plugin ───────────────────────────────────────────────────────────────────
+const mocks = ${JSON.stringify(mocks)};
+const results = [];
+
+try {
+  const mod = await import(pathToFileURL(${JSON.stringify(handlerFile)}).href);
+  const handler = mod.default;
+  if (typeof handler !== "function") {
+    throw new Error("handler.ts must export a handler function as default");
+  }
+  for (const { event, payload } of mocks) {
+    payload.timestamp = new Date(payload.timestamp);
+    const start = Date.now();
+    let timer;
+    try {
+      await Promise.race([
+        Promise.resolve().then(() => handler(payload)),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Timed out after ${eventTimeoutMs}ms")), ${eventTimeoutMs});
+        }),
+      ]);
+      results.push({ event, ok: true, ms: Date.now() - start, messages: payload.messages.length });
+    } catch (err) {
+      results.push({ event, ok: false, ms: Date.now() - start, messages: payload.messages.length, error: err?.message || String(err) });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+} catch (err) {
+  console.error("SANDBOX_ERROR:", err?.message || String(err));
+  process.exit(1);
+}
+
+console.log("HOOK_SANDBOX_RESULTS " + JSON.stringify(results));
+process.exit(0);
+`,
+    );
+
+    const limitMs = 15000 + events.length * eventTimeoutMs;
+    return new Promise((resolve) => {
+      const proc = spawn("npx", ["tsx", runnerFile], {
+        cwd: workspaceDir,
+        timeout: limitMs,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      let stdout = "";
+      let stderr = "";
+      let settled = false;
+      const finish = (result: {
+        success: boolean;
+        results: HookSandboxResult[];
+        error?: string;
+      }) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        try {
+          fs.rmSync(testDir, { recursive: true, force: true });
+        } catch {}
+        resolve(result);
+      };
+
+      proc.stdout?.on("data", (data: Buffer) => {
+        stdout += data.toString();
+      });
+      proc.stderr?.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      proc.on("close", (code: number) => {
+        const line = stdout
+          .split("\n")
+          .find((l) => l.startsWith("HOOK_SANDBOX_RESULTS "));
+        if (code === 0 && line) {
+          try {
+            const results = JSON.parse(
+              line.slice("HOOK_SANDBOX_RESULTS ".length),
+            );
+            return finish({ success: true, results });
+          } catch {}
+        }
+        // Load errors (e.g. TypeScript syntax) span several lines
+        const errorMatch = stderr.match(/SANDBOX_ERROR:\s*([\s\S]+)/);
+        finish({
+          success: false,
+          results: [],
+          error:
+            errorMatch?.[1].trim().slice(0, 500) ||
+            stderr.slice(0, 500) ||
+            `Exit code ${code}`,
+        });
+      });
+
+      proc.on("error", (err: Error) => {
+        finish({ success: false, results: [], error: err.message });
+      });
+
+      const timer = setTimeout(() => {
+        proc.kill();
+        finish({
+          success: false,
+          results: [],
+          error: `Sandbox timeout (${limitMs / 1000}s)`,
+        });
+      }, limitMs);
+    });
+  }
+
+  /**
+   * Run an extension's generated foundry.test.ts in a separate process, on a
+   * copy of the extension under `tempDir` so tool code under test can't
+   * change the installed files (node_modules is linked, not copied). `tools`
+   * limits the run to those tools' cases.
+   */
+  async runTests(
+    extDir: string,
+    tempDir: string,
+    tools: string[] = [],
+  ): Promise<{ success: boolean; results: ToolTestResult[]; error?: string }> {
+    const { spawn } = require("node:child_process");
+    if (!existsSync(join(extDir, "foundry.test.ts"))) {
+      return {
+        success: false,
+        results: [],
+        error: `No foundry.test.ts in ${extDir} (rewrite the extension to generate one)`,
+      };
+    }
+
+    const testDir = join(tempDir, `tests_${Date.now()}`);
+    const modulesDir = join(extDir, "node_modules");
+    try {
+      mkdirSync(tempDir, { recursive: true });
+      cpSync(extDir, testDir, {
+        recursive: true,
+        filter: (src) => src !== modulesDir,
+      });
+      if (existsSync(modulesDir)) {
+        symlinkSync(modulesDir, join(testDir, "node_modules"), "junction");
+      }
+    } catch (err: any) {
+      rmSync(testDir, { recursive: true, force: true });
+      return { success: false, results: [], error: err.message };
+    }
+
+    return new Promise((resolve) => {
+      const proc = spawn(
+        "npx",
+        ["tsx", join(testDir, "foundry.test.ts"), ...tools],
+        {
+          cwd: testDir,
+          timeout: 120000,
+          stdio: ["ignore", "pipe", "pipe"],
+        },
+      );
+
+      let stdout = "";
+      let stderr = "";
+      let settled = false;
+      const finish = (result: {
+        success: boolean;
+        results: ToolTestResult[];
+        error?: string;
+      }) => {
+        if (settled) return;
+        settled = true;
+        rmSync(testDir, { recursive: true, force: true });
+        resolve(result);
+      };
+      proc.stdout?.on("data", (data: Buffer) => {
+        stdout += data.toString();
+      });
+      proc.stderr?.on("data", (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      proc.on("close", (code: number) => {
+        const line = stdout
+          .split("\n")
+          .find((l) => l.startsWith("FOUNDRY_TEST_RESULTS "));
+        if (line) {
+          try {
+            const results = JSON.parse(
+              line.slice("FOUNDRY_TEST_RESULTS ".length),
+            );
+            return finish({ success: true, results });
+          } catch {}
+        }
+        finish({
+          success: false,
+          results: [],
+          error: stderr.slice(0, 500) || `Exit code ${code}`,
+        });
+      });
+
+      proc.on("error", (err: Error) => {
+        finish({ success: false, results: [], error: err.message });
+      });
+    });
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * `root/name` for a name taken from an artifact ID. Throws unless the name is
+ * a single path segment, so the result can't point outside `root`.
+ */
+function childPath(root: string, name: string): string {
+  if (
+    !name ||
+    name === "." ||
+    name === ".." ||
+    /[/\\\0]/.test(name) ||
+    dirname(resolve(root, name)) !== resolve(root)
+  ) {
+    throw new Error(
+      `Invalid ID "${name}": must be a single file or directory name`,
+    );
+  }
+  return join(root, name);
+}
+
+/**
+ * Replace `targetDir` with a staged directory. The old directory is renamed
+ * aside (a hidden sibling, so on the same filesystem) and only deleted once
+ * the new one is in place; if moving the new one in fails, it is put back.
+ */
+function moveIntoPlace(stagingDir: string, targetDir: string): void {
+  const parent = join(targetDir, "..");
+  mkdirSync(parent, { recursive: true });
+  const previous = existsSync(targetDir)
+    ? join(parent, `.${basename(targetDir)}.old-${Date.now()}`)
+    : undefined;
+  if (previous) renameSync(targetDir, previous);
+  try {
+    try {
+      renameSync(stagingDir, targetDir);
+    } catch (err: any) {
+      if (err.code !== "EXDEV") throw err;
+      // Data dir and target dir on different filesystems
+      cpSync(stagingDir, targetDir, { recursive: true });
+    }
+  } catch (err) {
+    rmSync(targetDir, { recursive: true, force: true });
+    if (previous) renameSync(previous, targetDir);
+    throw err;
+  }
+  if (previous) rmSync(previous, { recursive: true, force: true });
+}
+
+function toPascalCase(s: string): string {
+  return s
+    .split(/[-_\s]+/)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join("");
+}
+
+// ── Plugin ───────────────────────────────────────────────────────────────────
+
+const PLUGIN_ID = "foundry-openclaw";
+
+export default {
+  id: PLUGIN_ID,
+  name: "Foundry",
+  description:
+    "Self-writing coding subagent — researches and implements capabilities",
+
+  register(api: ClawdbotPluginApi) {
+    const logger = api.logger;
+    const cfg = api.pluginConfig || {};
+    const dataDir =
+      (cfg as any).dataDir || join(homedir(), ".openclaw", "foundry");
+    const openclawPath =
+      (cfg as any).openclawPath || "/Users/lekt9/Projects/aiko/openclaw";
+
+    if (!existsSync(dataDir)) mkdirSync(dataDir, { recursive: true });
+
+    // Generated code loaded in this process finds a non-default store
+    exportSecretsDir(dataDir);
+    const writer = new CodeWriter(dataDir, openclawPath, logger);
+    try {
+      const drift = writer.reconcile();
+      if (drift.length > 0) {
+        const count = (status: DriftStatus) =>
+          drift.filter((d) => d.status === status).length;
+        logger.info(
+          `[foundry] Manifest drift: ${count("missing")} missing, ${count("modified")} modified, ${count("unmanaged")} unmanaged — see foundry_list`,
+        );
+      }
+    } catch (err: any) {
+      logger.warn?.(`[foundry] Manifest reconciliation failed: ${err.message}`);
+    }
+    const hookEvents = writer.hookEvents();
+    const pluginEventList = hookEvents.names("plugin").join(", ");
+    const docsFetcher = new DocsFetcher(
+      join(dataDir, "docs-cache"),
+      [join(openclawPath, "docs", "llms.txt")],
+      writer.getLocalDocs(),
+    );
+    const learningEngine = new LearningEngine(dataDir, logger);
+    const codeValidator = new CodeValidator(logger);
+    const docsWatch = new DocsWatch(dataDir);
+    const provenance = new ProvenanceTracker();
+    // Skill dependencies live in a foundry prefix; its bin/ goes at the end of
+    // PATH so OpenClaw's skill gating (and the skill lint) finds installed
+    // binaries without them shadowing the system's own
+    const skillDeps = new SkillDeps(join(dataDir, "deps"));
+    const pathDirs = (process.env.PATH || "").split(delimiter);
+    if (!pathDirs.includes(skillDeps.binDir)) {
+      process.env.PATH = [...pathDirs, skillDeps.binDir]
+        .filter(Boolean)
+        .join(delimiter);
+    }
+    const captureProvenance = (extra?: {
+      learningPatternIds?: string[];
+      abilities?: string[];
+    }): Provenance => provenance.capture(docsFetcher.pendingDocUrls(), extra);
+
+    // Docs change detection: compare refreshed pages with what artifacts used
+    docsFetcher.onPageFetched = (url, content) => {
+      const affected = docsWatch.applyPage(url, content);
+      if (affected.length > 0) {
+        logger.info(
+          `[foundry] Docs changed at ${url}: affects ${affected.map((a) => a.id).join(", ")}`,
+        );
+      }
+    };
+
+    // Record the doc sections an artifact was built from: those consulted
+    // since the last recorded write, the same ones its provenance lists.
+    // Without any, fall back to the local reference pages for its kind.
+    const recordDocSources = (
+      kind: WatchedArtifactKind,
+      id: string,
+      fallbackPages: string[],
+    ) => {
+      let sources = docsFetcher.takeSources();
+      if (sources.length === 0) {
+        const localDocs = writer.getLocalDocs();
+        sources = fallbackPages
+          .map((name) => localDocs.getPage(name))
+          .filter((page) => !!page)
+          .map((page) =>
+            captureSource(page!.file, splitSections(page!.content, page!.file)),
+          )
+          .filter((s): s is DocSource => !!s);
+      }
+      docsWatch.record(kind, id, sources);
+    };
+
+    // Run a validated tool/hook edit and report it. On failure nothing was
+    // written, so the previous extension version stays live.
+    const editExtension = async (
+      extensionId: string,
+      summary: string,
+      edit: () => Promise<{ path: string; validation: ValidationResult }>,
+      docPages?: string[],
+    ) => {
+      try {
+        const { validation } = await edit();
+        if (docPages) recordDocSources("extension", extensionId, docPages);
+        let output = `${summary}\n`;
+        if (validation.warnings.length > 0) {
+          output += `\n**Warnings:**\n${validation.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+        }
+        if (validation.securityFlags.length > 0) {
+          output += `\n**Security flags (review recommended):**\n${validation.securityFlags.map((f) => `- ${f}`).join("\n")}\n`;
+        }
+        output += `\nCall \`foundry_restart\` to load and resume.`;
+        return { content: [{ type: "text", text: output }] };
+      } catch (err: any) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `## Edit Failed\n\n${err.message}\n\nThe extension \`${extensionId}\` was left unchanged.`,
+            },
+          ],
+        };
+      }
+    };
+
+    // Track current failure for resolution matching
+    let lastFailureId: string | null = null;
+    // RISE: Track pattern used for injection (to detect successful retries)
+    let lastInjectedPatternId: string | null = null;
+    let lastInjectedForTool: string | null = null;
+    // Track failures per extension/skill ID for learning resolution
+    const pendingFailures = new Map<string, { failureId: string; error: string; timestamp: number }>();
+
+    // ── Tools ───────────────────────────────────────────────────────────────
+
+    const tools = (_ctx: ClawdbotPluginToolContext) => {
+      const toolList = [
+        // ── foundry_research ──────────────────────────────────────────────────
+        {
+          name: "foundry_research",
+          label: "Research Documentation",
+          description:
+            "Search docs.openclaw.ai for best practices. Use before implementing to understand " +
+            "the OpenClaw API, patterns, and conventions.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              query: {
+                type: "string" as const,
+                description:
+                  "What to research (e.g., 'how to write hooks', 'browser automation', 'skill structure')",
+              },
+              topic: {
+                type: "string" as const,
+                // Driven by the llms.txt page catalog
+                enum: docsFetcher.getTopics(),
+                description:
+                  "Specific topic to fetch docs for (optional, faster than query)",
+              },
+              page: {
+                type: "string" as const,
+                description:
+                  "Specific doc page path (e.g., '/tools/plugin', '/automation/hooks')",
+              },
+              maxResults: {
+                type: "number" as const,
+                description:
+                  "For query: max number of doc sections to return (default: 5)",
+              },
+              maxChars: {
+                type: "number" as const,
+                description:
+                  "For query: character budget across returned sections (default: 8000)",
+              },
+            },
+            required: [],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              query?: string;
+              topic?: string;
+              page?: string;
+              maxResults?: number;
+              maxChars?: number;
+            };
+
+            if (p.query || p.topic || p.page) {
+              provenance.noteCall(
+                "foundry_research",
+                p.query || (p.topic ? `topic: ${p.topic}` : `page: ${p.page}`),
+              );
+            }
+
+            let content: string;
+
+            if (p.page) {
+              content = await docsFetcher.fetchPage(p.page);
+            } else if (p.topic) {
+              content = await docsFetcher.fetchForTopic(p.topic);
+            } else if (p.query) {
+              content = await docsFetcher.search(p.query, {
+                limit: p.maxResults,
+                maxChars: p.maxChars,
+              });
+            } else {
+              const catalog = await docsFetcher.loadCatalog();
+              const bySection = new Map<string, string[]>();
+              for (const page of catalog.all()) {
+                const list = bySection.get(page.section) || [];
+                list.push(page.path);
+                bySection.set(page.section, list);
+              }
+              content =
+                `## Available Documentation (${catalog.size()} pages)\n\n` +
+                [...bySection.entries()]
+                  .map(
+                    ([section, pages]) =>
+                      `- **${section}**: ${pages.join(", ")}`,
+                  )
+                  .join("\n") +
+                `\n\n**Topics**: ${catalog.topics().join(", ")}` +
+                `\n\nUse \`topic\` for specific docs, \`query\` for search, or \`page\` for a specific path.`;
+            }
+
+            return { content: [{ type: "text", text: content }] };
+          },
+        },
+
+        // ── foundry_implement ─────────────────────────────────────────────────
+        {
+          name: "foundry_implement",
+          label: "Implement Capability",
+          description:
+            "Research best practices and implement a capability. Describe what you need and this tool " +
+            "will research documentation, patterns, and implement it as an extension or skill.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              capability: {
+                type: "string" as const,
+                description:
+                  "What capability to implement (e.g., 'OAuth token refresh', 'rate limiting', 'webhook handler')",
+              },
+              type: {
+                type: "string" as const,
+                enum: ["extension", "skill", "tool", "hook"],
+                description:
+                  "What to create: extension (full plugin), skill (API client), tool (single tool), hook (event handler)",
+              },
+              targetExtension: {
+                type: "string" as const,
+                description: "For tool/hook: which extension to add it to",
+              },
+            },
+            required: ["capability", "type"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              capability: string;
+              type: string;
+              targetExtension?: string;
+            };
+            provenance.noteCall(
+              "foundry_implement",
+              `${p.type}: ${p.capability}`,
+            );
+
+            // Build context from platform docs
+            let context = `## Implementation: ${p.capability}\n\n`;
+            context += `**Type**: ${p.type}\n\n`;
+
+            // Fetch relevant docs
+            try {
+              const relevantTopics: string[] = [];
+              if (p.type === "extension" || p.type === "tool")
+                relevantTopics.push("plugin");
+              if (p.type === "hook" || p.type === "extension")
+                relevantTopics.push("hooks");
+              if (p.type === "skill") relevantTopics.push("skills");
+
+              for (const topic of relevantTopics) {
+                const topicDocs = await docsFetcher.fetchForTopic(topic);
+                context += `### ${topic.charAt(0).toUpperCase() + topic.slice(1)} API\n\n`;
+                context += topicDocs.slice(0, 2000) + "\n\n";
+              }
+            } catch (err) {
+              const docs = writer.getDocs();
+              if (docs.plugin) {
+                context += `### Plugin API (local)\n\n`;
+                context += docs.plugin.slice(0, 3000) + "\n\n";
+              }
+            }
+
+            // Implementation guidance
+            context += `## Implementation Guide\n\n`;
+
+            switch (p.type) {
+              case "extension":
+                context += `Use \`foundry_write_extension\` with:\n`;
+                context += `- id: kebab-case identifier\n`;
+                context += `- name: Human-readable name\n`;
+                context += `- description: What it does\n`;
+                context += `- tools: Array of tool definitions\n`;
+                context += `- hooks: Array of hook definitions\n\n`;
+                context += `Each tool needs: name, label, description, properties, required, code\n`;
+                context += `Each hook needs: event (${pluginEventList}), code\n`;
+                break;
+
+              case "skill":
+                context += `Use \`foundry_write_skill\` with:\n`;
+                context += `- name: Skill name\n`;
+                context += `- description: What it does\n`;
+                context += `- baseUrl: API base URL\n`;
+                context += `- endpoints: Array of { method, path, description }\n`;
+                context += `- authHeaders: Optional auth headers to store\n`;
+                break;
+
+              case "tool":
+                if (!p.targetExtension) {
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: "Error: targetExtension required for type=tool",
+                      },
+                    ],
+                  };
+                }
+                context += `Use \`foundry_add_tool\` with:\n`;
+                context += `- extensionId: "${p.targetExtension}"\n`;
+                context += `- name: tool_name (snake_case)\n`;
+                context += `- description: What it does\n`;
+                context += `- properties: Input parameters\n`;
+                context += `- code: The execute function body\n`;
+                break;
+
+              case "hook":
+                if (!p.targetExtension) {
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: "Error: targetExtension required for type=hook",
+                      },
+                    ],
+                  };
+                }
+                context += `Use \`foundry_add_hook\` with:\n`;
+                context += `- extensionId: "${p.targetExtension}"\n`;
+                context += `- event: One of ${pluginEventList}\n`;
+                context += `- code: The handler function body (has access to event, ctx)\n`;
+                break;
+            }
+
+            context += `\n## Next Steps\n\n`;
+            context += `1. Review the docs above\n`;
+            context += `2. Design the implementation\n`;
+            context += `3. Call the appropriate foundry_write_* tool with the code\n`;
+
+            return { content: [{ type: "text", text: context }] };
+          },
+        },
+
+        // ── foundry_write_extension ───────────────────────────────────────────
+        {
+          name: "foundry_write_extension",
+          label: "Write Extension",
+          description:
+            "Write a new OpenClaw extension to ~/.openclaw/extensions/. Use foundry_restart to load and resume.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              id: {
+                type: "string" as const,
+                description: "Extension ID (kebab-case)",
+              },
+              name: {
+                type: "string" as const,
+                description: "Human-readable name",
+              },
+              description: {
+                type: "string" as const,
+                description: "What this extension does",
+              },
+              tools: {
+                type: "array" as const,
+                description: "Tools to include",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    name: { type: "string" as const },
+                    label: { type: "string" as const },
+                    description: { type: "string" as const },
+                    properties: {
+                      type: "object" as const,
+                      description:
+                        "JSON Schema per parameter (type, enum, items, properties, default, minimum, pattern, format, ...)",
+                    },
+                    required: {
+                      type: "array" as const,
+                      items: { type: "string" as const },
+                    },
+                    code: {
+                      type: "string" as const,
+                      description: "Execute function body",
+                    },
+                    tests: {
+                      type: "array" as const,
+                      description:
+                        "Example calls checked by foundry_test: {name?, input: {...params}, expect?: {text?, contains?, matches?, throws?}}",
+                      items: {
+                        type: "object" as const,
+                        properties: {
+                          name: { type: "string" as const },
+                          input: { type: "object" as const },
+                          expect: {
+                            type: "object" as const,
+                            properties: {
+                              text: {
+                                type: "string" as const,
+                                description: "Exact text output",
+                              },
+                              contains: {
+                                type: "array" as const,
+                                items: { type: "string" as const },
+                                description:
+                                  "Substrings the output must contain",
+                              },
+                              matches: {
+                                type: "string" as const,
+                                description: "Regex the output must match",
+                              },
+                              throws: {
+                                type: "boolean" as const,
+                                description: "execute() must throw",
+                              },
+                            },
+                          },
+                        },
+                        required: ["input"],
+                      },
+                    },
+                  },
+                },
+              },
+              hooks: {
+                type: "array" as const,
+                description: "Hooks to include",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    event: {
+                      type: "string" as const,
+                      enum: hookEvents.names("plugin"),
+                    },
+                    code: {
+                      type: "string" as const,
+                      description:
+                        "Handler body; `event` and `ctx` are typed from the hook event catalog",
+                    },
+                  },
+                },
+              },
+              lib: {
+                type: "string" as const,
+                description:
+                  "Top-level code shared by all tools and hooks: imports (of modules or dependencies), helper functions, constants",
+              },
+              modules: {
+                type: "array" as const,
+                description:
+                  'Extra files in the extension directory, imported from lib (e.g. import { get } from "./lib/http.js")',
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    path: {
+                      type: "string" as const,
+                      description: "Relative path, e.g. lib/http.ts",
+                    },
+                    code: { type: "string" as const },
+                  },
+                  required: ["path", "code"],
+                },
+              },
+              dependencies: {
+                type: "object" as const,
+                description:
+                  'npm packages to install into the extension, name → version range (e.g. {"yaml": "^2.4.0"})',
+                additionalProperties: { type: "string" as const },
+              },
+              secrets: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description:
+                  'Names of foundry secrets the code reads (set with foundry_secrets). Declared names are available as secret("NAME") (string | undefined) in tools, hooks and lib',
+              },
+            },
+            required: ["id", "name", "description"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
+
+            const tools: ToolDef[] = (p.tools || []).map((t: any) => ({
+              name: t.name,
+              label: t.label,
+              description: t.description || "",
+              properties: t.properties || {},
+              required: t.required || [],
+              code:
+                t.code ||
+                "return { content: [{ type: 'text', text: 'Not implemented' }] };",
+              tests: t.tests,
+            }));
+
+            const hooks: HookDef[] = (p.hooks || []).map((h: any) => ({
+              event: h.event,
+              code: h.code || "// No-op",
+            }));
+
+            try {
+              const { path: extDir, validation } = await writer.writeExtension(
+                {
+                  id: p.id,
+                  name: p.name,
+                  description: p.description,
+                  tools,
+                  hooks,
+                  lib: p.lib,
+                  modules: p.modules,
+                  dependencies: p.dependencies,
+                  secrets: p.secrets?.length ? p.secrets : undefined,
+                  provenance: captureProvenance(),
+                },
+                codeValidator,
+              );
+
+              const deps = Object.keys(p.dependencies || {});
+              let output =
+                `## Extension Written\n\n` +
+                `**${p.name}** (\`${p.id}\`)\n\n` +
+                `- Location: \`${extDir}\`\n` +
+                `- Tools: ${tools.length}\n` +
+                `- Hooks: ${hooks.length}\n`;
+              if (p.modules?.length) {
+                output += `- Modules: ${p.modules.map((m: any) => m.path).join(", ")}\n`;
+              }
+              if (deps.length > 0) {
+                output += `- Dependencies: ${deps.join(", ")}\n`;
+              }
+              if (p.secrets?.length) {
+                const store = writer.getSecretStore();
+                const unset = p.secrets.filter((n: string) => !store.has(n));
+                output += `- Secrets: ${p.secrets.join(", ")}\n`;
+                if (unset.length > 0) {
+                  output += `\n**Not set yet** (\`foundry_secrets\` action "set"): ${unset.join(", ")}\n`;
+                }
+              }
+
+              if (validation.warnings.length > 0) {
+                output += `\n**Warnings:**\n${validation.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+              }
+              if (validation.securityFlags.length > 0) {
+                output += `\n**Security flags (review recommended):**\n${validation.securityFlags.map((f) => `- ${f}`).join("\n")}\n`;
+              }
+
+              // Link success to previous failure → create pattern
+              const pendingKey = `ext:${p.id}`;
+              const pending = pendingFailures.get(pendingKey);
+              if (pending) {
+                // Create pattern: failure error → successful code approach
+                const resolution = `Fixed by: ${tools.map(t => t.name).join(", ")} tools, avoiding: ${pending.error.slice(0, 100)}`;
+                learningEngine.recordResolution(pending.failureId, resolution);
+                pendingFailures.delete(pendingKey);
+                logger.info(`[foundry] Learned pattern from ${p.id}: ${pending.error.slice(0, 50)}...`);
+                output += `\n**Learned**: Pattern created from previous failure.\n`;
+              }
+
+              recordDocSources("extension", p.id, ["plugin", "hooks"]);
+
+              output += `\n**Next**: Call \`foundry_restart\` to reload gateway and auto-resume this conversation.`;
+
+              return { content: [{ type: "text", text: output }] };
+            } catch (err: any) {
+              // SelfEvolve (arXiv:2306.02907): Return structured feedback for LLM refinement
+              const errorMsg = err.message || String(err);
+              const isSandboxError = errorMsg.includes("Sandbox");
+              const isValidationError = errorMsg.includes("validation");
+
+              // Record the failure for learning
+              const failureId = learningEngine.recordFailure(
+                "foundry_write_extension",
+                errorMsg,
+                `Extension: ${p.id}, Tools: ${tools.length}, Hooks: ${hooks.length}`,
+                isSandboxError ? "sandbox_runtime_error" : "validation_error",
+              );
+              // Track for resolution linking when extension succeeds later
+              pendingFailures.set(`ext:${p.id}`, { failureId, error: errorMsg, timestamp: Date.now() });
+
+              // Build detailed feedback for the LLM to self-correct
+              let feedback = `## Extension FAILED - SelfEvolve Feedback\n\n`;
+              feedback += `**Extension**: ${p.name} (\`${p.id}\`)\n\n`;
+              feedback += `### Error Type\n`;
+              feedback += isSandboxError
+                ? `**Runtime Error** - The code compiled but failed during execution.\n`
+                : `**Validation Error** - The code failed static analysis.\n`;
+              feedback += `\n### Error Details\n\`\`\`\n${errorMsg}\n\`\`\`\n\n`;
+
+              // Provide specific guidance based on error type
+              feedback += `### How to Fix\n`;
+              if (isSandboxError) {
+                feedback += `1. Check for undefined variables or missing imports\n`;
+                feedback += `2. Ensure all async functions are properly awaited\n`;
+                feedback += `3. Verify the code handles edge cases (null, undefined, empty)\n`;
+                feedback += `4. Check that external dependencies are available\n`;
+              } else if (isValidationError) {
+                feedback += `1. Review the validation rules in the error message\n`;
+                feedback += `2. Remove any blocked patterns (dangerous code, etc.)\n`;
+                feedback += `3. Ensure proper types and structure\n`;
+              }
+
+              feedback += `\n### Retry Instructions\n`;
+              feedback += `Fix the issues above and call \`foundry_write_extension\` again with corrected code.\n`;
+              feedback += `The code should be self-contained and not rely on external state.\n`;
+
+              return { content: [{ type: "text", text: feedback }] };
+            }
+          },
+        },
+
+        // ── foundry_write_skill (OpenClaw/AgentSkills-compatible) ───────────────
+        {
+          name: "foundry_write_skill",
+          label: "Write Skill",
+          description:
+            "Write an OpenClaw/AgentSkills-compatible skill (SKILL.md) to ~/.openclaw/skills/. Supports both general skills and API-based skills; " +
+            "API skills can be imported from an OpenAPI 3.x / Swagger 2.0 document (`openapi`).",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              name: {
+                type: "string" as const,
+                description:
+                  "Skill name (kebab-case recommended, e.g., 'my-skill')",
+              },
+              description: {
+                type: "string" as const,
+                description: "What this skill does (appears in frontmatter)",
+              },
+              content: {
+                type: "string" as const,
+                description:
+                  "Markdown content for the skill (after frontmatter)",
+              },
+              // OpenClaw frontmatter options
+              homepage: {
+                type: "string" as const,
+                description: "URL for skill documentation/website",
+              },
+              userInvocable: {
+                type: "boolean" as const,
+                description:
+                  "Whether skill is exposed as user slash command (default: true)",
+              },
+              disableModelInvocation: {
+                type: "boolean" as const,
+                description: "Exclude from model prompt (default: false)",
+              },
+              commandDispatch: {
+                type: "string" as const,
+                enum: ["tool"],
+                description: "Bypass model and dispatch directly to tool",
+              },
+              commandTool: {
+                type: "string" as const,
+                description: "Tool name when command-dispatch is 'tool'",
+              },
+              commandArgMode: {
+                type: "string" as const,
+                enum: ["raw"],
+                description: "How to forward args to tool",
+              },
+              metadata: {
+                type: "object" as const,
+                description:
+                  "OpenClaw metadata for gating (requires.bins, requires.env, etc.)",
+                properties: {
+                  openclaw: {
+                    type: "object" as const,
+                    properties: {
+                      always: {
+                        type: "boolean" as const,
+                        description: "Always include skill (skip gates)",
+                      },
+                      emoji: {
+                        type: "string" as const,
+                        description: "Emoji for macOS Skills UI",
+                      },
+                      homepage: {
+                        type: "string" as const,
+                        description: "URL for macOS Skills UI",
+                      },
+                      os: {
+                        type: "array" as const,
+                        items: {
+                          type: "string" as const,
+                          enum: ["darwin", "linux", "win32"],
+                        },
+                      },
+                      primaryEnv: {
+                        type: "string" as const,
+                        description: "Env var for apiKey mapping",
+                      },
+                      skillKey: {
+                        type: "string" as const,
+                        description: "Config key override",
+                      },
+                      requires: {
+                        type: "object" as const,
+                        properties: {
+                          bins: {
+                            type: "array" as const,
+                            items: { type: "string" as const },
+                            description: "Required binaries on PATH",
+                          },
+                          anyBins: {
+                            type: "array" as const,
+                            items: { type: "string" as const },
+                            description: "At least one required",
+                          },
+                          env: {
+                            type: "array" as const,
+                            items: { type: "string" as const },
+                            description: "Required env vars",
+                          },
+                          config: {
+                            type: "array" as const,
+                            items: { type: "string" as const },
+                            description: "Required config paths",
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              // Legacy API-based skill support
+              baseUrl: {
+                type: "string" as const,
+                description: "(Legacy) API base URL for API-based skills",
+              },
+              endpoints: {
+                type: "array" as const,
+                description: "(Legacy) API endpoints for API-based skills",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    method: {
+                      type: "string" as const,
+                      enum: ["GET", "POST", "PUT", "DELETE", "PATCH"],
+                    },
+                    path: {
+                      type: "string" as const,
+                      description: "Path with {param} placeholders",
+                    },
+                    description: { type: "string" as const },
+                  },
+                },
+              },
+              authHeaders: {
+                type: "object" as const,
+                description:
+                  "(Legacy) Auth headers for API-based skills. Values are moved into the encrypted secret store " +
+                  '(as <SKILL>_<HEADER>) and never written to the skill folder; pass "Bearer {{secret:NAME}}" to use an existing secret.',
+              },
+              openapi: {
+                description:
+                  "OpenAPI 3.x / Swagger 2.0 document: a .json/.yaml file path, inline JSON/YAML text, or the parsed object. " +
+                  "Endpoints, parameters, bodies, response schemas, auth schemes, servers and tags are derived from it.",
+              },
+              server: {
+                type: "string" as const,
+                description:
+                  "With openapi: default server, as an index into the spec's servers or a URL (default: the first). baseUrl overrides it.",
+              },
+              tags: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description:
+                  "With openapi: only import operations with one of these tags",
+              },
+              client: {
+                description:
+                  "Generate the production api.ts client: typed request/response interfaces, ApiError for non-2xx, timeouts, " +
+                  "retries with backoff and pagination iterators. `true` for defaults, or " +
+                  "{ timeoutMs?, retries?, retryDelayMs?, pagination? }.",
+              },
+              graphql: {
+                type: "object" as const,
+                description:
+                  "Generate a GraphQL skill instead of a REST one: typed query/mutation methods with variables types, " +
+                  "generated fragments and custom selections, and a SKILL.md listing the operations.",
+                properties: {
+                  schema: {
+                    description:
+                      "Introspection result (.json file, JSON text or parsed object) or SDL (.graphql/.gql file or text)",
+                  },
+                  endpoint: {
+                    type: "string" as const,
+                    description: "GraphQL endpoint URL",
+                  },
+                  operations: {
+                    type: "array" as const,
+                    items: { type: "string" as const },
+                    description: "Only these query/mutation fields",
+                  },
+                  depth: {
+                    type: "number" as const,
+                    description:
+                      "Nested object levels in default selections (0-3, default 1)",
+                  },
+                },
+                required: ["schema", "endpoint"],
+              },
+              oauth: {
+                type: "object" as const,
+                description:
+                  "OAuth2 for the generated client: it obtains, caches (in the secret store) and renews access tokens and retries once on 401. " +
+                  "clientId/clientSecret/refreshToken are stored as encrypted secrets, never in the skill. " +
+                  "URLs and the flow default to the imported document's oauth2 scheme.",
+                properties: {
+                  flow: {
+                    type: "string" as const,
+                    enum: [
+                      "client_credentials",
+                      "refresh_token",
+                      "authorization_code",
+                    ],
+                    description:
+                      "authorization_code uses PKCE via client.oauth.authorize()",
+                  },
+                  tokenUrl: { type: "string" as const },
+                  authorizationUrl: {
+                    type: "string" as const,
+                    description: "authorization_code only",
+                  },
+                  redirectUri: {
+                    type: "string" as const,
+                    description:
+                      "authorization_code only: loopback URL the client listens on (default http://127.0.0.1:8787/callback)",
+                  },
+                  scopes: {
+                    type: "array" as const,
+                    items: { type: "string" as const },
+                  },
+                  audience: { type: "string" as const },
+                  scheme: {
+                    type: "string" as const,
+                    description:
+                      "Auth scheme the token is for (default: the document's first oauth2 scheme, else every request)",
+                  },
+                  clientId: { type: "string" as const },
+                  clientSecret: { type: "string" as const },
+                  refreshToken: {
+                    type: "string" as const,
+                    description: "Starting refresh token",
+                  },
+                },
+              },
+            },
+            required: ["name", "description"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
+
+            let client: ApiClientConfig | undefined;
+            if (p.client !== undefined && p.client !== false) {
+              try {
+                client = p.client === true ? {} : p.client;
+                if (
+                  !client ||
+                  typeof client !== "object" ||
+                  Array.isArray(client)
+                ) {
+                  throw new Error(
+                    "client must be true or an object of client options",
+                  );
+                }
+                validateClientConfig(client);
+              } catch (err: any) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `## Invalid Client Options\n\n${err.message}`,
+                    },
+                  ],
+                };
+              }
+            }
+
+            let imported: ReturnType<typeof importOpenApi> | undefined;
+            if (p.openapi !== undefined) {
+              try {
+                imported = importOpenApi(p.openapi, { tags: p.tags });
+                const servers = imported.servers;
+                const chosen = /^\d+$/.test(p.server || "")
+                  ? servers[Number(p.server)]?.url
+                  : p.server || servers[0]?.url;
+                if (/^\d+$/.test(p.server || "") && !chosen) {
+                  throw new Error(
+                    `Server index ${p.server} out of range (${servers.length} servers)`,
+                  );
+                }
+                p.baseUrl = p.baseUrl || chosen;
+                if (!p.baseUrl || !/^https?:\/\//.test(p.baseUrl)) {
+                  throw new Error(
+                    p.baseUrl
+                      ? `Server URL "${p.baseUrl}" is relative; pass an absolute baseUrl`
+                      : "The document declares no servers; pass baseUrl",
+                  );
+                }
+                if (
+                  p.server &&
+                  !/^\d+$/.test(p.server) &&
+                  !servers.some((s) => s.url === p.server)
+                ) {
+                  servers.unshift({ url: p.server });
+                }
+                p.endpoints = imported.endpoints;
+              } catch (err: any) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `## OpenAPI Import Failed\n\n${err.message}`,
+                    },
+                  ],
+                };
+              }
+            }
+
+            let graphql: SkillDef["graphql"];
+            let graphqlImport: ReturnType<typeof importGraphQL> | undefined;
+            if (p.graphql !== undefined) {
+              try {
+                const g = p.graphql;
+                if (!g || typeof g !== "object" || g.schema === undefined) {
+                  throw new Error(
+                    "graphql needs a schema (introspection JSON or SDL) and an endpoint",
+                  );
+                }
+                if (p.openapi !== undefined || p.endpoints?.length || client) {
+                  throw new Error(
+                    "graphql can't be combined with openapi, endpoints or client",
+                  );
+                }
+                if (
+                  typeof g.endpoint !== "string" ||
+                  !/^https?:\/\/[^/]/.test(g.endpoint)
+                ) {
+                  throw new Error(
+                    "graphql.endpoint must be an absolute http(s) URL",
+                  );
+                }
+                validateSelectionDepth(g.depth);
+                graphqlImport = importGraphQL(g.schema, {
+                  operations: g.operations,
+                });
+                graphql = {
+                  endpoint: g.endpoint,
+                  schema: graphqlImport.schema,
+                  ...(g.depth !== undefined ? { depth: g.depth } : {}),
+                  importedFrom: `${graphqlImport.format === "sdl" ? "SDL" : "Introspection"}: ${
+                    typeof g.schema === "string" &&
+                    !g.schema.includes("\n") &&
+                    !/^[{"]|^(schema|type|interface|union|enum|input|scalar|extend|directive)\b/.test(
+                      g.schema.trim(),
+                    )
+                      ? g.schema.trim()
+                      : "inline document"
+                  }`,
+                };
+              } catch (err: any) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `## GraphQL Import Failed\n\n${err.message}`,
+                    },
+                  ],
+                };
+              }
+            }
+
+            let oauth: ApiOAuthDef | undefined;
+            let oauthSecrets: string[] = [];
+            if (p.oauth !== undefined) {
+              try {
+                if (!p.baseUrl || !p.endpoints?.length) {
+                  throw new Error(
+                    "oauth applies to API skills (baseUrl + endpoints, or openapi)",
+                  );
+                }
+                const { clientId, clientSecret, refreshToken, ...options } =
+                  p.oauth || {};
+                oauth = normalizeOAuthDef(
+                  options,
+                  imported?.authSchemes,
+                  p.baseUrl,
+                );
+                oauthSecrets = writer.sealOAuthCredentials(p.name, {
+                  clientId,
+                  clientSecret,
+                  refreshToken,
+                });
+              } catch (err: any) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `## Invalid OAuth Options\n\n${err.message}`,
+                    },
+                  ],
+                };
+              }
+            }
+
+            const skillDir = writer.writeSkill({
+              name: p.name,
+              description: p.description,
+              content: p.content,
+              homepage: p.homepage,
+              userInvocable: p.userInvocable,
+              disableModelInvocation: p.disableModelInvocation,
+              commandDispatch: p.commandDispatch,
+              commandTool: p.commandTool,
+              commandArgMode: p.commandArgMode,
+              metadata: p.metadata,
+              baseUrl: p.baseUrl,
+              endpoints: p.endpoints,
+              authHeaders: p.authHeaders,
+              client,
+              oauth,
+              graphql,
+              ...(imported && {
+                servers: imported.servers,
+                authSchemes: imported.authSchemes,
+                security: imported.security,
+                tags: imported.tags,
+                importedFrom: `${imported.specVersion.startsWith("2") ? "Swagger" : "OpenAPI"} ${imported.specVersion}: ${
+                  typeof p.openapi === "string" &&
+                  !p.openapi.includes("\n") &&
+                  !p.openapi.trim().startsWith("{")
+                    ? p.openapi.trim()
+                    : "inline document"
+                }`,
+              }),
+              provenance: captureProvenance(),
+            });
+
+            const isApiSkill = p.baseUrl && p.endpoints?.length > 0;
+            recordDocSources("skill", p.name, ["skills"]);
+
+            let summary =
+              `## Skill Written (OpenClaw-compatible)\n\n` +
+              `**${p.name}**\n\n` +
+              `- Location: \`${skillDir}\`\n` +
+              `- Format: AgentSkills/OpenClaw SKILL.md\n`;
+
+            if (isApiSkill) {
+              summary +=
+                `- Type: API-based skill\n` +
+                `- Base URL: \`${p.baseUrl}\`\n` +
+                `- Endpoints: ${p.endpoints.length}\n` +
+                `- Client: ${client ? "production (typed, retries, timeouts, pagination)" : "basic"}\n`;
+              if (imported) {
+                summary += `- Imported from: ${imported.title}${imported.version ? ` v${imported.version}` : ""} (${imported.specVersion.startsWith("2") ? "Swagger" : "OpenAPI"} ${imported.specVersion})\n`;
+                if (imported.servers.length > 1) {
+                  summary += `- Servers: ${imported.servers.map((s) => `\`${s.url}\``).join(", ")}\n`;
+                }
+                if (imported.tags.length > 0) {
+                  summary += `- Tags: ${imported.tags.map((t) => t.name).join(", ")}\n`;
+                }
+                if (imported.authSchemes.length > 0) {
+                  summary += `- Auth schemes: ${imported.authSchemes.map((s) => `${s.name} (${s.type})`).join(", ")}\n`;
+                }
+                if (imported.warnings.length > 0) {
+                  summary += `\n**Import warnings:**\n${imported.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+                }
+              }
+            } else if (graphql && graphqlImport) {
+              summary +=
+                `- Type: GraphQL skill\n` +
+                `- Endpoint: \`${graphql.endpoint}\`\n` +
+                `- Operations: ${graphqlImport.queries} quer${graphqlImport.queries === 1 ? "y" : "ies"}, ${graphqlImport.mutations} mutation${graphqlImport.mutations === 1 ? "" : "s"}\n` +
+                `- Schema: ${graphql.importedFrom} (${graphql.schema.types.length} types)\n`;
+              if (graphqlImport.warnings.length > 0) {
+                summary += `\n**Import warnings:**\n${graphqlImport.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+              }
+            } else {
+              summary += `- Type: General skill\n`;
+            }
+
+            const headerSecrets = Object.values(
+              writer.getSkills().find((s) => s.name === p.name)?.authHeaders ||
+                {},
+            ).flatMap((value) => referencedSecrets(String(value)));
+            if (headerSecrets.length > 0) {
+              const store = writer.getSecretStore();
+              const unset = headerSecrets.filter((n) => !store.has(n));
+              summary += `- Auth headers: from encrypted secrets ${headerSecrets.map((n) => `\`${n}\``).join(", ")} (no auth.json written)\n`;
+              if (unset.length > 0) {
+                summary += `- Not set yet (\`foundry_secrets\` action "set"): ${unset.join(", ")}\n`;
+              }
+            }
+
+            if (oauth) {
+              const names = oauthSecretNames(p.name);
+              const store = writer.getSecretStore();
+              const needed = [
+                names.clientId,
+                ...(oauth.flow === "authorization_code"
+                  ? []
+                  : [names.clientSecret]),
+                ...(oauth.flow === "refresh_token" ? [names.refreshToken] : []),
+              ].filter((n) => !store.has(n) && !process.env[n]);
+              summary += `- OAuth2: ${oauth.flow} via \`${oauth.tokenUrl}\`${oauthSecrets.length > 0 ? ` (stored ${oauthSecrets.join(", ")})` : ""}\n`;
+              if (needed.length > 0) {
+                summary += `- Not set yet (\`foundry_secrets\` action "set", or env): ${needed.join(", ")}\n`;
+              }
+              if (oauth.flow === "authorization_code") {
+                summary += `- Sign in once: \`await client.oauth.authorize()\`\n`;
+              }
+            }
+
+            if (p.metadata?.openclaw?.requires) {
+              const req = p.metadata.openclaw.requires;
+              if (req.bins?.length)
+                summary += `- Required bins: ${req.bins.join(", ")}\n`;
+              if (req.env?.length)
+                summary += `- Required env: ${req.env.join(", ")}\n`;
+              if (req.config?.length)
+                summary += `- Required config: ${req.config.join(", ")}\n`;
+            }
+
+            const lint = lintSkillDir(skillDir, skillHost(api.config ?? {}));
+            for (const gap of describeGaps(lint.unmet)) {
+              summary += `- Can't run on this host: ${gap}\n`;
+            }
+            if (lint.issues.length > 0) {
+              summary += `\n**Spec issues:**\n${formatLintIssues(lint.issues)}`;
+            }
+
+            summary += lint.runnable
+              ? `\nSkill is ready. Restart gateway or start new session to load.`
+              : `\nSkill is written, but OpenClaw will skip it on this host until the issues above are fixed.`;
+
+            return { content: [{ type: "text", text: summary }] };
+          },
+        },
+
+        // ── foundry_write_browser_skill ─────────────────────────────────────────
+        {
+          name: "foundry_write_browser_skill",
+          label: "Write Browser Skill",
+          description:
+            "Write a browser automation skill that uses the OpenClaw browser tool. Automatically gates on browser.enabled config. " +
+            "Actions with structured steps are validated, stored in actions.json and replayable with foundry_run_browser_action.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              name: {
+                type: "string" as const,
+                description: "Skill name (kebab-case, e.g., 'twitter-poster')",
+              },
+              description: {
+                type: "string" as const,
+                description: "What this skill automates",
+              },
+              targetUrl: {
+                type: "string" as const,
+                description: "Primary URL this skill interacts with",
+              },
+              actions: {
+                type: "array" as const,
+                description: "Documented browser actions",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    name: {
+                      type: "string" as const,
+                      description: "Action name (e.g., 'Post Tweet')",
+                    },
+                    description: {
+                      type: "string" as const,
+                      description: "What this action does",
+                    },
+                    params: {
+                      type: "array" as const,
+                      items: { type: "string" as const },
+                      description:
+                        "Inputs the structured steps reference as {{name}}",
+                    },
+                    steps: {
+                      type: "array" as const,
+                      description:
+                        "Step-by-step instructions: free-text strings, or structured steps to make the action replayable: " +
+                        '{ action: "navigate", url } (absolute on the targetUrl origin, or /path under targetUrl), { action: "click", selector }, ' +
+                        '{ action: "fill", selector, value }, { action: "waitFor", selector?, text?, timeoutMs? }, ' +
+                        '{ action: "extract", selector, as, attribute?, all? }, { action: "assert", selector?, text?, url? }. ' +
+                        "Selectors are CSS; strings may use {{param}} and {{extracted}}, fill values also {{secret:NAME}}; any step may add a note.",
+                    },
+                  },
+                },
+              },
+              authMethod: {
+                type: "string" as const,
+                enum: ["manual", "cookie", "header", "oauth"],
+                description: "How authentication is handled",
+              },
+              authNotes: {
+                type: "string" as const,
+                description: "Additional auth instructions",
+              },
+              content: {
+                type: "string" as const,
+                description: "Additional markdown content",
+              },
+              metadata: {
+                type: "object" as const,
+                description: "Additional OpenClaw metadata",
+              },
+            },
+            required: ["name", "description"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
+
+            if (p.actions !== undefined && !Array.isArray(p.actions)) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: "## Invalid Browser Actions\n\nactions must be an array",
+                  },
+                ],
+              };
+            }
+            const actionErrors = validateBrowserActions(
+              p.actions || [],
+              p.targetUrl,
+            );
+            if (actionErrors.length > 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text:
+                      `## Invalid Browser Actions\n\n` +
+                      actionErrors.map((e) => `- ${e}`).join("\n"),
+                  },
+                ],
+              };
+            }
+
+            const skillDir = writer.writeBrowserSkill({
+              name: p.name,
+              description: p.description,
+              targetUrl: p.targetUrl,
+              actions: p.actions,
+              authMethod: p.authMethod,
+              authNotes: p.authNotes,
+              content: p.content,
+              metadata: p.metadata,
+              provenance: captureProvenance(),
+            });
+
+            recordDocSources("skill", p.name, ["browser", "skills"]);
+
+            let summary =
+              `## Browser Skill Written\n\n` +
+              `**${p.name}**\n\n` +
+              `- Location: \`${skillDir}\`\n` +
+              `- Type: Browser automation skill\n` +
+              `- Target: ${p.targetUrl || "Not specified"}\n` +
+              `- Auth: ${p.authMethod || "none"}\n` +
+              `- Gated on: \`browser.enabled\` config\n`;
+
+            if (p.actions?.length) {
+              summary += `- Actions: ${p.actions.map((a: any) => a.name).join(", ")}\n`;
+              const replayable = p.actions.filter((a: any) =>
+                isStructured(a.steps),
+              );
+              if (replayable.length) {
+                summary += `- Replayable: ${replayable.map((a: any) => a.name).join(", ")} (\`${BROWSER_ACTIONS_FILE}\`)\n`;
+              }
+            }
+
+            const lint = lintSkillDir(skillDir, skillHost(api.config ?? {}));
+            for (const gap of describeGaps(lint.unmet)) {
+              summary += `- Can't run on this host: ${gap}\n`;
+            }
+            if (lint.issues.length > 0) {
+              summary += `\n**Spec issues:**\n${formatLintIssues(lint.issues)}`;
+            }
+
+            summary += lint.runnable
+              ? `\nSkill is ready. Enable browser in config and restart gateway to use.`
+              : `\nSkill is written, but OpenClaw will skip it on this host until the issues above are fixed.`;
+
+            return { content: [{ type: "text", text: summary }] };
+          },
+        },
+
+        // ── foundry_run_browser_action ──────────────────────────────────────────
+        {
+          name: "foundry_run_browser_action",
+          label: "Run Browser Action",
+          description:
+            "Replay a browser skill action's structured steps through the OpenClaw browser (navigate, click, fill, " +
+            "waitFor, extract, assert). Reports each step and returns the extracted values.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              skill: {
+                type: "string" as const,
+                description: "Browser skill name",
+              },
+              action: {
+                type: "string" as const,
+                description: "Action name (as written, case-insensitive)",
+              },
+              params: {
+                type: "object" as const,
+                description: "Values for the action's {{param}} placeholders",
+              },
+              controlUrl: {
+                type: "string" as const,
+                description: `Browser control server (default: browser.controlUrl config or ${DEFAULT_BROWSER_CONTROL_URL})`,
+              },
+              profile: {
+                type: "string" as const,
+                description: "Browser profile to use (default: the server's)",
+              },
+              timeoutMs: {
+                type: "number" as const,
+                description:
+                  "Per-step timeout for elements and page loads (default: 10000)",
+              },
+            },
+            required: ["skill", "action"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              skill: string;
+              action: string;
+              params?: Record<string, unknown>;
+              controlUrl?: string;
+              profile?: string;
+              timeoutMs?: number;
+            };
+            const skillDir = writer.artifactPath("skill", p.skill);
+            const file = skillDir && join(skillDir, BROWSER_ACTIONS_FILE);
+            if (!file || !existsSync(file)) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `No replayable actions for skill \`${p.skill}\` (write it with structured steps first)`,
+                  },
+                ],
+              };
+            }
+            let stored: BrowserActionsFile;
+            try {
+              stored = parseBrowserActions(readFileSync(file, "utf-8"));
+            } catch (err: any) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text:
+                      `## Invalid Browser Actions\n\n` +
+                      `\`${p.skill}\` can't be replayed until its ${BROWSER_ACTIONS_FILE} is fixed ` +
+                      `(rewrite the skill with foundry_write_browser_skill):\n\n` +
+                      err.message
+                        .split("\n")
+                        .map((e: string) => `- ${e}`)
+                        .join("\n"),
+                  },
+                ],
+              };
+            }
+            const action = stored.actions.find(
+              (a) => actionSlug(a.name) === actionSlug(p.action),
+            );
+            if (!action) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text:
+                      `Action not found: ${p.action}\n\n` +
+                      `Available: ${stored.actions.map((a) => a.name).join(", ")}`,
+                  },
+                ],
+              };
+            }
+
+            const store = writer.getSecretStore();
+            const run = await runBrowserAction(
+              action,
+              openClawBrowser({
+                controlUrl: p.controlUrl || api.config?.browser?.controlUrl,
+                profile: p.profile,
+              }),
+              {
+                params: Object.fromEntries(
+                  Object.entries(p.params || {}).map(([k, v]) => [
+                    k,
+                    String(v),
+                  ]),
+                ),
+                baseUrl: stored.targetUrl,
+                timeoutMs: p.timeoutMs,
+                secret: (name) => store.get(name),
+              },
+            );
+
+            const passed = run.steps.filter((s) => s.ok).length;
+            let output =
+              `## ${run.ok ? "✅" : "❌"} ${action.name} (\`${p.skill}\`)\n\n` +
+              `**${passed}/${action.steps.length} steps passed**\n\n`;
+            for (const step of run.steps) {
+              output += `${step.index + 1}. ${step.ok ? "✅" : "❌"} ${step.summary} (${step.ms}ms)\n`;
+              if (step.error) output += `   - ${step.error}\n`;
+            }
+            if (run.error && run.steps.length === 0) {
+              output += `${run.error}\n`;
+            }
+            if (Object.keys(run.extracted).length > 0) {
+              output += `\n### Extracted\n\n\`\`\`json\n${JSON.stringify(run.extracted, null, 2)}\n\`\`\`\n`;
+            }
+            return { content: [{ type: "text", text: output }] };
+          },
+        },
+
+        // ── foundry_write_hook ──────────────────────────────────────────────────
+        {
+          name: "foundry_write_hook",
+          label: "Write Hook",
+          description:
+            "Write a standalone OpenClaw hook (HOOK.md + handler.ts) to ~/.openclaw/hooks/. Hooks trigger on events like command:new, gateway:startup, etc. " +
+            "The handler is validated, security-scanned and run in a sandbox against a mock of each event before it is installed.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              name: {
+                type: "string" as const,
+                description: "Hook name (kebab-case, e.g., 'welcome-message')",
+              },
+              description: {
+                type: "string" as const,
+                description: "What this hook does",
+              },
+              events: {
+                type: "array" as const,
+                items: {
+                  type: "string" as const,
+                  enum: hookEvents.names("standalone"),
+                },
+                description: `Events that trigger this hook:\n${hookEvents
+                  .list("standalone")
+                  .map(
+                    (e) =>
+                      `- ${e.name}${e.description ? `: ${e.description}` : ""}`,
+                  )
+                  .join("\n")}`,
+              },
+              code: {
+                type: "string" as const,
+                description:
+                  "Handler code (TypeScript). Should define a `handler` const of type HookHandler. " +
+                  "`HookContext` is declared as the type of `event.context` for the chosen events.",
+              },
+              metadata: {
+                type: "object" as const,
+                description: "OpenClaw metadata (emoji, requires, etc.)",
+              },
+            },
+            required: ["name", "description", "events"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
+
+            let written: Awaited<ReturnType<CodeWriter["writeHook"]>>;
+            try {
+              written = await writer.writeHook(
+                {
+                  name: p.name,
+                  description: p.description,
+                  events: p.events,
+                  code: p.code,
+                  metadata: p.metadata,
+                  provenance: captureProvenance(),
+                },
+                codeValidator,
+              );
+            } catch (err: any) {
+              const errorMsg = err.message || String(err);
+              const isSandboxError = errorMsg.includes("Sandbox");
+              learningEngine.recordFailure(
+                "foundry_write_hook",
+                errorMsg,
+                `Hook: ${p.name}, Events: ${(p.events || []).join(", ")}`,
+                isSandboxError ? "sandbox_runtime_error" : "validation_error",
+              );
+
+              let feedback = `## Hook FAILED\n\n`;
+              feedback += `**Hook**: ${p.name}\n\n`;
+              feedback += isSandboxError
+                ? `**Runtime Error** - The handler failed to load, threw, or timed out in the sandbox.\n`
+                : `**Validation Error** - The hook failed static analysis.\n`;
+              feedback += `\n\`\`\`\n${errorMsg}\n\`\`\`\n\n`;
+              feedback += `Nothing was installed. Fix the handler and call \`foundry_write_hook\` again.`;
+              return { content: [{ type: "text", text: feedback }] };
+            }
+            const { path: hookDir, validation, sandbox } = written;
+
+            recordDocSources("hook", p.name, ["hooks"]);
+
+            let summary =
+              `## Hook Written\n\n` +
+              `**${p.name}**\n\n` +
+              `- Location: \`${hookDir}\`\n` +
+              `- Events: ${p.events.join(", ")}\n` +
+              `- Files: HOOK.md, handler.ts\n`;
+            if (sandbox.length > 0) {
+              summary += `- Sandbox: ${sandbox.map((r) => `${r.event} ✅ (${r.ms}ms${r.messages ? `, ${r.messages} message${r.messages === 1 ? "" : "s"}` : ""})`).join(", ")}\n`;
+            }
+            if (validation.warnings.length > 0) {
+              summary += `\n**Warnings:**\n${validation.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+            }
+            if (validation.securityFlags.length > 0) {
+              summary += `\n**Security flags (review recommended):**\n${validation.securityFlags.map((f) => `- ${f}`).join("\n")}\n`;
+            }
+            summary += `\nEnable with: \`openclaw hooks enable ${p.name}\``;
+
+            return { content: [{ type: "text", text: summary }] };
+          },
+        },
+
+        // ── foundry_add_tool ──────────────────────────────────────────────────
+        {
+          name: "foundry_add_tool",
+          label: "Add Tool",
+          description: "Add a new tool to an existing extension",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension to add tool to",
+              },
+              name: {
+                type: "string" as const,
+                description: "Tool name (snake_case)",
+              },
+              label: { type: "string" as const, description: "Display label" },
+              description: {
+                type: "string" as const,
+                description: "What the tool does",
+              },
+              properties: {
+                type: "object" as const,
+                description:
+                  "Input properties as JSON Schema per parameter (type, enum, items, properties, default, minimum, pattern, format, ...)",
+              },
+              required: {
+                type: "array" as const,
+                items: { type: "string" as const },
+              },
+              code: {
+                type: "string" as const,
+                description: "Execute function body",
+              },
+              tests: {
+                type: "array" as const,
+                description:
+                  "Example calls checked by foundry_test: {name?, input: {...params}, expect?: {text?, contains?, matches?, throws?}}",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    name: { type: "string" as const },
+                    input: { type: "object" as const },
+                    expect: {
+                      type: "object" as const,
+                      properties: {
+                        text: {
+                          type: "string" as const,
+                          description: "Exact text output",
+                        },
+                        contains: {
+                          type: "array" as const,
+                          items: { type: "string" as const },
+                          description: "Substrings the output must contain",
+                        },
+                        matches: {
+                          type: "string" as const,
+                          description: "Regex the output must match",
+                        },
+                        throws: {
+                          type: "boolean" as const,
+                          description: "execute() must throw",
+                        },
+                      },
+                    },
+                  },
+                  required: ["input"],
+                },
+              },
+            },
+            required: ["extensionId", "name", "description", "code"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
 
-export default {
-  id: "foundry-openclaw",
-  name: "Foundry",
-  description:
-    "Self-writing coding subagent — researches and implements capabilities",
+            return editExtension(
+              p.extensionId,
+              `Added tool **${p.name}** to **${p.extensionId}**.`,
+              () =>
+                writer.addTool(
+                  p.extensionId,
+                  {
+                    name: p.name,
+                    label: p.label,
+                    description: p.description,
+                    properties: p.properties || {},
+                    required: p.required || [],
+                    code: p.code,
+                    tests: p.tests,
+                    provenance: captureProvenance(),
+                  },
+                  codeValidator,
+                ),
+              ["plugin"],
+            );
+          },
+        },
 
-  register(api: ClawdbotPluginApi) {
-    const logger = api.logger;
-    const cfg = api.pluginConfig || {};
-    const dataDir =
-      (cfg as any).dataDir || join(homedir(), ".openclaw", "foundry");
-    const openclawPath =
-      (cfg as any).openclawPath || "/Users/lekt9/Projects/aiko/openclaw";
+        // ── foundry_add_hook ──────────────────────────────────────────────────
+        {
+          name: "foundry_add_hook",
+          label: "Add Hook",
+          description: "Add a new hook to an existing extension",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension to add hook to",
+              },
+              event: {
+                type: "string" as const,
+                enum: hookEvents.names("plugin"),
+                description: `Hook event:\n${hookEvents
+                  .list("plugin")
+                  .map(
+                    (e) =>
+                      `- ${e.name}${e.description ? `: ${e.description}` : ""}`,
+                  )
+                  .join("\n")}`,
+              },
+              code: {
+                type: "string" as const,
+                description: "Handler function body",
+              },
+            },
+            required: ["extensionId", "event", "code"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
 
-    if (!existsSync(dataDir)) mkdirSync(dataDir, { recursive: true });
+            return editExtension(
+              p.extensionId,
+              `Added **${p.event}** hook to **${p.extensionId}**.`,
+              () =>
+                writer.addHook(
+                  p.extensionId,
+                  {
+                    event: p.event,
+                    code: p.code,
+                    provenance: captureProvenance(),
+                  },
+                  codeValidator,
+                ),
+              ["hooks"],
+            );
+          },
+        },
 
-    const writer = new CodeWriter(dataDir, openclawPath, logger);
-    const docsFetcher = new DocsFetcher();
-    const learningEngine = new LearningEngine(dataDir, logger);
-    const codeValidator = new CodeValidator(logger);
+        // ── foundry_update_tool ───────────────────────────────────────────────
+        {
+          name: "foundry_update_tool",
+          label: "Update Tool",
+          description:
+            "Replace parts of a tool in an existing extension (label, description, properties, required, code, tests). " +
+            "The extension is re-validated and sandboxed; on failure the previous version stays in place.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension containing the tool",
+              },
+              name: { type: "string" as const, description: "Tool to update" },
+              label: { type: "string" as const, description: "New label" },
+              description: {
+                type: "string" as const,
+                description: "New description",
+              },
+              properties: {
+                type: "object" as const,
+                description: "New input properties (JSON Schema per parameter)",
+              },
+              required: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "New required parameter list",
+              },
+              code: {
+                type: "string" as const,
+                description: "New execute function body",
+              },
+              tests: {
+                type: "array" as const,
+                description:
+                  "Replacement test cases: {name?, input: {...params}, expect?: {text?, contains?, matches?, throws?}}",
+                items: {
+                  type: "object" as const,
+                  properties: {
+                    name: { type: "string" as const },
+                    input: { type: "object" as const },
+                    expect: {
+                      type: "object" as const,
+                      properties: {
+                        text: {
+                          type: "string" as const,
+                          description: "Exact text output",
+                        },
+                        contains: {
+                          type: "array" as const,
+                          items: { type: "string" as const },
+                          description: "Substrings the output must contain",
+                        },
+                        matches: {
+                          type: "string" as const,
+                          description: "Regex the output must match",
+                        },
+                        throws: {
+                          type: "boolean" as const,
+                          description: "execute() must throw",
+                        },
+                      },
+                    },
+                  },
+                  required: ["input"],
+                },
+              },
+            },
+            required: ["extensionId", "name"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as any;
+            const changes: Partial<ToolDef> = {};
+            for (const key of [
+              "label",
+              "description",
+              "properties",
+              "required",
+              "code",
+              "tests",
+            ] as const) {
+              if (p[key] !== undefined) changes[key] = p[key];
+            }
+            if (Object.keys(changes).length === 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: "Nothing to update: pass label, description, properties, required, code or tests.",
+                  },
+                ],
+              };
+            }
+            changes.provenance = captureProvenance();
+
+            return editExtension(
+              p.extensionId,
+              `Updated tool **${p.name}** in **${p.extensionId}** (${Object.keys(
+                changes,
+              )
+                .filter((k) => k !== "provenance")
+                .join(", ")}).`,
+              () =>
+                writer.updateTool(
+                  p.extensionId,
+                  p.name,
+                  changes,
+                  codeValidator,
+                ),
+              ["plugin"],
+            );
+          },
+        },
 
-    // Track current failure for resolution matching
-    let lastFailureId: string | null = null;
-    // RISE: Track pattern used for injection (to detect successful retries)
-    let lastInjectedPatternId: string | null = null;
-    let lastInjectedForTool: string | null = null;
-    // Track failures per extension/skill ID for learning resolution
-    const pendingFailures = new Map<string, { failureId: string; error: string; timestamp: number }>();
+        // ── foundry_rename_tool ───────────────────────────────────────────────
+        {
+          name: "foundry_rename_tool",
+          label: "Rename Tool",
+          description:
+            "Rename a tool in an existing extension. The extension is re-validated; on failure nothing changes.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension containing the tool",
+              },
+              name: { type: "string" as const, description: "Current name" },
+              newName: { type: "string" as const, description: "New name" },
+            },
+            required: ["extensionId", "name", "newName"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              extensionId: string;
+              name: string;
+              newName: string;
+            };
+            const result = await editExtension(
+              p.extensionId,
+              `Renamed tool **${p.name}** → **${p.newName}** in **${p.extensionId}**.`,
+              () =>
+                writer.renameTool(
+                  p.extensionId,
+                  p.name,
+                  p.newName,
+                  codeValidator,
+                ),
+            );
+            if (
+              writer
+                .getExtension(p.extensionId)
+                ?.tools.some((t) => t.name === p.newName)
+            ) {
+              learningEngine.relinkCrystallized(p.name, p.newName);
+            }
+            return result;
+          },
+        },
 
-    // ── Tools ───────────────────────────────────────────────────────────────
+        // ── foundry_remove_tool ───────────────────────────────────────────────
+        {
+          name: "foundry_remove_tool",
+          label: "Remove Tool",
+          description:
+            "Remove a tool from an existing extension. The extension is re-validated; on failure nothing changes.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension containing the tool",
+              },
+              name: { type: "string" as const, description: "Tool to remove" },
+            },
+            required: ["extensionId", "name"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as { extensionId: string; name: string };
+            const result = await editExtension(
+              p.extensionId,
+              `Removed tool **${p.name}** from **${p.extensionId}**.`,
+              () => writer.removeTool(p.extensionId, p.name, codeValidator),
+            );
+            if (
+              !writer
+                .getExtension(p.extensionId)
+                ?.tools.some((t) => t.name === p.name)
+            ) {
+              learningEngine.unlinkCrystallized([p.name]);
+            }
+            return result;
+          },
+        },
 
-    const tools = (_ctx: ClawdbotPluginToolContext) => {
-      const toolList = [
-        // ── foundry_research ──────────────────────────────────────────────────
+        // ── foundry_update_hook ───────────────────────────────────────────────
         {
-          name: "foundry_research",
-          label: "Research Documentation",
+          name: "foundry_update_hook",
+          label: "Update Hook",
           description:
-            "Search docs.openclaw.ai for best practices. Use before implementing to understand " +
-            "the OpenClaw API, patterns, and conventions.",
+            "Replace the handler code (or event) of a hook in an existing extension. The extension is " +
+            "re-validated and sandboxed; on failure the previous version stays in place.",
           parameters: {
             type: "object" as const,
             properties: {
-              query: {
+              extensionId: {
                 type: "string" as const,
+                description: "Extension containing the hook",
+              },
+              event: {
+                type: "string" as const,
+                description: "Event of the hook to update",
+              },
+              index: {
+                type: "number" as const,
                 description:
-                  "What to research (e.g., 'how to write hooks', 'browser automation', 'skill structure')",
+                  "Which hook, when the extension has several on this event (0-based)",
               },
-              topic: {
+              code: {
                 type: "string" as const,
-                enum: [
-                  "plugin",
-                  "hooks",
-                  "tools",
-                  "browser",
-                  "skills",
-                  "agent",
-                  "gateway",
-                  "channels",
-                  "memory",
-                  "models",
-                  "automation",
-                  "nodes",
-                  "security",
+                description: "New handler function body",
+              },
+              newEvent: {
+                type: "string" as const,
+                enum: hookEvents.names("plugin"),
+                description: "Move the hook to another event",
+              },
+            },
+            required: ["extensionId", "event"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              extensionId: string;
+              event: string;
+              index?: number;
+              code?: string;
+              newEvent?: string;
+            };
+            if (p.code === undefined && p.newEvent === undefined) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: "Nothing to update: pass code or newEvent.",
+                  },
                 ],
-                description:
-                  "Specific topic to fetch docs for (optional, faster than query)",
+              };
+            }
+            const changes: Partial<HookDef> = {
+              provenance: captureProvenance(),
+            };
+            if (p.code !== undefined) changes.code = p.code;
+            if (p.newEvent !== undefined) changes.event = p.newEvent;
+
+            return editExtension(
+              p.extensionId,
+              `Updated **${p.event}** hook in **${p.extensionId}**${p.newEvent ? ` (now on ${p.newEvent})` : ""}.`,
+              () =>
+                writer.updateHook(
+                  p.extensionId,
+                  p.event,
+                  changes,
+                  codeValidator,
+                  p.index,
+                ),
+              ["hooks"],
+            );
+          },
+        },
+
+        // ── foundry_remove_hook ───────────────────────────────────────────────
+        {
+          name: "foundry_remove_hook",
+          label: "Remove Hook",
+          description:
+            "Remove a hook from an existing extension. The extension is re-validated; on failure nothing changes.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              extensionId: {
+                type: "string" as const,
+                description: "Extension containing the hook",
               },
-              page: {
+              event: {
                 type: "string" as const,
+                description: "Event of the hook to remove",
+              },
+              index: {
+                type: "number" as const,
                 description:
-                  "Specific doc page path (e.g., '/tools/plugin', '/automation/hooks')",
+                  "Which hook, when the extension has several on this event (0-based)",
               },
             },
-            required: [],
+            required: ["extensionId", "event"],
           },
           async execute(_toolCallId: string, params: unknown) {
             const p = params as {
-              query?: string;
-              topic?: string;
-              page?: string;
+              extensionId: string;
+              event: string;
+              index?: number;
             };
+            return editExtension(
+              p.extensionId,
+              `Removed **${p.event}** hook from **${p.extensionId}**.`,
+              () =>
+                writer.removeHook(
+                  p.extensionId,
+                  p.event,
+                  codeValidator,
+                  p.index,
+                ),
+            );
+          },
+        },
 
-            let content: string;
-
-            if (p.page) {
-              content = await docsFetcher.fetchPage(p.page);
-            } else if (p.topic) {
-              content = await docsFetcher.fetchForTopic(p.topic);
-            } else if (p.query) {
-              content = await docsFetcher.search(p.query);
-            } else {
-              content =
-                `## Available Documentation Topics\n\n` +
-                Object.entries(DOC_PAGES)
-                  .map(
-                    ([topic, pages]) => `- **${topic}**: ${pages.join(", ")}`,
-                  )
-                  .join("\n") +
-                `\n\nUse \`topic\` for specific docs, \`query\` for search, or \`page\` for a specific path.`;
+        // ── foundry_test ──────────────────────────────────────────────────────
+        {
+          name: "foundry_test",
+          label: "Test Extension",
+          description:
+            "Run the test cases declared on an extension's tools (ToolDef.tests) and report pass/fail per tool. " +
+            "Results count toward each tool's fitness.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              id: { type: "string" as const, description: "Extension ID" },
+              tools: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Only run these tools' cases (default: all)",
+              },
+            },
+            required: ["id"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as { id: string; tools?: string[] };
+            const ext = writer.getExtensions().find((e) => e.id === p.id);
+            if (!ext) {
+              return {
+                content: [
+                  { type: "text", text: `Extension not found: ${p.id}` },
+                ],
+              };
+            }
+            const untested = ext.tools
+              .filter((t) => !t.tests?.length)
+              .filter((t) => !p.tools?.length || p.tools.includes(t.name))
+              .map((t) => t.name);
+
+            const run = await codeValidator.runTests(
+              writer.artifactPath("extension", p.id)!,
+              join(dataDir, "sandbox"),
+              p.tools,
+            );
+            if (!run.success) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `## Tests Failed to Run: \`${p.id}\`\n\n\`\`\`\n${run.error}\n\`\`\``,
+                  },
+                ],
+              };
             }
 
-            return { content: [{ type: "text", text: content }] };
+            // Test outcomes count like live calls toward tool fitness
+            for (const r of run.results) {
+              learningEngine.recordToolExecution(r.tool, r.passed, r.latencyMs);
+            }
+
+            const passed = run.results.filter((r) => r.passed).length;
+            let output = `## Tests: \`${p.id}\`\n\n`;
+            output += `**${passed}/${run.results.length} passed**\n`;
+
+            const byTool = new Map<string, ToolTestResult[]>();
+            for (const r of run.results) {
+              byTool.set(r.tool, [...(byTool.get(r.tool) || []), r]);
+            }
+            for (const [tool, results] of byTool) {
+              const ok = results.filter((r) => r.passed).length;
+              output += `\n### ${tool} — ${ok}/${results.length}`;
+              output += ok === results.length ? " ✅\n" : " ❌\n";
+              for (const r of results) {
+                output += `- ${r.passed ? "✅" : "❌"} ${r.name} (${r.latencyMs}ms)\n`;
+                for (const f of r.failures) output += `  - ${f}\n`;
+                if (!r.passed && r.output) {
+                  output += `  - Output: \`${r.output.slice(0, 200).replace(/\s+/g, " ")}\`\n`;
+                }
+              }
+            }
+            if (untested.length > 0) {
+              output += `\n**No test cases**: ${untested.join(", ")}. Add them with \`foundry_update_tool\` (\`tests\`).\n`;
+            }
+            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_implement ─────────────────────────────────────────────────
+        // ── foundry_secrets ───────────────────────────────────────────────────
         {
-          name: "foundry_implement",
-          label: "Implement Capability",
+          name: "foundry_secrets",
+          label: "Secrets",
           description:
-            "Research best practices and implement a capability. Describe what you need and this tool " +
-            "will research documentation, patterns, and implement it as an extension or skill.",
+            "Manage the encrypted foundry secret store that generated skills and extensions read credentials from. " +
+            "Values are never shown. Skills reference secrets as {{secret:NAME}} in authHeaders (auth schemes read the secret named like their env var); " +
+            'extensions list them in `secrets` and call secret("NAME").',
           parameters: {
             type: "object" as const,
             properties: {
-              capability: {
+              action: {
                 type: "string" as const,
+                enum: ["list", "set", "rotate", "delete", "rotate_key"],
                 description:
-                  "What capability to implement (e.g., 'OAuth token refresh', 'rate limiting', 'webhook handler')",
+                  "list: names and usage; set: create or overwrite; rotate: replace an existing value; delete; rotate_key: re-encrypt everything under a new master key",
               },
-              type: {
+              name: {
                 type: "string" as const,
-                enum: ["extension", "skill", "tool", "hook"],
                 description:
-                  "What to create: extension (full plugin), skill (API client), tool (single tool), hook (event handler)",
+                  "Secret name, e.g. GITHUB_TOKEN (set/rotate/delete)",
               },
-              targetExtension: {
+              value: {
                 type: "string" as const,
-                description: "For tool/hook: which extension to add it to",
+                description: "Secret value (set/rotate)",
               },
             },
-            required: ["capability", "type"],
+            required: ["action"],
           },
           async execute(_toolCallId: string, params: unknown) {
             const p = params as {
-              capability: string;
-              type: string;
-              targetExtension?: string;
+              action: string;
+              name?: string;
+              value?: string;
             };
+            const store = writer.getSecretStore();
+            const usage = writer.secretUsage();
+            const text = (t: string) => ({
+              content: [{ type: "text", text: t }],
+            });
 
-            // Build context from platform docs
-            let context = `## Implementation: ${p.capability}\n\n`;
-            context += `**Type**: ${p.type}\n\n`;
-
-            // Fetch relevant docs
             try {
-              const relevantTopics: string[] = [];
-              if (p.type === "extension" || p.type === "tool")
-                relevantTopics.push("plugin");
-              if (p.type === "hook" || p.type === "extension")
-                relevantTopics.push("hooks");
-              if (p.type === "skill") relevantTopics.push("skills");
-
-              for (const topic of relevantTopics) {
-                const topicDocs = await docsFetcher.fetchForTopic(topic);
-                context += `### ${topic.charAt(0).toUpperCase() + topic.slice(1)} API\n\n`;
-                context += topicDocs.slice(0, 2000) + "\n\n";
-              }
-            } catch (err) {
-              const docs = writer.getDocs();
-              if (docs.plugin) {
-                context += `### Plugin API (local)\n\n`;
-                context += docs.plugin.slice(0, 3000) + "\n\n";
+              if (p.action === "list") {
+                const secrets = store.list();
+                const lines = secrets.map((s) => {
+                  const users = usage.get(s.name)?.users || [];
+                  return `- \`${s.name}\` — v${s.version}, updated ${s.updatedAt.slice(0, 10)}${users.length > 0 ? ` · used by ${users.join(", ")}` : ""}`;
+                });
+                let output = `## Secrets (${secrets.length})\n\n${lines.length > 0 ? lines.join("\n") : "No secrets stored."}\n`;
+                const missing = [...usage.entries()].filter(
+                  ([name, u]) => u.required && !store.has(name),
+                );
+                if (missing.length > 0) {
+                  output += `\n**Referenced but not set:**\n${missing.map(([name, u]) => `- \`${name}\` — ${u.users.join(", ")}`).join("\n")}\n`;
+                }
+                return text(output);
               }
-            }
-
-            // Implementation guidance
-            context += `## Implementation Guide\n\n`;
 
-            switch (p.type) {
-              case "extension":
-                context += `Use \`foundry_write_extension\` with:\n`;
-                context += `- id: kebab-case identifier\n`;
-                context += `- name: Human-readable name\n`;
-                context += `- description: What it does\n`;
-                context += `- tools: Array of tool definitions\n`;
-                context += `- hooks: Array of hook definitions\n\n`;
-                context += `Each tool needs: name, label, description, properties, required, code\n`;
-                context += `Each hook needs: event (before_agent_start, after_tool_call, before_tool_call, agent_end), code\n`;
-                break;
+              if (p.action === "rotate_key") {
+                const count = store.rotateMasterKey();
+                return text(
+                  `## Master Key Rotated\n\nRe-encrypted ${count} secret${count === 1 ? "" : "s"} under a new master key.`,
+                );
+              }
 
-              case "skill":
-                context += `Use \`foundry_write_skill\` with:\n`;
-                context += `- name: Skill name\n`;
-                context += `- description: What it does\n`;
-                context += `- baseUrl: API base URL\n`;
-                context += `- endpoints: Array of { method, path, description }\n`;
-                context += `- authHeaders: Optional auth headers to store\n`;
-                break;
+              if (!p.name) throw new Error(`"${p.action}" needs a name`);
+              validateSecretName(p.name);
+              const users = usage.get(p.name)?.users || [];
+              const usedBy =
+                users.length > 0 ? `\n\nUsed by: ${users.join(", ")}.` : "";
+
+              if (p.action === "set" || p.action === "rotate") {
+                if (!p.value) throw new Error(`"${p.action}" needs a value`);
+                const version =
+                  p.action === "rotate"
+                    ? store.rotate(p.name, p.value)
+                    : store.set(p.name, p.value).version;
+                return text(
+                  `## Secret ${p.action === "rotate" ? "Rotated" : "Stored"}\n\n` +
+                    `\`${p.name}\` is at v${version}, encrypted in the foundry secret store. ` +
+                    `Reference it as \`{{secret:${p.name}}}\` in skill authHeaders, or list it in an extension's \`secrets\` and call \`secret("${p.name}")\`. ` +
+                    `Generated code reads the current value at runtime; nothing needs regenerating.${usedBy}`,
+                );
+              }
 
-              case "tool":
-                if (!p.targetExtension) {
-                  return {
-                    content: [
-                      {
-                        type: "text",
-                        text: "Error: targetExtension required for type=tool",
-                      },
-                    ],
-                  };
+              if (p.action === "delete") {
+                if (!store.remove(p.name)) {
+                  return text(`No secret named \`${p.name}\`.`);
                 }
-                context += `Use \`foundry_add_tool\` with:\n`;
-                context += `- extensionId: "${p.targetExtension}"\n`;
-                context += `- name: tool_name (snake_case)\n`;
-                context += `- description: What it does\n`;
-                context += `- properties: Input parameters\n`;
-                context += `- code: The execute function body\n`;
-                break;
+                return text(
+                  `## Secret Deleted\n\n\`${p.name}\` was removed.${users.length > 0 ? `\n\n**Still referenced by:** ${users.join(", ")}.` : ""}`,
+                );
+              }
 
-              case "hook":
-                if (!p.targetExtension) {
-                  return {
-                    content: [
-                      {
-                        type: "text",
-                        text: "Error: targetExtension required for type=hook",
-                      },
-                    ],
-                  };
-                }
-                context += `Use \`foundry_add_hook\` with:\n`;
-                context += `- extensionId: "${p.targetExtension}"\n`;
-                context += `- event: One of before_agent_start, after_tool_call, before_tool_call, agent_end\n`;
-                context += `- code: The handler function body (has access to event, ctx)\n`;
-                break;
+              throw new Error(`Unknown action "${p.action}"`);
+            } catch (err: any) {
+              return text(`## Secrets Error\n\n${err.message}`);
             }
-
-            context += `\n## Next Steps\n\n`;
-            context += `1. Review the docs above\n`;
-            context += `2. Design the implementation\n`;
-            context += `3. Call the appropriate foundry_write_* tool with the code\n`;
-
-            return { content: [{ type: "text", text: context }] };
           },
         },
-
-        // ── foundry_write_extension ───────────────────────────────────────────
+        // ── foundry_list ──────────────────────────────────────────────────────
         {
-          name: "foundry_write_extension",
-          label: "Write Extension",
+          name: "foundry_list",
+          label: "List Written Code",
           description:
-            "Write a new OpenClaw extension to ~/.openclaw/extensions/. Use foundry_restart to load and resume.",
+            "List all extensions, skills and hooks written by foundry, and reconcile the manifest with disk: " +
+            "reports missing, modified (hand-edited) and unmanaged artifacts. Pass `resolve` with `id` to adopt, " +
+            "restore or forget one of them.",
           parameters: {
             type: "object" as const,
             properties: {
-              id: {
-                type: "string" as const,
-                description: "Extension ID (kebab-case)",
+              showCode: {
+                type: "boolean" as const,
+                description: "Show generated code",
               },
-              name: {
+              resolve: {
                 type: "string" as const,
-                description: "Human-readable name",
+                enum: ["adopt", "restore", "forget"],
+                description:
+                  "adopt: accept what is on disk; restore: rewrite from the last saved version; forget: drop from the manifest (or stop reporting an unmanaged artifact)",
               },
-              description: {
+              id: {
                 type: "string" as const,
-                description: "What this extension does",
-              },
-              tools: {
-                type: "array" as const,
-                description: "Tools to include",
-                items: {
-                  type: "object" as const,
-                  properties: {
-                    name: { type: "string" as const },
-                    label: { type: "string" as const },
-                    description: { type: "string" as const },
-                    properties: { type: "object" as const },
-                    required: {
-                      type: "array" as const,
-                      items: { type: "string" as const },
-                    },
-                    code: {
-                      type: "string" as const,
-                      description: "Execute function body",
-                    },
-                  },
-                },
+                description: "Drifted artifact to resolve",
               },
-              hooks: {
-                type: "array" as const,
-                description: "Hooks to include",
-                items: {
-                  type: "object" as const,
-                  properties: {
-                    event: { type: "string" as const },
-                    code: { type: "string" as const },
-                  },
-                },
+              kind: {
+                type: "string" as const,
+                enum: ["extension", "skill", "hook"],
+                description: "Artifact kind, when the ID is ambiguous",
               },
             },
-            required: ["id", "name", "description"],
+            required: [] as string[],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
-
-            const tools: ToolDef[] = (p.tools || []).map((t: any) => ({
-              name: t.name,
-              label: t.label,
-              description: t.description || "",
-              properties: t.properties || {},
-              required: t.required || [],
-              code:
-                t.code ||
-                "return { content: [{ type: 'text', text: 'Not implemented' }] };",
-            }));
+            const p = params as {
+              showCode?: boolean;
+              resolve?: "adopt" | "restore" | "forget";
+              id?: string;
+              kind?: VersionedKind;
+            };
 
-            const hooks: HookDef[] = (p.hooks || []).map((h: any) => ({
-              event: h.event,
-              code: h.code || "// No-op",
-            }));
+            let output = `## Foundry: Written Code\n\n`;
 
-            try {
-              const { path: extDir, validation } = await writer.writeExtension(
-                {
-                  id: p.id,
-                  name: p.name,
-                  description: p.description,
-                  tools,
-                  hooks,
-                },
-                codeValidator,
-              );
+            if (p.resolve) {
+              const item = writer
+                .reconcile()
+                .find((d) => d.id === p.id && (!p.kind || d.kind === p.kind));
+              if (!item) {
+                output += `**Resolve**: no drifted artifact "${p.id}"${p.kind ? ` (${p.kind})` : ""}.\n\n`;
+              } else {
+                try {
+                  output += `**Resolved**: ${await writer.resolveDrift(item, p.resolve)}\n\n`;
+                  if (p.resolve === "forget" && item.status !== "unmanaged") {
+                    docsWatch.forget(item.kind, item.id);
+                  }
+                } catch (err: any) {
+                  output += `**Resolve failed**: ${err.message}\n\n`;
+                }
+              }
+            }
 
-              let output =
-                `## Extension Written\n\n` +
-                `**${p.name}** (\`${p.id}\`)\n\n` +
-                `- Location: \`${extDir}\`\n` +
-                `- Tools: ${tools.length}\n` +
-                `- Hooks: ${hooks.length}\n`;
+            const drift = writer.reconcile();
+            const extensions = writer.getExtensions();
+            const skills = writer.getSkills();
+            const hooks = writer.getHooks();
 
-              if (validation.warnings.length > 0) {
-                output += `\n**Warnings:**\n${validation.warnings.map((w) => `- ${w}`).join("\n")}\n`;
-              }
-              if (validation.securityFlags.length > 0) {
-                output += `\n**Security flags (review recommended):**\n${validation.securityFlags.map((f) => `- ${f}`).join("\n")}\n`;
-              }
+            output += `### Extensions (${extensions.length})\n\n`;
+            for (const ext of extensions) {
+              output += `**${ext.name}** (\`${ext.id}\`)\n`;
+              output += `- Tools: ${ext.tools.map((t) => t.name).join(", ") || "none"}\n`;
+              output += `- Hooks: ${ext.hooks.map((h) => h.event).join(", ") || "none"}\n`;
+              output += `- Created: ${ext.createdAt}\n\n`;
 
-              // Link success to previous failure → create pattern
-              const pendingKey = `ext:${p.id}`;
-              const pending = pendingFailures.get(pendingKey);
-              if (pending) {
-                // Create pattern: failure error → successful code approach
-                const resolution = `Fixed by: ${tools.map(t => t.name).join(", ")} tools, avoiding: ${pending.error.slice(0, 100)}`;
-                learningEngine.recordResolution(pending.failureId, resolution);
-                pendingFailures.delete(pendingKey);
-                logger.info(`[foundry] Learned pattern from ${p.id}: ${pending.error.slice(0, 50)}...`);
-                output += `\n**Learned**: Pattern created from previous failure.\n`;
+              if (p.showCode) {
+                const codePath = join(
+                  homedir(),
+                  ".openclaw",
+                  "extensions",
+                  ext.id,
+                  "index.ts",
+                );
+                if (existsSync(codePath)) {
+                  output +=
+                    "```typescript\n" +
+                    readFileSync(codePath, "utf-8").slice(0, 2000) +
+                    "\n```\n\n";
+                }
               }
+            }
 
-              output += `\n**Next**: Call \`foundry_restart\` to reload gateway and auto-resume this conversation.`;
-
-              return { content: [{ type: "text", text: output }] };
-            } catch (err: any) {
-              // SelfEvolve (arXiv:2306.02907): Return structured feedback for LLM refinement
-              const errorMsg = err.message || String(err);
-              const isSandboxError = errorMsg.includes("Sandbox");
-              const isValidationError = errorMsg.includes("validation");
-
-              // Record the failure for learning
-              const failureId = learningEngine.recordFailure(
-                "foundry_write_extension",
-                errorMsg,
-                `Extension: ${p.id}, Tools: ${tools.length}, Hooks: ${hooks.length}`,
-                isSandboxError ? "sandbox_runtime_error" : "validation_error",
-              );
-              // Track for resolution linking when extension succeeds later
-              pendingFailures.set(`ext:${p.id}`, { failureId, error: errorMsg, timestamp: Date.now() });
+            output += `### Skills (${skills.length})\n\n`;
+            for (const skill of skills) {
+              output += `**${skill.name}**\n`;
+              if (skill.baseUrl) {
+                output += `- Base URL: \`${skill.baseUrl}\`\n`;
+                output += `- Endpoints: ${skill.endpoints?.length ?? 0}\n`;
+              }
+              if (skill.graphql) {
+                output += `- GraphQL endpoint: \`${skill.graphql.endpoint}\`\n`;
+              }
+              output += `- Created: ${skill.createdAt}\n\n`;
+            }
 
-              // Build detailed feedback for the LLM to self-correct
-              let feedback = `## Extension FAILED - SelfEvolve Feedback\n\n`;
-              feedback += `**Extension**: ${p.name} (\`${p.id}\`)\n\n`;
-              feedback += `### Error Type\n`;
-              feedback += isSandboxError
-                ? `**Runtime Error** - The code compiled but failed during execution.\n`
-                : `**Validation Error** - The code failed static analysis.\n`;
-              feedback += `\n### Error Details\n\`\`\`\n${errorMsg}\n\`\`\`\n\n`;
+            // Every skill folder, including marketplace and hand-made ones
+            const checks = writer.lintSkills(skillHost(api.config ?? {}));
+            const flagged = checks.filter(
+              (r) => r.issues.length > 0 || r.unmet.length > 0,
+            );
+            if (flagged.length > 0) {
+              output += `### Skill Checks (${flagged.length} of ${checks.length} need attention)\n\n`;
+              output += flagged.map(formatSkillLint).join("\n") + "\n";
+            } else if (checks.length > 0) {
+              output += `### Skill Checks\n\nAll ${checks.length} skills pass the spec and can run on this host.\n\n`;
+            }
 
-              // Provide specific guidance based on error type
-              feedback += `### How to Fix\n`;
-              if (isSandboxError) {
-                feedback += `1. Check for undefined variables or missing imports\n`;
-                feedback += `2. Ensure all async functions are properly awaited\n`;
-                feedback += `3. Verify the code handles edge cases (null, undefined, empty)\n`;
-                feedback += `4. Check that external dependencies are available\n`;
-              } else if (isValidationError) {
-                feedback += `1. Review the validation rules in the error message\n`;
-                feedback += `2. Remove any blocked patterns (dangerous code, etc.)\n`;
-                feedback += `3. Ensure proper types and structure\n`;
+            if (hooks.length > 0) {
+              output += `### Hooks (${hooks.length})\n\n`;
+              for (const hook of hooks) {
+                output += `**${hook.name}** (${hook.kind})\n`;
+                if (hook.events?.length)
+                  output += `- Events: ${hook.events.join(", ")}\n`;
+                output += `- Created: ${hook.createdAt}\n\n`;
               }
+            }
 
-              feedback += `\n### Retry Instructions\n`;
-              feedback += `Fix the issues above and call \`foundry_write_extension\` again with corrected code.\n`;
-              feedback += `The code should be self-contained and not rely on external state.\n`;
+            if (drift.length > 0) {
+              const actions: Record<DriftStatus, string> = {
+                missing: "restore or forget",
+                modified: "adopt, restore or forget",
+                unmanaged: "adopt or forget",
+              };
+              output += `### Drift (${drift.length})\n\n`;
+              for (const d of drift) {
+                output += `- **${d.status}** ${d.kind} \`${d.id}\` — \`${d.path}\``;
+                if (d.files?.length) output += ` (${d.files.join(", ")})`;
+                output += ` → ${actions[d.status]}\n`;
+              }
+              output += `\nResolve with \`foundry_list\` { resolve, id }.\n\n`;
+            }
 
-              return { content: [{ type: "text", text: feedback }] };
+            if (extensions.length === 0 && skills.length === 0) {
+              output +=
+                "No code written yet. Use `foundry_implement` to get started.\n";
             }
+
+            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_write_skill (OpenClaw/AgentSkills-compatible) ───────────────
+        // ── foundry_lint_skill ────────────────────────────────────────────────
         {
-          name: "foundry_write_skill",
-          label: "Write Skill",
+          name: "foundry_lint_skill",
+          label: "Lint Skill",
           description:
-            "Write an OpenClaw/AgentSkills-compatible skill (SKILL.md) to ~/.openclaw/skills/. Supports both general skills and API-based skills.",
+            "Check SKILL.md files against the AgentSkills/OpenClaw spec (frontmatter fields, single-line metadata JSON, " +
+            "metadata.openclaw shape) and check their requirements (os, requires.bins/anyBins/env/config) on this host. " +
+            "Works on any skill folder, including skills installed from the marketplace. Omit `skill` to check all skills.",
           parameters: {
             type: "object" as const,
             properties: {
-              name: {
-                type: "string" as const,
-                description:
-                  "Skill name (kebab-case recommended, e.g., 'my-skill')",
-              },
-              description: {
-                type: "string" as const,
-                description: "What this skill does (appears in frontmatter)",
-              },
-              content: {
+              skill: {
                 type: "string" as const,
                 description:
-                  "Markdown content for the skill (after frontmatter)",
+                  "Skill name or folder in ~/.openclaw/skills, or a path to a skill folder",
               },
-              // OpenClaw frontmatter options
-              homepage: {
+            },
+            required: [] as string[],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as { skill?: string };
+            const host = skillHost(api.config ?? {});
+
+            if (p.skill) {
+              const result = writer.lintSkill(p.skill, host);
+              const text = result
+                ? `## Skill Lint\n\n${formatSkillLint(result)}`
+                : `No skill folder with a SKILL.md found for "${p.skill}".`;
+              return { content: [{ type: "text", text }] };
+            }
+
+            const results = writer.lintSkills(host);
+            if (results.length === 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: "No skills installed. Use `foundry_write_skill` to write one.",
+                  },
+                ],
+              };
+            }
+            const runnable = results.filter((r) => r.runnable).length;
+            const clean = results.filter((r) => r.issues.length === 0).length;
+            let output = `## Skill Lint\n\n${runnable}/${results.length} skills can run on this host; ${clean}/${results.length} have no spec issues.\n\n`;
+            output += results.map(formatSkillLint).join("\n");
+            return { content: [{ type: "text", text: output }] };
+          },
+        },
+
+        // ── foundry_install_skill_deps ────────────────────────────────────────
+        {
+          name: "foundry_install_skill_deps",
+          label: "Install Skill Dependencies",
+          description:
+            "Install what a skill's metadata.openclaw.install specs describe. Specs are filtered by this host's OS " +
+            "and skipped when their bins are already on PATH. node and uv installs run into foundry's own prefix " +
+            "(bin/ is on PATH), download specs save the file there, and brew/go specs are listed to run by hand. " +
+            "Use dryRun to see the plan first; `remove` uninstalls what this tool installed for the skill.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              skill: {
                 type: "string" as const,
-                description: "URL for skill documentation/website",
-              },
-              userInvocable: {
-                type: "boolean" as const,
                 description:
-                  "Whether skill is exposed as user slash command (default: true)",
+                  "Skill name or folder in ~/.openclaw/skills, or a path to a skill folder",
               },
-              disableModelInvocation: {
+              dryRun: {
                 type: "boolean" as const,
-                description: "Exclude from model prompt (default: false)",
-              },
-              commandDispatch: {
-                type: "string" as const,
-                enum: ["tool"],
-                description: "Bypass model and dispatch directly to tool",
+                description: "Only show the plan",
               },
-              commandTool: {
-                type: "string" as const,
-                description: "Tool name when command-dispatch is 'tool'",
+              only: {
+                type: "array" as const,
+                items: { type: "string" as const },
+                description: "Install spec IDs to act on (default: all)",
               },
-              commandArgMode: {
-                type: "string" as const,
-                enum: ["raw"],
-                description: "How to forward args to tool",
+              remove: {
+                type: "boolean" as const,
+                description: "Uninstall the skill's recorded installs instead",
               },
-              metadata: {
-                type: "object" as const,
-                description:
-                  "OpenClaw metadata for gating (requires.bins, requires.env, etc.)",
-                properties: {
-                  openclaw: {
-                    type: "object" as const,
-                    properties: {
-                      always: {
-                        type: "boolean" as const,
-                        description: "Always include skill (skip gates)",
-                      },
-                      emoji: {
-                        type: "string" as const,
-                        description: "Emoji for macOS Skills UI",
-                      },
-                      homepage: {
-                        type: "string" as const,
-                        description: "URL for macOS Skills UI",
-                      },
-                      os: {
-                        type: "array" as const,
-                        items: {
-                          type: "string" as const,
-                          enum: ["darwin", "linux", "win32"],
-                        },
-                      },
-                      primaryEnv: {
-                        type: "string" as const,
-                        description: "Env var for apiKey mapping",
-                      },
-                      skillKey: {
-                        type: "string" as const,
-                        description: "Config key override",
-                      },
-                      requires: {
-                        type: "object" as const,
-                        properties: {
-                          bins: {
-                            type: "array" as const,
-                            items: { type: "string" as const },
-                            description: "Required binaries on PATH",
-                          },
-                          anyBins: {
-                            type: "array" as const,
-                            items: { type: "string" as const },
-                            description: "At least one required",
-                          },
-                          env: {
-                            type: "array" as const,
-                            items: { type: "string" as const },
-                            description: "Required env vars",
-                          },
-                          config: {
-                            type: "array" as const,
-                            items: { type: "string" as const },
-                            description: "Required config paths",
-                          },
-                        },
-                      },
-                    },
+            },
+            required: ["skill"],
+          },
+          async execute(_toolCallId: string, params: unknown) {
+            const p = params as {
+              skill: string;
+              dryRun?: boolean;
+              only?: string[];
+              remove?: boolean;
+            };
+            const dir = writer.findSkillDir(p.skill);
+            if (!dir) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `No skill folder with a SKILL.md found for "${p.skill}".`,
                   },
-                },
-              },
-              // Legacy API-based skill support
-              baseUrl: {
-                type: "string" as const,
-                description: "(Legacy) API base URL for API-based skills",
-              },
-              endpoints: {
-                type: "array" as const,
-                description: "(Legacy) API endpoints for API-based skills",
-                items: {
-                  type: "object" as const,
-                  properties: {
-                    method: {
-                      type: "string" as const,
-                      enum: ["GET", "POST", "PUT", "DELETE", "PATCH"],
-                    },
-                    path: {
-                      type: "string" as const,
-                      description: "Path with {param} placeholders",
-                    },
-                    description: { type: "string" as const },
+                ],
+              };
+            }
+            const key = basename(dir);
+            const recorded = skillDeps
+              .installed(key)
+              .filter((d) => !p.only || p.only.includes(d.id));
+
+            if (p.remove) {
+              let output = p.dryRun
+                ? `## Dry Run: Remove Dependencies of \`${key}\`\n\n`
+                : `## Removed Dependencies of \`${key}\`\n\n`;
+              if (recorded.length === 0) {
+                output += "Nothing recorded as installed by foundry.\n";
+                return { content: [{ type: "text", text: output }] };
+              }
+              for (const dep of recorded) {
+                output += `- \`${dep.id}\` (${dep.kind} ${dep.source})`;
+                if (dep.bins.length)
+                  output += ` — bins: ${dep.bins.join(", ")}`;
+                output += "\n";
+              }
+              if (p.dryRun) {
+                output += `\nNothing was changed. Call again without \`dryRun\` to remove.`;
+              } else {
+                try {
+                  await skillDeps.remove(key, p.only);
+                } catch (err: any) {
+                  output += `\n**Remove failed**: ${err.message}\n`;
+                }
+              }
+              return { content: [{ type: "text", text: output }] };
+            }
+
+            const { openclaw } = lintSkillMd(
+              readFileSync(join(dir, "SKILL.md"), "utf-8"),
+            );
+            const host = skillHost(api.config ?? {});
+            const steps = skillDeps
+              .plan(key, openclaw?.install, host.platform, host.hasBin)
+              .filter((s) => !p.only || p.only.includes(s.spec?.id));
+            if (steps.length === 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Skill \`${key}\` has no ${p.only ? "matching " : ""}install specs (metadata.openclaw.install).`,
                   },
-                },
-              },
-              authHeaders: {
-                type: "object" as const,
-                description: "(Legacy) Auth headers for API-based skills",
+                ],
+              };
+            }
+
+            const icons: Record<InstallStep["action"], string> = {
+              install: "▶",
+              manual: "✋",
+              skip: "⏭",
+            };
+            let output = p.dryRun
+              ? `## Dry Run: Install Plan for \`${key}\` (${host.platform})\n\n`
+              : `## Installing Dependencies of \`${key}\` (${host.platform})\n\n`;
+            for (const step of steps) {
+              output += `- ${icons[step.action]} \`${step.spec?.id ?? "?"}\` ${step.action}`;
+              if (step.command) output += `: \`${step.command}\``;
+              if (step.reason) output += ` (${step.reason})`;
+              output += "\n";
+            }
+            output += `\nPrefix: \`${skillDeps.prefix}\`\n`;
+
+            if (p.dryRun) {
+              output += `\nNothing was installed. Call again without \`dryRun\` to run the ▶ steps.`;
+              return { content: [{ type: "text", text: output }] };
+            }
+            if (!steps.some((s) => s.action === "install")) {
+              output += `\nNothing to install.`;
+              return { content: [{ type: "text", text: output }] };
+            }
+
+            const outcomes = await skillDeps.install(key, steps);
+            output += `\n### Results\n\n`;
+            for (const outcome of outcomes) {
+              output += outcome.ok
+                ? `- ✅ \`${outcome.id}\`${outcome.dep?.bins.length ? ` — bins: ${outcome.dep.bins.join(", ")}` : ""}\n`
+                : `- ❌ \`${outcome.id}\`: ${outcome.error}\n`;
+            }
+            const lint = lintSkillDir(dir, skillHost(api.config ?? {}));
+            output += lint.unmet.length
+              ? `\nStill unmet: ${describeGaps(lint.unmet).join("; ")}\n`
+              : `\nAll requirements of \`${key}\` are met on this host.\n`;
+            output += `Remove later with \`foundry_install_skill_deps\` { skill: "${key}", remove: true }.`;
+            return { content: [{ type: "text", text: output }] };
+          },
+        },
+
+        // ── foundry_explain ───────────────────────────────────────────────────
+        {
+          name: "foundry_explain",
+          label: "Explain Artifact",
+          description:
+            "Show the lineage of a generated extension, tool, skill or hook: the research/implement calls, " +
+            "doc sections, learning patterns and marketplace abilities that fed into it.",
+          parameters: {
+            type: "object" as const,
+            properties: {
+              id: {
+                type: "string" as const,
+                description:
+                  "Extension ID, tool name, skill name, hook name, or learning pattern ID",
               },
             },
-            required: ["name", "description"],
+            required: ["id"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
+            const p = params as { id: string };
+            const sections: string[] = [];
+
+            const docStatus = (kind: WatchedArtifactKind, id: string) => {
+              const tracked = docsWatch.sourcesFor(kind, id).length;
+              const changed = docsWatch
+                .pending()
+                .find((a) => a.kind === kind && a.id === id);
+              let line = `- **Doc sections tracked**: ${tracked}`;
+              if (changed)
+                line += ` (${changed.changes.length} changed — see \`foundry_docs_changes\`)`;
+              return line + "\n";
+            };
 
-            const skillDir = writer.writeSkill({
-              name: p.name,
-              description: p.description,
-              content: p.content,
-              homepage: p.homepage,
-              userInvocable: p.userInvocable,
-              disableModelInvocation: p.disableModelInvocation,
-              commandDispatch: p.commandDispatch,
-              commandTool: p.commandTool,
-              commandArgMode: p.commandArgMode,
-              metadata: p.metadata,
-              baseUrl: p.baseUrl,
-              endpoints: p.endpoints,
-              authHeaders: p.authHeaders,
-            });
+            for (const ext of writer.getExtensions()) {
+              if (ext.id === p.id) {
+                let output = `## Extension: ${ext.name} (\`${ext.id}\`)\n\n`;
+                output += `- **Created**: ${ext.createdAt}\n`;
+                output += `- **Tools**: ${ext.tools.map((t) => t.name).join(", ") || "none"}\n`;
+                output += `- **Hooks**: ${ext.hooks.map((h) => h.event).join(", ") || "none"}\n`;
+                output += docStatus("extension", ext.id);
+                output += `\n### Provenance\n\n${formatProvenance(ext.provenance)}`;
+                for (const t of ext.tools.filter((t) => t.provenance)) {
+                  output += `\n### Tool added later: ${t.name}\n\n${formatProvenance(t.provenance)}`;
+                }
+                for (const h of ext.hooks.filter((h) => h.provenance)) {
+                  output += `\n### Hook added later: ${h.event}\n\n${formatProvenance(h.provenance)}`;
+                }
+                sections.push(output);
+              }
 
-            const isApiSkill = p.baseUrl && p.endpoints?.length > 0;
-            let summary =
-              `## Skill Written (OpenClaw-compatible)\n\n` +
-              `**${p.name}**\n\n` +
-              `- Location: \`${skillDir}\`\n` +
-              `- Format: AgentSkills/OpenClaw SKILL.md\n`;
+              const tool = ext.tools.find((t) => t.name === p.id);
+              if (tool) {
+                let output = `## Tool: ${tool.name}\n\n`;
+                output += `- **Extension**: \`${ext.id}\`\n`;
+                output += `- **Description**: ${tool.description}\n`;
+                output += tool.provenance
+                  ? `\n### Provenance\n\n${formatProvenance(tool.provenance)}`
+                  : `\n### Provenance (inherited from extension)\n\n${formatProvenance(ext.provenance)}`;
+                sections.push(output);
+              }
+            }
 
-            if (isApiSkill) {
-              summary +=
-                `- Type: API-based skill\n` +
-                `- Base URL: \`${p.baseUrl}\`\n` +
-                `- Endpoints: ${p.endpoints.length}\n`;
-            } else {
-              summary += `- Type: General skill\n`;
+            for (const skill of writer.getSkills()) {
+              if (skill.name !== p.id) continue;
+              let output = `## Skill: ${skill.name}\n\n`;
+              output += `- **Created**: ${skill.createdAt}\n`;
+              output += docStatus("skill", skill.name);
+              output += `\n### Provenance\n\n${formatProvenance(skill.provenance)}`;
+              sections.push(output);
             }
 
-            if (p.metadata?.openclaw?.requires) {
-              const req = p.metadata.openclaw.requires;
-              if (req.bins?.length)
-                summary += `- Required bins: ${req.bins.join(", ")}\n`;
-              if (req.env?.length)
-                summary += `- Required env: ${req.env.join(", ")}\n`;
-              if (req.config?.length)
-                summary += `- Required config: ${req.config.join(", ")}\n`;
+            for (const hook of writer.getHooks()) {
+              if (hook.name !== p.id) continue;
+              let output = `## Hook: ${hook.name} (${hook.kind})\n\n`;
+              output += `- **Path**: \`${hook.path}\`\n`;
+              if (hook.events?.length)
+                output += `- **Events**: ${hook.events.join(", ")}\n`;
+              if (hook.patternId)
+                output += `- **Crystallized from**: \`${hook.patternId}\`\n`;
+              output += `- **Created**: ${hook.createdAt}\n`;
+              if (hook.kind === "openclaw")
+                output += docStatus("hook", hook.name);
+              output += `\n### Provenance\n\n${formatProvenance(hook.provenance)}`;
+              sections.push(output);
+            }
+
+            // Reverse lineage: artifacts a learning pattern or ability fed into
+            const derived: string[] = [];
+            const uses = (prov?: Provenance) =>
+              !!prov &&
+              (prov.learningPatternIds.includes(p.id) ||
+                prov.abilities.includes(p.id));
+            for (const ext of writer.getExtensions()) {
+              if (uses(ext.provenance)) derived.push(`extension \`${ext.id}\``);
+              for (const t of ext.tools) {
+                if (uses(t.provenance))
+                  derived.push(`tool \`${t.name}\` in \`${ext.id}\``);
+              }
+            }
+            for (const skill of writer.getSkills()) {
+              if (uses(skill.provenance))
+                derived.push(`skill \`${skill.name}\``);
+            }
+            for (const hook of writer.getHooks()) {
+              if (uses(hook.provenance)) derived.push(`hook \`${hook.name}\``);
+            }
+            if (derived.length > 0) {
+              sections.push(
+                `## Artifacts derived from \`${p.id}\`\n\n${derived.map((d) => `- ${d}`).join("\n")}\n`,
+              );
             }
 
-            summary += `\nSkill is ready. Restart gateway or start new session to load.`;
+            if (sections.length === 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `No extension, tool, skill, hook or learning pattern found for "${p.id}". Use \`foundry_list\` to see written artifacts.`,
+                  },
+                ],
+              };
+            }
 
-            return { content: [{ type: "text", text: summary }] };
+            return {
+              content: [{ type: "text", text: sections.join("\n---\n\n") }],
+            };
           },
         },
 
-        // ── foundry_write_browser_skill ─────────────────────────────────────────
+        // ── foundry_history ───────────────────────────────────────────────────
         {
-          name: "foundry_write_browser_skill",
-          label: "Write Browser Skill",
+          name: "foundry_history",
+          label: "Artifact History",
           description:
-            "Write a browser automation skill that uses the OpenClaw browser tool. Automatically gates on browser.enabled config.",
+            "List the saved versions of a written extension, skill or hook, or show the diff of one version " +
+            "against the previous one (or against `compareTo`).",
           parameters: {
             type: "object" as const,
             properties: {
-              name: {
-                type: "string" as const,
-                description: "Skill name (kebab-case, e.g., 'twitter-poster')",
-              },
-              description: {
-                type: "string" as const,
-                description: "What this skill automates",
-              },
-              targetUrl: {
-                type: "string" as const,
-                description: "Primary URL this skill interacts with",
-              },
-              actions: {
-                type: "array" as const,
-                description: "Documented browser actions",
-                items: {
-                  type: "object" as const,
-                  properties: {
-                    name: {
-                      type: "string" as const,
-                      description: "Action name (e.g., 'Post Tweet')",
-                    },
-                    description: {
-                      type: "string" as const,
-                      description: "What this action does",
-                    },
-                    steps: {
-                      type: "array" as const,
-                      items: { type: "string" as const },
-                      description: "Step-by-step instructions",
-                    },
-                  },
-                },
-              },
-              authMethod: {
+              id: {
                 type: "string" as const,
-                enum: ["manual", "cookie", "header", "oauth"],
-                description: "How authentication is handled",
+                description: "Extension ID, skill name or hook name",
               },
-              authNotes: {
+              kind: {
                 type: "string" as const,
-                description: "Additional auth instructions",
+                enum: ["extension", "skill", "hook"],
+                description: "Artifact kind (detected from the ID if omitted)",
               },
-              content: {
-                type: "string" as const,
-                description: "Additional markdown content",
+              version: {
+                type: "number" as const,
+                description: "Show the changes introduced by this version",
               },
-              metadata: {
-                type: "object" as const,
-                description: "Additional OpenClaw metadata",
+              compareTo: {
+                type: "number" as const,
+                description:
+                  "Version to diff against (default: the one before `version`)",
               },
             },
-            required: ["name", "description"],
+            required: ["id"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
-
-            const skillDir = writer.writeBrowserSkill({
-              name: p.name,
-              description: p.description,
-              targetUrl: p.targetUrl,
-              actions: p.actions,
-              authMethod: p.authMethod,
-              authNotes: p.authNotes,
-              content: p.content,
-              metadata: p.metadata,
-            });
-
-            let summary =
-              `## Browser Skill Written\n\n` +
-              `**${p.name}**\n\n` +
-              `- Location: \`${skillDir}\`\n` +
-              `- Type: Browser automation skill\n` +
-              `- Target: ${p.targetUrl || "Not specified"}\n` +
-              `- Auth: ${p.authMethod || "none"}\n` +
-              `- Gated on: \`browser.enabled\` config\n`;
+            const p = params as {
+              id: string;
+              kind?: VersionedKind;
+              version?: number;
+              compareTo?: number;
+            };
+            const kind = p.kind || writer.findArtifactKind(p.id);
+            const history = kind ? writer.getHistory(kind, p.id) : [];
+            if (!kind || history.length === 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `No history for "${p.id}". Versions are recorded each time an extension, skill or hook is written.`,
+                  },
+                ],
+              };
+            }
 
-            if (p.actions?.length) {
-              summary += `- Actions: ${p.actions.map((a: any) => a.name).join(", ")}\n`;
+            if (p.version === undefined) {
+              const current = history[history.length - 1].version;
+              let output = `## History: ${kind} \`${p.id}\`\n\n`;
+              for (const v of [...history].reverse()) {
+                output += `- **v${v.version}**${v.version === current ? " (current)" : ""} — ${v.createdAt} — ${v.note} (${v.files.length} files${v.skipped ? `, ${v.skipped.length} too large to keep` : ""})\n`;
+              }
+              output += `\nUse \`foundry_history\` with \`version\` to see a diff, or \`foundry_rollback\` to restore one.`;
+              return { content: [{ type: "text", text: output }] };
             }
 
-            summary += `\nSkill is ready. Enable browser in config and restart gateway to use.`;
+            const from = p.compareTo ?? p.version - 1;
+            const target = history.find((v) => v.version === p.version);
+            if (!target) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Version ${p.version} of "${p.id}" not found (have ${history.map((v) => `v${v.version}`).join(", ")}).`,
+                  },
+                ],
+              };
+            }
 
-            return { content: [{ type: "text", text: summary }] };
+            let output = `## ${kind} \`${p.id}\` v${p.version}\n\n`;
+            output += `- **Written**: ${target.createdAt}\n`;
+            output += `- **Note**: ${target.note}\n`;
+            output += `- **Files**: ${target.files.join(", ") || "none"}\n\n`;
+            try {
+              if (from < 1) {
+                output += `First version — nothing to compare against.\n`;
+              } else {
+                const diff = writer.diffVersions(kind, p.id, from, p.version);
+                output += diff
+                  ? `### Diff v${from} → v${p.version}\n\n\`\`\`diff\n${diff.slice(0, 20000)}\n\`\`\`\n`
+                  : `No file changes since v${from}.\n`;
+              }
+            } catch (err: any) {
+              output += `Cannot diff: ${err.message}\n`;
+            }
+            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_write_hook ──────────────────────────────────────────────────
+        // ── foundry_rollback ──────────────────────────────────────────────────
         {
-          name: "foundry_write_hook",
-          label: "Write Hook",
+          name: "foundry_rollback",
+          label: "Rollback Artifact",
           description:
-            "Write a standalone OpenClaw hook (HOOK.md + handler.ts) to ~/.openclaw/hooks/. Hooks trigger on events like command:new, gateway:startup, etc.",
+            "Restore an earlier version of a written extension, skill or hook. The version is validated, scanned and " +
+            "(for extensions and hooks) sandboxed before anything is overwritten; the rollback is itself recorded as a new version.",
           parameters: {
             type: "object" as const,
             properties: {
-              name: {
-                type: "string" as const,
-                description: "Hook name (kebab-case, e.g., 'welcome-message')",
-              },
-              description: {
+              id: {
                 type: "string" as const,
-                description: "What this hook does",
+                description: "Extension ID, skill name or hook name",
               },
-              events: {
-                type: "array" as const,
-                items: {
-                  type: "string" as const,
-                  enum: [
-                    "command:new",
-                    "command:reset",
-                    "command:stop",
-                    "agent:bootstrap",
-                    "gateway:startup",
-                    "tool_result_persist",
-                  ],
-                },
-                description: "Events that trigger this hook",
+              version: {
+                type: "number" as const,
+                description: "Version to restore (see foundry_history)",
               },
-              code: {
+              kind: {
                 type: "string" as const,
-                description:
-                  "Handler code (TypeScript). Should define a `handler` const of type HookHandler.",
-              },
-              metadata: {
-                type: "object" as const,
-                description: "OpenClaw metadata (emoji, requires, etc.)",
+                enum: ["extension", "skill", "hook"],
+                description: "Artifact kind (detected from the ID if omitted)",
               },
             },
-            required: ["name", "description", "events"],
+            required: ["id", "version"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
-
-            const hookDir = writer.writeHook({
-              name: p.name,
-              description: p.description,
-              events: p.events,
-              code: p.code,
-              metadata: p.metadata,
-            });
-
-            const summary =
-              `## Hook Written\n\n` +
-              `**${p.name}**\n\n` +
-              `- Location: \`${hookDir}\`\n` +
-              `- Events: ${p.events.join(", ")}\n` +
-              `- Files: HOOK.md, handler.ts\n\n` +
-              `Enable with: \`openclaw hooks enable ${p.name}\``;
+            const p = params as {
+              id: string;
+              version: number;
+              kind?: VersionedKind;
+            };
+            const kind = p.kind || writer.findArtifactKind(p.id);
+            if (!kind) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `No history for "${p.id}". Use \`foundry_list\` to see written artifacts.`,
+                  },
+                ],
+              };
+            }
 
-            return { content: [{ type: "text", text: summary }] };
+            try {
+              const result = await writer.rollback(
+                kind,
+                p.id,
+                p.version,
+                codeValidator,
+              );
+              let output =
+                `## Rolled Back\n\n` +
+                `Restored ${kind} \`${p.id}\` to v${p.version} (recorded as v${result.version}).\n\n` +
+                `- Location: \`${result.path}\`\n`;
+              if (result.sandbox?.length) {
+                output += `- Sandbox: ${result.sandbox.map((r) => `${r.event} ✅`).join(", ")}\n`;
+              }
+              if (result.validation?.warnings.length) {
+                output += `\n**Warnings:**\n${result.validation.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+              }
+              if (result.skipped?.length) {
+                output +=
+                  `\n**Not restored** (over 1 MB, so not kept in v${p.version}):\n` +
+                  `${result.skipped.map((f) => `- \`${f}\``).join("\n")}\n` +
+                  (kind === "extension"
+                    ? `These files are no longer in the extension; copy them back by hand.\n`
+                    : `The current copies, if any, were left in place.\n`);
+              }
+              if (kind !== "skill") {
+                output += `\n**Next**: Call \`foundry_restart\` to load the restored version.`;
+              }
+              return { content: [{ type: "text", text: output }] };
+            } catch (err: any) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `## Rollback Failed\n\n${err.message}\n\nNothing was changed.`,
+                  },
+                ],
+              };
+            }
           },
         },
 
-        // ── foundry_add_tool ──────────────────────────────────────────────────
+        // ── foundry_remove ────────────────────────────────────────────────────
         {
-          name: "foundry_add_tool",
-          label: "Add Tool",
-          description: "Add a new tool to an existing extension",
+          name: "foundry_remove",
+          label: "Remove Artifact",
+          description:
+            "Uninstall a generated extension, skill, browser skill or hook (including crystallized hooks): " +
+            "deletes its files, drops it from the manifest and unlinks learning patterns crystallized into it. " +
+            "Use dryRun to list what would be removed.",
           parameters: {
             type: "object" as const,
             properties: {
-              extensionId: {
-                type: "string" as const,
-                description: "Extension to add tool to",
-              },
-              name: {
+              id: {
                 type: "string" as const,
-                description: "Tool name (snake_case)",
+                description: "Extension ID, skill name or hook name",
               },
-              label: { type: "string" as const, description: "Display label" },
-              description: {
+              kind: {
                 type: "string" as const,
-                description: "What the tool does",
+                enum: ["extension", "skill", "hook"],
+                description: "Artifact kind (detected from the ID if omitted)",
               },
-              properties: {
-                type: "object" as const,
-                description: "Input properties",
+              dryRun: {
+                type: "boolean" as const,
+                description: "Only list what would be removed",
               },
-              required: {
-                type: "array" as const,
-                items: { type: "string" as const },
+              force: {
+                type: "boolean" as const,
+                description:
+                  "Also remove an extension or skill directory foundry didn't write (requires kind)",
               },
-              code: {
-                type: "string" as const,
-                description: "Execute function body",
+              restart: {
+                type: "boolean" as const,
+                description:
+                  "Restart the gateway afterwards so a removed extension or hook is unloaded",
               },
             },
-            required: ["extensionId", "name", "description", "code"],
+            required: ["id"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
-
-            const success = writer.addTool(p.extensionId, {
-              name: p.name,
-              label: p.label,
-              description: p.description,
-              properties: p.properties || {},
-              required: p.required || [],
-              code: p.code,
-            });
-
-            if (!success) {
+            const p = params as {
+              id: string;
+              kind?: VersionedKind;
+              dryRun?: boolean;
+              force?: boolean;
+              restart?: boolean;
+            };
+            let plan: RemovalPlan | undefined;
+            try {
+              plan = writer.planRemoval(p.id, p.kind, p.force);
+            } catch (err: any) {
+              return {
+                content: [
+                  { type: "text", text: `## Not Removed\n\n${err.message}` },
+                ],
+              };
+            }
+            if (!plan) {
               return {
                 content: [
                   {
                     type: "text",
-                    text: `Extension "${p.extensionId}" not found.`,
+                    text: `No ${p.kind || "extension, skill or hook"} named "${p.id}". Use \`foundry_list\` to see written artifacts.`,
                   },
                 ],
               };
             }
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Added tool **${p.name}** to **${p.extensionId}**.\n\nCall \`foundry_restart\` to load and resume.`,
-                },
-              ],
-            };
+            const unlinked = learningEngine.unlinkCrystallized(
+              plan.linkedIds,
+              p.dryRun,
+            );
+            const label =
+              plan.kind === "hook" ? `${plan.hookKind} hook` : plan.kind;
+
+            let output = p.dryRun
+              ? `## Dry Run: Remove ${label} \`${plan.id}\`\n\n`
+              : `## Removed ${label} \`${plan.id}\`\n\n`;
+            output += `- **Files**: ${plan.paths.map((path) => `\`${path}\``).join(", ") || "none on disk"}\n`;
+            output += `- **Manifest entry**: ${plan.inManifest ? "yes" : "no"}\n`;
+            output += `- **Learning links**: ${unlinked.length > 0 ? unlinked.map((id) => `\`${id}\``).join(", ") : "none"}\n`;
+            const depsKey =
+              plan.kind === "skill"
+                ? basename(writer.artifactPath("skill", plan.id)!)
+                : undefined;
+            const deps = depsKey ? skillDeps.installed(depsKey) : [];
+            if (deps.length > 0) {
+              output += `- **Installed dependencies**: ${deps.map((d) => `\`${d.id}\` (${d.kind})`).join(", ")}\n`;
+            }
+
+            if (p.dryRun) {
+              output += `\nNothing was changed. Call again without \`dryRun\` to remove.`;
+              return { content: [{ type: "text", text: output }] };
+            }
+
+            writer.remove(plan);
+            if (depsKey && deps.length > 0) {
+              try {
+                await skillDeps.remove(depsKey);
+              } catch (err: any) {
+                output += `\n**Dependency removal failed**: ${err.message}\n`;
+              }
+            }
+            if (plan.kind !== "hook" || plan.hookKind === "openclaw") {
+              docsWatch.forget(plan.kind, plan.id);
+            }
+            if (writer.getHistory(plan.kind, plan.id).length > 0) {
+              output += `\nVersion history is kept; \`foundry_rollback\` can restore it.\n`;
+            }
+
+            if (p.restart && plan.kind !== "skill") {
+              const { exec } = require("node:child_process");
+              learningEngine.savePendingSession({
+                agentId: "current",
+                lastMessage: "Continue from where we left off",
+                context: `Removed ${label} ${plan.id}`,
+                reason: `Unload removed ${label} ${plan.id}`,
+              });
+              setTimeout(() => {
+                exec("openclaw gateway restart", (error: any) => {
+                  if (error) {
+                    logger.error?.(
+                      `[foundry] Restart failed: ${error.message}`,
+                    );
+                  }
+                });
+              }, 500);
+              output += `\n**Gateway restart scheduled** — the conversation will resume afterwards.`;
+            } else if (plan.kind !== "skill") {
+              output += `\n**Next**: Call \`foundry_restart\` to unload it.`;
+            }
+
+            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_add_hook ──────────────────────────────────────────────────
+        // ── foundry_docs ──────────────────────────────────────────────────────
         {
-          name: "foundry_add_hook",
-          label: "Add Hook",
-          description: "Add a new hook to an existing extension",
+          name: "foundry_docs",
+          label: "Read OpenClaw Docs",
+          description:
+            "Browse and search the docs of the local OpenClaw install (every Markdown page plus type declarations). " +
+            "Pass `page` to read a page, `section` to read one heading (optionally within `page`), or `query` to search. " +
+            "With no parameters, lists the indexed pages.",
           parameters: {
             type: "object" as const,
             properties: {
-              extensionId: {
+              page: {
                 type: "string" as const,
-                description: "Extension to add hook to",
+                description:
+                  "Page name (e.g. 'plugin', 'tools/exec') or declaration file path",
               },
-              event: {
+              section: {
                 type: "string" as const,
-                enum: [
-                  "before_agent_start",
-                  "after_tool_call",
-                  "before_tool_call",
-                  "agent_end",
-                ],
-                description: "Hook event",
+                description:
+                  "Heading to read, e.g. 'Registering tools' ('plugin', 'hooks' and 'both' still select whole pages)",
               },
-              code: {
+              query: {
                 type: "string" as const,
-                description: "Handler function body",
+                description: "Search all local docs and type declarations",
+              },
+              maxChars: {
+                type: "number" as const,
+                description: "Character budget for the output (default: 8000)",
+              },
+              reload: {
+                type: "boolean" as const,
+                description: "Re-scan the docs directory before answering",
               },
             },
-            required: ["extensionId", "event", "code"],
+            required: [] as string[],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as any;
-
-            const success = writer.addHook(p.extensionId, {
-              event: p.event,
-              code: p.code,
-            });
+            const p = params as {
+              page?: string;
+              section?: string;
+              query?: string;
+              maxChars?: number;
+              reload?: boolean;
+            };
+            const localDocs = writer.getLocalDocs();
+            const maxChars = p.maxChars || 8000;
+            if (p.reload) {
+              localDocs.load();
+              for (const url of docsWatch.trackedUrls()) {
+                const page = localDocs.getByFile(url);
+                if (page) docsWatch.applyPage(url, page.content);
+              }
+            }
 
-            if (!success) {
+            if (localDocs.size() === 0) {
               return {
                 content: [
                   {
                     type: "text",
-                    text: `Extension "${p.extensionId}" not found.`,
+                    text: `Could not load OpenClaw docs from ${localDocs.docsDir}. Check openclawPath config.`,
                   },
                 ],
               };
             }
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Added **${p.event}** hook to **${p.extensionId}**.\n\nCall \`foundry_restart\` to load and resume.`,
-                },
-              ],
+            const clip = (text: string) =>
+              text.length > maxChars
+                ? text.slice(0, maxChars) + "\n\n[truncated]"
+                : text;
+
+            // Search mode
+            if (p.query) {
+              const hits = localDocs.search(p.query, { maxChars });
+              if (hits.length === 0) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: `No local docs match "${p.query}".`,
+                    },
+                  ],
+                };
+              }
+              let output = `## Local Docs: ${p.query}\n\n`;
+              for (const hit of hits) {
+                const { section } = hit;
+                docsFetcher.noteConsulted(section.url, section.anchor);
+                const title =
+                  [...section.headingPath, section.heading]
+                    .filter(Boolean)
+                    .join(" › ") || section.url;
+                const source = section.anchor
+                  ? `${section.url}#${section.anchor}`
+                  : section.url;
+                output += `### ${title}\n\nSource: ${source}\n\n${section.text}${hit.truncated ? "\n\n[truncated]" : ""}\n\n---\n\n`;
+              }
+              return { content: [{ type: "text", text: output }] };
+            }
+
+            // Legacy whole-page sections
+            const legacy: Record<string, string[]> = {
+              plugin: ["plugin"],
+              hooks: ["hooks"],
+              both: ["plugin", "hooks"],
             };
+            const pageNames = p.page
+              ? [p.page]
+              : p.section && legacy[p.section]
+                ? legacy[p.section]
+                : [];
+
+            // Section mode
+            if (p.section && !legacy[p.section]) {
+              const sections = localDocs.getSections(p.section, p.page);
+              if (sections.length === 0) {
+                const outline = p.page ? localDocs.outline(p.page) : [];
+                let text = `No section "${p.section}" found${p.page ? ` in ${p.page}` : ""}.`;
+                if (outline.length > 0) {
+                  text += `\n\nSections:\n${outline.map((s) => `${"  ".repeat(s.headingPath.length)}- ${s.heading}`).join("\n")}`;
+                }
+                return { content: [{ type: "text", text }] };
+              }
+              let output = "";
+              for (const section of sections) {
+                docsFetcher.noteConsulted(section.url, section.anchor);
+                output += `Source: ${section.url}#${section.anchor}\n\n${section.text}\n\n---\n\n`;
+              }
+              return { content: [{ type: "text", text: clip(output) }] };
+            }
+
+            // Page mode
+            if (pageNames.length > 0) {
+              let output = "";
+              const budget = Math.floor(maxChars / pageNames.length);
+              for (const name of pageNames) {
+                const page = localDocs.getPage(name);
+                if (!page) {
+                  output += `### ${name}\n\nNot found. Call foundry_docs with no parameters to list pages.\n\n`;
+                  continue;
+                }
+                output += `### ${page.title}\n\nSource: ${page.file}\n\n`;
+                docsFetcher.noteConsulted(page.file);
+                if (page.content.length <= budget) {
+                  output += page.content + "\n\n";
+                  continue;
+                }
+                output += page.content.slice(0, budget) + "\n\n[truncated]\n\n";
+                const outline = localDocs.outline(page.name);
+                if (outline.length > 0) {
+                  output += `Read the rest by section:\n${outline.map((s) => `${"  ".repeat(s.headingPath.length)}- ${s.heading}`).join("\n")}\n\n`;
+                }
+              }
+              return { content: [{ type: "text", text: output }] };
+            }
+
+            // List mode
+            const docPages = localDocs.pages("doc");
+            const typePages = localDocs.pages("types");
+            let output = `## OpenClaw Docs (${docPages.length} pages, ${typePages.length} type declaration files)\n\n`;
+            const byDir = new Map<string, typeof docPages>();
+            for (const page of docPages) {
+              const dir = page.name.includes("/")
+                ? page.name.slice(0, page.name.lastIndexOf("/"))
+                : ".";
+              if (!byDir.has(dir)) byDir.set(dir, []);
+              byDir.get(dir)!.push(page);
+            }
+            for (const [dir, pages] of byDir) {
+              output += `### ${dir === "." ? "docs" : dir}\n`;
+              for (const page of pages) {
+                output += `- **${page.name}**: ${page.title}\n`;
+              }
+              output += "\n";
+            }
+            if (typePages.length > 0) {
+              output += `### Type declarations\n`;
+              for (const page of typePages) output += `- ${page.name}\n`;
+              output += "\n";
+            }
+            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_list ──────────────────────────────────────────────────────
+        // ── foundry_docs_snapshot ─────────────────────────────────────────────
         {
-          name: "foundry_list",
-          label: "List Written Code",
-          description: "List all extensions and skills written by foundry",
+          name: "foundry_docs_snapshot",
+          label: "Docs Snapshot",
+          description:
+            "Export or import an offline documentation bundle. Export on a connected machine, " +
+            "import on an air-gapped one so foundry_research and foundry_implement work offline.",
           parameters: {
             type: "object" as const,
             properties: {
-              showCode: {
+              action: {
+                type: "string" as const,
+                enum: ["export", "import", "status"],
+                description:
+                  "export (write bundle), import (load bundle), status (show cached pages)",
+              },
+              path: {
+                type: "string" as const,
+                description:
+                  "Bundle file path (default: <dataDir>/docs-snapshot.json)",
+              },
+              prefetch: {
                 type: "boolean" as const,
-                description: "Show generated code",
+                description:
+                  "For export: fetch every known doc page first (default: true)",
+              },
+              overwrite: {
+                type: "boolean" as const,
+                description:
+                  "For import: replace cached pages even if they are newer",
               },
             },
-            required: [] as string[],
+            required: ["action"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as { showCode?: boolean };
-            const extensions = writer.getExtensions();
-            const skills = writer.getSkills();
-
-            let output = `## Foundry: Written Code\n\n`;
+            const p = params as {
+              action: string;
+              path?: string;
+              prefetch?: boolean;
+              overwrite?: boolean;
+            };
+            const bundlePath = p.path || join(dataDir, "docs-snapshot.json");
 
-            output += `### Extensions (${extensions.length})\n\n`;
-            for (const ext of extensions) {
-              output += `**${ext.name}** (\`${ext.id}\`)\n`;
-              output += `- Tools: ${ext.tools.map((t) => t.name).join(", ") || "none"}\n`;
-              output += `- Hooks: ${ext.hooks.map((h) => h.event).join(", ") || "none"}\n`;
-              output += `- Created: ${ext.createdAt}\n\n`;
+            try {
+              if (p.action === "export") {
+                let output = `## Docs Snapshot Exported\n\n`;
+                if (p.prefetch !== false) {
+                  const { fetched, failed } = await docsFetcher.prefetchAll();
+                  output += `- Prefetched: ${fetched} pages\n`;
+                  if (failed.length > 0)
+                    output += `- Failed: ${failed.join(", ")}\n`;
+                }
+                const count = docsFetcher.exportSnapshot(bundlePath);
+                output += `- Entries: ${count}\n`;
+                output += `- Path: \`${bundlePath}\`\n\n`;
+                output += `Copy this file to the offline machine and run \`foundry_docs_snapshot action="import"\`.`;
+                return { content: [{ type: "text", text: output }] };
+              }
 
-              if (p.showCode) {
-                const codePath = join(
-                  homedir(),
-                  ".openclaw",
-                  "extensions",
-                  ext.id,
-                  "index.ts",
+              if (p.action === "import") {
+                if (!existsSync(bundlePath)) {
+                  return {
+                    content: [
+                      {
+                        type: "text",
+                        text: `Snapshot not found: ${bundlePath}`,
+                      },
+                    ],
+                  };
+                }
+                const { imported, skipped } = docsFetcher.importSnapshot(
+                  bundlePath,
+                  p.overwrite,
                 );
-                if (existsSync(codePath)) {
-                  output +=
-                    "```typescript\n" +
-                    readFileSync(codePath, "utf-8").slice(0, 2000) +
-                    "\n```\n\n";
+                // Imported pages may be newer than what artifacts were built from
+                const tracked = new Set(docsWatch.trackedUrls());
+                for (const entry of docsFetcher.getCachedEntries()) {
+                  if (tracked.has(entry.url))
+                    docsWatch.applyPage(entry.url, entry.content);
                 }
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text:
+                        `## Docs Snapshot Imported\n\n` +
+                        `- Imported: ${imported}\n` +
+                        `- Skipped (cache already newer): ${skipped}\n\n` +
+                        `Cached docs are served when the network is unavailable.`,
+                    },
+                  ],
+                };
               }
-            }
 
-            output += `### Skills (${skills.length})\n\n`;
-            for (const skill of skills) {
-              output += `**${skill.name}**\n`;
-              if (skill.baseUrl) {
-                output += `- Base URL: \`${skill.baseUrl}\`\n`;
-                output += `- Endpoints: ${skill.endpoints?.length ?? 0}\n`;
+              if (p.action === "status") {
+                const entries = docsFetcher.getCachedEntries();
+                let output = `## Docs Cache (${entries.length} pages)\n\n`;
+                for (const e of entries) {
+                  output += `- ${e.url} — ${new Date(e.fetchedAt).toISOString()}${e.etag ? " (etag)" : ""}\n`;
+                }
+                if (entries.length === 0) {
+                  output += `Cache is empty. Use \`foundry_research\` or export a snapshot to populate it.\n`;
+                }
+                return { content: [{ type: "text", text: output }] };
               }
-              output += `- Created: ${skill.createdAt}\n\n`;
-            }
 
-            if (extensions.length === 0 && skills.length === 0) {
-              output +=
-                "No code written yet. Use `foundry_implement` to get started.\n";
+              return {
+                content: [
+                  { type: "text", text: `Unknown action: ${p.action}` },
+                ],
+              };
+            } catch (err) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Snapshot error: ${(err as Error).message}`,
+                  },
+                ],
+              };
             }
-
-            return { content: [{ type: "text", text: output }] };
           },
         },
 
-        // ── foundry_docs ──────────────────────────────────────────────────────
+        // ── foundry_docs_changes ──────────────────────────────────────────────
         {
-          name: "foundry_docs",
-          label: "Read OpenClaw Docs",
+          name: "foundry_docs_changes",
+          label: "Docs Changes",
           description:
-            "Read OpenClaw plugin/hooks documentation for writing extensions",
+            "Detect OpenClaw doc changes that affect generated extensions, skills and hooks. " +
+            "check re-fetches every doc section an artifact was built from, report shows pending changes " +
+            "with old and new text, accept marks the new docs as reviewed.",
           parameters: {
             type: "object" as const,
             properties: {
-              section: {
+              action: {
+                type: "string" as const,
+                enum: ["check", "report", "accept"],
+                description:
+                  "check (refresh tracked docs), report (show pending changes), accept (clear after review)",
+              },
+              id: {
                 type: "string" as const,
-                enum: ["plugin", "hooks", "both"],
-                description: "Which docs to show",
+                description:
+                  "Artifact ID to report on or accept (default: all)",
               },
             },
-            required: [] as string[],
+            required: ["action"],
           },
           async execute(_toolCallId: string, params: unknown) {
-            const p = params as { section?: string };
-            const docs = writer.getDocs();
-            const section = p.section || "both";
+            const p = params as { action: string; id?: string };
+            const pendingFor = () =>
+              docsWatch.pending().filter((a) => !p.id || a.id === p.id);
+
+            if (p.action === "check") {
+              const localDocs = writer.getLocalDocs();
+              localDocs.load();
+              const unreachable: string[] = [];
+              for (const url of docsWatch.trackedUrls()) {
+                const local = localDocs.getByFile(url);
+                if (local) {
+                  docsWatch.applyPage(url, local.content);
+                  continue;
+                }
+                if (!url.startsWith("http")) {
+                  // Local page no longer exists: every section is gone
+                  docsWatch.applyPage(url, "");
+                  continue;
+                }
+                // Change detection runs in the onPageFetched callback
+                const content = await docsFetcher.refreshPage(url);
+                if (content === undefined) unreachable.push(url);
+              }
+
+              let output = docsWatch.formatReport(pendingFor());
+              output += `\n\nChecked ${docsWatch.trackedUrls().length} doc pages.`;
+              if (unreachable.length > 0) {
+                output += `\nUnreachable: ${unreachable.join(", ")}`;
+              }
+              return { content: [{ type: "text", text: output }] };
+            }
 
-            let output = `## OpenClaw Extension Docs\n\n`;
+            if (p.action === "report") {
+              return {
+                content: [
+                  { type: "text", text: docsWatch.formatReport(pendingFor()) },
+                ],
+              };
+            }
 
-            if (!docs.plugin && !docs.hooks) {
+            if (p.action === "accept") {
+              const count = docsWatch.accept(p.id);
               return {
                 content: [
                   {
                     type: "text",
-                    text: "Could not load OpenClaw docs. Check openclawPath config.",
+                    text:
+                      count > 0
+                        ? `Accepted doc changes for ${count} artifact(s). Future checks compare against the current docs.`
+                        : `No pending doc changes${p.id ? ` for ${p.id}` : ""}.`,
                   },
                 ],
               };
             }
 
-            if (section === "plugin" || section === "both") {
-              output += `### Plugin API\n\n`;
-              output += docs.plugin
-                ? docs.plugin.slice(0, 8000) + "\n\n[truncated]\n\n"
-                : "Not loaded\n\n";
-            }
-
-            if (section === "hooks" || section === "both") {
-              output += `### Hooks API\n\n`;
-              output += docs.hooks
-                ? docs.hooks.slice(0, 5000) + "\n\n[truncated]\n\n"
-                : "Not loaded\n\n";
-            }
-
-            return { content: [{ type: "text", text: output }] };
+            return {
+              content: [{ type: "text", text: `Unknown action: ${p.action}` }],
+            };
           },
         },
 
@@ -3908,15 +8205,21 @@ export default {
                 };
               }
 
+              try {
+                validateToolName(p.toolName);
+              } catch (err: any) {
+                return { content: [{ type: "text", text: err.message }] };
+              }
+
               let content = readFileSync(actualPath, "utf-8");
 
               // Build the new tool
               const newTool = `
       // ── ${p.toolName} (self-written) ─────────────────────────────────────
       {
-        name: "${p.toolName}",
-        label: "${p.toolLabel || p.toolName}",
-        description: "${p.toolDescription.replace(/"/g, '\\"')}",
+        name: ${stringLiteral(p.toolName)},
+        label: ${stringLiteral(p.toolLabel || p.toolName)},
+        description: ${stringLiteral(p.toolDescription)},
         parameters: ${JSON.stringify(
           p.toolParameters || { type: "object", properties: {}, required: [] },
           null,
@@ -4146,6 +8449,7 @@ ${p.toolCode
               output += "No learnings found for this filter.\n";
             } else {
               for (const entry of entries) {
+                if (entry.type === "pattern") provenance.noteLearning(entry.id);
                 output += `### ${entry.type.toUpperCase()}: ${entry.tool || "general"}\n`;
                 output += `- **ID**: \`${entry.id}\`\n`;
                 if (entry.error)
@@ -4517,6 +8821,7 @@ ${p.toolCode
                 }
 
                 const ability = await brainClient.downloadAbility(p.id);
+                provenance.noteAbility(p.id);
 
                 // Handle different ability types
                 const abilityType =
@@ -4569,6 +8874,7 @@ ${p.toolCode
                       description: content.description || "",
                       tools: [],
                       hooks: [],
+                      provenance: captureProvenance({ abilities: [p.id] }),
                     });
 
                     return {
@@ -4891,6 +9197,23 @@ ${p.hookCode}
 `;
             writeFileSync(hookPath, fullCode);
             learningEngine.markCrystallized(p.patternId, hookId);
+            writer.recordHook({
+              name: hookId,
+              kind: "crystallized",
+              path: hookPath,
+              events: [
+                ...new Set(
+                  [...p.hookCode.matchAll(/api\.on\(\s*["'](\w+)["']/g)].map(
+                    (m) => m[1],
+                  ),
+                ),
+              ],
+              patternId: pattern.id,
+              createdAt: new Date().toISOString(),
+              provenance: captureProvenance({
+                learningPatternIds: [pattern.id],
+              }),
+            });
 
             let output = `## Hook Saved\n\n`;
             output += `**Pattern**: ${pattern.id}\n`;
@@ -5522,8 +9845,24 @@ ${p.hookCode}
       "foundry_write_skill",
       "foundry_add_tool",
       "foundry_add_hook",
+      "foundry_update_tool",
+      "foundry_rename_tool",
+      "foundry_remove_tool",
+      "foundry_update_hook",
+      "foundry_remove_hook",
+      "foundry_test",
+      "foundry_secrets",
+      "foundry_run_browser_action",
       "foundry_list",
+      "foundry_lint_skill",
+      "foundry_install_skill_deps",
       "foundry_docs",
+      "foundry_docs_snapshot",
+      "foundry_docs_changes",
+      "foundry_explain",
+      "foundry_history",
+      "foundry_rollback",
+      "foundry_remove",
       "foundry_extend_self",
       "foundry_restart",
       "foundry_learnings",
@@ -5547,6 +9886,7 @@ ${p.hookCode}
     // ── before_agent_start Hook ─────────────────────────────────────────────
     // Check for pending session (resume after restart) and inject learnings
     // Start workflow tracking and inject proactive suggestions
+    let warnedSkills = ""; // Log unavailable skills once per change
     api.on("before_agent_start", async (event: any, ctx: any) => {
       const extensions = writer.getExtensions();
       const skills = writer.getSkills();
@@ -5724,10 +10064,63 @@ Use \`foundry_track_outcome\` after executing tasks to continue learning.
         outcomeInsights += `\nUse \`foundry_apply_improvement\` to implement these upgrades.\n\n`;
       }
 
+      // Docs change detection: artifacts built against docs that have changed
+      let docsChangeContext = "";
+      const docsChanges = docsWatch.pending();
+      if (docsChanges.length > 0) {
+        docsChangeContext = `
+## 📄 DOCS CHANGED
+
+OpenClaw docs changed since these artifacts were written:
+
+${docsChanges
+  .slice(0, 5)
+  .map(
+    (a) =>
+      `- **${a.kind}: ${a.id}** — ${a.changes.map((c) => `${c.heading}${c.newText === undefined ? " (removed)" : ""}`).join(", ")}`,
+  )
+  .join("\n")}
+
+Use \`foundry_docs_changes action="report"\` for old vs new text, then update the artifact or \`accept\` the change.
+
+`;
+      }
+
+      // Installed skills OpenClaw will skip or can't load on this machine
+      let skillCheckContext = "";
+      const blocked = writer
+        .lintSkills(skillHost(api.config ?? {}))
+        .filter((r) => !r.runnable);
+      if (blocked.length > 0) {
+        skillCheckContext = `
+## ⚠️ SKILLS UNAVAILABLE ON THIS HOST
+
+${blocked
+  .slice(0, 5)
+  .map((r) => {
+    const errors = r.issues
+      .filter((i) => i.level === "error")
+      .map((i) => `${i.field} ${i.message}`);
+    return `- **${r.name}** — ${[...describeGaps(r.unmet), ...errors].join("; ")}`;
+  })
+  .join("\n")}
+
+Don't rely on these skills until the requirements are met. \`foundry_lint_skill\` shows the full report.
+
+`;
+      }
+      const blockedNames = blocked.map((r) => r.name).join(", ");
+      if (blockedNames && blockedNames !== warnedSkills) {
+        logger.warn?.(
+          `[foundry] ${blocked.length} skill(s) can't run on this host: ${blockedNames}`,
+        );
+      }
+      warnedSkills = blockedNames;
+
       const workflowStats = learningEngine.getWorkflowStats();
 
       return {
-        prependContext: `${resumeContext}${workflowContext}${evolutionContext}${outcomeInsights}${learningsContext}
+        prependContext: `${resumeContext}${docsChangeContext}${skillCheckContext}${workflowContext}${evolutionContext}${outcomeInsights}${learningsContext}
 ## Foundry: Self-Writing Coding Subagent
 
 Grounded in **docs.molt.bot** — fetches documentation on demand. Can modify its own source code.
@@ -5806,6 +10199,7 @@ When you need a new capability:
 
           // Track which pattern was injected so we can detect success
           lastInjectedPatternId = existingPattern.id;
+          provenance.noteLearning(existingPattern.id);
           lastInjectedForTool = toolName || "unknown";
 
           // Inject resolution into conversation context
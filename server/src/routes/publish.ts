@@ -51,8 +51,12 @@ function makeSlug(service: string): string {
     .replace(/^-|-$/g, "");
 }
 
-/** Auto-derive tags from service name and endpoint paths. */
-function deriveTags(service: string, endpoints: { path: string }[]): string[] {
+/** Auto-derive tags from service name, endpoint paths and the API template. */
+function deriveTags(
+  service: string,
+  endpoints: { path: string }[],
+  apiTemplate = "",
+): string[] {
   const tags = new Set<string>();
 
   // From service name
@@ -69,6 +73,8 @@ function deriveTags(service: string, endpoints: { path: string }[]): string[] {
   // From endpoints
   const allPaths = endpoints.map((e) => e.path).join(" ");
   if (allPaths.includes("/graphql")) tags.add("graphql");
+  // Foundry's generated GraphQL clients, whatever their endpoint path
+  if (/\bGRAPHQL_ENDPOINT\b/.test(apiTemplate)) tags.add("graphql");
   if (allPaths.includes("/ws") || allPaths.includes("/socket")) tags.add("websocket");
   if (/\/v\d+\//.test(allPaths)) tags.add("versioned");
 
@@ -182,7 +188,9 @@ export async function publishSkill(req: Request): Promise<Response> {
     ? makeSkillId(body.service, body.baseUrl)
     : makeSkillId(body.service, abilityType); // Non-skills use type as part of ID
   const slug = makeSlug(body.service);
-  const tags = isSkill ? deriveTags(body.service, body.endpoints ?? []) : [abilityType];
+  const tags = isSkill
+    ? deriveTags(body.service, body.endpoints ?? [], body.apiTemplate ?? "")
+    : [abilityType];
   const priceCents = body.priceCents ?? ABILITY_PRICES[abilityType];
   const searchText = [
     body.service,
@@ -0,0 +1,1820 @@
+/**
+ * API Emitter — Builds `api.ts` and the SKILL.md body for API-based skills.
+ *
+ * Endpoints are either hand-written (`method`, `path`, `description`) or
+ * imported from an OpenAPI document (`src/openapi.ts`), which adds typed
+ * path/query/header parameters, request bodies, response schemas, auth
+ * schemes, servers and tags. The client gets one method per endpoint; its
+ * parameter and return types are derived from the JSON Schemas, and each call
+ * applies the first auth scheme the endpoint accepts that has a credential.
+ *
+ * Skills that set `client` get the production client instead: named types per
+ * endpoint, error classes, timeouts, retries and pagination iterators.
+ *
+ * Skills that set `oauth` get an `OAuth2Session` in either client: it obtains
+ * access tokens (client credentials, refresh token, or authorization code with
+ * PKCE), caches them in the foundry secret store, renews them shortly before
+ * they expire and once more when the API answers 401.
+ */
+
+import { commentLines, jsonLiteral, stringLiteral } from "./code-emitter.js";
+import type { JsonSchema } from "./json-schema.js";
+import {
+  emitSecretRuntime,
+  referencedSecrets,
+  secretName,
+} from "./secret-store.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ApiParamDef {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiBodyDef {
+  contentType: string;
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiResponseDef {
+  status: string;
+  contentType?: string;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiServerDef {
+  url: string;
+  description?: string;
+}
+
+export interface ApiAuthSchemeDef {
+  name: string;
+  type: "apiKey" | "http" | "oauth2" | "openIdConnect";
+  in?: "header" | "query" | "cookie"; // apiKey
+  paramName?: string; // apiKey header/query/cookie name
+  scheme?: string; // http: "bearer", "basic", ...
+  flows?: {
+    clientCredentials?: ApiOAuthFlowDef;
+    authorizationCode?: ApiOAuthFlowDef;
+  }; // oauth2, as declared by an imported document
+  description?: string;
+}
+
+export interface ApiOAuthFlowDef {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes?: string[];
+}
+
+/**
+ * OAuth2 for the generated client, which acquires, caches (in the secret
+ * store), refreshes and retries-on-401 tokens itself. Client ID/secret and
+ * an initial refresh token are read from env vars or secrets named by
+ * `oauthSecretNames`.
+ */
+export interface ApiOAuthDef {
+  flow: "client_credentials" | "refresh_token" | "authorization_code";
+  tokenUrl: string;
+  authorizationUrl?: string; // authorization_code (PKCE)
+  redirectUri?: string; // authorization_code; loopback URL the client listens on
+  scopes?: string[];
+  audience?: string;
+  scheme?: string; // Auth scheme the token satisfies; unset = every request
+}
+
+export interface ApiTagDef {
+  name: string;
+  description?: string;
+}
+
+export interface ApiEndpointDef {
+  method: string;
+  path: string;
+  description: string;
+  params?: Record<string, string>; // Hand-written endpoints: name → description
+  operationId?: string;
+  tags?: string[];
+  parameters?: ApiParamDef[];
+  body?: ApiBodyDef;
+  response?: ApiResponseDef;
+  security?: string[]; // Schemes accepted (any one); [] = none; unset = API default
+  deprecated?: boolean;
+}
+
+/**
+ * Opts a skill into the production client. Every field has a default, so
+ * `{}` is enough; the values become the client's defaults and can still be
+ * overridden per `new Client({ ... })`.
+ */
+export interface ApiClientConfig {
+  timeoutMs?: number; // Per attempt (default 30000)
+  retries?: number; // Extra attempts after a retryable failure (default 2)
+  retryDelayMs?: number; // First backoff delay, doubled per attempt (default 500)
+  pagination?: boolean; // iterate*() helpers for paginated endpoints (default true)
+}
+
+export interface ApiClientDef {
+  name: string;
+  description: string;
+  baseUrl: string;
+  endpoints: ApiEndpointDef[];
+  servers?: ApiServerDef[];
+  authSchemes?: ApiAuthSchemeDef[];
+  security?: string[]; // Default for endpoints without their own
+  tags?: ApiTagDef[];
+  authHeaders?: Record<string, string>; // Values may hold {{secret:NAME}} references
+  client?: ApiClientConfig; // Unset = basic client
+  oauth?: ApiOAuthDef;
+}
+
+const OAUTH_FLOWS = [
+  "client_credentials",
+  "refresh_token",
+  "authorization_code",
+];
+const DEFAULT_REDIRECT_URI = "http://127.0.0.1:8787/callback";
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const MAX_DOC_TYPE = 120;
+
+const CLIENT_DEFAULTS: Required<ApiClientConfig> = {
+  timeoutMs: 30_000,
+  retries: 2,
+  retryDelayMs: 500,
+  pagination: true,
+};
+
+/**
+ * Reject client settings the generated code can't honour.
+ */
+export function validateClientConfig(config: ApiClientConfig): void {
+  const limits: [keyof ApiClientConfig, number, number][] = [
+    ["timeoutMs", 1, 600_000],
+    ["retries", 0, 10],
+    ["retryDelayMs", 0, 60_000],
+  ];
+  for (const [key, min, max] of limits) {
+    const value = config[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      throw new Error(`client.${key} must be an integer`);
+    }
+    if (value < min || value > max) {
+      throw new Error(`client.${key} must be between ${min} and ${max}`);
+    }
+  }
+  if (
+    config.pagination !== undefined &&
+    typeof config.pagination !== "boolean"
+  ) {
+    throw new Error("client.pagination must be a boolean");
+  }
+}
+
+/**
+ * Complete and check an OAuth2 definition. Missing URLs and the scheme are
+ * taken from the document's oauth2 scheme (`schemes`), when there is one;
+ * relative URLs resolve against `baseUrl`.
+ */
+export function normalizeOAuthDef(
+  input: Partial<ApiOAuthDef>,
+  schemes: ApiAuthSchemeDef[] = [],
+  baseUrl?: string,
+): ApiOAuthDef {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("oauth must be an object of OAuth2 options");
+  }
+  const scheme = input.scheme
+    ? schemes.find((s) => s.name === input.scheme)
+    : schemes.find((s) => s.type === "oauth2");
+  if (input.scheme && !scheme) {
+    throw new Error(
+      `oauth.scheme "${input.scheme}" is not an auth scheme of this API`,
+    );
+  }
+  // Without a flow, use the one the document declares
+  const flow =
+    input.flow ||
+    (scheme?.flows?.clientCredentials
+      ? "client_credentials"
+      : scheme?.flows?.authorizationCode
+        ? "authorization_code"
+        : undefined);
+  if (!flow || !OAUTH_FLOWS.includes(flow)) {
+    throw new Error(`oauth.flow must be one of: ${OAUTH_FLOWS.join(", ")}`);
+  }
+  const declared =
+    flow === "client_credentials"
+      ? scheme?.flows?.clientCredentials
+      : scheme?.flows?.authorizationCode || scheme?.flows?.clientCredentials;
+
+  const def: ApiOAuthDef = {
+    flow,
+    tokenUrl:
+      input.tokenUrl || declared?.tokenUrl || declared?.refreshUrl || "",
+    ...(flow === "authorization_code"
+      ? {
+          authorizationUrl:
+            input.authorizationUrl || declared?.authorizationUrl || "",
+          redirectUri: input.redirectUri || DEFAULT_REDIRECT_URI,
+        }
+      : {}),
+    ...(input.scopes?.length ? { scopes: input.scopes } : {}),
+    ...(input.audience ? { audience: input.audience } : {}),
+    ...(scheme ? { scheme: scheme.name } : {}),
+  };
+
+  for (const key of ["tokenUrl", "authorizationUrl"] as const) {
+    const value = def[key];
+    if (value && baseUrl && !/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+      def[key] = new URL(value, baseUrl).toString();
+    }
+  }
+  const checkUrl = (key: string, value: string | undefined) => {
+    if (!value || !/^https?:\/\/[^/]/.test(value)) {
+      throw new Error(
+        value
+          ? `oauth.${key} must be an absolute http(s) URL, got "${value}"`
+          : `oauth.${key} is required for the ${flow} flow`,
+      );
+    }
+  };
+  checkUrl("tokenUrl", def.tokenUrl);
+  if (flow === "authorization_code") {
+    checkUrl("authorizationUrl", def.authorizationUrl);
+    checkUrl("redirectUri", def.redirectUri);
+    if (
+      !/^https?:\/\/(127\.0\.0\.1|localhost|\[::1\])(:\d+)?\//.test(
+        def.redirectUri!,
+      )
+    ) {
+      throw new Error(
+        "oauth.redirectUri must be a loopback URL (http://127.0.0.1:<port>/...) the client can listen on",
+      );
+    }
+  }
+  if (
+    def.scopes &&
+    (!Array.isArray(def.scopes) ||
+      !def.scopes.every((s) => typeof s === "string" && /^\S+$/.test(s)))
+  ) {
+    throw new Error("oauth.scopes must be an array of strings without spaces");
+  }
+  return def;
+}
+
+/**
+ * Env vars / secret names an OAuth2 client reads, and the secret it caches
+ * tokens in.
+ */
+export function oauthSecretNames(skillName: string): {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  token: string;
+} {
+  return {
+    clientId: secretName(skillName, "client_id"),
+    clientSecret: secretName(skillName, "client_secret"),
+    refreshToken: secretName(skillName, "refresh_token"),
+    token: secretName(skillName, "oauth_token"),
+  };
+}
+
+// ── Names ────────────────────────────────────────────────────────────────────
+
+function toPascalCase(s: string): string {
+  return s
+    .split(/[-_\s]+/)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join("");
+}
+
+function toMethodName(method: string, path: string): string {
+  const parts = path
+    .split("/")
+    .filter(Boolean)
+    .map((p) => {
+      if (p.startsWith("{")) return "By" + toPascalCase(p.slice(1, -1));
+      return toPascalCase(p);
+    });
+  return method.toLowerCase() + parts.join("");
+}
+
+/**
+ * camelCase words of an identifier like "list-pets", "Pets_List" or "userID".
+ */
+function camelWords(s: string): string[] {
+  return s
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * camelCase identifier from an operationId like "list-pets" or "Pets_List".
+ */
+function operationMethodName(operationId: string): string {
+  const name = camelWords(operationId)
+    .map((w, i) =>
+      i === 0
+        ? w.charAt(0).toLowerCase() + w.slice(1)
+        : w.charAt(0).toUpperCase() + w.slice(1),
+    )
+    .join("");
+  return /^[0-9]/.test(name) ? `op${name}` : name;
+}
+
+/**
+ * Method name from the path for the production client. Unlike toMethodName it
+ * keeps every word boundary of path segments and parameter names, so
+ * `/users/{userId}` and `/users/{userid}` no longer map to the same name.
+ */
+function pathMethodName(method: string, path: string): string {
+  const parts = path
+    .split("/")
+    .filter(Boolean)
+    .map((p) => {
+      const param = /^\{(.+)\}$/.exec(p);
+      const words = camelWords(param ? param[1] : p)
+        .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+        .join("");
+      return param ? `By${words}` : words;
+    });
+  return method.toLowerCase() + parts.join("");
+}
+
+export function clientClassName(skillName: string): string {
+  return toPascalCase(skillName) + "Client";
+}
+
+/**
+ * Client method name for each endpoint (same order), unique within the client.
+ * The production client derives path-based names with pathMethodName and
+ * reserves its own helper names.
+ */
+export function endpointMethodNames(
+  endpoints: ApiEndpointDef[],
+  production = false,
+): string[] {
+  const used = new Set<string>([
+    "request",
+    "authorize",
+    "constructor",
+    "oauth",
+  ]);
+  if (production) {
+    for (const reserved of ["paginate", "backoff", "fetchImpl"]) {
+      used.add(reserved);
+    }
+  }
+  const pathName = production ? pathMethodName : toMethodName;
+  return endpoints.map((e) => {
+    const base =
+      (e.operationId && operationMethodName(e.operationId)) ||
+      pathName(e.method, e.path).replace(/[^A-Za-z0-9_$]/g, "");
+    let name = base;
+    for (
+      let n = 2;
+      used.has(name) || (production && used.has(iteratorName(name)));
+      n++
+    ) {
+      name = `${base}${n}`;
+    }
+    used.add(name);
+    if (production) used.add(iteratorName(name));
+    return name;
+  });
+}
+
+function iteratorName(methodName: string): string {
+  return `iterate${typeName(methodName)}`;
+}
+
+/**
+ * Prefix of the exported types of an endpoint: `listPets` → `ListPets`.
+ */
+function typeName(methodName: string): string {
+  return methodName.charAt(0).toUpperCase() + methodName.slice(1);
+}
+
+/**
+ * Env var (and, failing that, foundry secret) the generated client reads a
+ * scheme's credential from.
+ */
+export function credentialEnvVar(
+  skillName: string,
+  scheme: ApiAuthSchemeDef,
+): string {
+  return secretName(skillName, scheme.name);
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : stringLiteral(name);
+}
+
+function propertyAccess(object: string, name: string): string {
+  return IDENTIFIER.test(name)
+    ? `${object}.${name}`
+    : `${object}[${stringLiteral(name)}]`;
+}
+
+// ── Types from Schemas ───────────────────────────────────────────────────────
+
+/**
+ * TypeScript type for a JSON Schema (`any` where the schema doesn't say).
+ */
+export function schemaToTs(schema: JsonSchema | undefined, depth = 0): string {
+  if (!schema || typeof schema !== "object" || depth > 8) return "any";
+
+  const literals = (values: unknown[]) =>
+    values.every((v) => v === null || typeof v !== "object")
+      ? values.map((v) => JSON.stringify(v)).join(" | ")
+      : "any";
+  if (Array.isArray(schema.enum) && schema.enum.length > 0)
+    return literals(schema.enum);
+  if ("const" in schema) return literals([schema.const]);
+
+  const union = schema.oneOf || schema.anyOf;
+  if (Array.isArray(union) && union.length > 0) {
+    return union.map((s) => wrapUnion(schemaToTs(s, depth + 1))).join(" | ");
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return schema.allOf
+      .map((s) => wrapUnion(schemaToTs(s, depth + 1)))
+      .join(" & ");
+  }
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : schema.properties
+        ? ["object"]
+        : schema.items
+          ? ["array"]
+          : [];
+  if (types.length === 0) return "any";
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+          return "string";
+        case "number":
+        case "integer":
+          return "number";
+        case "boolean":
+          return "boolean";
+        case "null":
+          return "null";
+        case "array":
+          return `Array<${schemaToTs(schema.items, depth + 1)}>`;
+        case "object": {
+          const props = Object.entries(schema.properties || {});
+          if (props.length === 0) {
+            const extra = schema.additionalProperties;
+            return typeof extra === "object"
+              ? `Record<string, ${schemaToTs(extra, depth + 1)}>`
+              : "Record<string, any>";
+          }
+          const required = new Set(schema.required || []);
+          const fields = props.map(
+            ([key, sub]) =>
+              `${propertyKey(key)}${required.has(key) ? "" : "?"}: ${schemaToTs(sub, depth + 1)}`,
+          );
+          return `{ ${fields.join("; ")} }`;
+        }
+        default:
+          return "any";
+      }
+    })
+    .join(" | ");
+}
+
+function wrapUnion(type: string): string {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function docType(schema: JsonSchema | undefined): string {
+  const type = schemaToTs(schema);
+  return type.length > MAX_DOC_TYPE ? "object (see api.ts)" : type;
+}
+
+// ── Endpoints ────────────────────────────────────────────────────────────────
+
+/**
+ * Parameters of an endpoint. `{name}` path placeholders that aren't declared
+ * (all of them, for hand-written endpoints) become required string parameters.
+ */
+function endpointParameters(e: ApiEndpointDef): ApiParamDef[] {
+  const declared = e.parameters || [];
+  const missing = (e.path.match(/\{[^}]+\}/g) || [])
+    .map((p) => p.slice(1, -1))
+    .filter((name) => !declared.some((p) => p.in === "path" && p.name === name))
+    .map((name): ApiParamDef => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+  return [...missing, ...declared];
+}
+
+/**
+ * Request body of an endpoint. Hand-written endpoints accept an optional JSON
+ * body for every method but GET and DELETE.
+ */
+function endpointBody(e: ApiEndpointDef): ApiBodyDef | undefined {
+  if (e.parameters || e.body) return e.body;
+  const method = e.method.toUpperCase();
+  return method === "GET" || method === "DELETE"
+    ? undefined
+    : { contentType: "application/json" };
+}
+
+interface EndpointCall {
+  params: ApiParamDef[];
+  body?: ApiBodyDef;
+  paramsOptional: boolean; // `params` may be omitted
+  doc: string[];
+  request: string; // `this.request(...)` expression
+}
+
+/**
+ * Pieces both client flavours share: parameters, doc comment and the
+ * `this.request(...)` call that substitutes path params and routes the rest.
+ */
+function endpointCall(e: ApiEndpointDef): EndpointCall {
+  const params = endpointParameters(e);
+  const body = endpointBody(e);
+  const method = e.method.toUpperCase();
+
+  // Template literal for the path with params substituted
+  const path = e.path
+    .replace(/[`\\$]/g, "\\$&")
+    .replace(/\\\$\{|\{([^}]+)\}/g, (match, name) =>
+      name === undefined
+        ? match
+        : `\${encodeURIComponent(String(${propertyAccess("params", name)}))}`,
+    );
+
+  const options: string[] = [];
+  const group = (where: ApiParamDef["in"]) =>
+    params
+      .filter((p) => p.in === where)
+      .map(
+        (p) => `${stringLiteral(p.name)}: ${propertyAccess("params", p.name)}`,
+      );
+  const query = group("query");
+  const headers = group("header");
+  if (query.length > 0) options.push(`query: { ${query.join(", ")} }`);
+  if (headers.length > 0) options.push(`headers: { ${headers.join(", ")} }`);
+  if (body) {
+    options.push("body");
+    if (body.contentType !== "application/json") {
+      options.push(`contentType: ${stringLiteral(body.contentType)}`);
+    }
+  }
+  if (e.security) options.push(`security: ${JSON.stringify(e.security)}`);
+
+  return {
+    params,
+    body,
+    paramsOptional: params.every((p) => !p.required) && !body?.required,
+    doc: [
+      ...(e.description ? commentLines(e.description) : []),
+      `${method} ${e.path}`,
+      ...(e.deprecated ? ["@deprecated"] : []),
+    ],
+    request: `this.request(${stringLiteral(method)}, \`${path}\`${options.length > 0 ? `, { ${options.join(", ")} }` : ""})`,
+  };
+}
+
+function methodDoc(lines: string[]): string[] {
+  return [
+    `  /**`,
+    ...lines.map((line) => (line ? `   * ${line}` : `   *`)),
+    `   */`,
+  ];
+}
+
+function emitMethod(e: ApiEndpointDef, methodName: string): string {
+  const call = endpointCall(e);
+
+  const args: string[] = [];
+  if (call.params.length > 0) {
+    const fields = call.params.map(
+      (p) =>
+        `${propertyKey(p.name)}${p.required ? "" : "?"}: ${schemaToTs(p.schema)}`,
+    );
+    args.push(
+      `params: { ${fields.join("; ")} }${call.paramsOptional ? " = {}" : ""}`,
+    );
+  }
+  if (call.body) {
+    args.push(
+      `body${call.body.required ? "" : "?"}: ${schemaToTs(call.body.schema)}`,
+    );
+  }
+  const returns = e.response?.schema ? schemaToTs(e.response.schema) : "any";
+
+  return [
+    ...methodDoc(call.doc),
+    `  async ${methodName}(${args.join(", ")}): Promise<${returns}> {`,
+    `    return ${call.request};`,
+    `  }`,
+    ``,
+  ].join("\n");
+}
+
+// ── Pagination ───────────────────────────────────────────────────────────────
+
+const CURSOR_PARAM =
+  /^(cursor|page_?token|next_?token|after|starting_?after|continuation_?token|marker)$/i;
+const PAGE_PARAM = /^(page|page_?num(ber)?)$/i;
+const OFFSET_PARAM = /^(offset|skip|start|start_?index)$/i;
+const LIMIT_PARAM =
+  /^(limit|per_?page|page_?size|size|count|max_?results|top)$/i;
+const ITEMS_KEYS = [
+  "data",
+  "items",
+  "results",
+  "records",
+  "entries",
+  "values",
+  "nodes",
+  "content",
+];
+
+interface Pagination {
+  style: "cursor" | "page" | "offset";
+  param: string; // Query param that selects the page
+  limitParam?: string; // Page size; a short page ends iteration
+  itemsKey?: string; // Response property holding the items; unset = the response is the array
+  itemSchema?: JsonSchema;
+}
+
+function isArraySchema(schema: JsonSchema | undefined): boolean {
+  if (!schema || typeof schema !== "object") return false;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes("array") || (!schema.type && !!schema.items);
+}
+
+/**
+ * How a GET endpoint pages through results, judged from its query parameter
+ * names and response schema. Undefined when it doesn't look paginated or the
+ * items can't be located in the response.
+ */
+function detectPagination(
+  e: ApiEndpointDef,
+  params: ApiParamDef[],
+): Pagination | undefined {
+  if (e.method.toUpperCase() !== "GET") return undefined;
+  const query = params.filter((p) => p.in === "query");
+  const find = (pattern: RegExp) => query.find((p) => pattern.test(p.name));
+  const cursor = find(CURSOR_PARAM);
+  const page = find(PAGE_PARAM);
+  const offset = find(OFFSET_PARAM);
+  const selector = cursor || page || offset;
+  if (!selector) return undefined;
+  const style = cursor ? "cursor" : page ? "page" : "offset";
+
+  const schema = e.response?.schema;
+  let itemsKey: string | undefined;
+  let itemSchema: JsonSchema | undefined;
+  if (isArraySchema(schema)) {
+    // A bare array has nowhere to carry the next cursor
+    if (style === "cursor") return undefined;
+    itemSchema = schema!.items;
+  } else {
+    const props = Object.entries(schema?.properties || {}).filter(([, sub]) =>
+      isArraySchema(sub),
+    );
+    const match =
+      props.find(([key]) => ITEMS_KEYS.includes(key)) ||
+      (props.length === 1 ? props[0] : undefined);
+    if (!match) return undefined;
+    [itemsKey, itemSchema] = [match[0], match[1].items];
+  }
+
+  return {
+    style,
+    param: selector.name,
+    limitParam: find(LIMIT_PARAM)?.name,
+    itemsKey,
+    itemSchema,
+  };
+}
+
+// ── Production Methods ───────────────────────────────────────────────────────
+
+/**
+ * Exported request/response types of an endpoint for the production client.
+ */
+function emitEndpointTypes(
+  e: ApiEndpointDef,
+  methodName: string,
+  pagination: Pagination | undefined,
+): string {
+  const call = endpointCall(e);
+  const prefix = typeName(methodName);
+  const blocks: string[] = [];
+
+  if (call.params.length > 0) {
+    const fields = call.params.flatMap((p) => [
+      ...(p.description
+        ? [
+            `  /**`,
+            ...commentLines(p.description).map((l) =>
+              l ? `   * ${l}` : `   *`,
+            ),
+            `   */`,
+          ]
+        : []),
+      `  ${propertyKey(p.name)}${p.required ? "" : "?"}: ${schemaToTs(p.schema)};`,
+    ]);
+    blocks.push(
+      [
+        `/** Parameters of \`${methodName}\` (${e.method.toUpperCase()} ${e.path.replace(/\*\//g, "*\\/")}) */`,
+        `export interface ${prefix}Params {`,
+        ...fields,
+        `}`,
+      ].join("\n"),
+    );
+  }
+  if (call.body) {
+    blocks.push(`export type ${prefix}Body = ${schemaToTs(call.body.schema)};`);
+  }
+  blocks.push(
+    `export type ${prefix}Response = ${e.response?.schema ? schemaToTs(e.response.schema) : "any"};`,
+  );
+  if (pagination) {
+    blocks.push(
+      `export type ${prefix}Item = ${schemaToTs(pagination.itemSchema)};`,
+    );
+  }
+  return blocks.join("\n\n");
+}
+
+function emitProductionMethod(
+  e: ApiEndpointDef,
+  methodName: string,
+  pagination: Pagination | undefined,
+): string {
+  const call = endpointCall(e);
+  const prefix = typeName(methodName);
+
+  const args: string[] = [];
+  if (call.params.length > 0) {
+    args.push(`params: ${prefix}Params${call.paramsOptional ? " = {}" : ""}`);
+  }
+  if (call.body) {
+    args.push(`body${call.body.required ? "" : "?"}: ${prefix}Body`);
+  }
+
+  const lines = [
+    ...methodDoc(call.doc),
+    `  async ${methodName}(${args.join(", ")}): Promise<${prefix}Response> {`,
+    `    return ${call.request};`,
+    `  }`,
+    ``,
+  ];
+
+  if (pagination) {
+    const strategy = Object.entries({
+      style: pagination.style,
+      param: pagination.param,
+      limitParam: pagination.limitParam,
+      itemsKey: pagination.itemsKey,
+    })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${stringLiteral(value!)}`)
+      .join(", ");
+    lines.push(
+      ...methodDoc([
+        `Every item of \`${methodName}\`, fetching pages as the loop asks for them`,
+        `(${pagination.style} pagination on \`${pagination.param}\`). Stops after \`maxPages\`.`,
+      ]),
+      `  ${iteratorName(methodName)}(params: ${prefix}Params${call.paramsOptional ? " = {}" : ""}, options: PageOptions = {}): AsyncGenerator<${prefix}Item> {`,
+      `    return this.paginate<${prefix}Item>(`,
+      `      (page) => this.${methodName}({ ...params, ...page } as ${prefix}Params),`,
+      `      { ${strategy} },`,
+      `      params,`,
+      `      options,`,
+      `    );`,
+      `  }`,
+      ``,
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Endpoints grouped by their first tag, in tag declaration order; untagged
+ * endpoints last. A single group with an empty name when nothing is tagged.
+ */
+function groupByTag(
+  def: ApiClientDef,
+): { tag: string; description?: string; indexes: number[] }[] {
+  const groups = new Map<string, number[]>();
+  def.endpoints.forEach((e, i) => {
+    const tag = e.tags?.[0] || "";
+    groups.set(tag, [...(groups.get(tag) || []), i]);
+  });
+  const order = (def.tags || []).map((t) => t.name);
+  return [...groups.entries()]
+    .sort(([a], [b]) => {
+      if (a === "" || b === "") return a === "" ? 1 : -1;
+      const ia = order.indexOf(a);
+      const ib = order.indexOf(b);
+      return (ia < 0 ? order.length : ia) - (ib < 0 ? order.length : ib);
+    })
+    .map(([tag, indexes]) => ({
+      tag,
+      description: def.tags?.find((t) => t.name === tag)?.description,
+      indexes,
+    }));
+}
+
+// ── OAuth2 ───────────────────────────────────────────────────────────────────
+
+/**
+ * `OAUTH`, `OAuthOptions`, `OAuthError` and `OAuth2Session` for a client with
+ * `def.oauth`. The session persists tokens as JSON in one secret; the client
+ * ID, secret and a starting refresh token come from options, env vars or
+ * secrets (see oauthSecretNames).
+ */
+function emitOAuthRuntime(def: ApiClientDef): string[] {
+  const oauth = def.oauth!;
+  const names = oauthSecretNames(def.name);
+  const pkce = oauth.flow === "authorization_code";
+  const config = {
+    flow: oauth.flow,
+    tokenUrl: oauth.tokenUrl,
+    ...(pkce
+      ? {
+          authorizationUrl: oauth.authorizationUrl,
+          redirectUri: oauth.redirectUri || DEFAULT_REDIRECT_URI,
+        }
+      : {}),
+    scopes: oauth.scopes || [],
+    ...(oauth.audience ? { audience: oauth.audience } : {}),
+    ...(oauth.scheme ? { scheme: oauth.scheme } : {}),
+    env: {
+      clientId: names.clientId,
+      clientSecret: names.clientSecret,
+      refreshToken: names.refreshToken,
+    },
+    tokenSecret: names.token,
+  };
+  const signIn = pkce
+    ? "call client.oauth.authorize() once to sign in, or set ${OAUTH.env.refreshToken}"
+    : "set ${OAUTH.env.refreshToken} (env var or foundry secret)";
+
+  return [
+    `// ── OAuth2 ──`,
+    ``,
+    `const OAUTH: {`,
+    `  flow: "client_credentials" | "refresh_token" | "authorization_code";`,
+    `  tokenUrl: string;`,
+    `  authorizationUrl?: string;`,
+    `  redirectUri?: string;`,
+    `  scopes: string[];`,
+    `  audience?: string;`,
+    `  /** Auth scheme the token satisfies; unset = every request that has auth */`,
+    `  scheme?: string;`,
+    `  /** Env vars (or foundry secrets) holding the client credentials */`,
+    `  env: { clientId: string; clientSecret: string; refreshToken: string };`,
+    `  /** Foundry secret the session caches its tokens in */`,
+    `  tokenSecret: string;`,
+    `} = ${jsonLiteral(config)};`,
+    ``,
+    `/** Tokens are renewed this long before they expire. */`,
+    `const REFRESH_MARGIN_MS = 60_000;`,
+    ``,
+    `/** Whether a request with this security requirement is sent with the OAuth2 token. */`,
+    `function oauthApplies(security: string[] | undefined): boolean {`,
+    `  return OAUTH.scheme ? (security ?? DEFAULT_SECURITY).includes(OAUTH.scheme) : security === undefined || security.length > 0;`,
+    `}`,
+    ``,
+    `export interface OAuthOptions {`,
+    `  tokenUrl?: string;`,
+    ...(pkce
+      ? [`  authorizationUrl?: string;`, `  redirectUri?: string;`]
+      : []),
+    `  scopes?: string[];`,
+    `  clientId?: string;`,
+    `  clientSecret?: string;`,
+    `  refreshToken?: string;`,
+    `  /** Cache tokens in the foundry secret store (default true) */`,
+    `  persist?: boolean;`,
+    `}`,
+    ``,
+    `interface OAuthToken {`,
+    `  access_token: string;`,
+    `  token_type?: string;`,
+    `  refresh_token?: string;`,
+    `  /** Epoch ms; unset when the server didn't say */`,
+    `  expires_at?: number;`,
+    `  scope?: string;`,
+    `}`,
+    ``,
+    `/** A token request failed, or no token can be obtained without the user. */`,
+    `export class OAuthError extends Error {`,
+    `  constructor(`,
+    `    message: string,`,
+    `    readonly status?: number,`,
+    `    readonly body?: unknown,`,
+    `  ) {`,
+    `    super(message);`,
+    `    this.name = "OAuthError";`,
+    `  }`,
+    `}`,
+    ``,
+    `/**`,
+    ` * Access tokens for the client (\`client.oauth\`). Cached in memory and in the`,
+    ` * foundry secret store, renewed \`REFRESH_MARGIN_MS\` before expiry or after`,
+    ` * \`invalidate()\`: by refresh token when there is one, else by a new grant.`,
+    ` */`,
+    `export class OAuth2Session {`,
+    `  private token?: OAuthToken;`,
+    `  private pending?: Promise<OAuthToken>;`,
+    `  private tokenUrl: string;`,
+    `  private scopes: string[];`,
+    ...(pkce ? [`  private redirectUri: string;`] : []),
+    `  private clientId?: string;`,
+    `  private clientSecret?: string;`,
+    `  private refreshToken?: string;`,
+    `  private persist: boolean;`,
+    ``,
+    `  constructor(`,
+    `    private options: OAuthOptions = {},`,
+    `    private fetchImpl: typeof fetch = fetch,`,
+    `  ) {`,
+    `    this.tokenUrl = options.tokenUrl || OAUTH.tokenUrl;`,
+    `    this.scopes = options.scopes || OAUTH.scopes;`,
+    ...(pkce
+      ? [`    this.redirectUri = options.redirectUri || OAUTH.redirectUri!;`]
+      : []),
+    `    this.clientId = options.clientId ?? process.env[OAUTH.env.clientId] ?? secret(OAUTH.env.clientId);`,
+    `    this.clientSecret = options.clientSecret ?? process.env[OAUTH.env.clientSecret] ?? secret(OAUTH.env.clientSecret);`,
+    `    this.refreshToken = options.refreshToken ?? process.env[OAUTH.env.refreshToken] ?? secret(OAUTH.env.refreshToken);`,
+    `    this.persist = options.persist ?? true;`,
+    `  }`,
+    ``,
+    `  /** A current access token, obtaining or renewing one when needed. */`,
+    `  async accessToken(): Promise<string> {`,
+    `    if (!this.token && this.persist) this.token = this.load();`,
+    `    if (this.token && !this.expiring(this.token)) return this.token.access_token;`,
+    `    // Concurrent requests share one renewal`,
+    `    this.pending ??= this.renew().finally(() => {`,
+    `      this.pending = undefined;`,
+    `    });`,
+    `    return (await this.pending).access_token;`,
+    `  }`,
+    ``,
+    `  /** Treat the access token as expired (the API rejected it). */`,
+    `  invalidate(): void {`,
+    `    if (this.token) this.token = { ...this.token, expires_at: 0 };`,
+    `  }`,
+    ``,
+    ...(pkce
+      ? [
+          `  /**`,
+          `   * PKCE step 1: the URL to send the user to, and the verifier and state`,
+          `   * to complete the sign-in with.`,
+          `   */`,
+          `  authorizationRequest(): { url: string; verifier: string; state: string } {`,
+          `    const clientId = this.requireClientId();`,
+          `    const verifier = oauthRandom(32).toString("base64url");`,
+          `    const state = oauthRandom(16).toString("base64url");`,
+          `    const url = new URL(this.options.authorizationUrl || OAUTH.authorizationUrl!);`,
+          `    url.searchParams.set("response_type", "code");`,
+          `    url.searchParams.set("client_id", clientId);`,
+          `    url.searchParams.set("redirect_uri", this.redirectUri);`,
+          `    if (this.scopes.length > 0) url.searchParams.set("scope", this.scopes.join(" "));`,
+          `    if (OAUTH.audience) url.searchParams.set("audience", OAUTH.audience);`,
+          `    url.searchParams.set("state", state);`,
+          `    url.searchParams.set("code_challenge", oauthHash("sha256").update(verifier).digest("base64url"));`,
+          `    url.searchParams.set("code_challenge_method", "S256");`,
+          `    return { url: url.toString(), verifier, state };`,
+          `  }`,
+          ``,
+          `  /** PKCE step 2: trade the code the redirect carried for tokens. */`,
+          `  async exchangeCode(code: string, verifier: string): Promise<void> {`,
+          `    await this.grant({ grant_type: "authorization_code", code, redirect_uri: this.redirectUri, code_verifier: verifier });`,
+          `  }`,
+          ``,
+          `  /**`,
+          `   * Interactive sign-in: listens on the loopback redirect URI, passes the`,
+          `   * authorization URL to \`open\` (default: print it) and exchanges the code.`,
+          `   */`,
+          `  async authorize(`,
+          `    open: (url: string) => void | Promise<void> = (url) => console.log(\`Open this URL to sign in:\\n\${url}\`),`,
+          `    timeoutMs = 300_000,`,
+          `  ): Promise<void> {`,
+          `    const { url, verifier, state } = this.authorizationRequest();`,
+          `    const redirect = new URL(this.redirectUri);`,
+          `    const code = await new Promise<string>((resolve, reject) => {`,
+          `      let done = false;`,
+          `      const finish = (error?: unknown, code?: string) => {`,
+          `        if (done) return;`,
+          `        done = true;`,
+          `        clearTimeout(timer);`,
+          `        server.close();`,
+          `        if (error) reject(error);`,
+          `        else resolve(code!);`,
+          `      };`,
+          `      const server = oauthServer((req, res) => {`,
+          `        const callback = new URL(req.url || "/", redirect);`,
+          `        if (callback.pathname !== redirect.pathname) {`,
+          `          res.writeHead(404).end();`,
+          `          return;`,
+          `        }`,
+          `        const params = callback.searchParams;`,
+          `        const error =`,
+          `          params.get("error") || (params.get("state") !== state ? "state mismatch" : params.get("code") ? "" : "no code");`,
+          `        res.writeHead(error ? 400 : 200, { "Content-Type": "text/plain", Connection: "close" });`,
+          `        res.end(error ? \`Sign-in failed: \${error}\` : "Signed in. You can close this window.");`,
+          `        finish(error ? new OAuthError(\`Authorization failed: \${error}\`) : undefined, params.get("code")!);`,
+          `      });`,
+          `      const timer = setTimeout(() => finish(new OAuthError(\`No authorization redirect within \${timeoutMs}ms\`)), timeoutMs);`,
+          `      server.on("error", finish);`,
+          `      server.listen(Number(redirect.port) || 80, redirect.hostname.replace(/^\\[|\\]$/g, ""), () => {`,
+          `        Promise.resolve()`,
+          `          .then(() => open(url))`,
+          `          .catch(finish);`,
+          `      });`,
+          `    });`,
+          `    await this.exchangeCode(code, verifier);`,
+          `  }`,
+          ``,
+        ]
+      : []),
+    `  private expiring(token: OAuthToken): boolean {`,
+    `    return token.expires_at !== undefined && token.expires_at - REFRESH_MARGIN_MS <= Date.now();`,
+    `  }`,
+    ``,
+    `  private async renew(): Promise<OAuthToken> {`,
+    `    let failure: unknown;`,
+    `    for (const refreshToken of new Set([this.token?.refresh_token, this.refreshToken])) {`,
+    `      if (!refreshToken) continue;`,
+    `      try {`,
+    `        return await this.grant({ grant_type: "refresh_token", refresh_token: refreshToken });`,
+    `      } catch (err) {`,
+    `        failure = err;`,
+    `      }`,
+    `    }`,
+    ...(oauth.flow === "client_credentials"
+      ? [
+          `    return this.grant({`,
+          `      grant_type: "client_credentials",`,
+          `      ...(this.scopes.length > 0 ? { scope: this.scopes.join(" ") } : {}),`,
+          `      ...(OAUTH.audience ? { audience: OAUTH.audience } : {}),`,
+          `    });`,
+        ]
+      : [
+          `    throw failure ?? new OAuthError(\`No OAuth2 refresh token: ${signIn}\`);`,
+        ]),
+    `  }`,
+    ``,
+    `  /** POST to the token endpoint; stores and returns the new token. */`,
+    `  private async grant(params: Record<string, string>): Promise<OAuthToken> {`,
+    `    const clientId = this.requireClientId();`,
+    `    const form = new URLSearchParams(params);`,
+    `    const headers: Record<string, string> = {`,
+    `      "Content-Type": "application/x-www-form-urlencoded",`,
+    `      Accept: "application/json",`,
+    `    };`,
+    `    if (this.clientSecret) {`,
+    `      headers["Authorization"] = "Basic " + btoa(\`\${encodeURIComponent(clientId)}:\${encodeURIComponent(this.clientSecret)}\`);`,
+    `    } else {`,
+    `      form.set("client_id", clientId); // Public client`,
+    `    }`,
+    `    const res = await this.fetchImpl(this.tokenUrl, { method: "POST", headers, body: form.toString() });`,
+    `    const text = await res.text();`,
+    `    let data: any;`,
+    `    try {`,
+    `      data = JSON.parse(text);`,
+    `    } catch {`,
+    `      data = Object.fromEntries(new URLSearchParams(text));`,
+    `    }`,
+    `    if (!res.ok || typeof data?.access_token !== "string") {`,
+    `      const reason = data?.error`,
+    `        ? [data.error, data.error_description].filter(Boolean).join(": ")`,
+    `        : \`\${res.status} \${res.statusText}\`.trim();`,
+    `      throw new OAuthError(\`OAuth2 \${params.grant_type} grant failed: \${reason}\`, res.status, data);`,
+    `    }`,
+    `    const expiresIn = Number(data.expires_in);`,
+    `    this.token = {`,
+    `      access_token: data.access_token,`,
+    `      token_type: data.token_type,`,
+    `      // Servers may keep the refresh token without sending it again`,
+    `      refresh_token: data.refresh_token ?? params.refresh_token,`,
+    `      expires_at: expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,`,
+    `      scope: data.scope,`,
+    `    };`,
+    `    if (this.persist) storeSecret(OAUTH.tokenSecret, JSON.stringify(this.token));`,
+    `    return this.token;`,
+    `  }`,
+    ``,
+    `  private requireClientId(): string {`,
+    `    if (!this.clientId) {`,
+    `      throw new OAuthError(\`No OAuth2 client ID: set \${OAUTH.env.clientId} (env var or foundry secret) or pass oauth.clientId\`);`,
+    `    }`,
+    `    return this.clientId;`,
+    `  }`,
+    ``,
+    `  /** The cached token from the secret store, if any. */`,
+    `  private load(): OAuthToken | undefined {`,
+    `    try {`,
+    `      const token = JSON.parse(secret(OAUTH.tokenSecret) || "null");`,
+    `      return typeof token?.access_token === "string" ? token : undefined;`,
+    `    } catch {`,
+    `      return undefined;`,
+    `    }`,
+    `  }`,
+    `}`,
+  ];
+}
+
+// ── Client ───────────────────────────────────────────────────────────────────
+
+/**
+ * `BASE_URL`, `SERVERS`, `AUTH_SCHEMES` and `DEFAULT_SECURITY`.
+ */
+function emitClientConstants(def: ApiClientDef): string[] {
+  const servers = def.servers?.length ? def.servers : [{ url: def.baseUrl }];
+  const schemes = Object.fromEntries(
+    (def.authSchemes || []).map((s) => [
+      s.name,
+      {
+        type: s.type,
+        ...(s.in ? { in: s.in } : {}),
+        ...(s.paramName ? { name: s.paramName } : {}),
+        ...(s.scheme ? { scheme: s.scheme.toLowerCase() } : {}),
+        env: credentialEnvVar(def.name, s),
+      },
+    ]),
+  );
+  return [
+    `const BASE_URL = ${stringLiteral(def.baseUrl)};`,
+    ``,
+    `/** Servers the API declares; pass one's url as \`baseUrl\` to switch. */`,
+    `export const SERVERS = ${jsonLiteral(servers)};`,
+    ``,
+    `/** Auth schemes by name; credentials default to the env var (or foundry secret) named by \`env\`. */`,
+    `const AUTH_SCHEMES: Record<string, { type: string; in?: string; name?: string; scheme?: string; env: string }> = ${jsonLiteral(schemes)};`,
+    ``,
+    `const DEFAULT_SECURITY: string[] = ${JSON.stringify(def.security || Object.keys(schemes))};`,
+    ...(def.authHeaders
+      ? [
+          ``,
+          `/** Sent with every request; \`{{secret:NAME}}\` resolves from the foundry secret store. */`,
+          `const AUTH_HEADERS: Record<string, string> = ${jsonLiteral(def.authHeaders)};`,
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Whether the client reads credentials and so needs the secret resolver.
+ */
+function usesSecrets(def: ApiClientDef): boolean {
+  return !!def.authHeaders || !!def.authSchemes?.length || !!def.oauth;
+}
+
+/**
+ * Top of `api.ts`: header comment, then the secret resolver when needed.
+ */
+function emitClientHeader(def: ApiClientDef, flavour: string): string[] {
+  return [
+    `/**`,
+    ...commentLines(`${def.name} API Client`).map((line) => ` * ${line}`),
+    ` * Auto-generated by foundry${flavour}`,
+    ` */`,
+    ``,
+    ...(def.oauth?.flow === "authorization_code"
+      ? [
+          `import { createHash as oauthHash, randomBytes as oauthRandom } from "node:crypto";`,
+          `import { createServer as oauthServer } from "node:http";`,
+        ]
+      : []),
+    ...(usesSecrets(def)
+      ? [emitSecretRuntime({ write: !!def.oauth }), ``]
+      : []),
+  ];
+}
+
+/**
+ * Constructor lines setting `headers` and `credentials`. Credentials come
+ * from the options, else the scheme's env var, else the foundry secret of
+ * the same name.
+ */
+function emitAuthSetup(def: ApiClientDef, defaultHeaders: string): string[] {
+  const authHeaders = def.authHeaders
+    ? `...Object.fromEntries(Object.entries(AUTH_HEADERS).map(([key, value]) => [key, withSecrets(value)])), `
+    : "";
+  const fallback = usesSecrets(def) ? " ?? secret(auth.env)" : "";
+  return [
+    `    this.headers = { ${defaultHeaders}, ${authHeaders}...options.headers };`,
+    `    for (const [name, auth] of Object.entries(AUTH_SCHEMES)) {`,
+    `      this.credentials[name] = options.credentials?.[name] ?? process.env[auth.env]${fallback};`,
+    `    }`,
+  ];
+}
+
+const REQUEST_OPTIONS = [
+  `interface RequestOptions {`,
+  `  query?: Record<string, unknown>;`,
+  `  headers?: Record<string, unknown>;`,
+  `  body?: unknown;`,
+  `  contentType?: string;`,
+  `  security?: string[];`,
+  `}`,
+];
+
+/**
+ * Start of `request()`: builds `url`, `headers` and `body` from the options.
+ * With OAuth2, requests the token covers get it as a bearer token (and
+ * `oauth` says so, for the retry on 401).
+ */
+function requestPrepare(def: ApiClientDef): string[] {
+  return REQUEST_PREPARE.flatMap((line) =>
+    def.oauth && line.includes("this.authorize(")
+      ? [
+          `    const oauth = oauthApplies(options.security);`,
+          `    if (oauth) headers["Authorization"] = "Bearer " + (await this.oauth.accessToken());`,
+          `    else this.authorize(options.security ?? DEFAULT_SECURITY, url, headers);`,
+        ]
+      : [line],
+  );
+}
+
+const REQUEST_PREPARE = [
+  `    const url = new URL(this.baseUrl + path);`,
+  `    for (const [key, value] of Object.entries(options.query || {})) {`,
+  `      if (value === undefined || value === null) continue;`,
+  `      for (const item of Array.isArray(value) ? value : [value]) {`,
+  `        url.searchParams.append(key, String(item));`,
+  `      }`,
+  `    }`,
+  `    const headers: Record<string, string> = { ...this.headers };`,
+  `    for (const [key, value] of Object.entries(options.headers || {})) {`,
+  `      if (value !== undefined && value !== null) headers[key] = String(value);`,
+  `    }`,
+  `    this.authorize(options.security ?? DEFAULT_SECURITY, url, headers);`,
+  ``,
+  `    let body: any;`,
+  `    if (options.body !== undefined) {`,
+  `      const type = options.contentType || "application/json";`,
+  `      headers["Content-Type"] = type;`,
+  `      if (type.includes("json")) {`,
+  `        body = JSON.stringify(options.body);`,
+  `      } else if (type === "application/x-www-form-urlencoded") {`,
+  `        body = new URLSearchParams(options.body as Record<string, string>).toString();`,
+  `      } else if (type === "multipart/form-data") {`,
+  `        body = new FormData();`,
+  `        for (const [key, value] of Object.entries(options.body as Record<string, any>)) {`,
+  `          body.append(key, value instanceof Blob ? value : String(value));`,
+  `        }`,
+  `        delete headers["Content-Type"]; // fetch adds the boundary`,
+  `      } else {`,
+  `        body = options.body;`,
+  `      }`,
+  `    }`,
+];
+
+const AUTHORIZE_METHOD = [
+  `  /** Apply the first of \`schemes\` that has a credential. */`,
+  `  private authorize(schemes: string[], url: URL, headers: Record<string, string>): void {`,
+  `    for (const name of schemes) {`,
+  `      const auth = AUTH_SCHEMES[name];`,
+  `      const credential = this.credentials[name];`,
+  `      if (!auth || !credential) continue;`,
+  `      if (auth.type === "apiKey") {`,
+  `        if (auth.in === "query") url.searchParams.set(auth.name!, credential);`,
+  `        else if (auth.in === "cookie") {`,
+  `          headers["Cookie"] = [headers["Cookie"], \`\${auth.name}=\${credential}\`].filter(Boolean).join("; ");`,
+  `        } else headers[auth.name!] = credential;`,
+  `      } else if (auth.scheme === "basic") {`,
+  `        headers["Authorization"] = "Basic " + btoa(credential);`,
+  `      } else {`,
+  `        headers["Authorization"] = "Bearer " + credential;`,
+  `      }`,
+  `      return;`,
+  `    }`,
+  `  }`,
+];
+
+/**
+ * Client methods grouped under `// ── tag ──` comments.
+ */
+function emitMethodGroups(
+  def: ApiClientDef,
+  emit: (i: number) => string,
+): string {
+  return groupByTag(def)
+    .map(({ tag, indexes }) =>
+      [
+        ...(tag ? [`  // ── ${tag.replace(/\s+/g, " ")} ──`, ``] : []),
+        ...indexes.map(emit),
+      ].join("\n"),
+    )
+    .join("\n")
+    .trimEnd();
+}
+
+/**
+ * Full `api.ts` source for an API skill: the production client when
+ * `def.client` is set, otherwise the basic one.
+ */
+export function emitApiClient(def: ApiClientDef): string {
+  return def.client
+    ? emitProductionClient(def, { ...CLIENT_DEFAULTS, ...def.client })
+    : emitBasicClient(def);
+}
+
+function emitBasicClient(def: ApiClientDef): string {
+  const className = clientClassName(def.name);
+  const names = endpointMethodNames(def.endpoints);
+
+  return [
+    ...emitClientHeader(def, ""),
+    ...emitClientConstants(def),
+    ...(def.oauth ? [``, ...emitOAuthRuntime(def)] : []),
+    ``,
+    `export interface ClientOptions {`,
+    `  baseUrl?: string;`,
+    `  headers?: Record<string, string>;`,
+    `  /** Credential per auth scheme: token, API key, or "user:password" for basic auth */`,
+    `  credentials?: Record<string, string>;`,
+    ...(def.oauth ? [`  oauth?: OAuthOptions;`] : []),
+    `}`,
+    ``,
+    ...REQUEST_OPTIONS,
+    ``,
+    `export class ${className} {`,
+    ...(def.oauth ? [`  readonly oauth: OAuth2Session;`] : []),
+    `  private baseUrl: string;`,
+    `  private headers: Record<string, string>;`,
+    `  private credentials: Record<string, string | undefined> = {};`,
+    ``,
+    `  constructor(options: ClientOptions = {}) {`,
+    `    this.baseUrl = (options.baseUrl || BASE_URL).replace(/\\/+$/, "");`,
+    ...emitAuthSetup(def, `"Content-Type": "application/json"`),
+    ...(def.oauth
+      ? [`    this.oauth = new OAuth2Session(options.oauth);`]
+      : []),
+    `  }`,
+    ``,
+    `  private async request(method: string, path: string, options: RequestOptions = {}): Promise<any> {`,
+    ...requestPrepare(def),
+    ``,
+    ...(def.oauth
+      ? [
+          `    let res = await fetch(url, { method, headers, body });`,
+          `    if (res.status === 401 && oauth) {`,
+          `      // Revoked or expired early: renew once and resend`,
+          `      this.oauth.invalidate();`,
+          `      headers["Authorization"] = "Bearer " + (await this.oauth.accessToken());`,
+          `      res = await fetch(url, { method, headers, body });`,
+          `    }`,
+        ]
+      : [`    const res = await fetch(url, { method, headers, body });`]),
+    `    return res.json();`,
+    `  }`,
+    ``,
+    ...AUTHORIZE_METHOD,
+    ``,
+    emitMethodGroups(def, (i) => emitMethod(def.endpoints[i], names[i])),
+    `}`,
+    ``,
+    `export default ${className};`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * The production client: exported request/response types per endpoint,
+ * `ApiError` for non-2xx responses, per-attempt timeouts, retries with
+ * exponential backoff (honouring `Retry-After`), bodies parsed by content
+ * type, and `iterate*()` helpers for paginated endpoints.
+ */
+function emitProductionClient(
+  def: ApiClientDef,
+  config: Required<ApiClientConfig>,
+): string {
+  const className = clientClassName(def.name);
+  const names = endpointMethodNames(def.endpoints, true);
+  const paging = def.endpoints.map((e) =>
+    config.pagination ? detectPagination(e, endpointParameters(e)) : undefined,
+  );
+  const paginated = paging.some(Boolean);
+
+  const types = def.endpoints
+    .map((e, i) => emitEndpointTypes(e, names[i], paging[i]))
+    .join("\n\n");
+
+  return [
+    ...emitClientHeader(def, " (production client)"),
+    ...emitClientConstants(def),
+    ...(def.oauth ? [``, ...emitOAuthRuntime(def)] : []),
+    ``,
+    `/** Methods safe to repeat: retried on network errors, timeouts, 408 and 5xx. */`,
+    `const IDEMPOTENT = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);`,
+    `const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);`,
+    `const MAX_DELAY_MS = 60_000;`,
+    ``,
+    `// ── Types ──`,
+    ``,
+    types,
+    ``,
+    `// ── Errors ──`,
+    ``,
+    `/** The API answered with a non-2xx status. \`body\` is the parsed response body. */`,
+    `export class ApiError extends Error {`,
+    `  constructor(`,
+    `    readonly method: string,`,
+    `    readonly url: string,`,
+    `    readonly status: number,`,
+    `    readonly statusText: string,`,
+    `    readonly body: unknown,`,
+    `  ) {`,
+    `    super(\`\${method} \${url} failed: \${status} \${statusText}\`.trim());`,
+    `    this.name = "ApiError";`,
+    `  }`,
+    `}`,
+    ``,
+    `/** No response within \`timeoutMs\`. */`,
+    `export class ApiTimeoutError extends Error {`,
+    `  constructor(`,
+    `    readonly method: string,`,
+    `    readonly url: string,`,
+    `    readonly timeoutMs: number,`,
+    `  ) {`,
+    `    super(\`\${method} \${url} timed out after \${timeoutMs}ms\`);`,
+    `    this.name = "ApiTimeoutError";`,
+    `  }`,
+    `}`,
+    ``,
+    `// ── Client ──`,
+    ``,
+    `export interface ClientOptions {`,
+    `  baseUrl?: string;`,
+    `  headers?: Record<string, string>;`,
+    `  /** Credential per auth scheme: token, API key, or "user:password" for basic auth */`,
+    `  credentials?: Record<string, string>;`,
+    `  /** Per attempt (default ${config.timeoutMs}) */`,
+    `  timeoutMs?: number;`,
+    `  /** Extra attempts after a retryable failure (default ${config.retries}) */`,
+    `  retries?: number;`,
+    `  /** First backoff delay, doubled per attempt (default ${config.retryDelayMs}) */`,
+    `  retryDelayMs?: number;`,
+    `  fetch?: typeof fetch;`,
+    ...(def.oauth ? [`  oauth?: OAuthOptions;`] : []),
+    `}`,
+    ``,
+    ...REQUEST_OPTIONS,
+    ...(paginated
+      ? [
+          ``,
+          `export interface PageOptions {`,
+          `  /** Stop after this many pages (default 100) */`,
+          `  maxPages?: number;`,
+          `}`,
+          ``,
+          `interface PageStrategy {`,
+          `  style: "cursor" | "page" | "offset";`,
+          `  param: string;`,
+          `  limitParam?: string;`,
+          `  itemsKey?: string;`,
+          `}`,
+          ``,
+          `const CURSOR_FIELDS = ["next_cursor", "nextCursor", "next_page_token", "nextPageToken", "next_token", "nextToken", "continuation_token", "continuationToken", "after", "cursor"];`,
+          ``,
+          `/** Next-page cursor of a response, at the top level or in a meta/pagination object. */`,
+          `function nextCursor(page: any): unknown {`,
+          `  for (const holder of [page, page?.meta, page?.pagination, page?.paging, page?.paging?.cursors, page?.response_metadata]) {`,
+          `    if (!holder || typeof holder !== "object") continue;`,
+          `    for (const key of CURSOR_FIELDS) {`,
+          `      if (holder[key] !== undefined && holder[key] !== null && holder[key] !== "") return holder[key];`,
+          `    }`,
+          `  }`,
+          `  return undefined;`,
+          `}`,
+        ]
+      : []),
+    ``,
+    `/** Response body by content type: JSON, text, or a Blob; undefined when empty. */`,
+    `async function readBody(res: Response): Promise<unknown> {`,
+    `  if (res.status === 204 || res.status === 205) return undefined;`,
+    `  const type = res.headers.get("Content-Type") || "";`,
+    `  if (type && !/json|^text\\/|xml|x-www-form-urlencoded/i.test(type)) return res.blob();`,
+    `  const text = await res.text();`,
+    `  if (!text) return undefined;`,
+    `  if (!/json/i.test(type)) return text;`,
+    `  try {`,
+    `    return JSON.parse(text);`,
+    `  } catch {`,
+    `    return text;`,
+    `  }`,
+    `}`,
+    ``,
+    `/** Delay a \`Retry-After\` header asks for (seconds or an HTTP date). */`,
+    `function retryAfter(header: string | null): number | undefined {`,
+    `  if (!header) return undefined;`,
+    `  const ms = /^\\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now();`,
+    `  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_DELAY_MS) : undefined;`,
+    `}`,
+    ``,
+    `const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));`,
+    ``,
+    `export class ${className} {`,
+    ...(def.oauth ? [`  readonly oauth: OAuth2Session;`] : []),
+    `  private baseUrl: string;`,
+    `  private headers: Record<string, string>;`,
+    `  private credentials: Record<string, string | undefined> = {};`,
+    `  private timeoutMs: number;`,
+    `  private retries: number;`,
+    `  private retryDelayMs: number;`,
+    `  private fetchImpl: typeof fetch;`,
+    ``,
+    `  constructor(options: ClientOptions = {}) {`,
+    `    this.baseUrl = (options.baseUrl || BASE_URL).replace(/\\/+$/, "");`,
+    ...emitAuthSetup(def, `Accept: "application/json"`),
+    `    this.timeoutMs = options.timeoutMs ?? ${config.timeoutMs};`,
+    `    this.retries = options.retries ?? ${config.retries};`,
+    `    this.retryDelayMs = options.retryDelayMs ?? ${config.retryDelayMs};`,
+    `    this.fetchImpl = options.fetch ?? fetch;`,
+    ...(def.oauth
+      ? [`    this.oauth = new OAuth2Session(options.oauth, this.fetchImpl);`]
+      : []),
+    `  }`,
+    ``,
+    `  /**`,
+    `   * Send a request, retrying network errors, timeouts and retryable statuses.`,
+    `   * Only 429 is retried for non-idempotent methods, since the server didn't act.`,
+    ...(def.oauth
+      ? [`   * A 401 on an OAuth2 request renews the token and resends once.`]
+      : []),
+    `   */`,
+    `  private async request(method: string, path: string, options: RequestOptions = {}): Promise<any> {`,
+    ...requestPrepare(def),
+    ``,
+    `    const idempotent = IDEMPOTENT.has(method);`,
+    ...(def.oauth ? [`    let renewed = false;`] : []),
+    `    for (let attempt = 0; ; attempt++) {`,
+    `      const controller = new AbortController();`,
+    `      const timer = setTimeout(() => controller.abort(), this.timeoutMs);`,
+    `      let res: Response;`,
+    `      let data: unknown;`,
+    `      try {`,
+    `        res = await this.fetchImpl(url, { method, headers, body, signal: controller.signal });`,
+    `        data = await readBody(res);`,
+    `      } catch (err) {`,
+    `        const error = controller.signal.aborted ? new ApiTimeoutError(method, url.toString(), this.timeoutMs) : err;`,
+    `        if (!idempotent || attempt >= this.retries) throw error;`,
+    `        await sleep(this.backoff(attempt));`,
+    `        continue;`,
+    `      } finally {`,
+    `        clearTimeout(timer);`,
+    `      }`,
+    ``,
+    `      if (res.ok) return data;`,
+    ...(def.oauth
+      ? [
+          `      if (res.status === 401 && oauth && !renewed) {`,
+          `        renewed = true;`,
+          `        this.oauth.invalidate();`,
+          `        headers["Authorization"] = "Bearer " + (await this.oauth.accessToken());`,
+          `        attempt--; // Not a failed attempt`,
+          `        continue;`,
+          `      }`,
+        ]
+      : []),
+    `      const retryable = res.status === 429 || (idempotent && RETRY_STATUSES.has(res.status));`,
+    `      if (!retryable || attempt >= this.retries) {`,
+    `        throw new ApiError(method, url.toString(), res.status, res.statusText, data);`,
+    `      }`,
+    `      await sleep(retryAfter(res.headers.get("Retry-After")) ?? this.backoff(attempt));`,
+    `    }`,
+    `  }`,
+    ``,
+    `  /** Exponential backoff with jitter. */`,
+    `  private backoff(attempt: number): number {`,
+    `    const delay = Math.min(this.retryDelayMs * 2 ** attempt, MAX_DELAY_MS);`,
+    `    return delay / 2 + Math.random() * (delay / 2);`,
+    `  }`,
+    ``,
+    ...(paginated
+      ? [
+          `  /**`,
+          `   * Yield items page by page until a page is empty or short, the cursor runs`,
+          `   * out, or \`maxPages\` is reached. Starts from the page \`params\` selects.`,
+          `   */`,
+          `  private async *paginate<T>(`,
+          `    fetchPage: (page: Record<string, unknown>) => Promise<any>,`,
+          `    strategy: PageStrategy,`,
+          `    params: Record<string, any>,`,
+          `    options: PageOptions,`,
+          `  ): AsyncGenerator<T> {`,
+          `    const limit = strategy.limitParam ? Number(params[strategy.limitParam]) : NaN;`,
+          `    let position: unknown = params[strategy.param];`,
+          `    if (position === undefined && strategy.style === "page") position = 1;`,
+          `    if (position === undefined && strategy.style === "offset") position = 0;`,
+          `    for (let n = 0; n < (options.maxPages ?? 100); n++) {`,
+          `      const page = await fetchPage(position === undefined ? {} : { [strategy.param]: position });`,
+          `      const items = strategy.itemsKey ? page?.[strategy.itemsKey] : page;`,
+          `      if (!Array.isArray(items) || items.length === 0) return;`,
+          `      yield* items as T[];`,
+          `      if (strategy.style === "cursor") {`,
+          `        const next = nextCursor(page);`,
+          `        if (next === undefined || next === position) return;`,
+          `        position = next;`,
+          `      } else {`,
+          `        if (items.length < limit) return;`,
+          `        position = Number(position) + (strategy.style === "page" ? 1 : items.length);`,
+          `      }`,
+          `    }`,
+          `  }`,
+          ``,
+        ]
+      : []),
+    ...AUTHORIZE_METHOD,
+    ``,
+    emitMethodGroups(def, (i) =>
+      emitProductionMethod(def.endpoints[i], names[i], paging[i]),
+    ),
+    `}`,
+    ``,
+    `export default ${className};`,
+    ``,
+  ].join("\n");
+}
+
+// ── SKILL.md ─────────────────────────────────────────────────────────────────
+
+function describeScheme(skillName: string, s: ApiAuthSchemeDef): string {
+  const env = `\`${credentialEnvVar(skillName, s)}\``;
+  let how: string;
+  if (s.type === "apiKey") {
+    how = `API key in ${s.in || "header"} \`${s.paramName}\``;
+  } else if (s.type === "http" && s.scheme?.toLowerCase() === "basic") {
+    how = `HTTP basic auth (set ${env} to \`user:password\`)`;
+  } else if (s.type === "http") {
+    how = `HTTP ${s.scheme || "bearer"} token`;
+  } else {
+    how = `${s.type === "oauth2" ? "OAuth2" : "OpenID Connect"} access token (sent as a bearer token)`;
+  }
+  const line = `- \`${s.name}\` — ${how}. Set ${env} (env var or \`foundry_secrets\` secret) or pass \`credentials: { ${propertyKey(s.name)}: "..." }\`.`;
+  return s.description
+    ? `${line}\n  ${s.description.replace(/\s+/g, " ").trim()}`
+    : line;
+}
+
+function describeOAuth(skillName: string, oauth: ApiOAuthDef): string {
+  const names = oauthSecretNames(skillName);
+  const grant = {
+    client_credentials: "client credentials",
+    refresh_token: "refresh token",
+    authorization_code: "authorization code with PKCE",
+  }[oauth.flow];
+  const scopes = oauth.scopes?.length
+    ? ` (scopes: ${oauth.scopes.map((s) => `\`${s}\``).join(", ")})`
+    : "";
+  const start =
+    oauth.flow === "client_credentials"
+      ? ""
+      : oauth.flow === "refresh_token"
+        ? ` \`${names.refreshToken}\` holds the refresh token to start from.`
+        : ` Sign in once with \`await client.oauth.authorize()\`, which opens a listener on \`${oauth.redirectUri || DEFAULT_REDIRECT_URI}\` and prints the URL to visit (or set \`${names.refreshToken}\`).`;
+  return `- OAuth2 ${grant} via \`${oauth.tokenUrl}\`${scopes}${oauth.scheme ? ` for \`${oauth.scheme}\`` : ""}. The client obtains, caches and renews access tokens itself and retries once on 401. Set \`${names.clientId}\`${oauth.flow === "authorization_code" ? "" : ` and \`${names.clientSecret}\``} (env var or \`foundry_secrets\` secret) or pass \`oauth: { clientId${oauth.flow === "authorization_code" ? "" : ", clientSecret"} }\`.${start} Tokens are cached in secret \`${names.token}\`.`;
+}
+
+function describeEndpoint(
+  e: ApiEndpointDef,
+  methodName: string,
+  paginated = false,
+): string {
+  const summary = e.description.replace(/\s+/g, " ").trim();
+  const iterate = paginated ? `, \`client.${iteratorName(methodName)}()\`` : "";
+  const lines = [
+    `- \`${e.method.toUpperCase()} ${e.path}\` — ${summary || "(no description)"} → \`client.${methodName}()\`${iterate}${e.deprecated ? " _(deprecated)_" : ""}`,
+  ];
+  for (const p of e.parameters || []) {
+    const about = p.description
+      ? ` — ${p.description.replace(/\s+/g, " ").trim()}`
+      : "";
+    lines.push(
+      `  - \`${p.name}\` (${p.in}, ${docType(p.schema)}${p.required ? ", required" : ""})${about}`,
+    );
+  }
+  if (e.body) {
+    lines.push(
+      `  - Body (\`${e.body.contentType}\`${e.body.required ? ", required" : ""}): \`${docType(e.body.schema)}\``,
+    );
+  }
+  if (e.response?.schema) {
+    lines.push(
+      `  - Returns (\`${e.response.status}\`): \`${docType(e.response.schema)}\``,
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Markdown body of SKILL.md for an API skill: servers, endpoints grouped by
+ * tag, usage and auth.
+ */
+export function emitApiSkillContent(def: ApiClientDef): string {
+  const className = clientClassName(def.name);
+  const names = endpointMethodNames(def.endpoints, !!def.client);
+  const paging = def.endpoints.map((e) =>
+    def.client && def.client.pagination !== false
+      ? detectPagination(e, endpointParameters(e))
+      : undefined,
+  );
+  const sections: string[] = [];
+
+  if (def.servers && def.servers.length > 1) {
+    const servers = def.servers.map(
+      (s) =>
+        `- \`${s.url}\`${s.description ? ` — ${s.description}` : ""}${s.url === def.baseUrl ? " (default)" : ""}`,
+    );
+    sections.push(`## Servers\n\n${servers.join("\n")}`);
+  }
+
+  const groups = groupByTag(def);
+  const endpoints = groups
+    .map(({ tag, description, indexes }) => {
+      const list = indexes
+        .map((i) => describeEndpoint(def.endpoints[i], names[i], !!paging[i]))
+        .join("\n");
+      if (groups.length === 1 && !tag) return list;
+      const heading = `### ${tag || "Other"}`;
+      return description
+        ? `${heading}\n\n${description.trim()}\n\n${list}`
+        : `${heading}\n\n${list}`;
+    })
+    .join("\n\n");
+  sections.push(`## Endpoints\n\n${endpoints}`);
+
+  const first = def.endpoints[0];
+  const firstArgs = endpointParameters(first).some((p) => p.required)
+    ? "{ ... }"
+    : "";
+  sections.push(`## Usage
+
+\`\`\`typescript
+import { ${className} } from "./api";
+
+const client = new ${className}();
+const result = await client.${names[0]}(${firstArgs});
+\`\`\``);
+
+  if (def.client) {
+    const config = { ...CLIENT_DEFAULTS, ...def.client };
+    const pagedAt = paging.findIndex(Boolean);
+    const iterate =
+      pagedAt < 0
+        ? ""
+        : `\n\nPaginated endpoints also get an iterator that fetches pages on demand:
+
+\`\`\`typescript
+for await (const item of client.${iteratorName(names[pagedAt])}({}, { maxPages: 10 })) {
+  // ...
+}
+\`\`\``;
+    sections.push(`## Errors & Retries
+
+Non-2xx responses throw \`ApiError\` (\`status\`, \`statusText\`, parsed \`body\`); requests that exceed the timeout throw \`ApiTimeoutError\`. Each attempt times out after ${config.timeoutMs}ms. Network errors, timeouts, 408, 429 and 5xx are retried up to ${config.retries} times with exponential backoff from ${config.retryDelayMs}ms, honouring \`Retry-After\`; POST and PATCH are only retried on 429. Override any of these per client: \`new ${className}({ timeoutMs, retries, retryDelayMs })\`.${iterate}`);
+  }
+
+  const auth: string[] = (def.authSchemes || [])
+    .filter((s) => !def.oauth || s.name !== def.oauth.scheme)
+    .map((s) => describeScheme(def.name, s));
+  for (const [header, value] of Object.entries(def.authHeaders || {})) {
+    const secrets = referencedSecrets(value);
+    auth.push(
+      secrets.length > 0
+        ? `- \`${header}\` header from secret ${secrets.map((n) => `\`${n}\``).join(", ")} (\`foundry_secrets\`)`
+        : `- \`${header}\` header`,
+    );
+  }
+  if (def.oauth) auth.unshift(describeOAuth(def.name, def.oauth));
+  sections.push(
+    `## Auth\n\n${auth.length > 0 ? auth.join("\n") : "No auth required"}`,
+  );
+
+  return sections.join("\n\n");
+}
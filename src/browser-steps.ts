@@ -0,0 +1,732 @@
+/**
+ * Browser Steps — Structured, replayable actions for browser skills.
+ *
+ * A browser skill action can list its steps as a small DSL instead of prose:
+ * `navigate`, `click`, `fill`, `waitFor`, `extract` and `assert`, each with a
+ * CSS selector, URL or text. Strings may use `{{name}}` placeholders for the
+ * action's declared params and for values captured by earlier `extract`
+ * steps, and a `fill` value may use `{{secret:NAME}}` for a value from the
+ * secret store. Actions are validated when the skill is written, stored next
+ * to SKILL.md as `actions.json` and validated again when loaded for replay.
+ * Navigation stays on the origin of the skill's `targetUrl`.
+ *
+ * `runBrowserAction` replays an action through a `BrowserDriver`. The
+ * default driver talks to the OpenClaw browser control server (the service
+ * behind the `browser` tool): it navigates with `/navigate` and performs
+ * every other step by evaluating a small script in the page with `/act`.
+ * Any driver that can load a URL and evaluate a function works, so actions
+ * can be exercised against static HTML fixtures served locally.
+ */
+
+import { SECRET_REF } from "./secret-store.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type BrowserStep =
+  | { action: "navigate"; url: string; note?: string }
+  | { action: "click"; selector: string; note?: string }
+  | { action: "fill"; selector: string; value: string; note?: string }
+  | {
+      action: "waitFor";
+      selector?: string;
+      text?: string; // Visible text anywhere on the page
+      timeoutMs?: number;
+      note?: string;
+    }
+  | {
+      action: "extract";
+      selector: string;
+      as: string; // Name the value is captured under
+      attribute?: string; // Default: the element's text
+      all?: boolean; // Every match instead of the first
+      note?: string;
+    }
+  | {
+      action: "assert";
+      selector?: string; // Element must exist (and contain `text` if given)
+      text?: string;
+      url?: string; // Current URL must contain this
+      note?: string;
+    };
+
+export type BrowserStepAction = BrowserStep["action"];
+
+export interface BrowserActionDef {
+  name: string;
+  description: string;
+  params?: string[]; // Inputs referenced as {{name}}
+  steps: BrowserStep[];
+}
+
+/** Contents of a browser skill's `actions.json`. */
+export interface BrowserActionsFile {
+  version: 1;
+  targetUrl?: string;
+  actions: BrowserActionDef[];
+}
+
+export interface BrowserDriver {
+  navigate(url: string): Promise<void>;
+  /** Evaluate a function expression (`() => ...`) in the page and return its result. */
+  evaluate<T = unknown>(fn: string): Promise<T>;
+}
+
+export interface BrowserRunOptions {
+  params?: Record<string, string>;
+  baseUrl?: string; // Resolves relative `navigate` URLs; navigation stays on its origin
+  timeoutMs?: number; // Default per-step timeout
+  pollMs?: number;
+  secret?: (name: string) => string | undefined; // Resolves {{secret:NAME}}
+}
+
+export interface BrowserStepResult {
+  index: number;
+  action: BrowserStepAction;
+  summary: string;
+  ok: boolean;
+  ms: number;
+  error?: string;
+}
+
+export interface BrowserRunResult {
+  ok: boolean;
+  steps: BrowserStepResult[];
+  extracted: Record<string, string | string[]>;
+  error?: string;
+}
+
+export const BROWSER_ACTIONS_FILE = "actions.json";
+export const DEFAULT_STEP_TIMEOUT_MS = 10_000;
+export const MAX_STEP_TIMEOUT_MS = 120_000;
+export const DEFAULT_BROWSER_CONTROL_URL = "http://127.0.0.1:18791";
+
+const STEP_FIELDS: Record<BrowserStepAction, string[]> = {
+  navigate: ["url"],
+  click: ["selector"],
+  fill: ["selector", "value"],
+  waitFor: ["selector", "text", "timeoutMs"],
+  extract: ["selector", "as", "attribute", "all"],
+  assert: ["selector", "text", "url"],
+};
+
+const REQUIRED_FIELDS: Record<BrowserStepAction, string[]> = {
+  navigate: ["url"],
+  click: ["selector"],
+  fill: ["selector", "value"],
+  waitFor: [],
+  extract: ["selector", "as"],
+  assert: [],
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+/** Whether an action's steps use the DSL (as opposed to free-text instructions). */
+export function isStructured(steps: unknown[] | undefined): boolean {
+  return (
+    !!steps?.length && steps.some((s) => typeof s === "object" && s !== null)
+  );
+}
+
+export function actionSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function placeholders(value: string): string[] {
+  return [...value.matchAll(PLACEHOLDER)].map((m) => m[1]);
+}
+
+function secretNames(value: string): string[] {
+  return [...value.matchAll(SECRET_REF)].map((m) => m[1]);
+}
+
+function originOf(url: string): string | undefined {
+  if (!/^https?:\/\//i.test(url)) return undefined;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Cheap syntax check: non-empty with balanced brackets and quotes. */
+function selectorProblem(selector: string): string | undefined {
+  if (!selector.trim()) return "is empty";
+  const closing: Record<string, string> = { "(": ")", "[": "]" };
+  const stack: string[] = [];
+  let quote = "";
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch in closing) {
+      stack.push(closing[ch]);
+    } else if (ch === ")" || ch === "]") {
+      if (stack.pop() !== ch) return `has an unmatched "${ch}"`;
+    }
+  }
+  if (quote) return "has an unterminated string";
+  if (stack.length) return `is missing "${stack[stack.length - 1]}"`;
+  return undefined;
+}
+
+/**
+ * Check structured actions before they're written. Returns one message per
+ * problem (empty when valid); free-text actions are only checked for a name.
+ */
+export function validateBrowserActions(
+  actions: { name?: unknown; params?: unknown; steps?: unknown }[],
+  targetUrl?: string,
+): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const origin = targetUrl ? originOf(targetUrl) : undefined;
+  if (targetUrl && !origin) {
+    errors.push("targetUrl must be an absolute http(s) URL");
+  }
+
+  for (const [a, action] of actions.entries()) {
+    const label =
+      typeof action.name === "string" && action.name.trim()
+        ? `"${action.name}"`
+        : `#${a + 1}`;
+    if (typeof action.name !== "string" || !actionSlug(action.name)) {
+      errors.push(`Action ${label}: name is required`);
+      continue;
+    }
+    const slug = actionSlug(action.name);
+    if (seen.has(slug)) errors.push(`Action ${label}: duplicate name`);
+    seen.add(slug);
+
+    const steps = action.steps;
+    if (steps !== undefined && !Array.isArray(steps)) {
+      errors.push(`Action ${label}: steps must be an array`);
+      continue;
+    }
+    if (!isStructured(steps as unknown[] | undefined)) {
+      if (action.params !== undefined) {
+        errors.push(`Action ${label}: params need structured steps`);
+      }
+      continue;
+    }
+
+    const params = action.params ?? [];
+    if (
+      !Array.isArray(params) ||
+      params.some((p) => typeof p !== "string" || !NAME.test(p))
+    ) {
+      errors.push(`Action ${label}: params must be identifiers`);
+      continue;
+    }
+    const known = new Set<string>(params as string[]);
+
+    for (const [i, raw] of (steps as unknown[]).entries()) {
+      const at = `Action ${label} step ${i + 1}`;
+      if (typeof raw !== "object" || raw === null) {
+        errors.push(
+          `${at}: mixes a free-text instruction with structured steps`,
+        );
+        continue;
+      }
+      const step = raw as Record<string, unknown>;
+      const kind = step.action as BrowserStepAction;
+      const fields = Object.hasOwn(STEP_FIELDS, kind)
+        ? STEP_FIELDS[kind]
+        : undefined;
+      if (!fields) {
+        errors.push(
+          `${at}: unknown action "${String(step.action)}" (expected ${Object.keys(STEP_FIELDS).join(", ")})`,
+        );
+        continue;
+      }
+      const extra = Object.keys(step).filter(
+        (k) => k !== "action" && k !== "note" && !fields.includes(k),
+      );
+      if (extra.length) {
+        errors.push(`${at}: unknown field(s) for ${kind}: ${extra.join(", ")}`);
+      }
+
+      for (const field of [
+        "url",
+        "selector",
+        "value",
+        "text",
+        "attribute",
+        "as",
+        "note",
+      ]) {
+        if (step[field] !== undefined && typeof step[field] !== "string") {
+          errors.push(`${at}: ${field} must be a string`);
+        }
+      }
+      const str = (field: string) =>
+        typeof step[field] === "string" ? (step[field] as string) : undefined;
+
+      for (const field of REQUIRED_FIELDS[kind]) {
+        if (str(field) === undefined)
+          errors.push(`${at}: ${kind} needs ${field}`);
+      }
+      if (kind === "waitFor" && !str("selector") && !str("text")) {
+        errors.push(`${at}: waitFor needs selector or text`);
+      }
+      if (
+        kind === "assert" &&
+        !str("selector") &&
+        !str("text") &&
+        !str("url")
+      ) {
+        errors.push(`${at}: assert needs selector, text or url`);
+      }
+      if (
+        step.timeoutMs !== undefined &&
+        (!Number.isInteger(step.timeoutMs) ||
+          (step.timeoutMs as number) <= 0 ||
+          (step.timeoutMs as number) > MAX_STEP_TIMEOUT_MS)
+      ) {
+        errors.push(
+          `${at}: timeoutMs must be an integer between 1 and ${MAX_STEP_TIMEOUT_MS}`,
+        );
+      }
+      if (step.all !== undefined && typeof step.all !== "boolean") {
+        errors.push(`${at}: all must be a boolean`);
+      }
+
+      const selector = str("selector");
+      const problem =
+        selector !== undefined
+          ? selectorProblem(selector.replace(PLACEHOLDER, "x"))
+          : undefined;
+      if (problem) errors.push(`${at}: selector ${problem}`);
+
+      const url = str("url");
+      if (kind === "navigate" && url) {
+        // Relative paths resolve against targetUrl; a leading placeholder may hold a full URL
+        const absolute = /^https?:\/\//i.test(url);
+        const relative = url.startsWith("/") && !!targetUrl;
+        if (!absolute && !relative && !url.startsWith("{{")) {
+          errors.push(
+            `${at}: url must be absolute http(s)${targetUrl ? " or start with /" : " (set targetUrl to use relative paths)"}`,
+          );
+        } else if (absolute && origin && originOf(url) !== origin) {
+          errors.push(`${at}: url must stay on ${origin}`);
+        }
+      }
+
+      for (const field of ["url", "selector", "value", "text", "attribute"]) {
+        if (kind === "fill" && field === "value") continue;
+        if (secretNames(str(field) ?? "").length) {
+          errors.push(`${at}: {{secret:…}} is only allowed in a fill value`);
+        }
+      }
+
+      for (const field of ["url", "selector", "value", "text", "attribute"]) {
+        for (const name of placeholders(str(field) ?? "")) {
+          if (!known.has(name)) {
+            errors.push(
+              `${at}: {{${name}}} is neither a param nor extracted by an earlier step`,
+            );
+          }
+        }
+      }
+
+      if (kind === "extract" && str("as") !== undefined) {
+        const as = str("as")!;
+        if (!NAME.test(as)) errors.push(`${at}: as must be an identifier`);
+        else if (known.has(as))
+          errors.push(`${at}: "${as}" is already defined`);
+        known.add(as);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse and re-validate a stored `actions.json`, which may have been edited
+ * since the skill was written. Throws with every problem found.
+ */
+export function parseBrowserActions(text: string): BrowserActionsFile {
+  let stored: Partial<BrowserActionsFile>;
+  try {
+    stored = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(
+      `${BROWSER_ACTIONS_FILE} is not valid JSON: ${err.message}`,
+    );
+  }
+  if (
+    typeof stored !== "object" ||
+    stored === null ||
+    !Array.isArray(stored.actions)
+  ) {
+    throw new Error(`${BROWSER_ACTIONS_FILE} must have an actions array`);
+  }
+  const errors = validateBrowserActions(stored.actions, stored.targetUrl);
+  if (stored.actions.some((a) => !isStructured(a.steps))) {
+    errors.push("Every stored action needs structured steps");
+  }
+  if (errors.length) throw new Error(errors.join("\n"));
+  return stored as BrowserActionsFile;
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+/** One-line, human-readable form of a step for SKILL.md. */
+export function describeStep(step: BrowserStep): string {
+  const code = (s: string) => `\`${s}\``;
+  let line: string;
+  switch (step.action) {
+    case "navigate":
+      line = `Navigate to ${code(step.url)}`;
+      break;
+    case "click":
+      line = `Click ${code(step.selector)}`;
+      break;
+    case "fill":
+      line = `Fill ${code(step.selector)} with ${code(step.value)}`;
+      break;
+    case "waitFor":
+      line = `Wait for ${step.selector ? code(step.selector) : `text ${code(step.text!)}`}`;
+      if (step.selector && step.text) line += ` containing ${code(step.text)}`;
+      break;
+    case "extract":
+      line = `Extract ${step.attribute ? `${code(step.attribute)} of ` : ""}${step.all ? "every " : ""}${code(step.selector)} as ${code(step.as)}`;
+      break;
+    case "assert": {
+      const checks: string[] = [];
+      if (step.selector) checks.push(`${code(step.selector)} exists`);
+      if (step.text) {
+        checks.push(
+          step.selector
+            ? `it contains ${code(step.text)}`
+            : `page shows ${code(step.text)}`,
+        );
+      }
+      if (step.url) checks.push(`URL contains ${code(step.url)}`);
+      line = `Check ${checks.join(", ")}`;
+      break;
+    }
+  }
+  return step.note ? `${line} — ${step.note}` : line;
+}
+
+// ── Page Scripts ─────────────────────────────────────────────────────────────
+// Each step becomes a self-contained function expression evaluated in the
+// page; arguments are embedded as JSON literals.
+
+const VISIBLE = `(el) => { const r = el.getBoundingClientRect(); const s = getComputedStyle(el); return r.width > 0 && r.height > 0 && s.visibility !== "hidden" && s.display !== "none"; }`;
+
+function clickScript(selector: string): string {
+  return `() => { const el = document.querySelector(${JSON.stringify(selector)}); if (!el) return { ok: false, error: "No element matches " + ${JSON.stringify(selector)} }; el.scrollIntoView({ block: "center" }); el.click(); return { ok: true }; }`;
+}
+
+function fillScript(selector: string, value: string): string {
+  // The prototype setter keeps framework-controlled inputs (React) in sync
+  return `() => { const el = document.querySelector(${JSON.stringify(selector)}); if (!el) return { ok: false, error: "No element matches " + ${JSON.stringify(selector)} }; el.focus(); const proto = Object.getPrototypeOf(el); const setter = Object.getOwnPropertyDescriptor(proto, "value")?.set; if (setter) setter.call(el, ${JSON.stringify(value)}); else el.value = ${JSON.stringify(value)}; el.dispatchEvent(new Event("input", { bubbles: true })); el.dispatchEvent(new Event("change", { bubbles: true })); return { ok: true }; }`;
+}
+
+interface Probe {
+  url: string;
+  ready: boolean;
+  found: boolean;
+  visible: boolean;
+  text: string;
+}
+
+function probeScript(selector?: string): string {
+  return `() => { const visible = ${VISIBLE}; const el = ${selector ? `document.querySelector(${JSON.stringify(selector)})` : "null"}; const root = el || document.body; return { url: location.href, ready: document.readyState === "complete", found: !!el, visible: el ? visible(el) : false, text: root ? (root.innerText ?? root.textContent ?? "") : "" }; }`;
+}
+
+function extractScript(
+  selector: string,
+  attribute: string | undefined,
+  all: boolean,
+): string {
+  const read = attribute
+    ? `(el) => el.getAttribute(${JSON.stringify(attribute)}) ?? ""`
+    : `(el) => (el.innerText ?? el.textContent ?? "").trim()`;
+  return `() => { const read = ${read}; const els = Array.from(document.querySelectorAll(${JSON.stringify(selector)})); return { found: els.length > 0, values: els.slice(0, ${all ? "undefined" : "1"}).map(read) }; }`;
+}
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+/**
+ * Fill in placeholders. Secrets resolve only when `secret` is given (fill
+ * values); anywhere else a `{{secret:…}}` is an error.
+ */
+function interpolate(
+  value: string,
+  vars: Record<string, string | string[]>,
+  secret?: (name: string) => string | undefined,
+): string {
+  return value
+    .replace(SECRET_REF, (_, name: string) => {
+      if (!secret)
+        throw new Error(`{{secret:${name}}} is only allowed in a fill value`);
+      const v = secret(name);
+      if (v === undefined) throw new Error(`Secret "${name}" is not set`);
+      return v;
+    })
+    .replace(PLACEHOLDER, (_, name: string) => {
+      const v = vars[name];
+      if (v === undefined) throw new Error(`No value for {{${name}}}`);
+      return Array.isArray(v) ? v.join(", ") : v;
+    });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Poll `check` until it returns true or the timeout passes. Errors while
+ * polling (e.g. evaluating mid-navigation) count as "not yet".
+ */
+async function until(
+  check: () => Promise<boolean>,
+  timeoutMs: number,
+  pollMs: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      if (await check()) return true;
+    } catch {
+      // retry
+    }
+    if (Date.now() >= deadline) return false;
+    await sleep(pollMs);
+  }
+}
+
+async function runStep(
+  step: BrowserStep,
+  driver: BrowserDriver,
+  vars: Record<string, string | string[]>,
+  extracted: Record<string, string | string[]>,
+  options: Required<Pick<BrowserRunOptions, "timeoutMs" | "pollMs">> &
+    Pick<BrowserRunOptions, "baseUrl" | "secret">,
+): Promise<void> {
+  const str = (v: string) => interpolate(v, vars);
+  const probe = (selector?: string) =>
+    driver.evaluate<Probe>(probeScript(selector));
+  const wait = async (check: () => Promise<boolean>, what: string) => {
+    const timeout =
+      step.action === "waitFor" && step.timeoutMs
+        ? step.timeoutMs
+        : options.timeoutMs;
+    if (!(await until(check, timeout, options.pollMs))) {
+      throw new Error(`Timed out after ${timeout}ms waiting for ${what}`);
+    }
+  };
+
+  switch (step.action) {
+    case "navigate": {
+      const url = new URL(str(step.url), options.baseUrl).toString();
+      if (!/^https?:$/.test(new URL(url).protocol)) {
+        throw new Error(`${url} is not an http(s) URL`);
+      }
+      const origin = options.baseUrl && new URL(options.baseUrl).origin;
+      if (origin && new URL(url).origin !== origin) {
+        throw new Error(`${url} is outside ${origin}`);
+      }
+      await driver.navigate(url);
+      await wait(async () => (await probe()).ready, "the page to load");
+      return;
+    }
+    case "click":
+    case "fill": {
+      const selector = str(step.selector);
+      await wait(async () => (await probe(selector)).found, `\`${selector}\``);
+      const result = await driver.evaluate<{ ok: boolean; error?: string }>(
+        step.action === "click"
+          ? clickScript(selector)
+          : fillScript(
+              selector,
+              interpolate(
+                step.value,
+                vars,
+                options.secret ?? (() => undefined),
+              ),
+            ),
+      );
+      if (!result?.ok)
+        throw new Error(result?.error || `${step.action} failed`);
+      return;
+    }
+    case "waitFor": {
+      const selector = step.selector && str(step.selector);
+      const text = step.text && str(step.text);
+      await wait(
+        async () => {
+          const p = await probe(selector);
+          return (!selector || p.visible) && (!text || p.text.includes(text));
+        },
+        selector ? `\`${selector}\`` : `text "${text}"`,
+      );
+      return;
+    }
+    case "extract": {
+      const selector = str(step.selector);
+      await wait(async () => (await probe(selector)).found, `\`${selector}\``);
+      const result = await driver.evaluate<{
+        found: boolean;
+        values: string[];
+      }>(
+        extractScript(
+          selector,
+          step.attribute && str(step.attribute),
+          !!step.all,
+        ),
+      );
+      if (!result?.found) throw new Error(`No element matches \`${selector}\``);
+      const value = step.all ? result.values : result.values[0];
+      extracted[step.as] = value;
+      vars[step.as] = value;
+      return;
+    }
+    case "assert": {
+      const selector = step.selector && str(step.selector);
+      const text = step.text && str(step.text);
+      const url = step.url && str(step.url);
+      const p = await probe(selector);
+      if (selector && !p.found)
+        throw new Error(`No element matches \`${selector}\``);
+      if (text && !p.text.includes(text)) {
+        throw new Error(
+          `Expected ${selector ? `\`${selector}\`` : "the page"} to contain "${text}"`,
+        );
+      }
+      if (url && !p.url.includes(url)) {
+        throw new Error(`Expected URL to contain "${url}", got ${p.url}`);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Replay an action's steps in order, stopping at the first failure. Values
+ * from `extract` steps are returned (and usable as placeholders by later
+ * steps).
+ */
+export async function runBrowserAction(
+  action: BrowserActionDef,
+  driver: BrowserDriver,
+  options: BrowserRunOptions = {},
+): Promise<BrowserRunResult> {
+  const missing = (action.params ?? []).filter(
+    (p) => options.params?.[p] === undefined,
+  );
+  if (missing.length) {
+    return {
+      ok: false,
+      steps: [],
+      extracted: {},
+      error: `Missing param(s): ${missing.join(", ")}`,
+    };
+  }
+
+  const vars: Record<string, string | string[]> = { ...options.params };
+  const extracted: Record<string, string | string[]> = {};
+  const steps: BrowserStepResult[] = [];
+  const settings = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS,
+    pollMs: options.pollMs ?? 100,
+    baseUrl: options.baseUrl,
+    secret: options.secret,
+  };
+
+  for (const [index, step] of action.steps.entries()) {
+    const start = Date.now();
+    const base = { index, action: step.action, summary: describeStep(step) };
+    try {
+      await runStep(step, driver, vars, extracted, settings);
+      steps.push({ ...base, ok: true, ms: Date.now() - start });
+    } catch (err: any) {
+      const error = err?.message ?? String(err);
+      steps.push({ ...base, ok: false, ms: Date.now() - start, error });
+      return {
+        ok: false,
+        steps,
+        extracted,
+        error: `Step ${index + 1}: ${error}`,
+      };
+    }
+  }
+  return { ok: true, steps, extracted };
+}
+
+// ── OpenClaw Driver ──────────────────────────────────────────────────────────
+
+export interface OpenClawBrowserOptions {
+  controlUrl?: string; // Browser control server (default 127.0.0.1:18791)
+  profile?: string; // Browser profile (default: the server's, usually "openclaw")
+  fetch?: typeof fetch;
+}
+
+/**
+ * Driver backed by the OpenClaw browser control server. The tab a
+ * navigation lands in is targeted by every later call.
+ */
+export function openClawBrowser(
+  options: OpenClawBrowserOptions = {},
+): BrowserDriver {
+  const base = (options.controlUrl || DEFAULT_BROWSER_CONTROL_URL).replace(
+    /\/+$/,
+    "",
+  );
+  const doFetch = options.fetch ?? fetch;
+  let targetId: string | undefined;
+
+  const post = async (path: string, body: Record<string, unknown>) => {
+    const query = options.profile
+      ? `?profile=${encodeURIComponent(options.profile)}`
+      : "";
+    let res: Response;
+    try {
+      res = await doFetch(`${base}${path}${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(targetId ? { ...body, targetId } : body),
+      });
+    } catch (err: any) {
+      throw new Error(
+        `Browser control server unreachable at ${base} (${err?.message ?? err}); is browser.enabled set and the gateway running?`,
+      );
+    }
+    const text = await res.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = { error: text };
+    }
+    if (!res.ok || data?.ok === false) {
+      throw new Error(
+        `Browser ${path} failed (${res.status}): ${data?.error || text}`,
+      );
+    }
+    if (typeof data?.targetId === "string") targetId = data.targetId;
+    return data;
+  };
+
+  return {
+    async navigate(url) {
+      await post("/navigate", { url });
+    },
+    async evaluate<T>(fn: string) {
+      const data = await post("/act", { kind: "evaluate", fn });
+      return data?.result as T;
+    },
+  };
+}
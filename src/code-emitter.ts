@@ -0,0 +1,506 @@
+/**
+ * Code Emitter — Builds extension source from ExtensionDef-shaped input.
+ *
+ * Every user-supplied string is emitted as a JSON literal (which is also a
+ * valid JS/TS string literal) and parameter schemas as JSON object literals,
+ * so descriptions containing quotes, newlines, backticks or `{{...}}` can't
+ * break out of their position. Names that end up in file paths or API calls
+ * are validated up front. Only `code` bodies are inserted verbatim: they are
+ * meant to be code, and structural checks on them are the validator's job.
+ * Each tool validates its input against its parameter schema before `code`
+ * runs (see `src/json-schema.ts`). Extra module paths and npm dependency
+ * specs are validated too; `lib` (shared imports and helpers) is verbatim.
+ * Tool test cases are emitted into a standalone `foundry.test.ts` runner.
+ * Extensions that declare `secrets` get a `secret(name)` helper that reads
+ * them from the encrypted foundry store (`src/secret-store.ts`) at runtime.
+ */
+
+import {
+  checkSchemaDefinition,
+  PARAMS_VALIDATOR_SOURCE,
+  type JsonSchema,
+} from "./json-schema.js";
+import { emitSecretRuntime, validateSecretName } from "./secret-store.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface EmitToolDef {
+  name: string;
+  label?: string;
+  description: string;
+  properties: Record<string, JsonSchema>;
+  required: string[];
+  code: string;
+  tests?: EmitToolTest[];
+}
+
+/**
+ * Example call with the expected result. Without `expect`, a case passes when
+ * execute() doesn't throw.
+ */
+export interface EmitToolTest {
+  name?: string;
+  input: Record<string, unknown>;
+  expect?: {
+    text?: string; // Exact text output
+    contains?: string | string[];
+    matches?: string; // Regex source
+    throws?: boolean;
+  };
+}
+
+export interface EmitHookDef {
+  event: string;
+  code: string;
+  params?: string; // Typed handler parameters (default: event: any, ctx: any)
+  returns?: string; // Handler return type
+}
+
+export interface EmitModuleDef {
+  path: string; // Relative to the extension directory, e.g. "lib/http.ts"
+  code: string;
+}
+
+export interface EmitExtensionDef {
+  id: string;
+  name: string;
+  description: string;
+  tools: EmitToolDef[];
+  hooks: EmitHookDef[];
+  lib?: string; // Top-level helpers (and imports) shared by all tool bodies
+  modules?: EmitModuleDef[];
+  dependencies?: Record<string, string>;
+  secrets?: string[]; // Secret names the code reads with secret("NAME")
+}
+
+const EXTENSION_ID = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+const TOOL_NAME = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+const HOOK_EVENT = /^[a-z][a-z0-9_:]*$/;
+const MODULE_PATH =
+  /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*\.(ts|js|mjs|json)$/;
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+// Registry versions and ranges only: no git, file:, link: or URL specs
+const PACKAGE_RANGE = /^(latest|[\w.*^~<>=| -]+)$/;
+const RESERVED_FILES = new Set([
+  "index.ts",
+  "package.json",
+  "package-lock.json",
+  "openclaw.plugin.json",
+]);
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+export function validateExtensionId(id: string): void {
+  if (!EXTENSION_ID.test(id) || id.includes("..")) {
+    throw new Error(
+      `Invalid extension id "${id}": use lowercase letters, digits, "-", "_" or "." (max 64 chars)`,
+    );
+  }
+}
+
+export function validateToolName(name: string): void {
+  if (!TOOL_NAME.test(name)) {
+    throw new Error(
+      `Invalid tool name "${name}": must start with a letter and contain only letters, digits, "_" or "-" (max 64 chars)`,
+    );
+  }
+}
+
+export function validateHookEvent(event: string): void {
+  if (!HOOK_EVENT.test(event)) {
+    throw new Error(
+      `Invalid hook event "${event}": expected an event name like "before_agent_start"`,
+    );
+  }
+}
+
+/**
+ * Check every name in a definition. Throws on the first invalid one.
+ */
+export function validateExtensionDef(def: EmitExtensionDef): void {
+  validateExtensionId(def.id);
+  const seen = new Set<string>();
+  for (const tool of def.tools) {
+    validateToolName(tool.name);
+    if (seen.has(tool.name))
+      throw new Error(`Duplicate tool name "${tool.name}" in ${def.id}`);
+    seen.add(tool.name);
+    const problems = checkSchemaDefinition(toolSchema(tool), tool.name);
+    if (problems.length > 0) {
+      throw new Error(
+        `Invalid parameter schema for tool "${tool.name}":\n- ${problems.join("\n- ")}`,
+      );
+    }
+  }
+  for (const tool of def.tools) validateToolTests(tool);
+  for (const hook of def.hooks) validateHookEvent(hook.event);
+
+  const paths = new Set<string>();
+  for (const mod of def.modules || []) {
+    if (
+      !MODULE_PATH.test(mod.path) ||
+      mod.path.split("/").some((part) => part === "node_modules")
+    ) {
+      throw new Error(
+        `Invalid module path "${mod.path}": use a relative path like "lib/http.ts" (.ts, .js, .mjs or .json)`,
+      );
+    }
+    if (RESERVED_FILES.has(mod.path))
+      throw new Error(`Module path "${mod.path}" is reserved`);
+    if (paths.has(mod.path))
+      throw new Error(`Duplicate module path "${mod.path}"`);
+    paths.add(mod.path);
+  }
+  for (const name of def.secrets || []) validateSecretName(name);
+  if (def.secrets?.length && def.lib) {
+    const clash =
+      /\b(?:function|const|let|var|class)\s+(secret|withSecrets|SECRETS_DIR)\b/.exec(
+        def.lib,
+      );
+    if (clash) {
+      throw new Error(
+        `lib declares "${clash[1]}", which the secret helpers use; rename it`,
+      );
+    }
+  }
+  for (const [name, range] of Object.entries(def.dependencies || {})) {
+    if (!PACKAGE_NAME.test(name) || name.length > 214)
+      throw new Error(`Invalid dependency name "${name}"`);
+    if (typeof range !== "string" || !PACKAGE_RANGE.test(range.trim())) {
+      throw new Error(
+        `Invalid version for "${name}": "${range}" (use a registry version or range, e.g. "^1.2.0")`,
+      );
+    }
+  }
+}
+
+function validateToolTests(tool: EmitToolDef): void {
+  (tool.tests || []).forEach((test, i) => {
+    const label = `Test ${test.name ? `"${test.name}"` : `#${i + 1}`} of tool "${tool.name}"`;
+    if (
+      typeof test.input !== "object" ||
+      test.input === null ||
+      Array.isArray(test.input)
+    ) {
+      throw new Error(`${label}: input must be an object of parameters`);
+    }
+    const expect = test.expect || {};
+    const contains = expect.contains;
+    if (
+      (expect.text !== undefined && typeof expect.text !== "string") ||
+      (contains !== undefined &&
+        typeof contains !== "string" &&
+        !(
+          Array.isArray(contains) &&
+          contains.every((c) => typeof c === "string")
+        ))
+    ) {
+      throw new Error(
+        `${label}: expect.text and expect.contains must be strings`,
+      );
+    }
+    if (expect.matches !== undefined) {
+      try {
+        new RegExp(expect.matches);
+      } catch (err: any) {
+        throw new Error(`${label}: invalid expect.matches (${err.message})`);
+      }
+    }
+  });
+}
+
+// ── Literals ─────────────────────────────────────────────────────────────────
+
+/**
+ * JSON.stringify output is valid JS once U+2028/U+2029 are escaped (older
+ * parsers treat them as line terminators inside string literals).
+ */
+function escapeLineSeparators(json: string): string {
+  return json.replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * JS string literal for any string.
+ */
+export function stringLiteral(value: string): string {
+  return escapeLineSeparators(JSON.stringify(value));
+}
+
+/**
+ * JSON value as a JS literal, with continuation lines indented by `indent`.
+ */
+export function jsonLiteral(value: unknown, indent = ""): string {
+  return escapeLineSeparators(JSON.stringify(value, null, 2))
+    .split("\n")
+    .map((line, i) => (i === 0 ? line : indent + line))
+    .join("\n");
+}
+
+/**
+ * Text safe to place inside a `/** ... *\/` block comment, one line per entry.
+ */
+export function commentLines(text: string): string[] {
+  return text
+    .replace(/\*\//g, "*\\/")
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd());
+}
+
+function indentBlock(code: string, indent: string): string {
+  return code
+    .split("\n")
+    .map((line) => (line ? indent + line : line))
+    .join("\n");
+}
+
+// ── Emitters ─────────────────────────────────────────────────────────────────
+
+/**
+ * The tool's full parameter schema (an object schema over its properties).
+ */
+export function toolSchema(tool: {
+  properties: Record<string, JsonSchema>;
+  required: string[];
+}): JsonSchema {
+  return {
+    type: "object",
+    properties: tool.properties,
+    required: tool.required,
+  };
+}
+
+export function emitTool(tool: EmitToolDef): string {
+  // The block scopes `parameters` so execute() can validate against it
+  return [
+    `    {`,
+    `      const parameters = ${jsonLiteral(toolSchema(tool), "      ")};`,
+    `      api.registerTool({`,
+    `        name: ${stringLiteral(tool.name)},`,
+    `        label: ${stringLiteral(tool.label || tool.name)},`,
+    `        description: ${stringLiteral(tool.description)},`,
+    `        parameters,`,
+    `        async execute(_toolCallId: string, params: unknown) {`,
+    `          const checked = validateParams(parameters, params);`,
+    `          if (checked.errors.length > 0) {`,
+    `            return {`,
+    `              content: [`,
+    `                {`,
+    `                  type: "text",`,
+    `                  text: ${stringLiteral(`Invalid parameters for ${tool.name}:\n- `)} + checked.errors.join("\\n- "),`,
+    `                },`,
+    `              ],`,
+    `            };`,
+    `          }`,
+    `          const p = checked.value as any;`,
+    indentBlock(tool.code, "          "),
+    `        },`,
+    `      });`,
+    `    }`,
+    ``,
+  ].join("\n");
+}
+
+export function emitHook(hook: EmitHookDef): string {
+  return [
+    `    api.on(${stringLiteral(hook.event)}, async (${hook.params ?? "event: any, ctx: any"})${hook.returns ? `: ${hook.returns}` : ""} => {`,
+    indentBlock(hook.code, "      "),
+    `    });`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Full extension source. Validates names first; throws on invalid input.
+ */
+export function emitExtension(
+  def: EmitExtensionDef,
+  generatedAt: string,
+): string {
+  validateExtensionDef(def);
+  const header = [
+    ...commentLines(`${def.name} — Auto-generated by foundry`),
+    ...commentLines(def.description),
+    `Generated: ${generatedAt}`,
+  ];
+
+  return [
+    `/**`,
+    ...header.map((line) => (line ? ` * ${line}` : ` *`)),
+    ` */`,
+    ``,
+    `import type { ClawdbotPluginApi } from "clawdbot/plugin-sdk";`,
+    ``,
+    ...(def.tools.length > 0 ? [PARAMS_VALIDATOR_SOURCE] : []),
+    ...(def.secrets?.length
+      ? [
+          `// ── Secrets (generated) ──`,
+          ``,
+          emitSecretRuntime(),
+          ``,
+        ]
+      : []),
+    ...(def.lib?.trim()
+      ? [`// ── Shared helpers ──`, ``, def.lib.trim(), ``]
+      : []),
+    `export default {`,
+    `  id: ${stringLiteral(def.id)},`,
+    `  name: ${stringLiteral(def.name)},`,
+    `  description: ${stringLiteral(def.description)},`,
+    ``,
+    `  register(api: ClawdbotPluginApi) {`,
+    `    const logger = api.logger;`,
+    ``,
+    def.tools.map(emitTool).join("\n"),
+    ``,
+    def.hooks.map(emitHook).join("\n"),
+    ``,
+    `    logger.info(${stringLiteral(`[${def.id}] Extension loaded`)});`,
+    `  },`,
+    `};`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Standalone test runner for the extension's tool test cases. Registers the
+ * extension against a stub API, calls each case's tool and prints the results
+ * as one `FOUNDRY_TEST_RESULTS` JSON line. Pass tool names as arguments to run
+ * only those tools' cases.
+ */
+export function emitTestFile(def: EmitExtensionDef): string {
+  const cases = Object.fromEntries(
+    def.tools
+      .filter((tool) => tool.tests?.length)
+      .map((tool) => [tool.name, tool.tests]),
+  );
+  return [
+    `/**`,
+    ...commentLines(`Tests for ${def.name} — Auto-generated by foundry`).map(
+      (line) => ` * ${line}`,
+    ),
+    ` * Run: npx tsx foundry.test.ts [tool ...]`,
+    ` */`,
+    ``,
+    `import plugin from "./index.ts";`,
+    ``,
+    `const CASE_TIMEOUT_MS = 10000;`,
+    ``,
+    `const cases: Record<string, any[]> = ${jsonLiteral(cases)};`,
+    ``,
+    `const tools = new Map<string, any>();`,
+    `plugin.register({`,
+    `  logger: { info() {}, warn() {}, error() {} },`,
+    `  pluginConfig: {},`,
+    `  registerTool: (tool: any) => tools.set(tool.name, tool),`,
+    `  on: () => {},`,
+    `} as any);`,
+    ``,
+    `function check(expect: any, text: string, error?: string): string[] {`,
+    `  if (!expect) return error ? [\`threw: \${error}\`] : [];`,
+    `  if (expect.throws) return error ? [] : ["expected an error, but execute() returned"];`,
+    `  if (error) return [\`threw: \${error}\`];`,
+    `  const failures: string[] = [];`,
+    `  if (expect.text !== undefined && text !== expect.text) {`,
+    `    failures.push(\`expected text \${JSON.stringify(expect.text)}\`);`,
+    `  }`,
+    `  const contains = typeof expect.contains === "string" ? [expect.contains] : expect.contains || [];`,
+    `  for (const part of contains) {`,
+    `    if (!text.includes(part)) failures.push(\`expected output to contain \${JSON.stringify(part)}\`);`,
+    `  }`,
+    `  if (expect.matches !== undefined && !new RegExp(expect.matches).test(text)) {`,
+    `    failures.push(\`expected output to match /\${expect.matches}/\`);`,
+    `  }`,
+    `  return failures;`,
+    `}`,
+    ``,
+    `const only = process.argv.slice(2);`,
+    `const results: any[] = [];`,
+    `for (const [toolName, list] of Object.entries(cases)) {`,
+    `  if (only.length > 0 && !only.includes(toolName)) continue;`,
+    `  const tool = tools.get(toolName);`,
+    `  for (const [i, test] of list.entries()) {`,
+    `    const started = Date.now();`,
+    `    let text = "";`,
+    `    let error: string | undefined;`,
+    `    try {`,
+    `      if (!tool) throw new Error(\`tool "\${toolName}" was not registered\`);`,
+    `      let timer: any;`,
+    `      const result: any = await Promise.race([`,
+    `        tool.execute("foundry-test", test.input),`,
+    `        new Promise((_, reject) => {`,
+    `          timer = setTimeout(() => reject(new Error(\`timed out after \${CASE_TIMEOUT_MS}ms\`)), CASE_TIMEOUT_MS);`,
+    `        }),`,
+    `      ]).finally(() => clearTimeout(timer));`,
+    `      text = (result?.content || [])`,
+    `        .filter((c: any) => c?.type === "text")`,
+    `        .map((c: any) => c.text)`,
+    `        .join("\\n");`,
+    `    } catch (err: any) {`,
+    `      error = err?.message || String(err);`,
+    `    }`,
+    `    const failures = check(test.expect, text, error);`,
+    `    results.push({`,
+    `      tool: toolName,`,
+    `      name: test.name || \`case \${i + 1}\`,`,
+    `      passed: failures.length === 0,`,
+    `      failures,`,
+    `      output: (error ?? text).slice(0, 500),`,
+    `      latencyMs: Date.now() - started,`,
+    `    });`,
+    `  }`,
+    `}`,
+    ``,
+    `console.log("FOUNDRY_TEST_RESULTS " + JSON.stringify(results));`,
+    `process.exit(0);`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * package.json declaring the extension entry point and its dependencies.
+ */
+export function emitPackageJson(def: EmitExtensionDef): string {
+  validateExtensionId(def.id);
+  const pkg: Record<string, unknown> = {
+    name: def.id,
+    version: "0.1.0",
+    private: true,
+    type: "module",
+    description: def.description,
+    openclaw: { extensions: ["./index.ts"] },
+  };
+  const deps = Object.entries(def.dependencies || {});
+  if (deps.length > 0) {
+    pkg.dependencies = Object.fromEntries(
+      deps
+        .map(([name, range]) => [name, range.trim()])
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+  }
+  return JSON.stringify(pkg, null, 2) + "\n";
+}
+
+export function emitPluginJson(def: {
+  id: string;
+  name: string;
+  description: string;
+}): string {
+  validateExtensionId(def.id);
+  return (
+    JSON.stringify(
+      {
+        id: def.id,
+        name: def.name,
+        description: def.description,
+        version: "0.1.0",
+        configSchema: {
+          type: "object",
+          properties: {},
+          additionalProperties: false,
+        },
+      },
+      null,
+      2,
+    ) + "\n"
+  );
+}
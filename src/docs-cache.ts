@@ -0,0 +1,164 @@
+/**
+ * Docs Cache — Disk-backed store for fetched documentation pages.
+ *
+ * Keeps extracted page content under the foundry data dir so gateway restarts
+ * don't re-download docs.openclaw.ai / docs.molt.bot, and so offline machines
+ * can still answer research queries. Entries carry ETag / Last-Modified
+ * validators for conditional revalidation, and the version of the converter
+ * that extracted them so a converter change invalidates them.
+ *
+ * Snapshots bundle every cached entry into a single JSON file that can be
+ * carried to an air-gapped workstation and imported there.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+} from "node:fs";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface DocsCacheEntry {
+  url: string;
+  content: string;
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+  extractor?: number; // CONVERTER_VERSION of extracted pages; unset for raw files
+}
+
+export interface DocsSnapshot {
+  format: "foundry-docs-snapshot";
+  version: 1;
+  createdAt: string;
+  entries: DocsCacheEntry[];
+}
+
+// ── Cache ────────────────────────────────────────────────────────────────────
+
+export class DocsCache {
+  private entriesDir: string;
+
+  constructor(private cacheDir: string) {
+    this.entriesDir = join(cacheDir, "entries");
+    if (!existsSync(this.entriesDir)) {
+      mkdirSync(this.entriesDir, { recursive: true });
+    }
+  }
+
+  private entryPath(url: string): string {
+    const key = createHash("sha1").update(url).digest("hex");
+    return join(this.entriesDir, `${key}.json`);
+  }
+
+  get(url: string): DocsCacheEntry | undefined {
+    const path = this.entryPath(url);
+    if (!existsSync(path)) return undefined;
+    try {
+      const data = JSON.parse(readFileSync(path, "utf-8"));
+      if (typeof data?.content !== "string") return undefined;
+      return data as DocsCacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(entry: DocsCacheEntry): void {
+    writeFileSync(this.entryPath(entry.url), JSON.stringify(entry));
+  }
+
+  /**
+   * Mark an entry as freshly validated (e.g. after a 304 Not Modified).
+   */
+  touch(url: string): DocsCacheEntry | undefined {
+    const entry = this.get(url);
+    if (!entry) return undefined;
+    entry.fetchedAt = Date.now();
+    this.set(entry);
+    return entry;
+  }
+
+  entries(): DocsCacheEntry[] {
+    const result: DocsCacheEntry[] = [];
+    for (const file of readdirSync(this.entriesDir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const data = JSON.parse(
+          readFileSync(join(this.entriesDir, file), "utf-8"),
+        );
+        if (typeof data?.url === "string" && typeof data?.content === "string")
+          result.push(data);
+      } catch {
+        // Skip corrupt entries
+      }
+    }
+    return result.sort((a, b) => a.url.localeCompare(b.url));
+  }
+
+  // ── Snapshots ─────────────────────────────────────────────────────────────
+
+  /**
+   * Write every cached entry to a single snapshot file. Returns entry count.
+   */
+  exportSnapshot(path: string): number {
+    const snapshot: DocsSnapshot = {
+      format: "foundry-docs-snapshot",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: this.entries(),
+    };
+    const dir = join(path, "..");
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(path, JSON.stringify(snapshot, null, 2));
+    return snapshot.entries.length;
+  }
+
+  /**
+   * Load a snapshot file into the cache. Existing entries are only replaced
+   * when the snapshot copy is newer, unless `overwrite` is set.
+   */
+  importSnapshot(
+    path: string,
+    overwrite = false,
+  ): { imported: number; skipped: number } {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    if (
+      data?.format !== "foundry-docs-snapshot" ||
+      !Array.isArray(data.entries)
+    ) {
+      throw new Error(`Not a foundry docs snapshot: ${path}`);
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const entry of data.entries as DocsCacheEntry[]) {
+      if (
+        typeof entry?.url !== "string" ||
+        typeof entry?.content !== "string"
+      ) {
+        skipped++;
+        continue;
+      }
+      const existing = this.get(entry.url);
+      if (existing && !overwrite && existing.fetchedAt >= entry.fetchedAt) {
+        skipped++;
+        continue;
+      }
+      this.set({
+        url: entry.url,
+        content: entry.content,
+        fetchedAt: entry.fetchedAt || Date.now(),
+        etag: entry.etag,
+        lastModified: entry.lastModified,
+        extractor: entry.extractor,
+      });
+      imported++;
+    }
+    return { imported, skipped };
+  }
+}
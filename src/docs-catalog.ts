@@ -0,0 +1,272 @@
+/**
+ * Docs Catalog — Structured index of documentation pages parsed from llms.txt.
+ *
+ * llms.txt lists every doc page as `- [Title](url): description` grouped under
+ * `## Section` headings. The catalog turns that into entries with titles,
+ * paths, sections and inferred topics, so topic routing and search pick up new
+ * pages without a plugin release. A hand-maintained seed table is merged in
+ * so well-known topic names keep resolving when llms.txt is unavailable.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface DocPageEntry {
+  title: string;
+  url: string;
+  path: string; // Path relative to the docs host, without .md suffix
+  section: string;
+  description?: string;
+  topics: string[];
+}
+
+// Query words that map onto a topic name not literally present in the query
+const QUERY_ALIASES: Record<string, string[]> = {
+  event: ["hooks"],
+  events: ["hooks"],
+  playwright: ["browser"],
+  schedule: ["cron", "automation"],
+  registry: ["clawdhub"],
+  prompt: ["agent"],
+  message: ["channels"],
+  frontmatter: ["skills"],
+  metadata: ["skills"],
+  agentskill: ["skills"],
+  api: ["skills", "plugin"],
+  tool: ["tools", "plugin"],
+};
+
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "how",
+  "what",
+  "with",
+  "use",
+  "using",
+  "write",
+  "into",
+  "from",
+  "does",
+  "can",
+]);
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function slugify(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Normalize a docs URL into a host-relative path: strips .md/.mdx suffixes,
+ * trailing slashes and fragments.
+ */
+export function normalizeDocPath(pathname: string): string {
+  let path = pathname.split("#")[0].split("?")[0];
+  path = path.replace(/\.(md|mdx|txt)$/i, "").replace(/\/+$/, "");
+  return path || "/";
+}
+
+export function inferTopics(path: string, section: string): string[] {
+  const topics = new Set<string>();
+  for (const segment of path.split("/").filter(Boolean)) {
+    if (segment === "index") continue;
+    topics.add(segment);
+    // "browser-login" also belongs to "browser"
+    const head = segment.split("-")[0];
+    if (head.length > 2) topics.add(head);
+  }
+  const sectionSlug = slugify(section);
+  if (sectionSlug) topics.add(sectionSlug);
+  return [...topics];
+}
+
+/**
+ * Parse an llms.txt document. Links to other hosts are ignored.
+ */
+export function parseLlmsTxt(text: string, baseUrl: string): DocPageEntry[] {
+  const base = new URL(baseUrl);
+  const entries: DocPageEntry[] = [];
+  let section = "";
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{2,6}\s+(.+)$/);
+    if (heading) {
+      section = heading[1].trim();
+      continue;
+    }
+
+    const link = line.match(
+      /^[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)\s*(?:[:\-–—]\s*(.*))?$/,
+    );
+    if (!link) continue;
+
+    let url: URL;
+    try {
+      url = new URL(link[2], base);
+    } catch {
+      continue;
+    }
+    if (url.host !== base.host) continue;
+
+    const path = normalizeDocPath(url.pathname);
+    const pageSection = section || path.split("/").filter(Boolean)[0] || "";
+    entries.push({
+      title: link[1].trim(),
+      url: `${base.origin}${path}`,
+      path,
+      section: pageSection,
+      description: link[3]?.trim() || undefined,
+      topics: inferTopics(path, pageSection),
+    });
+  }
+
+  return entries;
+}
+
+// ── Catalog ──────────────────────────────────────────────────────────────────
+
+export class DocsCatalog {
+  private entries: Map<string, DocPageEntry> = new Map();
+
+  /**
+   * Seed the catalog from a topic → paths table. Seed topics are kept when
+   * parsed llms.txt entries for the same path are merged later.
+   */
+  static fromSeed(
+    pages: Record<string, string[]>,
+    baseUrlFor: (topic: string) => string,
+  ): DocsCatalog {
+    const catalog = new DocsCatalog();
+    for (const [topic, paths] of Object.entries(pages)) {
+      for (const path of paths) {
+        const existing = catalog.entries.get(path);
+        if (existing) {
+          if (!existing.topics.includes(topic)) existing.topics.push(topic);
+          continue;
+        }
+        const title = path.split("/").filter(Boolean).pop() || path;
+        catalog.entries.set(path, {
+          title,
+          url: `${baseUrlFor(topic)}${path}`,
+          path,
+          section: topic,
+          topics: [...new Set([topic, ...inferTopics(path, "")])],
+        });
+      }
+    }
+    return catalog;
+  }
+
+  /**
+   * Merge parsed entries. Earlier sources win on URL/title so the primary docs
+   * host stays authoritative; topics are unioned.
+   */
+  merge(parsed: DocPageEntry[], override = false): void {
+    for (const entry of parsed) {
+      const existing = this.entries.get(entry.path);
+      if (!existing) {
+        this.entries.set(entry.path, { ...entry, topics: [...entry.topics] });
+        continue;
+      }
+      const topics = [...new Set([...existing.topics, ...entry.topics])];
+      if (override) {
+        this.entries.set(entry.path, { ...entry, topics });
+      } else {
+        existing.topics = topics;
+        existing.description = existing.description || entry.description;
+      }
+    }
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  all(): DocPageEntry[] {
+    return [...this.entries.values()].sort((a, b) =>
+      a.path.localeCompare(b.path),
+    );
+  }
+
+  topics(): string[] {
+    const topics = new Set<string>();
+    for (const entry of this.entries.values()) {
+      for (const t of entry.topics) topics.add(t);
+    }
+    return [...topics].sort();
+  }
+
+  /**
+   * Pages for a topic, best match first: pages named after the topic, then
+   * pages in a directory named after it, then anything tagged with it.
+   */
+  pagesForTopic(topic: string): DocPageEntry[] {
+    const key = topic.toLowerCase();
+    const rank = (e: DocPageEntry): number => {
+      const segments = e.path.split("/").filter(Boolean);
+      if (segments[segments.length - 1] === key) return 0;
+      if (segments[0] === key) return 1;
+      if (e.section.toLowerCase() === key) return 2;
+      return 3;
+    };
+    return this.all()
+      .filter((e) => e.topics.includes(key))
+      .sort((a, b) => rank(a) - rank(b) || a.path.length - b.path.length);
+  }
+
+  /**
+   * Closest topic name for a free-form topic string.
+   */
+  matchTopic(topic: string): string | undefined {
+    const key = topic.toLowerCase();
+    const topics = this.topics();
+    return (
+      topics.find((t) => t === key) ||
+      topics.find((t) => t.includes(key) || key.includes(t))
+    );
+  }
+
+  /**
+   * Score pages against query words (topics, titles, paths, descriptions).
+   */
+  searchPages(query: string, limit = 3): DocPageEntry[] {
+    const words = query
+      .toLowerCase()
+      .split(/[^a-z0-9:_-]+/)
+      .filter((w) => w.length > 2 && !STOPWORDS.has(w));
+    const terms = new Set<string>();
+    for (const w of words) {
+      terms.add(w);
+      if (w.endsWith("s")) terms.add(w.slice(0, -1));
+      for (const alias of QUERY_ALIASES[w] || []) terms.add(alias);
+    }
+    if (terms.size === 0) return [];
+
+    const scored: { entry: DocPageEntry; score: number }[] = [];
+    for (const entry of this.entries.values()) {
+      const title = entry.title.toLowerCase();
+      const description = (entry.description || "").toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        if (entry.topics.includes(term)) score += 3;
+        if (title.includes(term)) score += 2;
+        if (entry.path.toLowerCase().includes(term)) score += 1;
+        if (description.includes(term)) score += 1;
+      }
+      if (score > 0) scored.push({ entry, score });
+    }
+
+    return scored
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.entry.path.length - b.entry.path.length,
+      )
+      .slice(0, limit)
+      .map((s) => s.entry);
+  }
+}
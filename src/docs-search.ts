@@ -0,0 +1,256 @@
+/**
+ * Docs Search — BM25 retrieval over heading-delimited documentation sections.
+ *
+ * Pages are split at Markdown headings (ignoring headings inside fenced code),
+ * each section keeps its source URL and heading anchor, and queries return the
+ * best-scoring sections that fit a character budget. This surfaces the useful
+ * part of a long page instead of its first few thousand characters.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface DocSection {
+  url: string;
+  anchor: string; // Slug of the heading ("" for page preamble)
+  heading: string;
+  headingPath: string[]; // Parent headings, outermost first
+  text: string;
+}
+
+export interface SectionHit {
+  section: DocSection;
+  score: number;
+  truncated: boolean;
+}
+
+export interface SectionSearchOptions {
+  limit?: number; // Max sections returned (default: 5)
+  maxChars?: number; // Total character budget for section text (default: 8000)
+}
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "what",
+  "when",
+  "with",
+  "you",
+  "your",
+]);
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * GitHub/Mintlify-style heading anchor.
+ */
+export function headingAnchor(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[`*~[\]()]/g, "")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.toLowerCase().split(/[^a-z0-9_]+/)) {
+    if (raw.length < 2 || STOPWORDS.has(raw)) continue;
+    // Light plural stemming so "hooks" matches "hook"
+    tokens.push(raw.length > 3 && raw.endsWith("s") ? raw.slice(0, -1) : raw);
+  }
+  return tokens;
+}
+
+/**
+ * Split a Markdown page into sections at each heading.
+ */
+export function splitSections(markdown: string, url: string): DocSection[] {
+  const sections: DocSection[] = [];
+  const stack: { level: number; heading: string }[] = [];
+  let current: DocSection = {
+    url,
+    anchor: "",
+    heading: "",
+    headingPath: [],
+    text: "",
+  };
+  const lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    current.text = lines.join("\n").trim();
+    if (current.text) sections.push(current);
+    lines.length = 0;
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      const heading = match[2].trim();
+      while (stack.length > 0 && stack[stack.length - 1].level >= level)
+        stack.pop();
+      current = {
+        url,
+        anchor: headingAnchor(heading),
+        heading,
+        headingPath: stack.map((s) => s.heading),
+        text: "",
+      };
+      stack.push({ level, heading });
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+// ── Index ────────────────────────────────────────────────────────────────────
+
+interface IndexedSection {
+  section: DocSection;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+export class SectionIndex {
+  private byUrl: Map<string, IndexedSection[]> = new Map();
+  private docFreq: Map<string, number> = new Map();
+  private totalLength = 0;
+  private count = 0;
+  private k1 = 1.2;
+  private b = 0.75;
+
+  hasPage(url: string): boolean {
+    return this.byUrl.has(url);
+  }
+
+  size(): number {
+    return this.count;
+  }
+
+  /**
+   * Indexed sections of a page, in document order.
+   */
+  sections(url: string): DocSection[] {
+    return (this.byUrl.get(url) || []).map((s) => s.section);
+  }
+
+  /**
+   * Index (or re-index) a page's Markdown content.
+   */
+  addPage(url: string, markdown: string): void {
+    this.removePage(url);
+    const indexed: IndexedSection[] = [];
+    for (const section of splitSections(markdown, url)) {
+      // Headings count twice (alone and in their path) so a section titled
+      // after the query ranks first; the body skips its own heading line
+      const body = section.heading
+        ? section.text.replace(/^[^\n]*\n?/, "")
+        : section.text;
+      const tokens = [
+        ...tokenize(section.heading),
+        ...tokenize([...section.headingPath, section.heading].join(" ")),
+        ...tokenize(body),
+      ];
+      const termFreq = new Map<string, number>();
+      for (const t of tokens) termFreq.set(t, (termFreq.get(t) || 0) + 1);
+      for (const t of termFreq.keys())
+        this.docFreq.set(t, (this.docFreq.get(t) || 0) + 1);
+      this.totalLength += tokens.length;
+      this.count++;
+      indexed.push({ section, termFreq, length: tokens.length });
+    }
+    this.byUrl.set(url, indexed);
+  }
+
+  removePage(url: string): void {
+    const existing = this.byUrl.get(url);
+    if (!existing) return;
+    for (const s of existing) {
+      for (const t of s.termFreq.keys()) {
+        const df = (this.docFreq.get(t) || 1) - 1;
+        if (df <= 0) this.docFreq.delete(t);
+        else this.docFreq.set(t, df);
+      }
+      this.totalLength -= s.length;
+      this.count--;
+    }
+    this.byUrl.delete(url);
+  }
+
+  /**
+   * Rank sections with BM25 and keep the top ones that fit the budget.
+   */
+  search(query: string, opts: SectionSearchOptions = {}): SectionHit[] {
+    const limit = opts.limit ?? 5;
+    const maxChars = opts.maxChars ?? 8000;
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.count === 0) return [];
+
+    const avgLength = this.totalLength / this.count;
+    const scored: { section: DocSection; score: number }[] = [];
+    for (const sections of this.byUrl.values()) {
+      for (const s of sections) {
+        let score = 0;
+        for (const term of terms) {
+          const tf = s.termFreq.get(term);
+          if (!tf) continue;
+          const df = this.docFreq.get(term) || 0;
+          const idf = Math.log(1 + (this.count - df + 0.5) / (df + 0.5));
+          score +=
+            (idf * tf * (this.k1 + 1)) /
+            (tf + this.k1 * (1 - this.b + (this.b * s.length) / avgLength));
+        }
+        if (score > 0) scored.push({ section: s.section, score });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const hits: SectionHit[] = [];
+    let remaining = maxChars;
+    for (const { section, score } of scored) {
+      if (hits.length >= limit || remaining <= 0) break;
+      if (section.text.length <= remaining) {
+        hits.push({ section, score, truncated: false });
+        remaining -= section.text.length;
+      } else if (hits.length === 0) {
+        // Always return something: trim the best section to the budget
+        hits.push({
+          section: { ...section, text: section.text.slice(0, remaining) },
+          score,
+          truncated: true,
+        });
+        remaining = 0;
+      }
+    }
+    return hits;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Docs Watch — Detects documentation changes that affect generated artifacts.
+ *
+ * When an extension, skill or hook is written, the doc sections consulted for
+ * it are recorded with a content hash. Whenever one of those pages is fetched
+ * again, its sections are re-hashed and compared; changed or removed sections
+ * are queued as pending changes (with old and new text) until the affected
+ * artifact is reviewed and the new docs are accepted as its baseline.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { splitSections, type DocSection } from "./docs-search.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type WatchedArtifactKind = "extension" | "skill" | "hook";
+
+export interface DocSource {
+  url: string;
+  anchor?: string; // Omitted when the whole page was used
+  heading: string;
+  hash: string;
+  text: string;
+}
+
+export interface DocChange {
+  url: string;
+  anchor?: string;
+  heading: string;
+  oldText: string;
+  newText?: string; // Undefined when the section was removed
+  newHash?: string;
+  detectedAt: string;
+}
+
+export interface AffectedArtifact {
+  kind: WatchedArtifactKind;
+  id: string;
+  changes: DocChange[];
+}
+
+interface WatchedArtifact {
+  kind: WatchedArtifactKind;
+  id: string;
+  sources: DocSource[];
+  recordedAt: string;
+}
+
+interface WatchState {
+  artifacts: Record<string, WatchedArtifact>;
+  pending: Record<string, AffectedArtifact>;
+}
+
+const MAX_STORED_TEXT = 4000;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Hash section text, ignoring whitespace-only edits.
+ */
+export function hashSectionText(text: string): string {
+  return createHash("sha256")
+    .update(text.replace(/\s+/g, " ").trim())
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function pageText(sections: DocSection[]): string {
+  return sections.map((s) => s.text).join("\n\n");
+}
+
+/**
+ * Capture a section (or the whole page when `anchor` is undefined) as a source.
+ */
+export function captureSource(
+  url: string,
+  sections: DocSection[],
+  anchor?: string,
+): DocSource | undefined {
+  if (anchor === undefined) {
+    const text = pageText(sections);
+    if (!text) return undefined;
+    return {
+      url,
+      heading: sections.find((s) => s.heading)?.heading || url,
+      hash: hashSectionText(text),
+      text: text.slice(0, MAX_STORED_TEXT),
+    };
+  }
+  const section = sections.find((s) => s.anchor === anchor);
+  if (!section) return undefined;
+  return {
+    url,
+    anchor,
+    heading: section.heading,
+    hash: hashSectionText(section.text),
+    text: section.text.slice(0, MAX_STORED_TEXT),
+  };
+}
+
+function artifactKey(kind: WatchedArtifactKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function sourceKey(s: { url: string; anchor?: string }): string {
+  return s.anchor === undefined ? s.url : `${s.url}#${s.anchor}`;
+}
+
+// ── Watch ────────────────────────────────────────────────────────────────────
+
+export class DocsWatch {
+  private path: string;
+  private state: WatchState = { artifacts: {}, pending: {} };
+
+  constructor(dataDir: string) {
+    this.path = join(dataDir, "docs-watch.json");
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) return;
+    try {
+      const data = JSON.parse(readFileSync(this.path, "utf-8"));
+      this.state = {
+        artifacts: data?.artifacts || {},
+        pending: data?.pending || {},
+      };
+    } catch {
+      this.state = { artifacts: {}, pending: {} };
+    }
+  }
+
+  private save(): void {
+    const dir = join(this.path, "..");
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.state, null, 2));
+  }
+
+  /**
+   * Record the doc sources an artifact was built from. Sources are merged with
+   * earlier ones (e.g. a tool added to an existing extension).
+   */
+  record(kind: WatchedArtifactKind, id: string, sources: DocSource[]): void {
+    if (sources.length === 0) return;
+    const key = artifactKey(kind, id);
+    const existing = this.state.artifacts[key];
+    const merged = new Map<string, DocSource>();
+    for (const s of existing?.sources || []) merged.set(sourceKey(s), s);
+    for (const s of sources) merged.set(sourceKey(s), s);
+    this.state.artifacts[key] = {
+      kind,
+      id,
+      sources: [...merged.values()],
+      recordedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  forget(kind: WatchedArtifactKind, id: string): void {
+    const key = artifactKey(kind, id);
+    delete this.state.artifacts[key];
+    delete this.state.pending[key];
+    this.save();
+  }
+
+  sourcesFor(kind: WatchedArtifactKind, id: string): DocSource[] {
+    return this.state.artifacts[artifactKey(kind, id)]?.sources || [];
+  }
+
+  trackedUrls(): string[] {
+    const urls = new Set<string>();
+    for (const a of Object.values(this.state.artifacts)) {
+      for (const s of a.sources) urls.add(s.url);
+    }
+    return [...urls].sort();
+  }
+
+  /**
+   * Compare freshly fetched page content against every artifact that used it.
+   * Returns the artifacts with newly detected changes.
+   */
+  applyPage(url: string, markdown: string): AffectedArtifact[] {
+    const sections = splitSections(markdown, url);
+    const affected: AffectedArtifact[] = [];
+    let dirty = false;
+
+    for (const [key, artifact] of Object.entries(this.state.artifacts)) {
+      const changes: DocChange[] = [];
+      for (const source of artifact.sources) {
+        if (source.url !== url) continue;
+        const current = captureSource(url, sections, source.anchor);
+        if (current?.hash === source.hash) continue;
+
+        const pending = this.state.pending[key];
+        const known = pending?.changes.find(
+          (c) => sourceKey(c) === sourceKey(source),
+        );
+        // Already reported with the same new content
+        if (known && known.newHash === current?.hash) continue;
+
+        const change: DocChange = {
+          url,
+          anchor: source.anchor,
+          heading: source.heading,
+          oldText: source.text,
+          newText: current?.text,
+          newHash: current?.hash,
+          detectedAt: new Date().toISOString(),
+        };
+        if (known) Object.assign(known, change);
+        else changes.push(change);
+        dirty = true;
+      }
+      if (changes.length === 0) continue;
+
+      const entry = this.state.pending[key] || {
+        kind: artifact.kind,
+        id: artifact.id,
+        changes: [],
+      };
+      entry.changes.push(...changes);
+      this.state.pending[key] = entry;
+      affected.push({ kind: artifact.kind, id: artifact.id, changes });
+    }
+
+    if (dirty) this.save();
+    return affected;
+  }
+
+  pending(): AffectedArtifact[] {
+    return Object.values(this.state.pending).sort((a, b) =>
+      artifactKey(a.kind, a.id).localeCompare(artifactKey(b.kind, b.id)),
+    );
+  }
+
+  /**
+   * Accept the current docs as the new baseline for one artifact (or all).
+   * Removed sections are dropped from the artifact's sources.
+   */
+  accept(id?: string): number {
+    let accepted = 0;
+    for (const [key, entry] of Object.entries(this.state.pending)) {
+      if (id && entry.id !== id) continue;
+      const artifact = this.state.artifacts[key];
+      if (artifact) {
+        for (const change of entry.changes) {
+          const idx = artifact.sources.findIndex(
+            (s) => sourceKey(s) === sourceKey(change),
+          );
+          if (idx === -1) continue;
+          if (change.newText === undefined || !change.newHash) {
+            artifact.sources.splice(idx, 1);
+          } else {
+            artifact.sources[idx] = {
+              ...artifact.sources[idx],
+              hash: change.newHash,
+              text: change.newText,
+            };
+          }
+        }
+      }
+      delete this.state.pending[key];
+      accepted++;
+    }
+    if (accepted > 0) this.save();
+    return accepted;
+  }
+
+  /**
+   * Markdown report of pending changes with old and new section text.
+   */
+  formatReport(affected: AffectedArtifact[], maxTextChars = 1500): string {
+    if (affected.length === 0)
+      return "No documentation changes affect generated artifacts.";
+    // Quote section text so its headings don't nest into the report
+    const clip = (t: string) =>
+      (t.length > maxTextChars ? t.slice(0, maxTextChars) + "\n[truncated]" : t)
+        .split("\n")
+        .map((line) => `> ${line}`.trimEnd())
+        .join("\n");
+
+    let output = `## Docs Changes Affecting ${affected.length} Artifact(s)\n\n`;
+    for (const a of affected) {
+      output += `### ${a.kind}: ${a.id}\n\n`;
+      for (const c of a.changes) {
+        const source = c.anchor ? `${c.url}#${c.anchor}` : c.url;
+        output += `**${c.heading}** — ${source}\n\n`;
+        output += `Old:\n\n${clip(c.oldText)}\n\n`;
+        output +=
+          c.newText === undefined
+            ? `New: *(section removed)*\n\n`
+            : `New:\n\n${clip(c.newText)}\n\n`;
+      }
+    }
+    return output.trim();
+  }
+}
@@ -0,0 +1,718 @@
+/**
+ * GraphQL Emitter — Builds `api.ts` and the SKILL.md body for GraphQL skills.
+ *
+ * The client gets one method per query and mutation field. Arguments become
+ * a typed `<Operation>Variables` object; enums, input objects, object,
+ * interface and union types become TypeScript types. Each object and
+ * interface type also gets a `<Type>Fields` fragment of its scalar fields,
+ * and every operation has a default selection built from those fragments
+ * (`depth` levels of nested objects). Callers can pass their own selection
+ * and fragment definitions instead; generated fragments they spread are
+ * added to the document automatically.
+ */
+
+import { clientClassName } from "./api-emitter.js";
+import { commentLines, jsonLiteral, stringLiteral } from "./code-emitter.js";
+import {
+  namedType,
+  printTypeRef,
+  type GqlArgDef,
+  type GqlFieldDef,
+  type GqlSchemaDef,
+  type GqlTypeDef,
+  type GqlTypeRef,
+} from "./graphql.js";
+import { emitSecretRuntime, referencedSecrets } from "./secret-store.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface GraphQLClientDef {
+  name: string;
+  description: string;
+  endpoint: string;
+  schema: GqlSchemaDef;
+  depth?: number; // Nested object levels in default selections
+  authHeaders?: Record<string, string>; // Values may hold {{secret:NAME}} references
+}
+
+export const DEFAULT_SELECTION_DEPTH = 1;
+export const MAX_SELECTION_DEPTH = 3;
+
+/** Interfaces with more implementations get no inline fragments by default. */
+const MAX_INLINE_TYPES = 10;
+
+const SCALARS: Record<string, string> = {
+  Int: "number",
+  Float: "number",
+  String: "string",
+  Boolean: "boolean",
+  ID: "string",
+};
+
+/** Names a schema type can't take in the generated module. */
+const RESERVED_TYPE_NAMES = new Set([
+  "any",
+  "bigint",
+  "boolean",
+  "never",
+  "null",
+  "number",
+  "object",
+  "string",
+  "symbol",
+  "undefined",
+  "unknown",
+  "void",
+  "Array",
+  "Blob",
+  "Boolean",
+  "Buffer",
+  "Date",
+  "Error",
+  "Function",
+  "Headers",
+  "JSON",
+  "Map",
+  "Number",
+  "Object",
+  "Omit",
+  "Partial",
+  "Pick",
+  "Promise",
+  "Readonly",
+  "Record",
+  "RegExp",
+  "Request",
+  "Required",
+  "Response",
+  "Set",
+  "String",
+  "Symbol",
+  "URL",
+  "ClientOptions",
+  "OperationOptions",
+  "Operation",
+  "GraphQLError",
+  "GraphQLErrorEntry",
+  "GraphQLRequestError",
+]);
+
+const RESERVED_METHODS = new Set([
+  "constructor",
+  "execute",
+  "operation",
+  "document",
+  "endpoint",
+  "headers",
+  "fetchImpl",
+]);
+
+export function validateSelectionDepth(depth: unknown): void {
+  if (
+    depth !== undefined &&
+    (!Number.isInteger(depth) ||
+      (depth as number) < 0 ||
+      (depth as number) > MAX_SELECTION_DEPTH)
+  ) {
+    throw new Error(
+      `graphql.depth must be an integer from 0 to ${MAX_SELECTION_DEPTH}`,
+    );
+  }
+}
+
+// ── Schema Model ─────────────────────────────────────────────────────────────
+
+interface Operation {
+  kind: "query" | "mutation";
+  field: GqlFieldDef;
+  method: string;
+  name: string; // GraphQL operation name and type prefix
+  variablesType?: string;
+}
+
+/**
+ * Lookups the emitters share: types by name, TypeScript names, operations.
+ */
+class SchemaModel {
+  readonly types = new Map<string, GqlTypeDef>();
+  readonly tsNames = new Map<string, string>();
+  readonly operations: Operation[] = [];
+  readonly emitted: GqlTypeDef[]; // Types the module declares
+
+  constructor(
+    readonly schema: GqlSchemaDef,
+    className: string,
+  ) {
+    for (const type of schema.types) this.types.set(type.name, type);
+    const taken = new Set([...RESERVED_TYPE_NAMES, className]);
+    for (const type of schema.types) {
+      if (SCALARS[type.name]) continue;
+      let name = type.name;
+      while (taken.has(name)) name += "_";
+      taken.add(name);
+      this.tsNames.set(type.name, name);
+    }
+
+    // Root types only matter when a field returns them (e.g. Relay's `query`)
+    const roots = [schema.queryType, schema.mutationType];
+    const referenced = new Set(
+      schema.types
+        .filter((t) => !roots.includes(t.name))
+        .flatMap((t) => (t.fields || []).map((f) => namedType(f.type))),
+    );
+    this.emitted = schema.types.filter(
+      (t) =>
+        !SCALARS[t.name] && (!roots.includes(t.name) || referenced.has(t.name)),
+    );
+
+    const methods = new Set(RESERVED_METHODS);
+    for (const kind of ["query", "mutation"] as const) {
+      const root = this.types.get(
+        (kind === "query" ? schema.queryType : schema.mutationType) || "",
+      );
+      for (const field of root?.fields || []) {
+        let method = field.name;
+        if (methods.has(method))
+          method = `${field.name}${kind === "query" ? "Query" : "Mutation"}`;
+        for (let n = 2; methods.has(method); n++) method = `${field.name}${n}`;
+        methods.add(method);
+        const name = method.charAt(0).toUpperCase() + method.slice(1);
+        let variablesType: string | undefined;
+        if (field.args.length > 0) {
+          variablesType = `${name}Variables`;
+          while (taken.has(variablesType)) variablesType += "_";
+          taken.add(variablesType);
+        }
+        this.operations.push({ kind, field, method, name, variablesType });
+      }
+    }
+  }
+
+  kind(name: string): GqlTypeDef["kind"] | undefined {
+    return SCALARS[name] ? "SCALAR" : this.types.get(name)?.kind;
+  }
+
+  isComposite(name: string): boolean {
+    const kind = this.kind(name);
+    return kind === "OBJECT" || kind === "INTERFACE" || kind === "UNION";
+  }
+
+  /**
+   * TypeScript type of a GraphQL type reference; nullable types add `| null`.
+   */
+  tsType(ref: GqlTypeRef): string {
+    if (ref.kind === "NON_NULL") return this.tsNonNull(ref.ofType);
+    return `${this.tsNonNull(ref)} | null`;
+  }
+
+  private tsNonNull(ref: GqlTypeRef): string {
+    if (ref.kind === "NON_NULL") return this.tsNonNull(ref.ofType);
+    if (ref.kind === "LIST") {
+      const item = this.tsType(ref.ofType);
+      return item.includes(" ") ? `(${item})[]` : `${item}[]`;
+    }
+    return SCALARS[ref.name] || this.tsNames.get(ref.name) || "unknown";
+  }
+}
+
+function isRequired(arg: GqlArgDef): boolean {
+  return arg.type.kind === "NON_NULL" && arg.defaultValue === undefined;
+}
+
+function docLines(
+  description: string | undefined,
+  extra: string[] = [],
+): string[] {
+  return [...(description ? commentLines(description) : []), ...extra];
+}
+
+function docComment(lines: string[], indent: string): string[] {
+  if (lines.length === 0) return [];
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [
+    `${indent}/**`,
+    ...lines.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ];
+}
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+function emitInputMembers(model: SchemaModel, args: GqlArgDef[]): string[] {
+  return args.flatMap((arg) => [
+    ...docComment(
+      docLines(
+        arg.description,
+        arg.defaultValue !== undefined ? [`Default: ${arg.defaultValue}`] : [],
+      ),
+      "  ",
+    ),
+    `  ${arg.name}${isRequired(arg) ? "" : "?"}: ${model.tsType(arg.type)};`,
+  ]);
+}
+
+function emitType(model: SchemaModel, type: GqlTypeDef): string[] {
+  const name = model.tsNames.get(type.name)!;
+  const doc = docComment(docLines(type.description), "");
+  switch (type.kind) {
+    case "SCALAR":
+      return [
+        ...docComment(
+          docLines(type.description, [
+            `Custom scalar ${type.name}, as the server serializes it.`,
+          ]),
+          "",
+        ),
+        `export type ${name} = unknown;`,
+      ];
+    case "ENUM":
+      return [
+        ...doc,
+        `export type ${name} = ${(type.enumValues || []).map((v) => stringLiteral(v)).join(" | ") || "never"};`,
+      ];
+    case "UNION":
+      return [
+        ...doc,
+        `export type ${name} = ${(type.possibleTypes || []).map((p) => model.tsNames.get(p) || "unknown").join(" | ") || "never"};`,
+      ];
+    case "INPUT_OBJECT":
+      return [
+        ...doc,
+        `export interface ${name} {`,
+        ...emitInputMembers(model, type.inputFields || []),
+        `}`,
+      ];
+    default: {
+      // Objects and interfaces: only the selected fields are present
+      const typename =
+        type.kind === "OBJECT"
+          ? stringLiteral(type.name)
+          : (type.possibleTypes || [])
+              .map((p) => stringLiteral(p))
+              .join(" | ") || "string";
+      return [
+        ...doc,
+        `export interface ${name} {`,
+        `  __typename?: ${typename};`,
+        ...(type.fields || []).flatMap((field) => [
+          ...docComment(
+            docLines(
+              field.description,
+              field.deprecated !== undefined
+                ? [
+                    `@deprecated${field.deprecated ? ` ${field.deprecated}` : ""}`,
+                  ]
+                : [],
+            ),
+            "  ",
+          ),
+          `  ${field.name}?: ${model.tsType(field.type)};`,
+        ]),
+        `}`,
+      ];
+    }
+  }
+}
+
+// ── Selections ───────────────────────────────────────────────────────────────
+
+function fragmentName(typeName: string): string {
+  return `${typeName}Fields`;
+}
+
+/**
+ * `fragment <Type>Fields on <Type> { __typename ...scalar fields }` for each
+ * object and interface type. Fields that need arguments and deprecated
+ * fields are left out.
+ */
+function fragments(model: SchemaModel): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const type of model.emitted) {
+    if (type.kind !== "OBJECT" && type.kind !== "INTERFACE") continue;
+    const leaves = (type.fields || [])
+      .filter(
+        (f) =>
+          !model.isComposite(namedType(f.type)) &&
+          f.deprecated === undefined &&
+          !f.args.some(isRequired),
+      )
+      .map((f) => f.name);
+    out[fragmentName(type.name)] =
+      `fragment ${fragmentName(type.name)} on ${type.name} { ${["__typename", ...leaves].join(" ")} }`;
+  }
+  return out;
+}
+
+/**
+ * Default selection set for a type: its fragment (or, for abstract types,
+ * its possible types' fragments) plus nested objects up to `depth` levels.
+ */
+function defaultSelection(
+  model: SchemaModel,
+  typeName: string,
+  depth: number,
+): string {
+  const type = model.types.get(typeName);
+  if (!type || !model.isComposite(typeName)) return "";
+  const parts: string[] =
+    type.kind === "UNION" ? ["__typename"] : [`...${fragmentName(type.name)}`];
+  if (
+    type.kind !== "OBJECT" &&
+    (type.possibleTypes || []).length <= MAX_INLINE_TYPES
+  ) {
+    for (const possible of type.possibleTypes || []) {
+      if (model.kind(possible) === "OBJECT") {
+        parts.push(`... on ${possible} { ...${fragmentName(possible)} }`);
+      }
+    }
+  }
+  if (depth > 0) {
+    for (const field of type.fields || []) {
+      const target = namedType(field.type);
+      if (
+        model.isComposite(target) &&
+        field.deprecated === undefined &&
+        !field.args.some(isRequired)
+      ) {
+        parts.push(
+          `${field.name} ${defaultSelection(model, target, depth - 1)}`,
+        );
+      }
+    }
+  }
+  return `{ ${parts.join(" ")} }`;
+}
+
+// ── Client ───────────────────────────────────────────────────────────────────
+
+function operationSignature(op: Operation): string {
+  const args = op.field.args.map((a) => `${a.name}: ${printTypeRef(a.type)}`);
+  return `${op.kind} ${op.field.name}${args.length > 0 ? `(${args.join(", ")})` : ""}: ${printTypeRef(op.field.type)}`;
+}
+
+function emitOperationMethod(model: SchemaModel, op: Operation): string {
+  const composite = model.isComposite(namedType(op.field.type));
+  const params: string[] = [];
+  if (op.variablesType) {
+    const optional = !op.field.args.some(isRequired);
+    params.push(`variables: ${op.variablesType}${optional ? " = {}" : ""}`);
+  }
+  if (composite) params.push(`options: OperationOptions = {}`);
+  const call = `this.operation(${stringLiteral(op.method)}, ${op.variablesType ? "variables" : "undefined"}, ${composite ? "options" : "{}"})`;
+  const deprecated =
+    op.field.deprecated !== undefined
+      ? [`@deprecated${op.field.deprecated ? ` ${op.field.deprecated}` : ""}`]
+      : [];
+  return [
+    `  /**`,
+    ...[
+      ...docLines(op.field.description),
+      ...(op.field.description ? [""] : []),
+      operationSignature(op),
+      ...deprecated,
+    ].map((line) => (line ? `   * ${line}` : `   *`)),
+    `   */`,
+    `  async ${op.method}(${params.join(", ")}): Promise<${model.tsType(op.field.type)}> {`,
+    `    return ${call};`,
+    `  }`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Full `api.ts` source for a GraphQL skill.
+ */
+export function emitGraphQLClient(def: GraphQLClientDef): string {
+  const className = clientClassName(def.name);
+  const model = new SchemaModel(def.schema, className);
+  const depth = def.depth ?? DEFAULT_SELECTION_DEPTH;
+  const operations = Object.fromEntries(
+    model.operations.map((op) => [
+      op.method,
+      {
+        kind: op.kind,
+        name: op.name,
+        field: op.field.name,
+        variables: op.field.args
+          .map((a) => `$${a.name}: ${printTypeRef(a.type)}`)
+          .join(", "),
+        args: op.field.args.map((a) => `${a.name}: $${a.name}`).join(", "),
+        selection: defaultSelection(model, namedType(op.field.type), depth),
+      },
+    ]),
+  );
+
+  return [
+    `/**`,
+    ...commentLines(`${def.name} GraphQL Client`).map((line) => ` * ${line}`),
+    ` * Auto-generated by foundry`,
+    ` */`,
+    ``,
+    ...(def.authHeaders ? [emitSecretRuntime(), ``] : []),
+    `const GRAPHQL_ENDPOINT = ${stringLiteral(def.endpoint)};`,
+    ...(def.authHeaders
+      ? [
+          ``,
+          `/** Sent with every request; \`{{secret:NAME}}\` resolves from the foundry secret store. */`,
+          `const AUTH_HEADERS: Record<string, string> = ${jsonLiteral(def.authHeaders)};`,
+        ]
+      : []),
+    ``,
+    `// ── Types ──`,
+    ``,
+    model.emitted.map((t) => emitType(model, t).join("\n")).join("\n\n"),
+    ...model.operations
+      .filter((op) => op.variablesType)
+      .flatMap((op) => [
+        ``,
+        `export interface ${op.variablesType} {`,
+        ...emitInputMembers(model, op.field.args),
+        `}`,
+      ]),
+    ``,
+    `// ── Fragments ──`,
+    ``,
+    `/** \`<Type>Fields\`: the scalar fields of each object and interface type, for use in selections. */`,
+    `export const FRAGMENTS: Record<string, string> = ${jsonLiteral(fragments(model))};`,
+    ``,
+    `interface Operation {`,
+    `  kind: "query" | "mutation";`,
+    `  name: string;`,
+    `  field: string;`,
+    `  variables: string;`,
+    `  args: string;`,
+    `  selection: string;`,
+    `}`,
+    ``,
+    `const OPERATIONS: Record<string, Operation> = ${jsonLiteral(operations)};`,
+    ``,
+    `/** Generated fragments a document spreads (\`...UserFields\`). */`,
+    `function spreads(document: string): string[] {`,
+    `  const names = [...document.matchAll(/\\.\\.\\.\\s*([_A-Za-z][_0-9A-Za-z]*)/g)].map((m) => m[1]);`,
+    `  return [...new Set(names)].filter((name) => name !== "on" && Object.hasOwn(FRAGMENTS, name));`,
+    `}`,
+    ``,
+    `// ── Errors ──`,
+    ``,
+    `export interface GraphQLErrorEntry {`,
+    `  message: string;`,
+    `  path?: (string | number)[];`,
+    `  locations?: { line: number; column: number }[];`,
+    `  extensions?: Record<string, unknown>;`,
+    `}`,
+    ``,
+    `/** The server answered with GraphQL \`errors\`; \`data\` holds any partial result. */`,
+    `export class GraphQLError extends Error {`,
+    `  constructor(`,
+    `    readonly errors: GraphQLErrorEntry[],`,
+    `    readonly data?: unknown,`,
+    `  ) {`,
+    `    super(errors.map((e) => e.message).join("; ") || "GraphQL request failed");`,
+    `    this.name = "GraphQLError";`,
+    `  }`,
+    `}`,
+    ``,
+    `/** The HTTP request failed without a GraphQL response. */`,
+    `export class GraphQLRequestError extends Error {`,
+    `  constructor(`,
+    `    readonly status: number,`,
+    `    readonly statusText: string,`,
+    `    readonly body: unknown,`,
+    `  ) {`,
+    `    super(\`GraphQL request failed: \${status} \${statusText}\`.trim());`,
+    `    this.name = "GraphQLRequestError";`,
+    `  }`,
+    `}`,
+    ``,
+    `// ── Client ──`,
+    ``,
+    `export interface ClientOptions {`,
+    `  endpoint?: string;`,
+    `  headers?: Record<string, string>;`,
+    `  fetch?: typeof fetch;`,
+    `}`,
+    ``,
+    `export interface OperationOptions {`,
+    `  /** Fields to select instead of the default, e.g. "id name owner { ...UserFields }" */`,
+    `  selection?: string;`,
+    `  /** Fragment definitions the selection spreads; generated ones (FRAGMENTS) are added automatically */`,
+    `  fragments?: string[];`,
+    `}`,
+    ``,
+    `export class ${className} {`,
+    `  private endpoint: string;`,
+    `  private headers: Record<string, string>;`,
+    `  private fetchImpl: typeof fetch;`,
+    ``,
+    `  constructor(options: ClientOptions = {}) {`,
+    `    this.endpoint = options.endpoint || GRAPHQL_ENDPOINT;`,
+    def.authHeaders
+      ? `    this.headers = { "Content-Type": "application/json", Accept: "application/json", ...Object.fromEntries(Object.entries(AUTH_HEADERS).map(([key, value]) => [key, withSecrets(value)])), ...options.headers };`
+      : `    this.headers = { "Content-Type": "application/json", Accept: "application/json", ...options.headers };`,
+    `    this.fetchImpl = options.fetch ?? fetch;`,
+    `  }`,
+    ``,
+    `  /**`,
+    `   * Run any query or mutation document and return its \`data\`. Throws`,
+    `   * GraphQLError when the response has \`errors\`.`,
+    `   */`,
+    `  async execute<T = any>(document: string, variables?: Record<string, unknown>, operationName?: string): Promise<T> {`,
+    `    const res = await this.fetchImpl(this.endpoint, {`,
+    `      method: "POST",`,
+    `      headers: this.headers,`,
+    `      body: JSON.stringify({ query: document, variables, operationName }),`,
+    `    });`,
+    `    const text = await res.text();`,
+    `    let payload: any;`,
+    `    try {`,
+    `      payload = JSON.parse(text);`,
+    `    } catch {`,
+    `      payload = undefined;`,
+    `    }`,
+    `    if (Array.isArray(payload?.errors) && payload.errors.length > 0) {`,
+    `      throw new GraphQLError(payload.errors, payload.data ?? undefined);`,
+    `    }`,
+    `    if (!res.ok || !payload || typeof payload !== "object") {`,
+    `      throw new GraphQLRequestError(res.status, res.statusText, payload ?? text);`,
+    `    }`,
+    `    return payload.data as T;`,
+    `  }`,
+    ``,
+    `  /** Document for an operation with the default or the caller's selection. */`,
+    `  document(method: string, options: OperationOptions = {}): string {`,
+    `    const op = OPERATIONS[method];`,
+    `    if (!op) throw new Error(\`Unknown operation "\${method}"\`);`,
+    `    const selection = op.selection && options.selection !== undefined ? \`{ \${options.selection} }\` : op.selection;`,
+    `    const custom = (op.selection && options.fragments) || [];`,
+    `    const defined = new Set(custom.map((f) => /fragment\\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(f)?.[1]));`,
+    `    return [`,
+    `      \`\${op.kind} \${op.name}\${op.variables ? \`(\${op.variables})\` : ""} { \${op.field}\${op.args ? \`(\${op.args})\` : ""}\${selection ? " " + selection : ""} }\`,`,
+    `      ...spreads([selection, ...custom].join(" ")).filter((name) => !defined.has(name)).map((name) => FRAGMENTS[name]),`,
+    `      ...custom,`,
+    `    ].join("\\n");`,
+    `  }`,
+    ``,
+    `  private async operation(method: string, variables: object | undefined, options: OperationOptions): Promise<any> {`,
+    `    const op = OPERATIONS[method];`,
+    `    const data = await this.execute(this.document(method, options), variables as Record<string, unknown>, op.name);`,
+    `    return data?.[op.field] ?? null;`,
+    `  }`,
+    ``,
+    ...(["query", "mutation"] as const).flatMap((kind) => {
+      const ops = model.operations.filter((op) => op.kind === kind);
+      if (ops.length === 0) return [];
+      return [
+        `  // ── ${kind === "query" ? "Queries" : "Mutations"} ──`,
+        ``,
+        ...ops.map((op) => emitOperationMethod(model, op)),
+      ];
+    }),
+  ]
+    .join("\n")
+    .trimEnd()
+    .concat(`\n}\n\nexport default ${className};\n`);
+}
+
+// ── SKILL.md ─────────────────────────────────────────────────────────────────
+
+function describeOperation(model: SchemaModel, op: Operation): string {
+  const summary = (op.field.description || "").replace(/\s+/g, " ").trim();
+  const required = op.field.args.filter(isRequired).map((a) => a.name);
+  const call = op.variablesType
+    ? `client.${op.method}({ ${required.length > 0 ? required.join(", ") : "..."} })`
+    : `client.${op.method}()`;
+  const lines = [
+    `- \`${op.field.name}\` — ${summary || "(no description)"} → \`${call}\`${op.field.deprecated !== undefined ? " _(deprecated)_" : ""}`,
+  ];
+  for (const arg of op.field.args) {
+    const about = arg.description
+      ? ` — ${arg.description.replace(/\s+/g, " ").trim()}`
+      : "";
+    const fallback =
+      arg.defaultValue !== undefined ? `, default \`${arg.defaultValue}\`` : "";
+    lines.push(
+      `  - \`${arg.name}\` (\`${printTypeRef(arg.type)}\`${isRequired(arg) ? ", required" : ""}${fallback})${about}`,
+    );
+  }
+  lines.push(`  - Returns \`${printTypeRef(op.field.type)}\``);
+  return lines.join("\n");
+}
+
+/**
+ * Markdown body of SKILL.md for a GraphQL skill: operations with their
+ * arguments, selections and fragments, usage, errors and auth.
+ */
+export function emitGraphQLSkillContent(def: GraphQLClientDef): string {
+  const className = clientClassName(def.name);
+  const model = new SchemaModel(def.schema, className);
+  const depth = def.depth ?? DEFAULT_SELECTION_DEPTH;
+  const sections: string[] = [`Endpoint: \`${def.endpoint}\``];
+
+  for (const kind of ["query", "mutation"] as const) {
+    const ops = model.operations.filter((op) => op.kind === kind);
+    if (ops.length === 0) continue;
+    sections.push(
+      `## ${kind === "query" ? "Queries" : "Mutations"}\n\n${ops.map((op) => describeOperation(model, op)).join("\n")}`,
+    );
+  }
+
+  const example =
+    model.operations.find((op) =>
+      model.isComposite(namedType(op.field.type)),
+    ) || model.operations[0];
+  const exampleType = namedType(example.field.type);
+  const exampleArgs = example.variablesType
+    ? `{ ${example.field.args
+        .filter(isRequired)
+        .map((a) => `${a.name}: ...`)
+        .join(", ")} }`
+    : "";
+  const withOptions = (options: string) =>
+    example.variablesType ? `${exampleArgs}, ${options}` : options;
+  const objectType = model.types.get(exampleType)?.kind === "OBJECT";
+  const leaves = (model.types.get(exampleType)?.fields || [])
+    .filter((f) => !model.isComposite(namedType(f.type)) && f.args.length === 0)
+    .slice(0, 2)
+    .map((f) => f.name);
+
+  sections.push(`## Usage
+
+\`\`\`typescript
+import { ${className} } from "./api";
+
+const client = new ${className}();
+const result = await client.${example.method}(${exampleArgs});
+\`\`\``);
+
+  if (model.isComposite(exampleType)) {
+    sections.push(`## Selections & Fragments
+
+Each method selects the returned type's scalar fields${depth > 0 ? ` and nested objects ${depth} level${depth === 1 ? "" : "s"} deep` : ""} (fields that need arguments are skipped). Every object and interface type has a \`<Type>Fields\` fragment in \`FRAGMENTS\`. Pass \`selection\` to choose fields yourself; generated fragments it spreads are included automatically, and \`fragments\` adds your own:
+
+\`\`\`typescript
+await client.${example.method}(${withOptions(`{ selection: "${objectType ? `...${fragmentName(exampleType)}` : "__typename"}" }`)});
+await client.${example.method}(${withOptions(`{
+  selection: "...Mine",
+  fragments: ["fragment Mine on ${exampleType} { ${["__typename", ...leaves].join(" ")} }"],
+}`)});
+\`\`\`
+
+\`client.execute(document, variables)\` runs any other document and returns its \`data\`.`);
+  }
+
+  sections.push(`## Errors
+
+A response with GraphQL \`errors\` throws \`GraphQLError\` (\`errors\`, partial \`data\`); an HTTP failure without a GraphQL body throws \`GraphQLRequestError\` (\`status\`, \`body\`).`);
+
+  const auth = Object.entries(def.authHeaders || {}).map(([header, value]) => {
+    const secrets = referencedSecrets(value);
+    return secrets.length > 0
+      ? `- \`${header}\` header from secret ${secrets.map((n) => `\`${n}\``).join(", ")} (\`foundry_secrets\`)`
+      : `- \`${header}\` header`;
+  });
+  sections.push(
+    `## Auth\n\n${auth.length > 0 ? auth.join("\n") : "No auth headers configured; pass `headers` to the client if the API needs them."}`,
+  );
+
+  return sections.join("\n\n");
+}
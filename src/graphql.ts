@@ -0,0 +1,768 @@
+/**
+ * GraphQL — Import a GraphQL schema for GraphQL skills.
+ *
+ * A schema is given as an introspection result (`{ data: { __schema } }`,
+ * `{ __schema }`) or as SDL, each as a file path, inline text or (for
+ * introspection) the parsed object. Both are reduced to the same model — the
+ * named types with their fields, arguments, enum values and possible types,
+ * plus the query and mutation root types — trimmed to what the selected
+ * operations can reach. The SDL reader covers type system definitions and
+ * extensions; directives other than `@deprecated` are parsed and dropped.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type GqlTypeRef =
+  | { kind: "NAMED"; name: string }
+  | { kind: "LIST"; ofType: GqlTypeRef }
+  | { kind: "NON_NULL"; ofType: GqlTypeRef };
+
+export interface GqlArgDef {
+  name: string;
+  description?: string;
+  type: GqlTypeRef;
+  defaultValue?: string; // GraphQL literal, as written
+}
+
+export interface GqlFieldDef {
+  name: string;
+  description?: string;
+  args: GqlArgDef[];
+  type: GqlTypeRef;
+  deprecated?: string; // Reason ("" when none was given)
+}
+
+export interface GqlTypeDef {
+  kind: "SCALAR" | "OBJECT" | "INTERFACE" | "UNION" | "ENUM" | "INPUT_OBJECT";
+  name: string;
+  description?: string;
+  fields?: GqlFieldDef[]; // OBJECT, INTERFACE
+  inputFields?: GqlArgDef[]; // INPUT_OBJECT
+  enumValues?: string[]; // ENUM
+  possibleTypes?: string[]; // UNION, INTERFACE
+}
+
+export interface GqlSchemaDef {
+  queryType?: string;
+  mutationType?: string;
+  types: GqlTypeDef[];
+}
+
+export interface GraphQLImport {
+  format: "introspection" | "sdl";
+  schema: GqlSchemaDef;
+  queries: number;
+  mutations: number;
+  warnings: string[];
+}
+
+export interface GraphQLImportOptions {
+  operations?: string[]; // Only these root fields (queries or mutations)
+}
+
+export const BUILTIN_SCALARS = ["Int", "Float", "String", "Boolean", "ID"];
+
+// ── Type References ──────────────────────────────────────────────────────────
+
+/**
+ * The named type under any list / non-null wrappers.
+ */
+export function namedType(ref: GqlTypeRef): string {
+  return ref.kind === "NAMED" ? ref.name : namedType(ref.ofType);
+}
+
+/**
+ * A type reference as written in GraphQL: `[User!]!`.
+ */
+export function printTypeRef(ref: GqlTypeRef): string {
+  if (ref.kind === "NAMED") return ref.name;
+  if (ref.kind === "LIST") return `[${printTypeRef(ref.ofType)}]`;
+  return `${printTypeRef(ref.ofType)}!`;
+}
+
+// ── Introspection ────────────────────────────────────────────────────────────
+
+function introspectionRef(raw: any, depth = 0): GqlTypeRef {
+  if (!raw || typeof raw !== "object" || depth > 16) {
+    throw new Error("Malformed type reference in introspection result");
+  }
+  if (raw.kind === "NON_NULL" || raw.kind === "LIST") {
+    return { kind: raw.kind, ofType: introspectionRef(raw.ofType, depth + 1) };
+  }
+  if (typeof raw.name !== "string") {
+    throw new Error("Malformed type reference in introspection result");
+  }
+  return { kind: "NAMED", name: raw.name };
+}
+
+function introspectionArgs(raw: any): GqlArgDef[] {
+  return (Array.isArray(raw) ? raw : []).map((a: any) => ({
+    name: String(a.name),
+    ...(a.description ? { description: String(a.description) } : {}),
+    type: introspectionRef(a.type),
+    ...(a.defaultValue !== null && a.defaultValue !== undefined
+      ? { defaultValue: String(a.defaultValue) }
+      : {}),
+  }));
+}
+
+const TYPE_KINDS = [
+  "SCALAR",
+  "OBJECT",
+  "INTERFACE",
+  "UNION",
+  "ENUM",
+  "INPUT_OBJECT",
+];
+
+function fromIntrospection(raw: any, warnings: string[]): GqlSchemaDef {
+  const types: GqlTypeDef[] = [];
+  for (const t of raw.types || []) {
+    if (!t?.name || String(t.name).startsWith("__")) continue;
+    if (!TYPE_KINDS.includes(t.kind)) {
+      warnings.push(`Type "${t.name}" has unknown kind "${t.kind}"`);
+      continue;
+    }
+    const type: GqlTypeDef = { kind: t.kind, name: String(t.name) };
+    if (t.description) type.description = String(t.description);
+    if (t.kind === "OBJECT" || t.kind === "INTERFACE") {
+      type.fields = (t.fields || []).map((f: any) => ({
+        name: String(f.name),
+        ...(f.description ? { description: String(f.description) } : {}),
+        args: introspectionArgs(f.args),
+        type: introspectionRef(f.type),
+        ...(f.isDeprecated ? { deprecated: f.deprecationReason || "" } : {}),
+      }));
+    }
+    if (t.kind === "INPUT_OBJECT") {
+      type.inputFields = introspectionArgs(t.inputFields);
+    }
+    if (t.kind === "ENUM") {
+      type.enumValues = (t.enumValues || []).map((v: any) => String(v.name));
+    }
+    if (t.kind === "UNION" || t.kind === "INTERFACE") {
+      type.possibleTypes = (t.possibleTypes || []).map((p: any) =>
+        String(p.name),
+      );
+    }
+    types.push(type);
+  }
+  return {
+    ...(raw.queryType?.name ? { queryType: String(raw.queryType.name) } : {}),
+    ...(raw.mutationType?.name
+      ? { mutationType: String(raw.mutationType.name) }
+      : {}),
+    types,
+  };
+}
+
+// ── SDL ──────────────────────────────────────────────────────────────────────
+
+interface Token {
+  kind: "punct" | "name" | "string" | "number";
+  value: string;
+  line: number;
+}
+
+const PUNCTUATORS = "!$&()[]{}:=@|";
+
+/**
+ * Unindent a block string the way the GraphQL spec does.
+ */
+function blockString(raw: string): string {
+  const lines = raw.replace(/\\"""/g, '"""').split(/\r\n|\r|\n/);
+  let indent = Infinity;
+  for (const line of lines.slice(1)) {
+    const match = /^[ \t]*/.exec(line)![0].length;
+    if (match < line.length) indent = Math.min(indent, match);
+  }
+  const out = lines.map((line, i) =>
+    i === 0 || indent === Infinity ? line : line.slice(indent),
+  );
+  while (out.length > 0 && !out[0].trim()) out.shift();
+  while (out.length > 0 && !out[out.length - 1].trim()) out.pop();
+  return out.join("\n");
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "\n") {
+      line++;
+      i++;
+    } else if (
+      c === " " ||
+      c === "\t" ||
+      c === "\r" ||
+      c === "," ||
+      c === "\ufeff"
+    ) {
+      i++;
+    } else if (c === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (source.startsWith("...", i)) {
+      tokens.push({ kind: "punct", value: "...", line });
+      i += 3;
+    } else if (PUNCTUATORS.includes(c)) {
+      tokens.push({ kind: "punct", value: c, line });
+      i++;
+    } else if (/[A-Za-z_]/.test(c)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))![0];
+      tokens.push({ kind: "name", value: match, line });
+      i += match.length;
+    } else if (/[-0-9]/.test(c)) {
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new Error(`SDL line ${line}: invalid number`);
+      tokens.push({ kind: "number", value: match[0], line });
+      i += match[0].length;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      let close = end;
+      while (close !== -1 && source[close - 1] === "\\") {
+        close = source.indexOf('"""', close + 3);
+      }
+      if (close === -1)
+        throw new Error(`SDL line ${line}: unterminated block string`);
+      const raw = source.slice(i + 3, close);
+      tokens.push({ kind: "string", value: blockString(raw), line });
+      line += raw.split("\n").length - 1;
+      i = close + 3;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"' && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      if (source[j] !== '"')
+        throw new Error(`SDL line ${line}: unterminated string`);
+      tokens.push({
+        kind: "string",
+        value: JSON.parse(source.slice(i, j + 1)),
+        line,
+      });
+      i = j + 1;
+    } else {
+      throw new Error(`SDL line ${line}: unexpected character "${c}"`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Recursive-descent reader for SDL type system documents.
+ */
+class SdlParser {
+  private pos = 0;
+  private types = new Map<string, GqlTypeDef>();
+  private roots: { query?: string; mutation?: string } = {};
+  private implementations = new Map<string, string[]>(); // Object → interfaces
+
+  constructor(
+    private tokens: Token[],
+    private warnings: string[],
+  ) {}
+
+  parse(): GqlSchemaDef {
+    while (this.pos < this.tokens.length) this.definition();
+    for (const name of BUILTIN_SCALARS) {
+      if (!this.types.has(name)) this.types.set(name, { kind: "SCALAR", name });
+    }
+    // Interfaces' possible types are the objects that implement them
+    for (const type of this.types.values()) {
+      if (type.kind === "INTERFACE") type.possibleTypes ??= [];
+    }
+    for (const [name, impls] of this.implementations) {
+      for (const iface of impls) {
+        const target = this.types.get(iface);
+        if (
+          target?.kind === "INTERFACE" &&
+          !target.possibleTypes!.includes(name)
+        ) {
+          target.possibleTypes!.push(name);
+        }
+      }
+    }
+    const queryType =
+      this.roots.query || (this.types.has("Query") ? "Query" : undefined);
+    const mutationType =
+      this.roots.mutation ||
+      (this.types.has("Mutation") ? "Mutation" : undefined);
+    return {
+      ...(queryType ? { queryType } : {}),
+      ...(mutationType ? { mutationType } : {}),
+      types: [...this.types.values()],
+    };
+  }
+
+  // ── Tokens ──
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error("SDL: unexpected end of document");
+    return token;
+  }
+
+  private is(value: string): boolean {
+    const token = this.peek();
+    return !!token && token.kind !== "string" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.kind === "string" || token.value !== value) {
+      throw new Error(
+        `SDL line ${token.line}: expected "${value}", found "${token.value}"`,
+      );
+    }
+  }
+
+  private name(): string {
+    const token = this.next();
+    if (token.kind !== "name") {
+      throw new Error(
+        `SDL line ${token.line}: expected a name, found "${token.value}"`,
+      );
+    }
+    return token.value;
+  }
+
+  private description(): string | undefined {
+    return this.peek()?.kind === "string" ? this.next().value : undefined;
+  }
+
+  // ── Definitions ──
+
+  private definition(): void {
+    const description = this.description();
+    const token = this.peek();
+    if (!token) return;
+    const extend = token.value === "extend";
+    if (extend) this.pos++;
+    const keyword = this.name();
+    switch (keyword) {
+      case "schema":
+        this.directives();
+        this.expect("{");
+        while (!this.is("}")) {
+          const operation = this.name();
+          this.expect(":");
+          const type = this.name();
+          if (operation === "query" || operation === "mutation") {
+            this.roots[operation] = type;
+          }
+        }
+        this.expect("}");
+        return;
+      case "scalar":
+        this.define({ kind: "SCALAR", name: this.name(), description }, extend);
+        this.directives();
+        return;
+      case "type":
+      case "interface": {
+        const name = this.name();
+        const interfaces = this.implementsList();
+        this.directives();
+        const fields = this.is("{") ? this.fieldList() : [];
+        const kind = keyword === "type" ? "OBJECT" : "INTERFACE";
+        const type = this.define(
+          { kind, name, description, fields: [] },
+          extend,
+        );
+        type.fields!.push(...fields);
+        if (interfaces.length > 0) {
+          this.implementations.set(name, [
+            ...(this.implementations.get(name) || []),
+            ...interfaces,
+          ]);
+        }
+        return;
+      }
+      case "union": {
+        const name = this.name();
+        this.directives();
+        const members: string[] = [];
+        if (this.is("=")) {
+          this.pos++;
+          if (this.is("|")) this.pos++;
+          members.push(this.name());
+          while (this.is("|")) {
+            this.pos++;
+            members.push(this.name());
+          }
+        }
+        const type = this.define(
+          { kind: "UNION", name, description, possibleTypes: [] },
+          extend,
+        );
+        type.possibleTypes!.push(...members);
+        return;
+      }
+      case "enum": {
+        const name = this.name();
+        this.directives();
+        const values: string[] = [];
+        if (this.is("{")) {
+          this.pos++;
+          while (!this.is("}")) {
+            this.description();
+            values.push(this.name());
+            this.directives();
+          }
+          this.expect("}");
+        }
+        const type = this.define(
+          { kind: "ENUM", name, description, enumValues: [] },
+          extend,
+        );
+        type.enumValues!.push(...values);
+        return;
+      }
+      case "input": {
+        const name = this.name();
+        this.directives();
+        const fields: GqlArgDef[] = [];
+        if (this.is("{")) {
+          this.pos++;
+          while (!this.is("}")) fields.push(this.inputValue());
+          this.expect("}");
+        }
+        const type = this.define(
+          { kind: "INPUT_OBJECT", name, description, inputFields: [] },
+          extend,
+        );
+        type.inputFields!.push(...fields);
+        return;
+      }
+      case "directive":
+        this.skipDirectiveDefinition();
+        return;
+      case "query":
+      case "mutation":
+      case "subscription":
+      case "fragment":
+        throw new Error(
+          `SDL line ${token.line}: "${keyword}" operations belong in documents, not the schema`,
+        );
+      default:
+        throw new Error(
+          `SDL line ${token.line}: unexpected "${keyword}" (expected a type system definition)`,
+        );
+    }
+  }
+
+  /**
+   * Register a type, or return the existing one an `extend` adds to.
+   */
+  private define(type: GqlTypeDef, extend: boolean): GqlTypeDef {
+    const existing = this.types.get(type.name);
+    if (existing) {
+      if (existing.kind !== type.kind) {
+        throw new Error(
+          `SDL: "${type.name}" is defined as both ${existing.kind} and ${type.kind}`,
+        );
+      }
+      if (!extend) this.warnings.push(`Type "${type.name}" is defined twice`);
+      if (type.description && !existing.description) {
+        existing.description = type.description;
+      }
+      return existing;
+    }
+    if (!type.description) delete type.description;
+    this.types.set(type.name, type);
+    return type;
+  }
+
+  private implementsList(): string[] {
+    if (!this.is("implements")) return [];
+    this.pos++;
+    if (this.is("&")) this.pos++;
+    const names = [this.name()];
+    while (this.is("&")) {
+      this.pos++;
+      names.push(this.name());
+    }
+    return names;
+  }
+
+  private fieldList(): GqlFieldDef[] {
+    const fields: GqlFieldDef[] = [];
+    this.expect("{");
+    while (!this.is("}")) {
+      const description = this.description();
+      const name = this.name();
+      const args: GqlArgDef[] = [];
+      if (this.is("(")) {
+        this.pos++;
+        while (!this.is(")")) args.push(this.inputValue());
+        this.expect(")");
+      }
+      this.expect(":");
+      const type = this.typeRef();
+      const deprecated = this.directives();
+      fields.push({
+        name,
+        ...(description ? { description } : {}),
+        args,
+        type,
+        ...(deprecated !== undefined ? { deprecated } : {}),
+      });
+    }
+    this.expect("}");
+    return fields;
+  }
+
+  private inputValue(): GqlArgDef {
+    const description = this.description();
+    const name = this.name();
+    this.expect(":");
+    const type = this.typeRef();
+    let defaultValue: string | undefined;
+    if (this.is("=")) {
+      this.pos++;
+      defaultValue = this.value();
+    }
+    this.directives();
+    return {
+      name,
+      ...(description ? { description } : {}),
+      type,
+      ...(defaultValue !== undefined ? { defaultValue } : {}),
+    };
+  }
+
+  private typeRef(): GqlTypeRef {
+    let ref: GqlTypeRef;
+    if (this.is("[")) {
+      this.pos++;
+      ref = { kind: "LIST", ofType: this.typeRef() };
+      this.expect("]");
+    } else {
+      ref = { kind: "NAMED", name: this.name() };
+    }
+    if (this.is("!")) {
+      this.pos++;
+      ref = { kind: "NON_NULL", ofType: ref };
+    }
+    return ref;
+  }
+
+  /**
+   * A value literal, re-printed as GraphQL.
+   */
+  private value(): string {
+    const token = this.next();
+    if (token.kind === "string") return JSON.stringify(token.value);
+    if (token.value === "$") return "$" + this.name();
+    if (token.value === "[") {
+      const items: string[] = [];
+      while (!this.is("]")) items.push(this.value());
+      this.pos++;
+      return `[${items.join(", ")}]`;
+    }
+    if (token.value === "{") {
+      const fields: string[] = [];
+      while (!this.is("}")) {
+        const name = this.name();
+        this.expect(":");
+        fields.push(`${name}: ${this.value()}`);
+      }
+      this.pos++;
+      return `{ ${fields.join(", ")} }`;
+    }
+    if (token.kind === "punct") {
+      throw new Error(
+        `SDL line ${token.line}: unexpected "${token.value}" in a value`,
+      );
+    }
+    return token.value;
+  }
+
+  /**
+   * Skip directives; returns the `@deprecated` reason when present.
+   */
+  private directives(): string | undefined {
+    let deprecated: string | undefined;
+    while (this.is("@")) {
+      this.pos++;
+      const name = this.name();
+      let reason = "";
+      if (this.is("(")) {
+        this.pos++;
+        while (!this.is(")")) {
+          const arg = this.name();
+          this.expect(":");
+          const value = this.value();
+          if (arg === "reason" && value.startsWith('"'))
+            reason = JSON.parse(value);
+        }
+        this.pos++;
+      }
+      if (name === "deprecated") deprecated = reason;
+    }
+    return deprecated;
+  }
+
+  private skipDirectiveDefinition(): void {
+    this.expect("@");
+    this.name();
+    if (this.is("(")) {
+      this.pos++;
+      while (!this.is(")")) this.inputValue();
+      this.pos++;
+    }
+    if (this.is("repeatable")) this.pos++;
+    this.expect("on");
+    if (this.is("|")) this.pos++;
+    this.name();
+    while (this.is("|")) {
+      this.pos++;
+      this.name();
+    }
+  }
+}
+
+export function parseSdl(
+  source: string,
+  warnings: string[] = [],
+): GqlSchemaDef {
+  return new SdlParser(tokenize(source), warnings).parse();
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Read a schema given as an introspection object, inline JSON or SDL text, or
+ * a path to a .json / .graphql / .gql / .sdl file.
+ */
+export function loadGraphQLSchema(
+  source: unknown,
+  warnings: string[] = [],
+): { format: GraphQLImport["format"]; schema: GqlSchemaDef } {
+  let doc: unknown = source;
+  if (typeof source === "string") {
+    const text = source.trim();
+    if (text.startsWith("{")) {
+      doc = JSON.parse(text);
+    } else if (
+      text.includes("\n") ||
+      /^(schema|type|interface|union|enum|input|scalar|extend|directive|")/.test(
+        text,
+      )
+    ) {
+      return { format: "sdl", schema: parseSdl(text, warnings) };
+    } else {
+      const path = resolve(text.replace(/^~(?=$|\/)/, homedir()));
+      if (!existsSync(path)) {
+        throw new Error(`GraphQL schema not found: ${path}`);
+      }
+      const content = readFileSync(path, "utf-8");
+      if (/\.json$/i.test(path) || content.trimStart().startsWith("{")) {
+        doc = JSON.parse(content);
+      } else {
+        return { format: "sdl", schema: parseSdl(content, warnings) };
+      }
+    }
+  }
+  const raw =
+    (doc as any)?.data?.__schema ?? (doc as any)?.__schema ?? undefined;
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.types)) {
+    throw new Error(
+      'Not a GraphQL schema: expected an introspection result with "__schema" (or "data.__schema"), or SDL text',
+    );
+  }
+  return { format: "introspection", schema: fromIntrospection(raw, warnings) };
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Root query and mutation fields, trimmed to `options.operations` and the
+ * types they can reach.
+ */
+export function importGraphQL(
+  source: unknown,
+  options: GraphQLImportOptions = {},
+): GraphQLImport {
+  const warnings: string[] = [];
+  const { format, schema } = loadGraphQLSchema(source, warnings);
+  const byName = new Map(schema.types.map((t) => [t.name, t]));
+
+  const roots = [schema.queryType, schema.mutationType].map((name) => {
+    if (!name) return undefined;
+    const type = byName.get(name);
+    if (!type?.fields) {
+      throw new Error(`Root type "${name}" is not defined as an object type`);
+    }
+    return type;
+  });
+  const wanted = options.operations?.length
+    ? new Set(options.operations)
+    : undefined;
+  for (const root of roots) {
+    if (root && wanted) {
+      root.fields = root.fields!.filter((f) => wanted.has(f.name));
+    }
+  }
+  if (wanted) {
+    const found = new Set(
+      roots.flatMap((r) => r?.fields?.map((f) => f.name) || []),
+    );
+    const missing = [...wanted].filter((name) => !found.has(name));
+    if (missing.length > 0) {
+      throw new Error(`No query or mutation named ${missing.join(", ")}`);
+    }
+  }
+  const [query, mutation] = roots;
+  const queries = query?.fields?.length || 0;
+  const mutations = mutation?.fields?.length || 0;
+  if (queries + mutations === 0) {
+    throw new Error("The schema has no query or mutation fields");
+  }
+
+  // Keep the types the operations reach
+  const reachable = new Set<string>();
+  const visit = (name: string) => {
+    if (reachable.has(name)) return;
+    const type = byName.get(name);
+    if (!type) {
+      warnings.push(`Type "${name}" is referenced but not defined`);
+      reachable.add(name);
+      return;
+    }
+    reachable.add(name);
+    for (const field of type.fields || []) {
+      visit(namedType(field.type));
+      for (const arg of field.args) visit(namedType(arg.type));
+    }
+    for (const field of type.inputFields || []) visit(namedType(field.type));
+    for (const possible of type.possibleTypes || []) visit(possible);
+  };
+  for (const root of roots) if (root) visit(root.name);
+
+  return {
+    format,
+    schema: {
+      ...(query && queries > 0 ? { queryType: query.name } : {}),
+      ...(mutation && mutations > 0 ? { mutationType: mutation.name } : {}),
+      types: schema.types.filter(
+        (t) =>
+          reachable.has(t.name) &&
+          (t !== query || queries > 0) &&
+          (t !== mutation || mutations > 0),
+      ),
+    },
+    queries,
+    mutations,
+    warnings,
+  };
+}
@@ -0,0 +1,519 @@
+/**
+ * Hook Events — Catalog of the events hooks can subscribe to.
+ *
+ * Two kinds of hooks exist. Extension ("plugin") hooks register with
+ * `api.on(name, (event, ctx) => ...)` and may return a result (e.g. a
+ * `before_tool_call` hook can block the call). Standalone hooks (HOOK.md +
+ * handler.ts) receive a `HookEvent`: `type` and `action` (from `type:action`
+ * event names), the `sessionKey`, a `timestamp`, a `messages` array the
+ * handler may push replies into, and an event-specific `context`.
+ *
+ * The catalog starts from the events OpenClaw documents and adds what the
+ * local install declares: `PluginHookName` and `PluginHook<Name>Event` /
+ * `Result` types in its `.d.ts` files, `api.on("...")` examples in plugin
+ * docs and `` `type:action` `` names in hook docs. Hook definitions are
+ * validated against it, tool schemas list its names, and generated handlers
+ * get typed signatures from its payload shapes.
+ *
+ * `mockHookEvent` builds a realistic standalone event for the sandbox, with
+ * paths pointing into a throwaway workspace.
+ */
+
+import { join } from "node:path";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type HookKind = "plugin" | "standalone";
+
+export interface HookEventSpec {
+  name: string;
+  kind: HookKind;
+  description: string;
+  event: string; // TypeScript type of the payload (standalone: event.context)
+  context?: string; // TypeScript type of ctx (plugin hooks)
+  result?: string; // What a plugin handler may return
+  source: "builtin" | "types" | "docs";
+}
+
+/** Page shape the catalog reads (a LocalDocs page). */
+export interface HookEventSource {
+  name: string;
+  kind: "doc" | "types";
+  content: string;
+}
+
+/** JSON form of a HookEvent; the sandbox runner revives `timestamp` as a Date. */
+export interface MockHookEvent {
+  type: string;
+  action: string;
+  sessionKey: string;
+  timestamp: string;
+  messages: string[];
+  context: Record<string, unknown>;
+}
+
+const AGENT_CONTEXT =
+  "{ agentId?: string; sessionKey?: string; workspaceDir?: string; messageProvider?: string }";
+const MESSAGE_CONTEXT =
+  "{ channelId: string; accountId?: string; conversationId?: string }";
+const TOOL_CONTEXT =
+  "{ agentId?: string; sessionKey?: string; toolName: string }";
+const SESSION_CONTEXT = "{ agentId?: string; sessionId: string }";
+const GATEWAY_CONTEXT = "{ port?: number }";
+const COMMAND_CONTEXT =
+  "{ sessionEntry: { sessionId: string; sessionFile?: string; updatedAt: number }; sessionId: string; sessionFile?: string; " +
+  "commandSource: string; senderId?: string; workspaceDir: string; cfg: Record<string, unknown> }";
+const UNKNOWN_PAYLOAD = "Record<string, unknown>";
+
+type BuiltinSpec = Omit<HookEventSpec, "name" | "kind" | "source">;
+
+const PLUGIN_EVENTS: Record<string, BuiltinSpec> = {
+  before_agent_start: {
+    description: "Before the agent runs; can add to the system prompt",
+    event: "{ prompt: string; messages?: unknown[] }",
+    context: AGENT_CONTEXT,
+    result: "{ systemPrompt?: string; prependContext?: string }",
+  },
+  agent_end: {
+    description: "After the agent finishes a run",
+    event:
+      "{ messages: unknown[]; success: boolean; error?: string; durationMs?: number }",
+    context: AGENT_CONTEXT,
+  },
+  before_compaction: {
+    description: "Before the session history is compacted",
+    event: "{ messageCount: number; tokenCount?: number }",
+    context: AGENT_CONTEXT,
+  },
+  after_compaction: {
+    description: "After the session history is compacted",
+    event:
+      "{ messageCount: number; tokenCount?: number; compactedCount: number }",
+    context: AGENT_CONTEXT,
+  },
+  message_received: {
+    description: "An inbound message arrived on a channel",
+    event:
+      "{ from: string; content: string; timestamp?: number; metadata?: Record<string, unknown> }",
+    context: MESSAGE_CONTEXT,
+  },
+  message_sending: {
+    description: "Before a reply is sent; can rewrite or cancel it",
+    event:
+      "{ to: string; content: string; metadata?: Record<string, unknown> }",
+    context: MESSAGE_CONTEXT,
+    result: "{ content?: string; cancel?: boolean }",
+  },
+  message_sent: {
+    description: "After a reply was sent",
+    event: "{ to: string; content: string; success: boolean; error?: string }",
+    context: MESSAGE_CONTEXT,
+  },
+  before_tool_call: {
+    description: "Before a tool runs; can change params or block the call",
+    event: "{ toolName: string; params: Record<string, unknown> }",
+    context: TOOL_CONTEXT,
+    result:
+      "{ params?: Record<string, unknown>; block?: boolean; blockReason?: string }",
+  },
+  after_tool_call: {
+    description: "After a tool returned or threw",
+    event:
+      "{ toolName: string; params: Record<string, unknown>; result?: unknown; error?: string; durationMs?: number }",
+    context: TOOL_CONTEXT,
+  },
+  tool_result_persist: {
+    description:
+      "Before a tool result is written to the transcript; can replace it",
+    event:
+      "{ toolName?: string; toolCallId?: string; message: unknown; isSynthetic?: boolean }",
+    context:
+      "{ agentId?: string; sessionKey?: string; toolName?: string; toolCallId?: string }",
+    result: "{ message?: unknown }",
+  },
+  session_start: {
+    description: "A session started or resumed",
+    event: "{ sessionId: string; resumedFrom?: string }",
+    context: SESSION_CONTEXT,
+  },
+  session_end: {
+    description: "A session ended",
+    event: "{ sessionId: string; messageCount: number; durationMs?: number }",
+    context: SESSION_CONTEXT,
+  },
+  gateway_start: {
+    description: "The gateway started",
+    event: "{ port: number }",
+    context: GATEWAY_CONTEXT,
+  },
+  gateway_stop: {
+    description: "The gateway is stopping",
+    event: "{ reason?: string }",
+    context: GATEWAY_CONTEXT,
+  },
+};
+
+const STANDALONE_EVENTS: Record<string, BuiltinSpec> = {
+  "command:new": {
+    description: "The user issued /new",
+    event: COMMAND_CONTEXT,
+  },
+  "command:reset": {
+    description: "The user issued /reset",
+    event: COMMAND_CONTEXT,
+  },
+  "command:stop": {
+    description: "The user issued /stop",
+    event: COMMAND_CONTEXT,
+  },
+  "agent:bootstrap": {
+    description:
+      "Before workspace bootstrap files are injected; can edit bootstrapFiles",
+    event:
+      "{ workspaceDir: string; bootstrapFiles: { name: string; path: string; content?: string; missing: boolean }[]; " +
+      "cfg: Record<string, unknown>; sessionKey?: string; sessionId?: string; agentId?: string }",
+  },
+  "gateway:startup": {
+    description: "After channels start",
+    event: "{ cfg: Record<string, unknown>; workspaceDir?: string }",
+  },
+  tool_result_persist: {
+    description:
+      "Before a tool result is written to the transcript; can replace context.message",
+    event:
+      "{ toolName?: string; toolCallId?: string; message: unknown; isSynthetic?: boolean }",
+  },
+};
+
+/** Files the gateway loads into a new agent's context on bootstrap. */
+const BOOTSTRAP_FILES = ["AGENTS.md", "SOUL.md", "TOOLS.md", "USER.md"];
+
+const SESSION_KEY = "agent:main:main";
+const SESSION_ID = "00000000-0000-4000-8000-000000000001";
+
+// ── Discovery ────────────────────────────────────────────────────────────────
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join("");
+}
+
+/** Body of `interface Name {...}` or `type Name = {...}`, braces included. */
+function declarationBody(source: string, name: string): string | undefined {
+  const match = new RegExp(
+    `(?:interface|type)\\s+${name}\\b[^{=;]*(?:=\\s*)?\\{`,
+  ).exec(source);
+  if (!match) return undefined;
+  const open = match.index + match[0].length - 1;
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    else if (source[i] === "}" && --depth === 0) {
+      return source
+        .slice(open, i + 1)
+        .replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, "")
+        .replace(/\s+/g, " ")
+        .replace(/;\s*}$/, " }");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Events declared or documented by the local install: plugin hook names from
+ * the `PluginHookName` union (with payload types when declared) and
+ * `api.on(...)` examples, standalone names from hook docs.
+ */
+function discoverEvents(pages: HookEventSource[]): HookEventSpec[] {
+  const found = new Map<string, HookEventSpec>();
+  const add = (spec: HookEventSpec) => {
+    const key = `${spec.kind} ${spec.name}`;
+    if (!found.has(key) || spec.source === "types") found.set(key, spec);
+  };
+
+  const declarations = pages
+    .filter((p) => p.kind === "types" && p.content.includes("PluginHook"))
+    .map((p) => p.content)
+    .join("\n");
+  const union = declarations.match(/type\s+PluginHookName\s*=\s*([^;]+);/);
+  for (const [, name] of (union?.[1] ?? "").matchAll(/["']([a-z_]+)["']/g)) {
+    const type = `PluginHook${pascalCase(name)}`;
+    add({
+      name,
+      kind: "plugin",
+      description: "",
+      event: declarationBody(declarations, `${type}Event`) ?? "",
+      result: declarationBody(declarations, `${type}Result`),
+      source: "types",
+    });
+  }
+
+  for (const page of pages) {
+    if (page.kind !== "doc") continue;
+    if (/plugin|hook/i.test(page.name)) {
+      for (const [, name] of page.content.matchAll(
+        /api\.on\(\s*["']([a-z][a-z_]*)["']/g,
+      )) {
+        add({
+          name,
+          kind: "plugin",
+          description: "",
+          event: "",
+          source: "docs",
+        });
+      }
+    }
+    if (/hook/i.test(page.name)) {
+      for (const [, name] of page.content.matchAll(
+        /`((?:command|agent|gateway|session|message):[a-z][a-z_]*)`/g,
+      )) {
+        add({
+          name,
+          kind: "standalone",
+          description: "",
+          event: "",
+          source: "docs",
+        });
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+// ── Catalog ──────────────────────────────────────────────────────────────────
+
+export class HookEventCatalog {
+  private specs = new Map<string, HookEventSpec>();
+
+  /**
+   * Built-in events plus any the given LocalDocs pages declare. Declared
+   * payload types replace the built-in ones; descriptions and context types
+   * are kept.
+   */
+  constructor(pages: HookEventSource[] = []) {
+    for (const [kind, events] of [
+      ["plugin", PLUGIN_EVENTS],
+      ["standalone", STANDALONE_EVENTS],
+    ] as const) {
+      for (const [name, spec] of Object.entries(events)) {
+        this.specs.set(`${kind} ${name}`, {
+          name,
+          kind,
+          ...spec,
+          source: "builtin",
+        });
+      }
+    }
+    for (const spec of discoverEvents(pages)) {
+      const key = `${spec.kind} ${spec.name}`;
+      const known = this.specs.get(key);
+      this.specs.set(key, {
+        name: spec.name,
+        kind: spec.kind,
+        description: known?.description || "",
+        event: spec.event || known?.event || UNKNOWN_PAYLOAD,
+        context:
+          known?.context ??
+          (spec.kind === "plugin" ? UNKNOWN_PAYLOAD : undefined),
+        result: spec.result ?? known?.result,
+        source: known && !spec.event ? known.source : spec.source,
+      });
+    }
+  }
+
+  get(name: string, kind: HookKind): HookEventSpec | undefined {
+    return this.specs.get(`${kind} ${name}`);
+  }
+
+  list(kind: HookKind): HookEventSpec[] {
+    return [...this.specs.values()].filter((s) => s.kind === kind);
+  }
+
+  names(kind: HookKind): string[] {
+    return this.list(kind).map((s) => s.name);
+  }
+
+  /**
+   * Throws for names outside the catalog, suggesting the closest match and
+   * pointing out events of the other hook kind.
+   */
+  validate(name: string, kind: HookKind): HookEventSpec {
+    const spec = this.get(name, kind);
+    if (spec) return spec;
+    const names = this.names(kind);
+    const closest = names
+      .map((n) => ({ n, d: editDistance(n, String(name)) }))
+      .sort((a, b) => a.d - b.d)[0];
+    const other: HookKind = kind === "plugin" ? "standalone" : "plugin";
+    let hint = "";
+    if (this.get(name, other)) {
+      hint =
+        kind === "plugin"
+          ? ` ("${name}" is a standalone hook event; use foundry_write_hook)`
+          : ` ("${name}" is an extension hook event; use foundry_add_hook)`;
+    } else if (closest && closest.d <= Math.max(2, name.length / 4)) {
+      hint = ` (did you mean "${closest.n}"?)`;
+    }
+    throw new Error(
+      `Unknown ${kind === "plugin" ? "extension" : "standalone"} hook event "${name}"${hint}. Known: ${names.join(", ")}`,
+    );
+  }
+
+  /**
+   * Typed parameter list (and return type) for an `api.on` handler.
+   */
+  pluginHandlerSignature(name: string): {
+    params: string;
+    returns?: string;
+  } {
+    const spec = this.get(name, "plugin");
+    if (!spec) return { params: "event: any, ctx: any" };
+    return {
+      params: `event: ${spec.event}, ctx: ${spec.context ?? UNKNOWN_PAYLOAD}`,
+      returns: spec.result ? `Promise<${spec.result} | void>` : undefined,
+    };
+  }
+
+  /**
+   * `event.context` type for a standalone hook handling these events.
+   */
+  standaloneContextType(names: string[]): string {
+    const types = [
+      ...new Set(names.map((n) => this.get(n, "standalone")?.event)),
+    ].filter((t): t is string => !!t);
+    return types.length ? types.join(" | ") : UNKNOWN_PAYLOAD;
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        prev + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+/**
+ * Files of the mock workspace the events point into (relative path →
+ * content), so handlers that read them find something.
+ */
+export function mockWorkspaceFiles(): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const name of BOOTSTRAP_FILES) {
+    files[name] = `# ${name.replace(/\.md$/, "")}\n\nSandbox placeholder.\n`;
+  }
+  files[join("sessions", `${SESSION_ID}.jsonl`)] =
+    JSON.stringify({ type: "session", id: SESSION_ID }) + "\n";
+  return files;
+}
+
+/**
+ * Standalone HookEvent for `event`. Events only known from the docs get the
+ * common fields and a minimal context.
+ */
+export function mockHookEvent(
+  event: string,
+  workspaceDir: string,
+  now = new Date(),
+): MockHookEvent {
+  const base = {
+    sessionKey: SESSION_KEY,
+    timestamp: now.toISOString(),
+    messages: [] as string[],
+  };
+  const session = {
+    sessionId: SESSION_ID,
+    sessionFile: join(workspaceDir, "sessions", `${SESSION_ID}.jsonl`),
+    updatedAt: now.getTime() - 60_000,
+  };
+
+  switch (event) {
+    case "command:new":
+    case "command:reset":
+    case "command:stop":
+      return {
+        ...base,
+        type: "command",
+        action: event.slice("command:".length),
+        context: {
+          sessionEntry: session,
+          sessionId: session.sessionId,
+          sessionFile: session.sessionFile,
+          commandSource: "telegram",
+          senderId: "sandbox-user",
+          workspaceDir,
+          cfg: {},
+        },
+      };
+    case "agent:bootstrap":
+      return {
+        ...base,
+        type: "agent",
+        action: "bootstrap",
+        context: {
+          workspaceDir,
+          bootstrapFiles: BOOTSTRAP_FILES.map((name) => ({
+            name,
+            path: join(workspaceDir, name),
+            content: mockWorkspaceFiles()[name],
+            missing: false,
+          })),
+          cfg: {},
+          sessionKey: SESSION_KEY,
+          sessionId: SESSION_ID,
+          agentId: "main",
+        },
+      };
+    case "gateway:startup":
+      return {
+        ...base,
+        sessionKey: "",
+        type: "gateway",
+        action: "startup",
+        context: { cfg: {}, workspaceDir },
+      };
+    case "tool_result_persist":
+      return {
+        ...base,
+        type: "tool_result_persist",
+        action: "",
+        context: {
+          toolName: "exec",
+          toolCallId: "call_sandbox_1",
+          isSynthetic: false,
+          message: {
+            role: "toolResult",
+            toolCallId: "call_sandbox_1",
+            toolName: "exec",
+            content: [{ type: "text", text: "total 0\n" }],
+            isError: false,
+            timestamp: now.getTime(),
+          },
+        },
+      };
+    default: {
+      const [type, action = ""] = event.split(":");
+      return {
+        ...base,
+        type,
+        action,
+        context: { workspaceDir, cfg: {} },
+      };
+    }
+  }
+}
@@ -0,0 +1,755 @@
+/**
+ * HTML → Markdown — Converter for fetched documentation pages.
+ *
+ * Parses HTML into a lightweight tree (tolerant of unclosed <p>/<li>/<td>),
+ * then renders GitHub-flavored Markdown that keeps what generated code relies
+ * on: tables, nested lists, fenced code with its language tag, admonitions
+ * and absolute links. Navigation chrome, scripts and hidden elements are
+ * dropped.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+interface RenderContext {
+  baseUrl?: string;
+  lang?: string; // Code language inherited from a wrapping element
+  inContent?: boolean; // Inside the content or a section, where <header> holds a title
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+// Bump whenever the Markdown output changes, so cached pages get re-extracted
+export const CONVERTER_VERSION = 3;
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+const SKIP_TAGS = new Set([
+  "script",
+  "style",
+  "nav",
+  "footer",
+  "noscript",
+  "svg",
+  "button",
+  "template",
+  "head",
+  "form",
+  "input",
+  "select",
+  "iframe",
+]);
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "dialog",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+const ADMONITION_TYPES = [
+  "note",
+  "tip",
+  "info",
+  "warning",
+  "caution",
+  "danger",
+  "important",
+  "check",
+];
+
+// Wrapper classes used by Docusaurus, Sphinx/MkDocs, GitHub and Obsidian-style
+// callouts; the title/content parts of the same families are not wrappers
+const ADMONITION_CLASS =
+  /^(?:theme-)?(?:admonition|callout|markdown-alert)(?:-(?!title$|heading$|content$|body$|icon$)[a-z]+)?$/;
+const ADMONITION_TITLE_CLASS =
+  /^(?:admonition|callout|markdown-alert)[-_]?(?:title|heading)/;
+
+// Permalink anchors and similar chrome inside the content area
+const CHROME_CLASSES = new Set([
+  "headerlink",
+  "hash-link",
+  "sr-only",
+  "table-of-contents",
+]);
+const CHROME_ROLES = new Set(["navigation", "banner", "contentinfo"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rarr: "→",
+  larr: "←",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  laquo: "«",
+  raquo: "»",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  times: "×",
+  zwj: "",
+  zwnj: "",
+};
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi,
+    (match, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return Number.isFinite(code) && code > 0
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      const decoded = NAMED_ENTITIES[name.toLowerCase()];
+      return decoded !== undefined ? decoded : match;
+    },
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source))) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Index of the `>` that ends the tag starting at `start`, honouring quotes.
+ */
+function findTagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < html.length; i++) {
+    const ch = html[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse HTML into a tree. Unknown or mismatched closing tags are ignored and
+ * the usual optional end tags (p, li, dt/dd, tr, td/th) are closed implicitly.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: "element",
+    tag: "#root",
+    attrs: {},
+    children: [],
+  };
+  const stack: HtmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+
+  // Pop up to and including `tag`, but never past one of `boundaries`
+  const closeImplicit = (tags: string[], boundaries: string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      const t = stack[i].tag;
+      if (boundaries.includes(t)) return;
+      if (tags.includes(t)) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    if (html.startsWith("<!--", i)) {
+      const end = html.indexOf("-->", i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith("<!", i) || html.startsWith("<?", i)) {
+      const end = html.indexOf(">", i);
+      i = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    if (html[i] === "<" && html[i + 1] === "/") {
+      const end = html.indexOf(">", i);
+      if (end === -1) break;
+      const tag = html
+        .slice(i + 2, end)
+        .trim()
+        .toLowerCase();
+      for (let j = stack.length - 1; j > 0; j--) {
+        if (stack[j].tag === tag) {
+          stack.length = j;
+          break;
+        }
+      }
+      i = end + 1;
+      continue;
+    }
+
+    if (html[i] === "<" && /[a-zA-Z]/.test(html[i + 1] || "")) {
+      const end = findTagEnd(html, i + 1);
+      if (end === -1) break;
+      const inner = html.slice(i + 1, end);
+      const nameMatch = inner.match(/^[a-zA-Z][\w:-]*/);
+      const tag = nameMatch![0].toLowerCase();
+      const selfClosing = inner.endsWith("/");
+      const attrs = parseAttributes(
+        inner.slice(tag.length, selfClosing ? -1 : undefined),
+      );
+
+      if (tag === "li") closeImplicit(["li"], ["ul", "ol"]);
+      else if (tag === "dt" || tag === "dd")
+        closeImplicit(["dt", "dd"], ["dl"]);
+      else if (tag === "tr") closeImplicit(["tr"], ["table"]);
+      else if (tag === "td" || tag === "th")
+        closeImplicit(["td", "th"], ["tr", "table"]);
+      if ((BLOCK_TAGS.has(tag) || tag === "p") && top().tag === "p")
+        stack.pop();
+
+      const el: HtmlElement = { type: "element", tag, attrs, children: [] };
+      top().children.push(el);
+      i = end + 1;
+
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const close = html.toLowerCase().indexOf(`</${tag}`, i);
+        const stop = close === -1 ? html.length : close;
+        el.children.push({ type: "text", text: html.slice(i, stop) });
+        const closeEnd = close === -1 ? -1 : html.indexOf(">", close);
+        i = closeEnd === -1 ? html.length : closeEnd + 1;
+      } else if (!selfClosing && !VOID_TAGS.has(tag)) {
+        stack.push(el);
+      }
+      continue;
+    }
+
+    let next = html.indexOf("<", i + 1);
+    if (next === -1) next = html.length;
+    top().children.push({
+      type: "text",
+      text: decodeEntities(html.slice(i, next)),
+    });
+    i = next;
+  }
+
+  return root;
+}
+
+// ── Tree helpers ─────────────────────────────────────────────────────────────
+
+function classList(el: HtmlElement): string[] {
+  return (el.attrs.class || "").split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Hidden elements and page chrome (permalinks, navigation landmarks).
+ */
+function isHidden(el: HtmlElement): boolean {
+  return (
+    "hidden" in el.attrs ||
+    el.attrs["aria-hidden"] === "true" ||
+    CHROME_ROLES.has(el.attrs.role) ||
+    classList(el).some((c) => CHROME_CLASSES.has(c))
+  );
+}
+
+/**
+ * A <header> is the site banner unless it sits in the content or a
+ * section of it, where it holds the title.
+ */
+function isSkipped(el: HtmlElement, ctx: RenderContext): boolean {
+  if (el.tag === "header" && !ctx.inContent) return true;
+  return SKIP_TAGS.has(el.tag) || isHidden(el);
+}
+
+function isContentRoot(el: HtmlElement): boolean {
+  return (
+    el.tag === "article" ||
+    el.tag === "main" ||
+    el.attrs.role === "main" ||
+    el.attrs.id === "content-area" // Mintlify
+  );
+}
+
+function findFirst(
+  node: HtmlElement,
+  pred: (el: HtmlElement) => boolean,
+): HtmlElement | undefined {
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+    if (pred(child)) return child;
+    const found = findFirst(child, pred);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function containsBlock(el: HtmlElement): boolean {
+  return el.children.some(
+    (c) =>
+      c.type === "element" &&
+      !SKIP_TAGS.has(c.tag) &&
+      (BLOCK_TAGS.has(c.tag) || containsBlock(c)),
+  );
+}
+
+function isBlock(el: HtmlElement): boolean {
+  return BLOCK_TAGS.has(el.tag) || containsBlock(el);
+}
+
+function codeLanguage(el: HtmlElement): string | undefined {
+  const fromAttr = el.attrs["data-language"] || el.attrs["data-lang"];
+  if (fromAttr) return fromAttr;
+  // <html lang="en"> is a natural language, only trust it on code elements;
+  // Shiki (Mintlify) writes language="bash"
+  if (el.tag === "pre" || el.tag === "code") {
+    const attr = el.attrs.lang || el.attrs.language;
+    if (attr) return attr;
+  }
+  for (const cls of classList(el)) {
+    // Sphinx uses highlight-<lang>, GitHub highlight-source-<lang>
+    const m = cls.match(
+      /^(?:language|lang|highlight-source|highlight)-([\w+#.-]+)$/,
+    );
+    if (m) return m[1];
+  }
+  return undefined;
+}
+
+function admonitionType(el: HtmlElement): string | undefined {
+  const explicit = el.attrs["data-callout-type"] || el.attrs["data-type"] || "";
+  const classes = classList(el).map((c) => c.toLowerCase());
+  // A bare <aside> is as often a table of contents as a callout
+  const isAdmonition =
+    el.attrs.role === "note" ||
+    !!explicit ||
+    classes.some((c) => ADMONITION_CLASS.test(c));
+  if (!isAdmonition) return undefined;
+
+  const haystack = [explicit.toLowerCase(), ...classes].join(" ");
+  return ADMONITION_TYPES.find((t) => haystack.includes(t)) || "note";
+}
+
+function isAdmonitionTitle(el: HtmlElement): boolean {
+  return classList(el).some((c) =>
+    ADMONITION_TITLE_CLASS.test(c.toLowerCase()),
+  );
+}
+
+/**
+ * Copy of `el` without `target`, so an admonition's title is not rendered
+ * twice.
+ */
+function withoutNode(el: HtmlElement, target: HtmlElement): HtmlElement {
+  return {
+    ...el,
+    children: el.children
+      .filter((c) => c !== target)
+      .map((c) => (c.type === "element" ? withoutNode(c, target) : c)),
+  };
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Text content without whitespace collapsing (for code).
+ */
+function rawText(node: HtmlNode): string {
+  if (node.type === "text") return node.text;
+  if (node.tag === "br") return "\n";
+  return node.children.map(rawText).join("");
+}
+
+function backtickFence(text: string, min: number): string {
+  const runs = text.match(/`+/g) || [];
+  const longest = runs.reduce((max, r) => Math.max(max, r.length), 0);
+  return "`".repeat(Math.max(min, longest + 1));
+}
+
+// ── Inline rendering ─────────────────────────────────────────────────────────
+
+function renderInline(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === "text") return node.text.replace(/\s+/g, " ");
+  if (isSkipped(node, ctx)) return "";
+
+  const inner = () => node.children.map((c) => renderInline(c, ctx)).join("");
+  const wrap = (mark: string) => {
+    const text = inner();
+    if (!text.trim()) return text;
+    // Keep surrounding spaces outside the markers
+    const lead = text.match(/^\s*/)![0];
+    const trail = text.match(/\s*$/)![0];
+    return `${lead}${mark}${text.trim()}${mark}${trail}`;
+  };
+
+  switch (node.tag) {
+    case "br":
+      return "\n";
+    case "a": {
+      // Permalink icons often carry only a zero-width space
+      const text = inner()
+        .replace(/\u200b/g, "")
+        .trim();
+      const href = node.attrs.href;
+      if (!text) return "";
+      if (!href || href.startsWith("javascript:")) return text;
+      return `[${text}](${resolveUrl(href, ctx.baseUrl)})`;
+    }
+    case "img": {
+      const src = node.attrs.src;
+      if (!src) return "";
+      return `![${node.attrs.alt || ""}](${resolveUrl(src, ctx.baseUrl)})`;
+    }
+    case "code":
+    case "kbd":
+    case "samp":
+    case "tt": {
+      const text = rawText(node).replace(/\s+/g, " ");
+      if (!text.trim()) return text;
+      const fence = backtickFence(text, 1);
+      const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+      return `${fence}${pad}${text}${pad}${fence}`;
+    }
+    case "strong":
+    case "b":
+      return wrap("**");
+    case "em":
+    case "i":
+      return wrap("*");
+    case "del":
+    case "s":
+    case "strike":
+      return wrap("~~");
+    default:
+      if (BLOCK_TAGS.has(node.tag)) return ` ${inner()} `;
+      return inner();
+  }
+}
+
+function tidyInline(text: string): string {
+  return text
+    .split("\n")
+    .map((l) => l.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .trim();
+}
+
+// ── Block rendering ──────────────────────────────────────────────────────────
+
+interface Block {
+  text: string;
+  isList: boolean;
+}
+
+function renderChildren(
+  children: HtmlNode[],
+  ctx: RenderContext,
+  tight = false,
+): string {
+  const blocks: Block[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = tidyInline(inline);
+    if (text) blocks.push({ text, isList: false });
+    inline = "";
+  };
+
+  for (const child of children) {
+    if (child.type === "text" || !isBlock(child)) {
+      inline += renderInline(child, ctx);
+      continue;
+    }
+    flush();
+    const text = renderBlock(child, ctx);
+    if (text.trim())
+      blocks.push({
+        text,
+        isList: child.tag === "ul" || child.tag === "ol",
+      });
+  }
+  flush();
+
+  // Inside list items, nested lists hug the item text
+  return blocks
+    .map((b, idx) => {
+      if (idx === 0) return b.text;
+      const sep = tight && b.isList ? "\n" : "\n\n";
+      return sep + b.text;
+    })
+    .join("");
+}
+
+function prefixLines(text: string, first: string, rest: string): string {
+  return text
+    .split("\n")
+    .map((line, idx) => {
+      if (!line) return (idx === 0 ? first : rest).trimEnd();
+      return (idx === 0 ? first : rest) + line;
+    })
+    .join("\n");
+}
+
+function renderList(el: HtmlElement, ctx: RenderContext): string {
+  const ordered = el.tag === "ol";
+  let n = parseInt(el.attrs.start || "1", 10) || 1;
+  const items: string[] = [];
+
+  for (const child of el.children) {
+    if (child.type !== "element" || isHidden(child)) continue;
+    // Stray nested lists directly under <ul> belong to the previous item
+    if ((child.tag === "ul" || child.tag === "ol") && items.length > 0) {
+      const nested = renderList(child, ctx);
+      items[items.length - 1] += "\n" + prefixLines(nested, "  ", "  ");
+      continue;
+    }
+    if (child.tag !== "li") continue;
+    const marker = ordered ? `${n++}. ` : "- ";
+    const body = renderChildren(child.children, ctx, true);
+    items.push(prefixLines(body || "", marker, " ".repeat(marker.length)));
+  }
+
+  return items.join("\n");
+}
+
+function renderTable(el: HtmlElement, ctx: RenderContext): string {
+  const rows: HtmlElement[] = [];
+  const collectRows = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      if (child.tag === "tr") rows.push(child);
+      else if (["thead", "tbody", "tfoot"].includes(child.tag))
+        collectRows(child);
+    }
+  };
+  collectRows(el);
+  if (rows.length === 0) return "";
+
+  const matrix: string[][] = [];
+  let aligns: string[] = [];
+  rows.forEach((row, rowIdx) => {
+    const cells: string[] = [];
+    for (const cell of row.children) {
+      if (cell.type !== "element" || (cell.tag !== "td" && cell.tag !== "th"))
+        continue;
+      const text = tidyInline(
+        cell.children.map((c) => renderInline(c, ctx)).join(""),
+      )
+        .replace(/\|/g, "\\|")
+        .replace(/\n+/g, "<br>");
+      const span = parseInt(cell.attrs.colspan || "1", 10) || 1;
+      cells.push(text);
+      for (let s = 1; s < span; s++) cells.push("");
+      if (rowIdx === 0) {
+        const align = (
+          cell.attrs.align ||
+          (cell.attrs.style || "").match(/text-align:\s*(\w+)/)?.[1] ||
+          ""
+        ).toLowerCase();
+        aligns.push(align);
+        for (let s = 1; s < span; s++) aligns.push("");
+      }
+    }
+    matrix.push(cells);
+  });
+
+  const width = Math.max(...matrix.map((r) => r.length));
+  if (width === 0) return "";
+  aligns = Array.from({ length: width }, (_, i) => aligns[i] || "");
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const separator = `| ${aligns
+    .map((a) =>
+      a === "center"
+        ? ":---:"
+        : a === "right"
+          ? "---:"
+          : a === "left"
+            ? ":---"
+            : "---",
+    )
+    .join(" | ")} |`;
+
+  return [line(matrix[0]), separator, ...matrix.slice(1).map(line)].join("\n");
+}
+
+function renderCode(el: HtmlElement, ctx: RenderContext): string {
+  const codeEl = el.children.find(
+    (c): c is HtmlElement => c.type === "element" && c.tag === "code",
+  );
+  const lang =
+    (codeEl && codeLanguage(codeEl)) || codeLanguage(el) || ctx.lang || "";
+  const text = rawText(codeEl || el)
+    .replace(/^\n/, "")
+    .replace(/\s+$/, "");
+  const fence = backtickFence(text, 3);
+  return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function renderBlock(el: HtmlElement, parentCtx: RenderContext): string {
+  if (isSkipped(el, parentCtx)) return "";
+
+  const lang = codeLanguage(el);
+  let ctx = lang && el.tag !== "code" ? { ...parentCtx, lang } : parentCtx;
+  const sectioning = el.tag === "section" || el.tag === "aside";
+  if (!ctx.inContent && (sectioning || isContentRoot(el)))
+    ctx = { ...ctx, inContent: true };
+
+  const admonition = admonitionType(el);
+  if (admonition) {
+    // Prefer the page's own title unless it just repeats the type
+    const titleEl = findFirst(el, isAdmonitionTitle);
+    const title = titleEl
+      ? tidyInline(renderInline(titleEl, ctx)).replace(/\n+/g, " ")
+      : "";
+    const label =
+      title && title.toLowerCase() !== admonition
+        ? title
+        : admonition.charAt(0).toUpperCase() + admonition.slice(1);
+    const content = titleEl ? withoutNode(el, titleEl) : el;
+    const body = renderChildren(content.children, ctx);
+    return prefixLines(`**${label}**\n\n${body}`, "> ", "> ");
+  }
+
+  switch (el.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = tidyInline(
+        el.children.map((c) => renderInline(c, ctx)).join(""),
+      ).replace(/\n+/g, " ");
+      return text ? `${"#".repeat(Number(el.tag[1]))} ${text}` : "";
+    }
+    case "p":
+      return tidyInline(el.children.map((c) => renderInline(c, ctx)).join(""));
+    case "pre":
+      return renderCode(el, ctx);
+    case "ul":
+    case "ol":
+      return renderList(el, ctx);
+    case "table":
+      return renderTable(el, ctx);
+    case "hr":
+      return "---";
+    case "blockquote":
+      return prefixLines(renderChildren(el.children, ctx), "> ", "> ");
+    case "dt":
+      return `**${tidyInline(el.children.map((c) => renderInline(c, ctx)).join(""))}**`;
+    case "dd":
+      return prefixLines(renderChildren(el.children, ctx), ": ", "  ");
+    case "summary":
+      return `**${tidyInline(el.children.map((c) => renderInline(c, ctx)).join(""))}**`;
+    default:
+      return renderChildren(el.children, ctx);
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Convert a documentation page to Markdown. Only the main content area is
+ * rendered when one can be found (<article>, then <main> or role="main",
+ * then Mintlify's content area, then <body>).
+ * Relative links and images are resolved against `baseUrl`.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const root = parseHtml(html);
+  const content =
+    findFirst(root, (el) => el.tag === "article") ||
+    findFirst(root, (el) => el.tag === "main") ||
+    findFirst(root, (el) => el.attrs.role === "main") ||
+    findFirst(root, (el) => el.attrs.id === "content-area") ||
+    findFirst(root, (el) => el.tag === "body") ||
+    root;
+
+  return renderChildren(content.children, {
+    baseUrl,
+    inContent: isContentRoot(content),
+  })
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,301 @@
+/**
+ * JSON Schema — Parameter schemas for generated tools.
+ *
+ * Generated tools declare their parameters as JSON Schema (the subset OpenClaw
+ * tool parameters use: types, enums, nested objects, arrays with `items`,
+ * defaults, numeric and string bounds, formats and combinators). Schemas are
+ * checked for shape when an extension is written, and the generated code
+ * carries a small validator that checks inputs (and fills in defaults) before
+ * each tool's `execute` body runs.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type JsonSchemaType =
+  "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Combinators
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+const TYPES = new Set<string>([
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+]);
+
+const NUMBER_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+];
+
+// ── Definition Check ─────────────────────────────────────────────────────────
+
+/**
+ * Problems with a schema itself (unknown types, malformed keywords, required
+ * keys that aren't declared, patterns that don't compile). Empty when valid.
+ */
+export function checkSchemaDefinition(schema: unknown, path: string): string[] {
+  const problems: string[] = [];
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return [`${path}: schema must be an object`];
+  }
+  const s = schema as JsonSchema;
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    for (const t of types) {
+      if (!TYPES.has(t)) problems.push(`${path}: unknown type "${t}"`);
+    }
+  }
+  if (s.enum !== undefined && (!Array.isArray(s.enum) || s.enum.length === 0)) {
+    problems.push(`${path}: enum must be a non-empty array`);
+  }
+  for (const key of NUMBER_KEYWORDS) {
+    if (s[key] !== undefined && typeof s[key] !== "number") {
+      problems.push(`${path}: ${key} must be a number`);
+    }
+  }
+  if (s.pattern !== undefined) {
+    try {
+      new RegExp(s.pattern, "u");
+    } catch (err: any) {
+      problems.push(`${path}: invalid pattern (${err.message})`);
+    }
+  }
+
+  if (s.properties !== undefined) {
+    if (typeof s.properties !== "object" || Array.isArray(s.properties)) {
+      problems.push(`${path}: properties must be an object`);
+    } else {
+      for (const [key, sub] of Object.entries(s.properties)) {
+        problems.push(...checkSchemaDefinition(sub, `${path}.${key}`));
+      }
+    }
+  }
+  if (s.required !== undefined) {
+    if (!Array.isArray(s.required)) {
+      problems.push(`${path}: required must be an array`);
+    } else {
+      for (const key of s.required) {
+        if (!s.properties || !(key in s.properties)) {
+          problems.push(`${path}: requires "${key}" but does not declare it`);
+        }
+      }
+    }
+  }
+  if (
+    typeof s.additionalProperties === "object" &&
+    s.additionalProperties !== null
+  ) {
+    problems.push(
+      ...checkSchemaDefinition(
+        s.additionalProperties,
+        `${path}.additionalProperties`,
+      ),
+    );
+  }
+  if (s.items !== undefined) {
+    problems.push(...checkSchemaDefinition(s.items, `${path}[]`));
+  }
+  for (const key of ["anyOf", "oneOf", "allOf"] as const) {
+    const list = s[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.length === 0) {
+      problems.push(`${path}: ${key} must be a non-empty array`);
+      continue;
+    }
+    list.forEach((sub, i) =>
+      problems.push(...checkSchemaDefinition(sub, `${path}.${key}[${i}]`)),
+    );
+  }
+  return problems;
+}
+
+// ── Runtime Validator ────────────────────────────────────────────────────────
+
+/**
+ * Source of the validator emitted into generated extensions. Generated code
+ * can't import from foundry, so it carries its own copy. `validateParams`
+ * returns the input with defaults applied plus a list of errors.
+ */
+export const PARAMS_VALIDATOR_SOURCE = `// ── Parameter validation (generated) ──
+
+const PARAM_FORMATS: Record<string, RegExp> = {
+  "date-time": /^\\d{4}-\\d{2}-\\d{2}[Tt ]\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?([Zz]|[+-]\\d{2}:\\d{2})$/,
+  date: /^\\d{4}-\\d{2}-\\d{2}$/,
+  email: /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\\s]+$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+};
+
+function paramTypeOf(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function sameParamValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function applyParamDefaults(schema: any, value: any): any {
+  if (!schema || typeof schema !== "object") return value;
+  if (value === undefined && schema.default !== undefined) {
+    return JSON.parse(JSON.stringify(schema.default));
+  }
+  if (paramTypeOf(value) === "object" && schema.properties) {
+    const out: any = { ...value };
+    for (const [key, sub] of Object.entries<any>(schema.properties)) {
+      const filled = applyParamDefaults(sub, out[key]);
+      if (filled !== undefined) out[key] = filled;
+    }
+    return out;
+  }
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item: any) => applyParamDefaults(schema.items, item));
+  }
+  return value;
+}
+
+function checkParam(schema: any, value: any, path: string, errors: string[]): void {
+  if (!schema || typeof schema !== "object") return;
+  const actual = paramTypeOf(value);
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const ok = types.some((t) => t === actual || (t === "number" && actual === "integer"));
+    if (!ok) {
+      errors.push(\`\${path}: expected \${types.join(" | ")}, got \${actual}\`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => sameParamValue(e, value))) {
+    errors.push(\`\${path}: must be one of \${schema.enum.map((e: any) => JSON.stringify(e)).join(", ")}\`);
+  }
+  if ("const" in schema && !sameParamValue(schema.const, value)) {
+    errors.push(\`\${path}: must equal \${JSON.stringify(schema.const)}\`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(\`\${path}: must be at least \${schema.minLength} characters\`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(\`\${path}: must be at most \${schema.maxLength} characters\`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(\`\${path}: must match /\${schema.pattern}/\`);
+    }
+    const format = PARAM_FORMATS[schema.format];
+    if (format && !format.test(value)) {
+      errors.push(\`\${path}: must be a valid \${schema.format}\`);
+    }
+  }
+
+  if (typeof value === "number") {
+    const exMin = schema.exclusiveMinimum;
+    const exMax = schema.exclusiveMaximum;
+    if (schema.minimum !== undefined && (exMin === true ? value <= schema.minimum : value < schema.minimum)) {
+      errors.push(\`\${path}: must be \${exMin === true ? ">" : ">="} \${schema.minimum}\`);
+    }
+    if (schema.maximum !== undefined && (exMax === true ? value >= schema.maximum : value > schema.maximum)) {
+      errors.push(\`\${path}: must be \${exMax === true ? "<" : "<="} \${schema.maximum}\`);
+    }
+    if (typeof exMin === "number" && value <= exMin) errors.push(\`\${path}: must be > \${exMin}\`);
+    if (typeof exMax === "number" && value >= exMax) errors.push(\`\${path}: must be < \${exMax}\`);
+    if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+      errors.push(\`\${path}: must be a multiple of \${schema.multipleOf}\`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(\`\${path}: must have at least \${schema.minItems} items\`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(\`\${path}: must have at most \${schema.maxItems} items\`);
+    }
+    if (schema.uniqueItems && new Set(value.map((v: any) => JSON.stringify(v))).size !== value.length) {
+      errors.push(\`\${path}: items must be unique\`);
+    }
+    if (schema.items) {
+      value.forEach((item: any, i: number) => checkParam(schema.items, item, \`\${path}[\${i}]\`, errors));
+    }
+  }
+
+  if (actual === "object") {
+    const props = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push(\`\${path}.\${key}: is required\`);
+    }
+    for (const [key, sub] of Object.entries<any>(value)) {
+      if (key in props) checkParam(props[key], sub, \`\${path}.\${key}\`, errors);
+      else if (schema.additionalProperties === false) errors.push(\`\${path}.\${key}: is not allowed\`);
+      else if (typeof schema.additionalProperties === "object") {
+        checkParam(schema.additionalProperties, sub, \`\${path}.\${key}\`, errors);
+      }
+    }
+  }
+
+  const branchErrors = (sub: any) => {
+    const errs: string[] = [];
+    checkParam(sub, value, path, errs);
+    return errs;
+  };
+  for (const sub of schema.allOf || []) errors.push(...branchErrors(sub));
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: any) => branchErrors(sub).length === 0)) {
+    errors.push(\`\${path}: must match at least one allowed schema\`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub: any) => branchErrors(sub).length === 0).length;
+    if (matches !== 1) errors.push(\`\${path}: must match exactly one allowed schema (matched \${matches})\`);
+  }
+}
+
+function validateParams(schema: any, params: unknown): { value: any; errors: string[] } {
+  const value = applyParamDefaults(schema, params ?? {});
+  const errors: string[] = [];
+  checkParam(schema, value, "params", errors);
+  return { value, errors };
+}
+`;
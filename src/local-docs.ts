@@ -0,0 +1,292 @@
+/**
+ * Local Docs — Index of the documentation shipped with an OpenClaw install.
+ *
+ * Walks `openclawPath/docs` for Markdown pages and the rest of the install for
+ * type declaration files (`*.d.ts`), and indexes both into heading-delimited
+ * sections. This is the offline source of truth: `foundry_docs` browses and
+ * searches it, and DocsFetcher falls back to it when a docs host is unreachable.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, join, relative, sep } from "node:path";
+import {
+  SectionIndex,
+  splitSections,
+  headingAnchor,
+  type DocSection,
+  type SectionHit,
+  type SectionSearchOptions,
+} from "./docs-search.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface LocalDocPage {
+  name: string; // "tools/plugin" for docs, install-relative path for .d.ts
+  file: string; // Absolute path
+  kind: "doc" | "types";
+  title: string;
+  content: string; // Markdown (declarations are wrapped in fenced blocks)
+}
+
+const DOC_EXTENSIONS = [".md", ".mdx"];
+const SKIP_DIRS = new Set(["node_modules", ".git", "docs", "test", "tests"]);
+const MAX_DECLARATION_FILES = 400;
+const MAX_FILE_BYTES = 512 * 1024;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function walk(
+  dir: string,
+  accept: (file: string) => boolean,
+  skipDirs: Set<string>,
+  out: string[],
+  limit = Infinity,
+): void {
+  let names: string[];
+  try {
+    names = readdirSync(dir).sort();
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    if (out.length >= limit) return;
+    const full = join(dir, name);
+    let stat;
+    try {
+      stat = statSync(full);
+    } catch {
+      continue;
+    }
+    if (stat.isDirectory()) {
+      if (!skipDirs.has(name) && !name.startsWith("."))
+        walk(full, accept, skipDirs, out, limit);
+    } else if (accept(name) && stat.size <= MAX_FILE_BYTES) {
+      out.push(full);
+    }
+  }
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+function stripFrontmatter(text: string): { body: string; title?: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { body: text };
+  const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+  return { body: text.slice(match[0].length), title };
+}
+
+/**
+ * Render a declaration file as Markdown with one section per top-level export,
+ * so search returns the relevant interface instead of the whole file.
+ */
+export function declarationsToMarkdown(name: string, source: string): string {
+  const chunks: { heading: string; lines: string[] }[] = [
+    { heading: "", lines: [] },
+  ];
+  const declRe =
+    /^(?:export\s+)?(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(interface|type|class|function|const|let|enum|namespace|module)\s+([\w$.]+|"[^"]+")/;
+
+  for (const line of source.split("\n")) {
+    const m = line.match(declRe);
+    if (m) chunks.push({ heading: `${m[1]} ${m[2]}`, lines: [] });
+    chunks[chunks.length - 1].lines.push(line);
+  }
+
+  let md = `# ${name}\n\n`;
+  for (const chunk of chunks) {
+    const code = chunk.lines.join("\n").trim();
+    if (!code) continue;
+    if (chunk.heading) md += `## ${chunk.heading}\n\n`;
+    md += "```ts\n" + code + "\n```\n\n";
+  }
+  return md.trim();
+}
+
+// ── Index ────────────────────────────────────────────────────────────────────
+
+export class LocalDocs {
+  private pagesByName: Map<string, LocalDocPage> = new Map();
+  private index = new SectionIndex();
+
+  constructor(private rootDir: string) {}
+
+  get docsDir(): string {
+    return join(this.rootDir, "docs");
+  }
+
+  /**
+   * (Re)load every doc page and declaration file from disk.
+   */
+  load(): { docs: number; types: number } {
+    this.pagesByName.clear();
+    this.index = new SectionIndex();
+    let docs = 0;
+    let types = 0;
+
+    const docFiles: string[] = [];
+    if (existsSync(this.docsDir)) {
+      walk(
+        this.docsDir,
+        (f) => DOC_EXTENSIONS.some((ext) => f.endsWith(ext)),
+        new Set(["node_modules"]),
+        docFiles,
+      );
+    }
+    for (const file of docFiles) {
+      const raw = this.read(file);
+      if (raw === undefined) continue;
+      const { body, title } = stripFrontmatter(raw);
+      const name = toPosix(relative(this.docsDir, file)).replace(
+        /\.(md|mdx)$/,
+        "",
+      );
+      this.add({
+        name,
+        file,
+        kind: "doc",
+        title: title || body.match(/^#\s+(.+)$/m)?.[1].trim() || basename(name),
+        content: body.trim(),
+      });
+      docs++;
+    }
+
+    const declFiles: string[] = [];
+    if (existsSync(this.rootDir)) {
+      walk(
+        this.rootDir,
+        (f) => f.endsWith(".d.ts"),
+        SKIP_DIRS,
+        declFiles,
+        MAX_DECLARATION_FILES,
+      );
+    }
+    for (const file of declFiles) {
+      const raw = this.read(file);
+      if (raw === undefined) continue;
+      const name = toPosix(relative(this.rootDir, file));
+      this.add({
+        name,
+        file,
+        kind: "types",
+        title: name,
+        content: declarationsToMarkdown(name, raw),
+      });
+      types++;
+    }
+
+    return { docs, types };
+  }
+
+  private read(file: string): string | undefined {
+    try {
+      return readFileSync(file, "utf-8");
+    } catch {
+      return undefined;
+    }
+  }
+
+  private add(page: LocalDocPage): void {
+    this.pagesByName.set(page.name, page);
+    this.index.addPage(page.file, page.content);
+  }
+
+  size(): number {
+    return this.pagesByName.size;
+  }
+
+  pages(kind?: LocalDocPage["kind"]): LocalDocPage[] {
+    return [...this.pagesByName.values()]
+      .filter((p) => !kind || p.kind === kind)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look up a page by name ("tools/plugin"), file path ("docs/plugin.md") or
+   * bare file name ("plugin"). Shorter paths win when a bare name is ambiguous.
+   */
+  getPage(name: string): LocalDocPage | undefined {
+    const key = name
+      .trim()
+      .replace(/^\/+/, "")
+      .replace(/^docs\//, "")
+      .replace(/\.(md|mdx)$/, "");
+    const exact =
+      this.pagesByName.get(key) || this.pagesByName.get(`${key}/index`);
+    if (exact) return exact;
+    return this.pages()
+      .filter(
+        (p) =>
+          basename(p.name) === key ||
+          basename(p.name).replace(/\.d\.ts$/, "") === key,
+      )
+      .sort((a, b) => a.name.length - b.name.length)[0];
+  }
+
+  getByFile(file: string): LocalDocPage | undefined {
+    return this.pages().find((p) => p.file === file);
+  }
+
+  /**
+   * Local page mirroring a docs-site URL (e.g. https://docs.openclaw.ai/tools/plugin).
+   */
+  findForUrl(url: string): LocalDocPage | undefined {
+    let path: string;
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      path = url;
+    }
+    path = path.replace(/\.(md|mdx)$/, "").replace(/\/+$/, "");
+    if (!path) return this.pagesByName.get("index");
+    // Local trees are sometimes flatter than the site ("/tools/plugin" → "plugin")
+    const page =
+      this.getPage(path) || this.getPage(path.split("/").pop() || path);
+    return page?.kind === "doc" ? page : undefined;
+  }
+
+  /**
+   * Sections whose heading (or anchor) matches, optionally within one page.
+   * Each result includes its subsections.
+   */
+  getSections(heading: string, pageName?: string): DocSection[] {
+    const pages = pageName
+      ? [this.getPage(pageName)].filter((p): p is LocalDocPage => !!p)
+      : this.pages();
+    const wanted = headingAnchor(heading);
+    const results: DocSection[] = [];
+    for (const page of pages) {
+      const sections = splitSections(page.content, page.file);
+      sections.forEach((section, i) => {
+        if (
+          !section.heading ||
+          (section.anchor !== wanted &&
+            section.heading.toLowerCase() !== heading.toLowerCase())
+        )
+          return;
+        const parts = [section.text];
+        for (let j = i + 1; j < sections.length; j++) {
+          if (sections[j].headingPath.length <= section.headingPath.length)
+            break;
+          parts.push(sections[j].text);
+        }
+        results.push({ ...section, text: parts.join("\n\n") });
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Headings of a page, for a table of contents.
+   */
+  outline(pageName: string): DocSection[] {
+    const page = this.getPage(pageName);
+    if (!page) return [];
+    return splitSections(page.content, page.file).filter((s) => s.heading);
+  }
+
+  search(query: string, opts: SectionSearchOptions = {}): SectionHit[] {
+    return this.index.search(query, opts);
+  }
+}
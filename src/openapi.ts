@@ -0,0 +1,582 @@
+/**
+ * OpenAPI — Import OpenAPI 3.x / Swagger 2.0 documents as API skill endpoints.
+ *
+ * A document (file path, inline JSON/YAML text or parsed object) is reduced to
+ * what the API emitter needs: servers, auth schemes, tags and one endpoint
+ * per operation with its path/query/header parameters, request body and
+ * success response schema. Local `$ref`s are inlined (recursive schemas are
+ * cut off); anything that can't be represented is reported as a warning
+ * instead of failing the import.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import type {
+  ApiAuthSchemeDef,
+  ApiBodyDef,
+  ApiEndpointDef,
+  ApiOAuthFlowDef,
+  ApiParamDef,
+  ApiResponseDef,
+  ApiServerDef,
+  ApiTagDef,
+} from "./api-emitter.js";
+import type { JsonSchema } from "./json-schema.js";
+import { parseYaml } from "./yaml.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface OpenApiImport {
+  title: string;
+  version: string; // API version from info.version
+  specVersion: string; // "3.0.3", "2.0", ...
+  description?: string;
+  servers: ApiServerDef[];
+  authSchemes: ApiAuthSchemeDef[];
+  security?: string[];
+  tags: ApiTagDef[];
+  endpoints: ApiEndpointDef[];
+  warnings: string[];
+}
+
+export interface OpenApiImportOptions {
+  tags?: string[]; // Only operations with one of these tags
+}
+
+const METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+const MAX_REF_DEPTH = 32;
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a document given as an object, inline JSON or YAML text, or a path to
+ * a .json/.yaml/.yml file.
+ */
+export function loadOpenApiDocument(source: unknown): Record<string, any> {
+  let doc: unknown = source;
+  if (typeof source === "string") {
+    const text = source.trim();
+    if (text.startsWith("{")) {
+      doc = JSON.parse(text);
+    } else if (/^(openapi|swagger)\s*:/m.test(text) && text.includes("\n")) {
+      doc = parseYaml(text);
+    } else {
+      const path = resolve(text.replace(/^~(?=$|\/)/, homedir()));
+      if (!existsSync(path)) {
+        throw new Error(`OpenAPI document not found: ${path}`);
+      }
+      const content = readFileSync(path, "utf-8");
+      doc =
+        /\.json$/i.test(path) || content.trimStart().startsWith("{")
+          ? JSON.parse(content)
+          : parseYaml(content);
+    }
+  }
+  if (typeof doc !== "object" || doc === null || Array.isArray(doc)) {
+    throw new Error("OpenAPI document must be an object");
+  }
+  const version = (doc as any).openapi ?? (doc as any).swagger;
+  if (!version) {
+    throw new Error(
+      'Not an OpenAPI document: expected an "openapi" (3.x) or "swagger" (2.0) field',
+    );
+  }
+  return doc as Record<string, any>;
+}
+
+// ── References ───────────────────────────────────────────────────────────────
+
+class RefResolver {
+  constructor(
+    private doc: Record<string, any>,
+    private warnings: string[],
+  ) {}
+
+  /**
+   * Target of a local JSON pointer ref, or undefined (with a warning).
+   */
+  lookup(ref: string): any {
+    if (!ref.startsWith("#/")) {
+      this.warn(`External $ref "${ref}" is not supported`);
+      return undefined;
+    }
+    let node: any = this.doc;
+    for (const raw of ref.slice(2).split("/")) {
+      const key = decodeURIComponent(raw)
+        .replace(/~1/g, "/")
+        .replace(/~0/g, "~");
+      node = node?.[key];
+    }
+    if (node === undefined) this.warn(`Unresolved $ref "${ref}"`);
+    return node;
+  }
+
+  /**
+   * Follow a chain of refs (parameters, bodies, responses, schemes).
+   */
+  deref(node: any): any {
+    for (let i = 0; node && typeof node.$ref === "string"; i++) {
+      if (i > MAX_REF_DEPTH) return undefined;
+      node = this.lookup(node.$ref);
+    }
+    return node;
+  }
+
+  /**
+   * Schema with refs inlined. A ref back to a schema being expanded is
+   * replaced by an untyped schema that names it.
+   */
+  schema(node: any, stack: string[] = []): JsonSchema | undefined {
+    if (node === undefined || node === null) return undefined;
+    if (typeof node !== "object") return undefined;
+    if (Array.isArray(node)) return undefined;
+    if (typeof node.$ref === "string") {
+      const ref = node.$ref as string;
+      if (stack.includes(ref) || stack.length > MAX_REF_DEPTH) {
+        return {
+          description: `Recursive reference to ${ref.split("/").pop()}`,
+        };
+      }
+      const target = this.lookup(ref);
+      return target === undefined ? {} : this.schema(target, [...stack, ref]);
+    }
+
+    const out: JsonSchema = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (key === "properties" && value && typeof value === "object") {
+        out.properties = Object.fromEntries(
+          Object.entries(value).map(([k, v]) => [
+            k,
+            this.schema(v, stack) || {},
+          ]),
+        );
+      } else if (
+        (key === "items" || key === "additionalProperties" || key === "not") &&
+        value &&
+        typeof value === "object"
+      ) {
+        out[key] = this.schema(value, stack);
+      } else if (
+        (key === "allOf" || key === "anyOf" || key === "oneOf") &&
+        Array.isArray(value)
+      ) {
+        out[key] = value.map((v) => this.schema(v, stack) || {});
+      } else if (key !== "nullable" && !key.startsWith("x-")) {
+        out[key] = value;
+      }
+    }
+    // OpenAPI 3.0 `nullable` → JSON Schema type union
+    if (node.nullable === true && typeof out.type === "string") {
+      out.type = [out.type, "null"];
+    }
+    return out;
+  }
+
+  warn(message: string): void {
+    if (!this.warnings.includes(message)) this.warnings.push(message);
+  }
+}
+
+// ── Conversion ───────────────────────────────────────────────────────────────
+
+function text(...values: unknown[]): string {
+  for (const v of values) {
+    if (typeof v === "string" && v.trim()) return v.trim();
+  }
+  return "";
+}
+
+/**
+ * First requirement's scheme names per alternative (AND-combined schemes
+ * beyond the first aren't represented).
+ */
+function securityNames(requirements: unknown): string[] | undefined {
+  if (!Array.isArray(requirements)) return undefined;
+  const names: string[] = [];
+  for (const req of requirements) {
+    const first =
+      req && typeof req === "object" ? Object.keys(req)[0] : undefined;
+    if (first && !names.includes(first)) names.push(first);
+  }
+  return names;
+}
+
+function pickContent(
+  content: Record<string, any> | undefined,
+): [string, any] | undefined {
+  const entries = Object.entries(content || {});
+  return (
+    entries.find(([type]) => /^application\/([\w.+-]+\+)?json/i.test(type)) ||
+    entries[0]
+  );
+}
+
+/**
+ * Server URLs with `{variable}` placeholders filled in from their defaults.
+ */
+function convertServers(
+  doc: Record<string, any>,
+  warnings: string[],
+): ApiServerDef[] {
+  if (doc.swagger) {
+    if (!doc.host) return [];
+    // https first: it becomes the default server
+    const schemes: string[] = doc.schemes?.length
+      ? [...doc.schemes].sort(
+          (a, b) => Number(b === "https") - Number(a === "https"),
+        )
+      : ["https"];
+    const basePath = (doc.basePath || "").replace(/\/$/, "");
+    return schemes.map((scheme) => ({
+      url: `${scheme}://${doc.host}${basePath}`,
+    }));
+  }
+  return (doc.servers || [])
+    .filter((s: any) => s && typeof s.url === "string")
+    .map((s: any) => {
+      const url = s.url.replace(
+        /\{([^}]+)\}/g,
+        (match: string, name: string) => {
+          const value = s.variables?.[name]?.default;
+          if (value === undefined) {
+            warnings.push(
+              `Server variable {${name}} in ${s.url} has no default`,
+            );
+            return match;
+          }
+          return String(value);
+        },
+      );
+      return {
+        url: url.replace(/\/$/, ""),
+        ...(s.description ? { description: String(s.description) } : {}),
+      };
+    });
+}
+
+function convertAuthSchemes(
+  doc: Record<string, any>,
+  refs: RefResolver,
+): ApiAuthSchemeDef[] {
+  const defs = doc.swagger
+    ? doc.securityDefinitions || {}
+    : doc.components?.securitySchemes || {};
+  const out: ApiAuthSchemeDef[] = [];
+  for (const [name, raw] of Object.entries<any>(defs)) {
+    const s = refs.deref(raw);
+    if (!s || typeof s !== "object") continue;
+    const description = text(s.description) || undefined;
+    if (s.type === "apiKey") {
+      out.push({
+        name,
+        type: "apiKey",
+        in: s.in || "header",
+        paramName: s.name,
+        description,
+      });
+    } else if (s.type === "http" || s.type === "basic") {
+      out.push({
+        name,
+        type: "http",
+        scheme: (s.scheme || "basic").toLowerCase(),
+        description,
+      });
+    } else if (s.type === "oauth2") {
+      const flows = oauthFlows(s);
+      out.push({
+        name,
+        type: "oauth2",
+        ...(Object.keys(flows).length > 0 ? { flows } : {}),
+        description,
+      });
+    } else if (s.type === "openIdConnect") {
+      out.push({ name, type: s.type, description });
+    } else {
+      refs.warn(`Auth scheme "${name}" has unsupported type "${s.type}"`);
+    }
+  }
+  return out;
+}
+
+/**
+ * The client-credentials and authorization-code flows of an oauth2 scheme.
+ * Swagger 2.0 declares one flow inline ("application" / "accessCode").
+ */
+function oauthFlows(s: any): NonNullable<ApiAuthSchemeDef["flows"]> {
+  const flow = (f: any): ApiOAuthFlowDef | undefined =>
+    f && typeof f === "object"
+      ? {
+          ...(f.authorizationUrl
+            ? { authorizationUrl: String(f.authorizationUrl) }
+            : {}),
+          ...(f.tokenUrl ? { tokenUrl: String(f.tokenUrl) } : {}),
+          ...(f.refreshUrl ? { refreshUrl: String(f.refreshUrl) } : {}),
+          scopes: Object.keys(f.scopes || {}),
+        }
+      : undefined;
+  const flows = s.flows
+    ? {
+        clientCredentials: flow(s.flows.clientCredentials),
+        authorizationCode: flow(s.flows.authorizationCode),
+      }
+    : {
+        clientCredentials: s.flow === "application" ? flow(s) : undefined,
+        authorizationCode: s.flow === "accessCode" ? flow(s) : undefined,
+      };
+  return Object.fromEntries(
+    Object.entries(flows).filter(([, f]) => f !== undefined),
+  );
+}
+
+/**
+ * Swagger 2.0 parameters carry their schema keywords inline.
+ */
+function swaggerParamSchema(p: any, refs: RefResolver): JsonSchema | undefined {
+  if (p.schema) return refs.schema(p.schema);
+  const {
+    name: _n,
+    in: _i,
+    required: _r,
+    description: _d,
+    collectionFormat: _c,
+    allowEmptyValue: _a,
+    ...schema
+  } = p;
+  return refs.schema(schema);
+}
+
+function convertOperation(
+  doc: Record<string, any>,
+  refs: RefResolver,
+  path: string,
+  method: string,
+  op: any,
+  pathParams: any[],
+): ApiEndpointDef {
+  const swagger = Boolean(doc.swagger);
+  const where = `${method.toUpperCase()} ${path}`;
+
+  // Path-level parameters apply unless the operation overrides them
+  const merged = new Map<string, any>();
+  for (const raw of [...pathParams, ...(op.parameters || [])]) {
+    const p = refs.deref(raw);
+    if (p && typeof p === "object" && p.name && p.in)
+      merged.set(`${p.in}:${p.name}`, p);
+  }
+
+  const parameters: ApiParamDef[] = [];
+  let body: ApiBodyDef | undefined;
+  const formFields: Record<string, JsonSchema> = {};
+  const formRequired: string[] = [];
+  for (const p of merged.values()) {
+    if (p.in === "body") {
+      body = {
+        contentType: (op.consumes || doc.consumes || ["application/json"])[0],
+        required: Boolean(p.required),
+        description: text(p.description) || undefined,
+        schema: refs.schema(p.schema),
+      };
+      continue;
+    }
+    if (p.in === "formData") {
+      formFields[p.name] = swaggerParamSchema(p, refs) || {};
+      if (p.required) formRequired.push(p.name);
+      continue;
+    }
+    if (p.in === "cookie") {
+      refs.warn(`${where}: cookie parameter "${p.name}" is not supported`);
+      continue;
+    }
+    if (parameters.some((q) => q.name === p.name)) {
+      refs.warn(
+        `${where}: parameter "${p.name}" appears in several locations; only the ${parameters.find((q) => q.name === p.name)!.in} one is used`,
+      );
+      continue;
+    }
+    parameters.push({
+      name: p.name,
+      in: p.in,
+      required: p.in === "path" ? true : Boolean(p.required),
+      ...(text(p.description) ? { description: text(p.description) } : {}),
+      schema: swagger ? swaggerParamSchema(p, refs) : refs.schema(p.schema),
+    });
+  }
+  if (Object.keys(formFields).length > 0) {
+    const consumes: string[] = op.consumes || doc.consumes || [];
+    body = {
+      contentType:
+        consumes.find((c) => c.includes("form")) ||
+        "application/x-www-form-urlencoded",
+      required: formRequired.length > 0,
+      schema: {
+        type: "object",
+        properties: formFields,
+        required: formRequired,
+      },
+    };
+  }
+
+  if (!swagger && op.requestBody) {
+    const rb = refs.deref(op.requestBody);
+    const picked = pickContent(rb?.content);
+    if (picked) {
+      body = {
+        contentType: picked[0],
+        required: Boolean(rb.required),
+        description: text(rb.description) || undefined,
+        schema: refs.schema(picked[1]?.schema),
+      };
+    }
+  }
+
+  const response = convertResponse(doc, refs, op);
+  const security = securityNames(op.security);
+  return {
+    method: method.toUpperCase(),
+    path,
+    description: text(op.summary, op.description),
+    ...(op.operationId ? { operationId: String(op.operationId) } : {}),
+    ...(Array.isArray(op.tags) && op.tags.length > 0
+      ? { tags: op.tags.map(String) }
+      : {}),
+    parameters,
+    ...(body ? { body } : {}),
+    ...(response ? { response } : {}),
+    ...(security ? { security } : {}),
+    ...(op.deprecated ? { deprecated: true } : {}),
+  };
+}
+
+/**
+ * The first success response (2xx, then 2XX, then default) and its schema.
+ */
+function convertResponse(
+  doc: Record<string, any>,
+  refs: RefResolver,
+  op: any,
+): ApiResponseDef | undefined {
+  const responses = op.responses || {};
+  const status =
+    Object.keys(responses)
+      .filter((s) => /^2\d\d$/.test(s))
+      .sort()[0] ||
+    Object.keys(responses).find((s) => /^2XX$/i.test(s)) ||
+    (responses.default ? "default" : undefined);
+  if (!status) return undefined;
+  const res = refs.deref(responses[status]);
+  if (!res) return undefined;
+
+  if (doc.swagger) {
+    return {
+      status,
+      ...(text(res.description) ? { description: text(res.description) } : {}),
+      ...(res.schema
+        ? {
+            contentType: (op.produces ||
+              doc.produces || ["application/json"])[0],
+            schema: refs.schema(res.schema),
+          }
+        : {}),
+    };
+  }
+  const picked = pickContent(res.content);
+  return {
+    status,
+    ...(text(res.description) ? { description: text(res.description) } : {}),
+    ...(picked
+      ? { contentType: picked[0], schema: refs.schema(picked[1]?.schema) }
+      : {}),
+  };
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Endpoints, servers, auth schemes and tags of an OpenAPI 3.x or Swagger 2.0
+ * document.
+ */
+export function importOpenApi(
+  source: unknown,
+  options: OpenApiImportOptions = {},
+): OpenApiImport {
+  const doc = loadOpenApiDocument(source);
+  const warnings: string[] = [];
+  const refs = new RefResolver(doc, warnings);
+  const specVersion = String(doc.openapi ?? doc.swagger);
+  const security = securityNames(doc.security);
+  if (!/^(2\.0|3\.)/.test(specVersion)) {
+    warnings.push(
+      `Spec version ${specVersion} is untested; expected 2.0 or 3.x`,
+    );
+  }
+
+  const endpoints: ApiEndpointDef[] = [];
+  for (const [path, rawItem] of Object.entries<any>(doc.paths || {})) {
+    const item = refs.deref(rawItem);
+    if (!item || typeof item !== "object") continue;
+    for (const method of METHODS) {
+      const op = item[method];
+      if (!op || typeof op !== "object") continue;
+      const endpoint = convertOperation(
+        doc,
+        refs,
+        path,
+        method,
+        op,
+        item.parameters || [],
+      );
+      if (
+        options.tags?.length &&
+        !endpoint.tags?.some((t) => options.tags!.includes(t))
+      ) {
+        continue;
+      }
+      endpoints.push(endpoint);
+    }
+  }
+  if (endpoints.length === 0) {
+    throw new Error(
+      options.tags?.length
+        ? `No operations tagged ${options.tags.join(", ")} in the OpenAPI document`
+        : "The OpenAPI document has no operations",
+    );
+  }
+
+  // Declared tags first (with descriptions), then any only used on operations
+  const tags: ApiTagDef[] = (doc.tags || [])
+    .filter((t: any) => t?.name)
+    .map((t: any) => ({
+      name: String(t.name),
+      ...(text(t.description) ? { description: text(t.description) } : {}),
+    }));
+  for (const e of endpoints) {
+    for (const t of e.tags || []) {
+      if (!tags.some((d) => d.name === t)) tags.push({ name: t });
+    }
+  }
+
+  return {
+    title: text(doc.info?.title) || "API",
+    version: String(doc.info?.version ?? ""),
+    specVersion,
+    ...(text(doc.info?.description)
+      ? { description: text(doc.info.description) }
+      : {}),
+    servers: convertServers(doc, warnings),
+    authSchemes: convertAuthSchemes(doc, refs),
+    ...(security ? { security } : {}),
+    tags: tags.filter((t) => endpoints.some((e) => e.tags?.[0] === t.name)),
+    endpoints,
+    warnings,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Provenance — Lineage of generated artifacts.
+ *
+ * The tracker remembers what fed the agent's recent work: research and
+ * implement calls, learning patterns that were injected or viewed, and
+ * marketplace abilities that were installed. When an extension, tool, skill or
+ * hook is written, a snapshot of that trail (plus the doc sections consulted)
+ * is stored on its manifest entry so `foundry_explain` can show why it exists.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ProvenanceCall {
+  tool: string; // "foundry_research" | "foundry_implement"
+  input: string; // Query, topic or capability
+  at: string;
+}
+
+export interface Provenance {
+  recordedAt: string;
+  calls: ProvenanceCall[];
+  docUrls: string[]; // url or url#anchor of consulted sections
+  learningPatternIds: string[];
+  abilities: string[]; // Marketplace ability IDs
+}
+
+// ── Tracker ──────────────────────────────────────────────────────────────────
+
+export class ProvenanceTracker {
+  private calls: { tool: string; input: string; at: number }[] = [];
+  private patterns: Map<string, number> = new Map();
+  private abilities: Map<string, number> = new Map();
+
+  /**
+   * @param windowMs - How long a call or learning stays attributable to writes
+   */
+  constructor(private windowMs = 1000 * 60 * 30) {}
+
+  noteCall(tool: string, input: string): void {
+    this.calls.push({ tool, input, at: Date.now() });
+    // Keep the trail bounded; old entries fall out of the window anyway
+    if (this.calls.length > 50) this.calls.shift();
+  }
+
+  noteLearning(patternId: string): void {
+    this.patterns.set(patternId, Date.now());
+  }
+
+  noteAbility(abilityId: string): void {
+    this.abilities.set(abilityId, Date.now());
+  }
+
+  /**
+   * Snapshot of the recent trail for an artifact being written now.
+   */
+  capture(
+    docUrls: string[] = [],
+    extra: { learningPatternIds?: string[]; abilities?: string[] } = {},
+  ): Provenance {
+    const cutoff = Date.now() - this.windowMs;
+    const recent = (m: Map<string, number>) =>
+      [...m.entries()].filter(([, at]) => at >= cutoff).map(([id]) => id);
+
+    return {
+      recordedAt: new Date().toISOString(),
+      calls: this.calls
+        .filter((c) => c.at >= cutoff)
+        .map((c) => ({
+          tool: c.tool,
+          input: c.input,
+          at: new Date(c.at).toISOString(),
+        })),
+      docUrls: [...new Set(docUrls)],
+      learningPatternIds: [
+        ...new Set([
+          ...recent(this.patterns),
+          ...(extra.learningPatternIds || []),
+        ]),
+      ],
+      abilities: [
+        ...new Set([...recent(this.abilities), ...(extra.abilities || [])]),
+      ],
+    };
+  }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Markdown rendering of a provenance record.
+ */
+export function formatProvenance(p: Provenance | undefined): string {
+  if (!p)
+    return "No provenance recorded (written before provenance tracking).\n";
+
+  let output = `- **Recorded**: ${p.recordedAt}\n`;
+  if (p.calls.length > 0) {
+    output += `- **Calls**:\n`;
+    for (const c of p.calls) {
+      output += `  - \`${c.tool}\` "${c.input}" (${c.at})\n`;
+    }
+  }
+  if (p.docUrls.length > 0) {
+    output += `- **Docs**:\n`;
+    for (const url of p.docUrls) output += `  - ${url}\n`;
+  }
+  if (p.learningPatternIds.length > 0) {
+    output += `- **Learning patterns**: ${p.learningPatternIds.map((id) => `\`${id}\``).join(", ")}\n`;
+  }
+  if (p.abilities.length > 0) {
+    output += `- **Marketplace abilities**: ${p.abilities.map((id) => `\`${id}\``).join(", ")}\n`;
+  }
+  if (
+    p.calls.length === 0 &&
+    p.docUrls.length === 0 &&
+    p.learningPatternIds.length === 0 &&
+    p.abilities.length === 0
+  ) {
+    output += `- Written without prior research, learnings or marketplace input\n`;
+  }
+  return output;
+}
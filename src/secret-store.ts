@@ -0,0 +1,423 @@
+/**
+ * Secret Store — Encrypted credentials for generated skills and extensions.
+ *
+ * Secrets live in `<dataDir>/secrets.json`, each value encrypted with
+ * AES-256-GCM under a local master key (`<dataDir>/secrets.key`, created on
+ * first use with mode 0600, or `FOUNDRY_SECRETS_KEY` as base64). The secret's
+ * name is bound as additional authenticated data, so entries can't be swapped.
+ *
+ * Generated code never contains secret values: it references them by name
+ * (`{{secret:NAME}}` in skill auth headers, `secret("NAME")` in extension
+ * code) and decrypts them at runtime with the resolver `emitSecretRuntime`
+ * emits, so skill folders and extension packages stay safe to share.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface SecretEntry {
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+  data: string; // base64 ciphertext
+  version: number; // Bumped on every rotation
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SecretFile {
+  version: 1;
+  secrets: Record<string, SecretEntry>;
+}
+
+export interface SecretInfo {
+  name: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_.-]{0,127}$/;
+const KEY_ENV = "FOUNDRY_SECRETS_KEY";
+const DIR_ENV = "FOUNDRY_SECRETS_DIR";
+const DEFAULT_DIR = join(homedir(), ".openclaw", "foundry");
+
+/** `{{secret:NAME}}` — a secret reference inside a string value. */
+export const SECRET_REF = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+
+// ── Names ────────────────────────────────────────────────────────────────────
+
+export function validateSecretName(name: string): void {
+  if (typeof name !== "string" || !SECRET_NAME.test(name)) {
+    throw new Error(
+      `Invalid secret name "${name}": use letters, digits, "_", "." or "-" (e.g. GITHUB_TOKEN)`,
+    );
+  }
+}
+
+/**
+ * Conventional secret name from parts: `("petstore", "api-key")` →
+ * `PETSTORE_API_KEY`. Matches the env var generated clients also read.
+ */
+export function secretName(...parts: string[]): string {
+  return parts
+    .join("_")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+}
+
+export function secretRef(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * Names of the secrets a string references.
+ */
+export function referencedSecrets(text: string): string[] {
+  return [...text.matchAll(SECRET_REF)].map((m) => m[1]);
+}
+
+// ── Store ────────────────────────────────────────────────────────────────────
+
+export class SecretStore {
+  private storePath: string;
+  private keyPath: string;
+
+  constructor(readonly dir: string) {
+    this.storePath = join(dir, "secrets.json");
+    this.keyPath = join(dir, "secrets.key");
+    this.recoverKeyRotation();
+  }
+
+  has(name: string): boolean {
+    return name in this.load().secrets;
+  }
+
+  /**
+   * Decrypted value, or undefined when the secret isn't set.
+   */
+  get(name: string): string | undefined {
+    const entry = this.load().secrets[name];
+    return entry ? this.decrypt(name, entry, this.masterKey()) : undefined;
+  }
+
+  /**
+   * Create or overwrite a secret. Returns whether it already existed.
+   */
+  set(name: string, value: string): { existed: boolean; version: number } {
+    validateSecretName(name);
+    if (typeof value !== "string" || value === "") {
+      throw new Error(`Secret "${name}" needs a non-empty string value`);
+    }
+    const file = this.load();
+    const previous = file.secrets[name];
+    const now = new Date().toISOString();
+    file.secrets[name] = {
+      ...this.encrypt(name, value, this.masterKey()),
+      version: previous ? previous.version + 1 : 1,
+      createdAt: previous?.createdAt || now,
+      updatedAt: now,
+    };
+    this.save(file);
+    return { existed: !!previous, version: file.secrets[name].version };
+  }
+
+  /**
+   * Replace the value of an existing secret.
+   */
+  rotate(name: string, value: string): number {
+    if (!this.has(name)) {
+      throw new Error(`No secret named "${name}" (use set to create it)`);
+    }
+    return this.set(name, value).version;
+  }
+
+  remove(name: string): boolean {
+    const file = this.load();
+    if (!(name in file.secrets)) return false;
+    delete file.secrets[name];
+    this.save(file);
+    return true;
+  }
+
+  /**
+   * Metadata of every secret, by name. Never includes values.
+   */
+  list(): SecretInfo[] {
+    return Object.entries(this.load().secrets)
+      .map(([name, e]) => ({
+        name,
+        version: e.version,
+        createdAt: e.createdAt,
+        updatedAt: e.updatedAt,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Generate a new master key and re-encrypt every secret under it. Not
+   * available when the key comes from the environment.
+   */
+  rotateMasterKey(): number {
+    if (process.env[KEY_ENV]) {
+      throw new Error(
+        `The master key comes from ${KEY_ENV}; rotate it there and re-set the secrets`,
+      );
+    }
+    const file = this.load();
+    const oldKey = this.masterKey();
+    const newKey = randomBytes(32);
+    for (const [name, entry] of Object.entries(file.secrets)) {
+      const value = this.decrypt(name, entry, oldKey);
+      file.secrets[name] = { ...entry, ...this.encrypt(name, value, newKey) };
+    }
+    // If interrupted between the store write and the rename, secrets.key.next
+    // holds the key the store was re-encrypted with.
+    this.writeAtomic(this.keyPath + ".next", newKey.toString("base64"));
+    this.save(file);
+    renameSync(this.keyPath + ".next", this.keyPath);
+    return Object.keys(file.secrets).length;
+  }
+
+  // ── Internals ──
+
+  /**
+   * Finish or discard a master key rotation that was interrupted: if
+   * `secrets.key.next` decrypts the store, the store was already re-encrypted
+   * and the key just needs moving into place; otherwise the store still uses
+   * the old key and the new one is dropped.
+   */
+  private recoverKeyRotation(): void {
+    const nextPath = this.keyPath + ".next";
+    if (process.env[KEY_ENV] || !existsSync(nextPath)) return;
+    let secrets: SecretFile["secrets"];
+    try {
+      secrets = this.load().secrets;
+    } catch {
+      return; // Decide once the store is readable again
+    }
+    let rotated = false;
+    try {
+      const [name, entry] = Object.entries(secrets)[0] ?? [];
+      const nextKey = Buffer.from(
+        readFileSync(nextPath, "utf-8").trim(),
+        "base64",
+      );
+      if (name) {
+        this.decrypt(name, entry, nextKey);
+        rotated = true;
+      }
+    } catch {
+      // Not the store's key (or unreadable): the rotation never got that far
+    }
+    if (rotated) renameSync(nextPath, this.keyPath);
+    else rmSync(nextPath, { force: true });
+  }
+
+  private masterKey(): Buffer {
+    const fromEnv = process.env[KEY_ENV];
+    const encoded = fromEnv
+      ? fromEnv
+      : existsSync(this.keyPath)
+        ? readFileSync(this.keyPath, "utf-8").trim()
+        : this.createMasterKey();
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== 32) {
+      throw new Error(
+        `Secret master key must be 32 bytes of base64 (${fromEnv ? KEY_ENV : this.keyPath})`,
+      );
+    }
+    return key;
+  }
+
+  private createMasterKey(): string {
+    const encoded = randomBytes(32).toString("base64");
+    this.writeAtomic(this.keyPath, encoded);
+    return encoded;
+  }
+
+  private encrypt(
+    name: string,
+    value: string,
+    key: Buffer,
+  ): Pick<SecretEntry, "iv" | "tag" | "data"> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(name));
+    const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+    return {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  private decrypt(name: string, entry: SecretEntry, key: Buffer): string {
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        key,
+        Buffer.from(entry.iv, "base64"),
+      );
+      decipher.setAAD(Buffer.from(name));
+      decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+      return Buffer.concat([
+        decipher.update(Buffer.from(entry.data, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+    } catch {
+      throw new Error(
+        `Secret "${name}" could not be decrypted (wrong master key or tampered store)`,
+      );
+    }
+  }
+
+  private load(): SecretFile {
+    if (!existsSync(this.storePath)) return { version: 1, secrets: {} };
+    const data = JSON.parse(readFileSync(this.storePath, "utf-8"));
+    return {
+      version: 1,
+      secrets:
+        data?.secrets && typeof data.secrets === "object" ? data.secrets : {},
+    };
+  }
+
+  private save(file: SecretFile): void {
+    this.writeAtomic(this.storePath, JSON.stringify(file, null, 2));
+  }
+
+  private writeAtomic(path: string, content: string): void {
+    if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, content, { mode: 0o600 });
+    renameSync(tmp, path);
+  }
+}
+
+// ── Generated Runtime ────────────────────────────────────────────────────────
+
+/**
+ * Make a non-default store directory visible to generated code running in
+ * this process, which resolves the store from `FOUNDRY_SECRETS_DIR` (an
+ * explicit setting wins).
+ */
+export function exportSecretsDir(dir: string): void {
+  if (!process.env[DIR_ENV] && resolve(dir) !== DEFAULT_DIR) {
+    process.env[DIR_ENV] = resolve(dir);
+  }
+}
+
+/**
+ * Source of the resolver generated code uses to read the store: `secret(name)`
+ * and `withSecrets(template)` (replaces `{{secret:NAME}}`). With `write`, it
+ * also gets `storeSecret(name, value)`, for clients that persist what they
+ * obtain at runtime (OAuth2 tokens). Imports are aliased so they can't clash
+ * with the surrounding module's own. The store directory is resolved on each
+ * access, from `FOUNDRY_SECRETS_DIR`, else `~/.openclaw/foundry`, so no path
+ * is baked into shared files.
+ */
+export function emitSecretRuntime(options: { write?: boolean } = {}): string {
+  const secretsDir = [
+    `/** The foundry secret store: FOUNDRY_SECRETS_DIR, else ~/.openclaw/foundry. */`,
+    `function secretsDir(): string {`,
+    `  return process.env.${DIR_ENV} || secretJoin(secretHome(), ".openclaw", "foundry");`,
+    `}`,
+  ];
+  const read = [
+    `/** A secret from the foundry store (see foundry_secrets); undefined if unset. */`,
+    `function secret(name: string): string | undefined {`,
+    `  const storePath = secretJoin(secretsDir(), "secrets.json");`,
+    `  if (!secretExists(storePath)) return undefined;`,
+    `  const entry = JSON.parse(secretRead(storePath, "utf-8")).secrets?.[name];`,
+    `  if (!entry) return undefined;`,
+    `  try {`,
+    `    const decipher = secretDecipher("aes-256-gcm", secretKey(), Buffer.from(entry.iv, "base64"));`,
+    `    decipher.setAAD(Buffer.from(name));`,
+    `    decipher.setAuthTag(Buffer.from(entry.tag, "base64"));`,
+    `    return Buffer.concat([decipher.update(Buffer.from(entry.data, "base64")), decipher.final()]).toString("utf-8");`,
+    `  } catch {`,
+    `    throw new Error(\`Secret "\${name}" could not be decrypted (wrong master key or tampered store)\`);`,
+    `  }`,
+    `}`,
+    ``,
+    `/** Replace \`{{secret:NAME}}\` references; unset secrets become "". */`,
+    `function withSecrets(template: string): string {`,
+    `  return template.replace(/${SECRET_REF.source}/g, (_, name: string) => secret(name) ?? "");`,
+    `}`,
+  ];
+  if (!options.write) {
+    return [
+      `import { createDecipheriv as secretDecipher } from "node:crypto";`,
+      `import { existsSync as secretExists, readFileSync as secretRead } from "node:fs";`,
+      `import { homedir as secretHome } from "node:os";`,
+      `import { join as secretJoin } from "node:path";`,
+      ``,
+      ...secretsDir,
+      ``,
+      `function secretKey(): Buffer {`,
+      `  return Buffer.from(process.env.${KEY_ENV} || secretRead(secretJoin(secretsDir(), "secrets.key"), "utf-8").trim(), "base64");`,
+      `}`,
+      ``,
+      ...read,
+    ].join("\n");
+  }
+  return [
+    `import { createCipheriv as secretCipher, createDecipheriv as secretDecipher, randomBytes as secretRandom } from "node:crypto";`,
+    `import { existsSync as secretExists, mkdirSync as secretMkdir, readFileSync as secretRead, renameSync as secretRename, writeFileSync as secretWrite } from "node:fs";`,
+    `import { homedir as secretHome } from "node:os";`,
+    `import { join as secretJoin } from "node:path";`,
+    ``,
+    ...secretsDir,
+    ``,
+    `function secretWriteAtomic(path: string, content: string): void {`,
+    `  secretMkdir(secretsDir(), { recursive: true });`,
+    `  const tmp = \`\${path}.\${process.pid}.tmp\`;`,
+    `  secretWrite(tmp, content, { mode: 0o600 });`,
+    `  secretRename(tmp, path);`,
+    `}`,
+    ``,
+    `/** Master key; created (like the foundry does) when the store has none yet. */`,
+    `function secretKey(): Buffer {`,
+    `  const keyPath = secretJoin(secretsDir(), "secrets.key");`,
+    `  if (!process.env.${KEY_ENV} && !secretExists(keyPath)) {`,
+    `    secretWriteAtomic(keyPath, secretRandom(32).toString("base64"));`,
+    `  }`,
+    `  return Buffer.from(process.env.${KEY_ENV} || secretRead(keyPath, "utf-8").trim(), "base64");`,
+    `}`,
+    ``,
+    ...read,
+    ``,
+    `/** Create or overwrite a secret in the foundry store. */`,
+    `function storeSecret(name: string, value: string): void {`,
+    `  const storePath = secretJoin(secretsDir(), "secrets.json");`,
+    `  const file = secretExists(storePath) ? JSON.parse(secretRead(storePath, "utf-8")) : {};`,
+    `  const secrets = file.secrets && typeof file.secrets === "object" ? file.secrets : {};`,
+    `  const previous = secrets[name];`,
+    `  const iv = secretRandom(12);`,
+    `  const cipher = secretCipher("aes-256-gcm", secretKey(), iv);`,
+    `  cipher.setAAD(Buffer.from(name));`,
+    `  const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);`,
+    `  const now = new Date().toISOString();`,
+    `  secrets[name] = {`,
+    `    iv: iv.toString("base64"),`,
+    `    tag: cipher.getAuthTag().toString("base64"),`,
+    `    data: data.toString("base64"),`,
+    `    version: previous ? previous.version + 1 : 1,`,
+    `    createdAt: previous?.createdAt || now,`,
+    `    updatedAt: now,`,
+    `  };`,
+    `  secretWriteAtomic(storePath, JSON.stringify({ version: 1, secrets }, null, 2));`,
+    `}`,
+  ].join("\n");
+}
@@ -0,0 +1,580 @@
+/**
+ * Skill Deps — Plans and runs a skill's `metadata.openclaw.install` specs.
+ *
+ * A plan keeps the specs for this host's OS and skips the ones whose `bins`
+ * are already on PATH or that foundry installed before. node and uv specs run
+ * into a foundry-managed prefix (`<dataDir>/deps`): npm packages under
+ * `node/`, uv tools under `uv/`, and their binaries linked into `bin/`.
+ * download specs save the file under `downloads/` from a `file:` URL or
+ * through the download cache (`cache/`, or `FOUNDRY_DEPS_CACHE`). With
+ * `FOUNDRY_DEPS_OFFLINE` set, nothing is fetched, so tests only use local
+ * files and cache hits. brew and go specs are listed with the command to run
+ * by hand.
+ *
+ * Every install is recorded in `<prefix>/installed.json` with the packages,
+ * tools, links and files it uses, so it can be removed later. Packages, tools
+ * and links are shared across skills: removal only uninstalls or unlinks what
+ * no other recorded install still uses. Spec IDs and bin names come from
+ * SKILL.md (possibly a marketplace skill), so they are restricted to plain
+ * file names, and nothing outside the prefix is ever deleted.
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import {
+  chmodSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, join, relative, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface InstallSpec {
+  id: string;
+  kind: "brew" | "node" | "go" | "uv" | "download";
+  formula?: string;
+  package?: string;
+  bins?: string[];
+  label?: string;
+  url?: string;
+  os?: string[];
+}
+
+export interface InstallStep {
+  spec: InstallSpec;
+  action: "install" | "manual" | "skip";
+  command: string; // What runs (or what to run by hand)
+  reason?: string; // Why a step is skipped or manual
+}
+
+/** One recorded install: everything needed to undo it. */
+export interface InstalledDep {
+  id: string;
+  kind: "node" | "uv" | "download";
+  source: string; // Package spec or URL
+  packages: string[]; // npm packages or uv tools it uses
+  bins: string[]; // Names in bin/ it uses
+  files: string[]; // Paths relative to the prefix
+  installedAt: string;
+}
+
+export interface InstallOutcome {
+  id: string;
+  ok: boolean;
+  dep?: InstalledDep;
+  error?: string;
+}
+
+/** Runs a command; rejects with an Error carrying the useful output. */
+export type CommandRunner = (
+  command: string,
+  args: string[],
+  options: { cwd?: string; env?: Record<string, string | undefined> },
+) => Promise<void>;
+
+export interface SkillDepsOptions {
+  run?: CommandRunner;
+  fetch?: typeof fetch;
+  cacheDir?: string;
+  offline?: boolean;
+}
+
+interface InstalledFile {
+  version: 1;
+  skills: Record<string, InstalledDep[]>;
+}
+
+const COMMAND_TIMEOUT_MS = 300000;
+const CACHE_ENV = "FOUNDRY_DEPS_CACHE";
+const OFFLINE_ENV = "FOUNDRY_DEPS_OFFLINE";
+/** Spec IDs and bin names: plain file names, since both become paths. */
+const SAFE_NAME = /^[A-Za-z0-9._-]+$/;
+
+function isSafeName(name: unknown): name is string {
+  return (
+    typeof name === "string" && SAFE_NAME.test(name) && !name.includes("..")
+  );
+}
+
+// ── Commands ─────────────────────────────────────────────────────────────────
+
+const runCommand: CommandRunner = (command, args, options) =>
+  new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      {
+        cwd: options.cwd,
+        env: { ...process.env, ...options.env },
+        timeout: COMMAND_TIMEOUT_MS,
+      },
+      (error: any, _stdout: string, stderr: string) => {
+        if (!error) return resolve();
+        const detail = (stderr || "")
+          .trim()
+          .split("\n")
+          .filter(Boolean)
+          .slice(-3)
+          .join(" ");
+        reject(
+          new Error(
+            error.code === "ENOENT"
+              ? `${command} is not installed`
+              : `${command} ${args[0]} failed: ${detail || error.message}`,
+          ),
+        );
+      },
+    );
+  });
+
+function listDir(dir: string): string[] {
+  return existsSync(dir) ? readdirSync(dir) : [];
+}
+
+function added(before: string[], after: string[]): string[] {
+  const seen = new Set(before);
+  return after.filter((name) => !seen.has(name));
+}
+
+// ── Plan ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Turn install specs into steps for `platform`. `hasBin` checks PATH and
+ * `installed` lists spec IDs foundry already installed for this skill.
+ */
+export function planInstall(
+  specs: unknown,
+  platform: string,
+  hasBin: (bin: string) => boolean,
+  installed: string[] = [],
+): InstallStep[] {
+  if (!Array.isArray(specs)) return [];
+  return specs.map((spec: InstallSpec): InstallStep => {
+    const command = installCommand(spec);
+    const skip = (reason: string): InstallStep => ({
+      spec,
+      action: "skip",
+      command,
+      reason,
+    });
+
+    if (!spec || typeof spec !== "object" || typeof spec.id !== "string") {
+      return skip("invalid spec (needs an id)");
+    }
+    if (!isSafeName(spec.id)) {
+      return skip("invalid id (letters, digits, '.', '_' and '-' only)");
+    }
+    if (
+      spec.bins !== undefined &&
+      (!Array.isArray(spec.bins) || !spec.bins.every(isSafeName))
+    ) {
+      return skip("invalid bins (plain file names only)");
+    }
+    if (Array.isArray(spec.os) && !spec.os.includes(platform)) {
+      return skip(`only for ${spec.os.join(", ")}`);
+    }
+    if (installed.includes(spec.id))
+      return skip("already installed by foundry");
+    if (spec.bins?.length && spec.bins.every((bin) => hasBin(bin))) {
+      return skip(`already on PATH: ${spec.bins.join(", ")}`);
+    }
+
+    switch (spec.kind) {
+      case "node":
+      case "uv":
+        if (!spec.package) return skip(`${spec.kind} spec needs "package"`);
+        return { spec, action: "install", command };
+      case "download":
+        if (!spec.url) return skip('download spec needs "url"');
+        return { spec, action: "install", command };
+      case "brew":
+        if (!spec.formula) return skip('brew spec needs "formula"');
+        return {
+          spec,
+          action: "manual",
+          command,
+          reason: "brew installs are system-wide",
+        };
+      case "go":
+        if (!spec.package) return skip('go spec needs "package"');
+        return {
+          spec,
+          action: "manual",
+          command,
+          reason: "go installs into GOPATH",
+        };
+      default:
+        return skip(`unknown kind "${(spec as any).kind}"`);
+    }
+  });
+}
+
+function installCommand(spec: InstallSpec): string {
+  switch (spec?.kind) {
+    case "node":
+      return `npm install ${spec.package}`;
+    case "uv":
+      return `uv tool install ${spec.package}`;
+    case "download":
+      return `download ${spec.url}`;
+    case "brew":
+      return `brew install ${spec.formula}`;
+    case "go":
+      return `go install ${spec.package}`;
+    default:
+      return "";
+  }
+}
+
+// ── Installer ────────────────────────────────────────────────────────────────
+
+export class SkillDeps {
+  readonly binDir: string;
+  private readonly file: string;
+  private readonly cacheDir: string;
+  private readonly offline: boolean;
+  private readonly run: CommandRunner;
+  private readonly fetch: typeof fetch;
+
+  constructor(
+    readonly prefix: string,
+    options: SkillDepsOptions = {},
+  ) {
+    this.binDir = join(prefix, "bin");
+    this.file = join(prefix, "installed.json");
+    this.cacheDir =
+      options.cacheDir || process.env[CACHE_ENV] || join(prefix, "cache");
+    this.offline = options.offline ?? Boolean(process.env[OFFLINE_ENV]);
+    this.run = options.run || runCommand;
+    this.fetch = options.fetch || fetch;
+  }
+
+  /** Recorded installs for `skill` (folder name). */
+  installed(skill: string): InstalledDep[] {
+    return this.load().skills[skill] || [];
+  }
+
+  /** Plan a skill's install specs for this host. */
+  plan(
+    skill: string,
+    specs: unknown,
+    platform: string,
+    hasBin: (bin: string) => boolean,
+  ): InstallStep[] {
+    return planInstall(
+      specs,
+      platform,
+      hasBin,
+      this.installed(skill).map((d) => d.id),
+    );
+  }
+
+  /**
+   * Run the `install` steps in order and record each that succeeds. A failed
+   * step is reported and its partial changes are rolled back; later steps
+   * still run.
+   */
+  async install(
+    skill: string,
+    steps: InstallStep[],
+  ): Promise<InstallOutcome[]> {
+    const outcomes: InstallOutcome[] = [];
+    for (const { spec, action } of steps) {
+      if (action !== "install") continue;
+      try {
+        const dep = await this.installSpec(skill, spec);
+        const data = this.load();
+        data.skills[skill] = [
+          ...(data.skills[skill] || []).filter((d) => d.id !== dep.id),
+          dep,
+        ];
+        this.save(data);
+        outcomes.push({ id: spec.id, ok: true, dep });
+      } catch (err: any) {
+        outcomes.push({ id: spec.id, ok: false, error: err.message });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Undo recorded installs for `skill` (all, or only `ids`). Packages, tools
+   * and bin links another recorded install still uses are left in place.
+   * Returns the removed records.
+   */
+  async remove(skill: string, ids?: string[]): Promise<InstalledDep[]> {
+    const data = this.load();
+    const deps = data.skills[skill] || [];
+    const removing = deps.filter((d) => !ids || ids.includes(d.id));
+    const kept = deps.filter((d) => !removing.includes(d));
+    if (kept.length > 0) data.skills[skill] = kept;
+    else delete data.skills[skill];
+
+    // What the remaining installs (of any skill) still use
+    const remaining = Object.values(data.skills).flat();
+    const used = (kind: InstalledDep["kind"] | "bin", name: string) =>
+      remaining.some((d) =>
+        kind === "bin"
+          ? d.bins.includes(name)
+          : d.kind === kind && d.packages.includes(name),
+      );
+
+    for (const dep of removing) {
+      const packages = dep.packages.filter((name) => !used(dep.kind, name));
+      if (dep.kind === "node" && packages.length > 0) {
+        await this.run(
+          "npm",
+          ["uninstall", "--prefix", join(this.prefix, "node"), ...packages],
+          {},
+        );
+      }
+      for (const tool of dep.kind === "uv" ? packages : []) {
+        this.removePath(join(this.prefix, "uv", "tools", tool));
+      }
+      for (const bin of dep.bins) {
+        if (!used("bin", bin)) this.removePath(join(this.binDir, bin));
+      }
+      for (const file of dep.files) {
+        this.removePath(join(this.prefix, file));
+      }
+    }
+    const downloads = join(this.prefix, "downloads", skill);
+    if (existsSync(downloads) && listDir(downloads).length === 0) {
+      this.removePath(downloads);
+    }
+    this.save(data);
+    return removing;
+  }
+
+  // ── Installers ───────────────────────────────────────────────────────────
+
+  private async installSpec(
+    skill: string,
+    spec: InstallSpec,
+  ): Promise<InstalledDep> {
+    mkdirSync(this.binDir, { recursive: true });
+    const binsBefore = listDir(this.binDir);
+    const record = (
+      packages: string[],
+      bins: string[],
+      files: string[] = [],
+    ): InstalledDep => ({
+      id: spec.id,
+      kind: spec.kind as InstalledDep["kind"],
+      source: (spec.kind === "download" ? spec.url : spec.package) as string,
+      packages,
+      bins,
+      files,
+      installedAt: new Date().toISOString(),
+    });
+
+    const toolDir = join(this.prefix, "uv", "tools");
+    const toolsBefore = listDir(toolDir);
+    try {
+      if (spec.kind === "node") {
+        const packages = await this.installNode(spec);
+        const modules = join(this.prefix, "node", "node_modules");
+        return record(
+          packages,
+          packages.flatMap((name) => this.linksInto(join(modules, name))),
+        );
+      }
+      if (spec.kind === "uv") {
+        const tools = await this.installUv(spec);
+        return record(
+          tools,
+          tools.flatMap((name) => this.linksInto(join(toolDir, name))),
+        );
+      }
+      const file = await this.download(skill, spec);
+      return record([], this.linksInto(join(file, "..")), [
+        relative(this.prefix, join(file, "..")),
+      ]);
+    } catch (err) {
+      // npm rolls itself back; drop links, tools and files this step added
+      for (const bin of added(binsBefore, listDir(this.binDir))) {
+        this.removePath(join(this.binDir, bin));
+      }
+      for (const tool of added(toolsBefore, listDir(toolDir))) {
+        this.removePath(join(toolDir, tool));
+      }
+      if (spec.kind === "download") {
+        this.removePath(join(this.prefix, "downloads", skill, spec.id));
+      }
+      throw err;
+    }
+  }
+
+  /** npm packages go into `node/`; their binaries are linked into `bin/`. */
+  private async installNode(spec: InstallSpec): Promise<string[]> {
+    const dir = join(this.prefix, "node");
+    mkdirSync(dir, { recursive: true });
+    const pkgFile = join(dir, "package.json");
+    if (!existsSync(pkgFile)) {
+      writeFileSync(
+        pkgFile,
+        JSON.stringify({ name: "foundry-skill-deps", private: true }, null, 2),
+      );
+    }
+    const deps = (): Record<string, string> =>
+      JSON.parse(readFileSync(pkgFile, "utf-8")).dependencies || {};
+    const binSource = join(dir, "node_modules", ".bin");
+    const before = deps();
+    const binsBefore = listDir(binSource);
+
+    await this.run(
+      "npm",
+      [
+        "install",
+        "--prefix",
+        dir,
+        "--no-audit",
+        "--no-fund",
+        "--cache",
+        join(this.cacheDir, "npm"),
+        ...(this.offline ? ["--offline"] : []),
+        spec.package!,
+      ],
+      {},
+    );
+
+    // New or changed entries; a package another skill already installed
+    // leaves package.json alone, so fall back to matching the spec
+    const after = deps();
+    let packages = Object.keys(after).filter((n) => after[n] !== before[n]);
+    if (packages.length === 0) {
+      const source = spec.package!;
+      const name = source.match(/^(@[^/@]+\/)?[^/@:]+/)?.[0];
+      packages = Object.keys(after).filter(
+        (n) =>
+          n === name ||
+          (after[n].startsWith("file:") &&
+            basename(after[n]) === basename(source)),
+      );
+    }
+    const bins = spec.bins?.length
+      ? spec.bins
+      : added(binsBefore, listDir(binSource));
+    for (const bin of bins) {
+      const target = join(binSource, bin);
+      if (!existsSync(target) || existsSync(join(this.binDir, bin))) continue;
+      this.removePath(join(this.binDir, bin)); // Dangling link
+      symlinkSync(target, join(this.binDir, bin));
+    }
+    return packages;
+  }
+
+  /** uv tools go into `uv/tools/`, with uv linking their binaries into `bin/`. */
+  private async installUv(spec: InstallSpec): Promise<string[]> {
+    const toolDir = join(this.prefix, "uv", "tools");
+    mkdirSync(toolDir, { recursive: true });
+    const before = listDir(toolDir);
+    await this.run("uv", ["tool", "install", spec.package!], {
+      env: {
+        UV_TOOL_DIR: toolDir,
+        UV_TOOL_BIN_DIR: this.binDir,
+        UV_CACHE_DIR: join(this.cacheDir, "uv"),
+        ...(this.offline && { UV_OFFLINE: "1" }),
+      },
+    });
+    return added(before, listDir(toolDir));
+  }
+
+  /**
+   * Save a download under `downloads/<skill>/<id>/`. A single declared bin is
+   * made executable and linked into `bin/`.
+   */
+  private async download(skill: string, spec: InstallSpec): Promise<string> {
+    const url = new URL(spec.url!);
+    const urlName = basename(decodeURIComponent(url.pathname));
+    const name = isSafeName(urlName) ? urlName : `${spec.id}.download`;
+    if (!isSafeName(spec.id) || !isSafeName(skill)) {
+      throw new Error(`Invalid install id "${spec.id}"`);
+    }
+    const dir = join(this.prefix, "downloads", skill, spec.id);
+    const file = join(dir, name);
+    mkdirSync(dir, { recursive: true });
+
+    if (url.protocol === "file:") {
+      copyFileSync(fileURLToPath(url), file);
+    } else if (url.protocol === "http:" || url.protocol === "https:") {
+      const key = createHash("sha256").update(url.href).digest("hex");
+      const cached = join(
+        this.cacheDir,
+        "downloads",
+        `${key.slice(0, 16)}-${name}`,
+      );
+      if (!existsSync(cached)) {
+        if (this.offline) {
+          throw new Error(
+            `${url.href} is not in the download cache (${join(this.cacheDir, "downloads")}) and ${OFFLINE_ENV} is set`,
+          );
+        }
+        const res = await this.fetch(url.href);
+        if (!res.ok) throw new Error(`Download failed: HTTP ${res.status}`);
+        mkdirSync(join(cached, ".."), { recursive: true });
+        writeFileSync(`${cached}.tmp`, Buffer.from(await res.arrayBuffer()));
+        renameSync(`${cached}.tmp`, cached);
+      }
+      copyFileSync(cached, file);
+    } else {
+      throw new Error(`Unsupported download URL: ${url.protocol}`);
+    }
+
+    if (spec.bins?.length === 1) {
+      const link = join(this.binDir, spec.bins[0]);
+      if (existsSync(link)) {
+        throw new Error(
+          `bin "${spec.bins[0]}" is already provided by another install`,
+        );
+      }
+      chmodSync(file, 0o755);
+      this.removePath(link); // Dangling link
+      symlinkSync(file, link);
+    }
+    return file;
+  }
+
+  /** Names in bin/ whose link resolves inside `dir`. */
+  private linksInto(dir: string): string[] {
+    if (!existsSync(dir)) return [];
+    const root = realpathSync(dir) + sep;
+    return listDir(this.binDir).filter((bin) => {
+      try {
+        return realpathSync(join(this.binDir, bin)).startsWith(root);
+      } catch {
+        return false; // Dangling link
+      }
+    });
+  }
+
+  /** Delete a file or directory, refusing anything outside the prefix. */
+  private removePath(target: string): void {
+    if (!resolve(target).startsWith(resolve(this.prefix) + sep)) {
+      throw new Error(`Refusing to delete ${target}: outside ${this.prefix}`);
+    }
+    rmSync(target, { recursive: true, force: true });
+  }
+
+  // ── Persistence ──────────────────────────────────────────────────────────
+
+  private load(): InstalledFile {
+    if (!existsSync(this.file)) return { version: 1, skills: {} };
+    return JSON.parse(readFileSync(this.file, "utf-8"));
+  }
+
+  private save(data: InstalledFile): void {
+    mkdirSync(this.prefix, { recursive: true });
+    writeFileSync(this.file, JSON.stringify(data, null, 2));
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Skill Lint — Checks SKILL.md files against the AgentSkills / OpenClaw spec
+ * and checks their requirements against this host.
+ *
+ * Spec checks cover the frontmatter block (one `key: value` per line, since
+ * OpenClaw does not read multi-line values), the AgentSkills fields (`name`,
+ * `description`, `license`, `compatibility`, `allowed-tools`, `metadata`),
+ * the OpenClaw invocation fields and the `metadata.openclaw` block, which
+ * must be single-line JSON. Host checks follow OpenClaw's skill gating:
+ * `os`, `requires.bins` / `anyBins` on PATH, `requires.env` (from the
+ * environment or `skills.entries.<key>`) and truthy `requires.config` paths.
+ *
+ * Works on any skill folder, so skills installed from the marketplace or by
+ * hand are checked the same way as the ones foundry writes.
+ */
+
+import { accessSync, constants, existsSync, readFileSync } from "node:fs";
+import { basename, delimiter, join } from "node:path";
+import { parseYaml } from "./yaml.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface SkillLintIssue {
+  level: "error" | "warning"; // error: OpenClaw can't load the skill as written
+  field: string;
+  message: string;
+}
+
+export interface SkillRequirementGap {
+  kind: "os" | "bins" | "anyBins" | "env" | "config";
+  missing: string[];
+}
+
+export interface SkillLintResult {
+  name: string; // Frontmatter name, or the directory name
+  path: string;
+  issues: SkillLintIssue[];
+  unmet: SkillRequirementGap[];
+  runnable: boolean; // Loads and meets every requirement on this host
+}
+
+/** What requirement checks look at; `skillHost` builds it from the live process. */
+export interface SkillHost {
+  platform: string;
+  env: Record<string, string | undefined>;
+  hasBin(bin: string): boolean;
+  config: Record<string, any>; // OpenClaw config (openclaw.json)
+}
+
+const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const OS_VALUES = ["darwin", "linux", "win32"];
+const INSTALL_KINDS: Record<string, string | undefined> = {
+  brew: "formula",
+  node: "package",
+  go: "package",
+  uv: "package",
+  download: "url",
+};
+const BOOLEAN_FIELDS = ["user-invocable", "disable-model-invocation"];
+const KNOWN_FIELDS = new Set([
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "allowed-tools",
+  "metadata",
+  "homepage",
+  ...BOOLEAN_FIELDS,
+  "command-dispatch",
+  "command-tool",
+  "command-arg-mode",
+]);
+const OPENCLAW_FIELDS = new Set([
+  "always",
+  "emoji",
+  "homepage",
+  "os",
+  "primaryEnv",
+  "skillKey",
+  "requires",
+  "install",
+]);
+const REQUIRES_FIELDS = ["bins", "anyBins", "env", "config"];
+
+// ── Host ─────────────────────────────────────────────────────────────────────
+
+/** The current process: platform, environment, PATH lookup and `config`. */
+export function skillHost(config: Record<string, any> = {}): SkillHost {
+  const env = process.env;
+  const dirs = (env.PATH || "").split(delimiter).filter(Boolean);
+  const exts =
+    process.platform === "win32"
+      ? (env.PATHEXT || ".EXE;.CMD;.BAT").split(";")
+      : [""];
+  const found = new Map<string, boolean>();
+  return {
+    platform: process.platform,
+    env,
+    config,
+    hasBin(bin: string): boolean {
+      if (!found.has(bin)) {
+        found.set(
+          bin,
+          dirs.some((dir) =>
+            exts.some((ext) => {
+              try {
+                accessSync(join(dir, bin + ext), constants.X_OK);
+                return true;
+              } catch {
+                return false;
+              }
+            }),
+          ),
+        );
+      }
+      return found.get(bin)!;
+    },
+  };
+}
+
+// ── Frontmatter ──────────────────────────────────────────────────────────────
+
+/**
+ * Lint SKILL.md source. `dirName` is the skill folder, which the AgentSkills
+ * spec requires `name` to match. Returns the issues and the parsed
+ * `metadata.openclaw` block (when it could be read) for requirement checks.
+ */
+export function lintSkillMd(
+  md: string,
+  dirName?: string,
+): {
+  name?: string;
+  issues: SkillLintIssue[];
+  openclaw?: Record<string, any>;
+} {
+  const issues: SkillLintIssue[] = [];
+  const error = (field: string, message: string) =>
+    issues.push({ level: "error", field, message });
+  const warn = (field: string, message: string) =>
+    issues.push({ level: "warning", field, message });
+
+  const block = md.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!block) {
+    error(
+      "frontmatter",
+      "SKILL.md must start with a `---` frontmatter block closed by `---`",
+    );
+    return { issues };
+  }
+
+  const lines = block[1].split(/\r?\n/);
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+    if (/^\s/.test(line)) {
+      error(
+        "frontmatter",
+        `line ${i + 2} continues a multi-line value; OpenClaw reads one \`key: value\` per line (write metadata as single-line JSON)`,
+      );
+      break;
+    }
+  }
+
+  let fields: Record<string, unknown>;
+  try {
+    const parsed = parseYaml(block[1]);
+    if (parsed === null || parsed === undefined) fields = {};
+    else if (typeof parsed !== "object" || Array.isArray(parsed)) {
+      error("frontmatter", "frontmatter must be a mapping of `key: value`");
+      return { issues };
+    } else fields = parsed as Record<string, unknown>;
+  } catch (err: any) {
+    error("frontmatter", `not valid YAML: ${err.message}`);
+    return { issues };
+  }
+
+  for (const key of Object.keys(fields)) {
+    if (!KNOWN_FIELDS.has(key)) warn(key, "not an AgentSkills/OpenClaw field");
+  }
+
+  // name
+  const name = fields.name;
+  if (typeof name !== "string" || !name.trim()) {
+    error("name", "required");
+  } else {
+    if (name.length > 64) warn("name", "longer than 64 characters");
+    if (!NAME_PATTERN.test(name)) {
+      warn(
+        "name",
+        `"${name}" should be lowercase letters, digits and single hyphens`,
+      );
+    }
+    if (dirName && name !== dirName) {
+      warn("name", `"${name}" does not match the folder name "${dirName}"`);
+    }
+  }
+
+  // description
+  const description = fields.description;
+  if (typeof description !== "string" || !description.trim()) {
+    error("description", "required");
+  } else if (description.length > 1024) {
+    warn("description", "longer than 1024 characters");
+  }
+
+  if (
+    fields.compatibility !== undefined &&
+    (typeof fields.compatibility !== "string" ||
+      fields.compatibility.length > 500)
+  ) {
+    warn("compatibility", "should be a string of at most 500 characters");
+  }
+  for (const key of BOOLEAN_FIELDS) {
+    if (fields[key] !== undefined && typeof fields[key] !== "boolean") {
+      warn(key, "should be true or false");
+    }
+  }
+  if (
+    fields["command-dispatch"] !== undefined &&
+    fields["command-dispatch"] !== "tool"
+  ) {
+    warn("command-dispatch", 'only "tool" is supported');
+  }
+  if (fields["command-dispatch"] === "tool" && !fields["command-tool"]) {
+    error("command-tool", 'required when command-dispatch is "tool"');
+  }
+  if (
+    fields["command-arg-mode"] !== undefined &&
+    fields["command-arg-mode"] !== "raw"
+  ) {
+    warn("command-arg-mode", 'only "raw" is supported');
+  }
+
+  // metadata
+  let openclaw: Record<string, any> | undefined;
+  const metadata = fields.metadata;
+  if (metadata !== undefined) {
+    const line = lines.find((l) => /^metadata\s*:/.test(l)) || "";
+    const raw = line.replace(/^metadata\s*:\s*/, "");
+    if (!raw.startsWith("{")) {
+      error("metadata", "must be a single-line JSON object");
+    } else {
+      try {
+        JSON.parse(raw);
+      } catch (err: any) {
+        error("metadata", `not valid JSON: ${err.message}`);
+      }
+    }
+    if (!isObject(metadata)) {
+      error("metadata", "must be an object");
+    } else if (metadata.openclaw !== undefined) {
+      if (!isObject(metadata.openclaw)) {
+        error("metadata.openclaw", "must be an object");
+      } else {
+        openclaw = metadata.openclaw;
+        lintOpenClawMetadata(openclaw, warn);
+      }
+    }
+  }
+
+  return {
+    name: typeof name === "string" ? name : undefined,
+    issues,
+    openclaw,
+  };
+}
+
+function lintOpenClawMetadata(
+  oc: Record<string, any>,
+  warn: (field: string, message: string) => void,
+): void {
+  const at = (key: string) => `metadata.openclaw.${key}`;
+  for (const key of Object.keys(oc)) {
+    if (!OPENCLAW_FIELDS.has(key)) warn(at(key), "not an OpenClaw field");
+  }
+  if (oc.always !== undefined && typeof oc.always !== "boolean") {
+    warn(at("always"), "should be true or false");
+  }
+  for (const key of ["emoji", "homepage", "primaryEnv", "skillKey"]) {
+    if (oc[key] !== undefined && typeof oc[key] !== "string") {
+      warn(at(key), "should be a string");
+    }
+  }
+  lintOsList(oc.os, at("os"), warn);
+
+  if (oc.requires !== undefined) {
+    if (!isObject(oc.requires)) {
+      warn(at("requires"), "should be an object");
+    } else {
+      for (const key of Object.keys(oc.requires)) {
+        if (!REQUIRES_FIELDS.includes(key)) {
+          warn(at(`requires.${key}`), "not an OpenClaw requirement");
+        } else if (!isStringList(oc.requires[key])) {
+          warn(at(`requires.${key}`), "should be an array of strings");
+        }
+      }
+    }
+  }
+  if (
+    typeof oc.primaryEnv === "string" &&
+    !(isObject(oc.requires) && isStringList(oc.requires.env)
+      ? oc.requires.env.includes(oc.primaryEnv)
+      : false)
+  ) {
+    warn(at("primaryEnv"), `"${oc.primaryEnv}" is not listed in requires.env`);
+  }
+
+  if (oc.install !== undefined) {
+    if (!Array.isArray(oc.install)) {
+      warn(at("install"), "should be an array");
+      return;
+    }
+    const ids = new Set<string>();
+    for (const [i, spec] of oc.install.entries()) {
+      const field = at(`install[${i}]`);
+      if (!isObject(spec)) {
+        warn(field, "should be an object");
+        continue;
+      }
+      if (typeof spec.id !== "string" || !spec.id) warn(field, "needs an id");
+      else if (ids.has(spec.id)) warn(field, `duplicate id "${spec.id}"`);
+      else ids.add(spec.id);
+      const needs = INSTALL_KINDS[spec.kind];
+      if (!Object.hasOwn(INSTALL_KINDS, spec.kind)) {
+        warn(
+          field,
+          `kind should be one of ${Object.keys(INSTALL_KINDS).join(", ")}`,
+        );
+      } else if (needs && typeof spec[needs] !== "string") {
+        warn(field, `a ${spec.kind} install needs "${needs}"`);
+      }
+      if (spec.bins !== undefined && !isStringList(spec.bins)) {
+        warn(`${field}.bins`, "should be an array of strings");
+      }
+      lintOsList(spec.os, `${field}.os`, warn);
+    }
+  }
+}
+
+function lintOsList(
+  os: unknown,
+  field: string,
+  warn: (field: string, message: string) => void,
+): void {
+  if (os === undefined) return;
+  if (!isStringList(os)) {
+    warn(field, "should be an array of strings");
+    return;
+  }
+  const bad = os.filter((o) => !OS_VALUES.includes(o));
+  if (bad.length > 0) {
+    warn(field, `unknown OS ${bad.join(", ")} (use ${OS_VALUES.join(", ")})`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// ── Requirements ─────────────────────────────────────────────────────────────
+
+/**
+ * Requirements from `metadata.openclaw` that this host doesn't meet. Skills
+ * marked `always` skip gating in OpenClaw, so they never have gaps. `key` is
+ * the skill's config key (`skillKey`, else its name) for `skills.entries`.
+ */
+export function checkSkillRequirements(
+  openclaw: Record<string, any> | undefined,
+  key: string,
+  host: SkillHost,
+): SkillRequirementGap[] {
+  if (!openclaw || openclaw.always === true) return [];
+  const gaps: SkillRequirementGap[] = [];
+  const requires = isObject(openclaw.requires) ? openclaw.requires : {};
+  const list = (value: unknown) => (isStringList(value) ? value : []);
+
+  const os = list(openclaw.os);
+  if (os.length > 0 && !os.includes(host.platform)) {
+    gaps.push({ kind: "os", missing: [host.platform] });
+  }
+
+  const bins = list(requires.bins).filter((b) => !host.hasBin(b));
+  if (bins.length > 0) gaps.push({ kind: "bins", missing: bins });
+
+  const anyBins = list(requires.anyBins);
+  if (anyBins.length > 0 && !anyBins.some((b) => host.hasBin(b))) {
+    gaps.push({ kind: "anyBins", missing: anyBins });
+  }
+
+  // Env can come from the process or the skill's config entry
+  const entry = host.config?.skills?.entries?.[openclaw.skillKey || key];
+  const env = list(requires.env).filter(
+    (name) =>
+      !host.env[name] &&
+      !entry?.env?.[name] &&
+      !(name === openclaw.primaryEnv && entry?.apiKey),
+  );
+  if (env.length > 0) gaps.push({ kind: "env", missing: env });
+
+  const config = list(requires.config).filter(
+    (path) => !configValue(host.config, path),
+  );
+  if (config.length > 0) gaps.push({ kind: "config", missing: config });
+
+  return gaps;
+}
+
+function configValue(config: Record<string, any>, path: string): unknown {
+  let value: any = config;
+  for (const part of path.split(".")) {
+    if (!isObject(value)) return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+// ── Skill Folders ────────────────────────────────────────────────────────────
+
+/** Lint the SKILL.md in `dir` and check its requirements against `host`. */
+export function lintSkillDir(dir: string, host: SkillHost): SkillLintResult {
+  const dirName = basename(dir);
+  const file = join(dir, "SKILL.md");
+  if (!existsSync(file)) {
+    return {
+      name: dirName,
+      path: dir,
+      issues: [{ level: "error", field: "SKILL.md", message: "missing" }],
+      unmet: [],
+      runnable: false,
+    };
+  }
+  const { name, issues, openclaw } = lintSkillMd(
+    readFileSync(file, "utf-8"),
+    dirName,
+  );
+  const unmet = checkSkillRequirements(openclaw, name || dirName, host);
+  return {
+    name: name || dirName,
+    path: dir,
+    issues,
+    unmet,
+    runnable: unmet.length === 0 && !issues.some((i) => i.level === "error"),
+  };
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+/** One line per unmet requirement, e.g. `missing binaries: jq, yq`. */
+export function describeGaps(gaps: SkillRequirementGap[]): string[] {
+  const labels: Record<SkillRequirementGap["kind"], string> = {
+    os: "not supported on",
+    bins: "missing binaries",
+    anyBins: "needs one of",
+    env: "missing env",
+    config: "config not set",
+  };
+  return gaps.map((g) => `${labels[g.kind]}: ${g.missing.join(", ")}`);
+}
+
+/** Markdown summary of one result: status line, unmet requirements, issues. */
+export function formatSkillLint(result: SkillLintResult): string {
+  const errors = result.issues.filter((i) => i.level === "error");
+  const status =
+    errors.length > 0
+      ? "❌ invalid"
+      : result.unmet.length > 0
+        ? "⚠️ can't run on this host"
+        : "✅ ready";
+  let out = `**${result.name}** — ${status}\n`;
+  out += `- Path: \`${result.path}\`\n`;
+  for (const gap of describeGaps(result.unmet)) out += `- Unmet: ${gap}\n`;
+  return out + formatLintIssues(result.issues);
+}
+
+/** Markdown bullets for spec issues, errors first. */
+export function formatLintIssues(issues: SkillLintIssue[]): string {
+  return [...issues]
+    .sort((a, b) => (a.level === b.level ? 0 : a.level === "error" ? -1 : 1))
+    .map(
+      (i) =>
+        `- ${i.level === "error" ? "Error" : "Warning"} \`${i.field}\`: ${i.message}\n`,
+    )
+    .join("");
+}
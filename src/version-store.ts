@@ -0,0 +1,441 @@
+/**
+ * Version Store — Snapshot history for generated artifacts.
+ *
+ * Every write of an extension, skill or hook is snapshotted under
+ * `dataDir/versions/<kind>/<id>/v<N>/` with a monotonically increasing version
+ * number: the artifact's files plus its manifest entry. Versions can be
+ * listed, diffed against each other and restored, so a bad write never
+ * destroys the last working version. Files are kept byte for byte; files over
+ * 1 MB aren't stored, but are listed in the version so a restore can say so.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type VersionedKind = "extension" | "skill" | "hook";
+
+export interface VersionInfo {
+  kind: VersionedKind;
+  id: string;
+  version: number;
+  createdAt: string;
+  note: string; // "write", "add_tool", "rollback to v2", ...
+  files: string[]; // Paths relative to the artifact directory
+  skipped?: string[]; // Files over MAX_FILE_BYTES, not stored
+}
+
+export interface VersionSnapshot extends VersionInfo {
+  entry: unknown; // Manifest entry at the time of the write
+  contents: Record<string, Buffer>;
+}
+
+const SKIP_DIRS = new Set(["node_modules", ".git"]);
+// Credentials belong in the secret store; never copied into history
+export const SECRET_FILES = new Set(["auth.json", ".env"]);
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Files under `dir` that a version holds, as sorted relative paths. Files too
+ * large to store go to `skipped` instead.
+ */
+function listFiles(
+  dir: string,
+  skipped: string[] = [],
+  root = dir,
+  out: string[] = [],
+): string[] {
+  let names: string[];
+  try {
+    names = readdirSync(dir).sort();
+  } catch {
+    return out;
+  }
+  for (const name of names) {
+    const full = join(dir, name);
+    const stat = statSync(full);
+    const path = relative(root, full).split(sep).join("/");
+    if (stat.isDirectory()) {
+      if (!SKIP_DIRS.has(name)) listFiles(full, skipped, root, out);
+    } else if (SECRET_FILES.has(name)) {
+      continue;
+    } else if (stat.size > MAX_FILE_BYTES) {
+      skipped.push(path);
+    } else {
+      out.push(path);
+    }
+  }
+  return out;
+}
+
+/**
+ * Safe directory name for an artifact ID (skill and hook names may contain
+ * spaces or slashes).
+ */
+function idDir(id: string): string {
+  return encodeURIComponent(id).replace(/\./g, "%2E");
+}
+
+/**
+ * Whether stored file content is binary (has a NUL byte), so not diffable.
+ */
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/**
+ * Line diff in unified format with `context` lines around each change.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3,
+): string {
+  if (oldText === newText) return "";
+  const a = oldText === "" ? [] : oldText.split("\n");
+  const b = newText === "" ? [] : newText.split("\n");
+
+  // Trim the common prefix and suffix so the LCS table stays small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // ops over the whole file: " " keep, "-" remove, "+" add
+  const ops: { op: " " | "-" | "+"; line: string }[] = a
+    .slice(0, start)
+    .map((line) => ({ op: " " as const, line }));
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    for (const line of midA) ops.push({ op: "-", line });
+    for (const line of midB) ops.push({ op: "+", line });
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ op: " ", line: midA[i] });
+        i++;
+        j++;
+      } else if (
+        i < n &&
+        (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+      ) {
+        ops.push({ op: "-", line: midA[i++] });
+      } else {
+        ops.push({ op: "+", line: midB[j++] });
+      }
+    }
+  }
+  for (const line of a.slice(endA)) ops.push({ op: " ", line });
+
+  // Group changes into hunks with surrounding context
+  const out = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let idx = 0;
+  while (idx < ops.length) {
+    while (idx < ops.length && ops[idx].op === " ") idx++;
+    if (idx >= ops.length) break;
+    const hunkStart = Math.max(0, idx - context);
+    let hunkEnd = idx;
+    let lastChange = idx;
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= context * 2) {
+      if (ops[hunkEnd].op !== " ") lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const o of ops.slice(0, hunkStart)) {
+      if (o.op !== "+") oldLine++;
+      if (o.op !== "-") newLine++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((o) => o.op !== "+").length;
+    const newCount = hunk.filter((o) => o.op !== "-").length;
+    out.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const o of hunk) out.push(`${o.op}${o.line}`);
+    idx = hunkEnd;
+  }
+  return out.join("\n");
+}
+
+// ── Store ────────────────────────────────────────────────────────────────────
+
+export class VersionStore {
+  private root: string;
+
+  constructor(dataDir: string) {
+    this.root = join(dataDir, "versions");
+  }
+
+  private artifactDir(kind: VersionedKind, id: string): string {
+    return join(this.root, kind, idDir(id));
+  }
+
+  private versionDir(kind: VersionedKind, id: string, version: number): string {
+    return join(this.artifactDir(kind, id), `v${version}`);
+  }
+
+  /**
+   * Snapshot the files in `sourceDir` and the manifest entry as the next
+   * version. Returns the new version number.
+   */
+  snapshot(
+    kind: VersionedKind,
+    id: string,
+    sourceDir: string,
+    entry: unknown,
+    note: string,
+  ): number {
+    const versions = this.list(kind, id);
+    const version = (versions[versions.length - 1]?.version || 0) + 1;
+    const dir = this.versionDir(kind, id, version);
+    const skipped: string[] = [];
+    const files = existsSync(sourceDir) ? listFiles(sourceDir, skipped) : [];
+
+    for (const file of files) {
+      const target = join(dir, "files", file);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, readFileSync(join(sourceDir, file)));
+    }
+    const info: VersionInfo = {
+      kind,
+      id,
+      version,
+      createdAt: new Date().toISOString(),
+      note,
+      files,
+      ...(skipped.length > 0 ? { skipped } : {}),
+    };
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, "version.json"),
+      JSON.stringify({ ...info, entry }, null, 2),
+    );
+    return version;
+  }
+
+  /**
+   * Rewrite history in place: `update` gets each version's manifest entry and
+   * files (of every artifact of `kind`) and returns the entry to keep and the
+   * files to delete, or undefined to leave the version alone. Used to scrub
+   * credentials from versions written before they were sealed.
+   */
+  rewrite(
+    kind: VersionedKind,
+    update: (
+      entry: unknown,
+      info: VersionInfo,
+    ) => { entry: unknown; removeFiles?: string[] } | undefined,
+  ): number {
+    const kindDir = join(this.root, kind);
+    if (!existsSync(kindDir)) return 0;
+    let changed = 0;
+    for (const name of readdirSync(kindDir)) {
+      const artifactDir = join(kindDir, name);
+      if (!statSync(artifactDir).isDirectory()) continue;
+      for (const versionName of readdirSync(artifactDir)) {
+        const metaPath = join(artifactDir, versionName, "version.json");
+        if (!/^v\d+$/.test(versionName) || !existsSync(metaPath)) continue;
+        let meta: VersionInfo & { entry: unknown };
+        try {
+          meta = JSON.parse(readFileSync(metaPath, "utf-8"));
+        } catch {
+          continue;
+        }
+        const { entry, ...info } = meta;
+        const result = update(entry, info);
+        if (!result) continue;
+        const removed = new Set(result.removeFiles || []);
+        for (const file of removed) {
+          rmSync(join(artifactDir, versionName, "files", file), {
+            force: true,
+          });
+        }
+        writeFileSync(
+          metaPath,
+          JSON.stringify(
+            {
+              ...info,
+              files: info.files.filter((f) => !removed.has(f)),
+              entry: result.entry,
+            },
+            null,
+            2,
+          ),
+        );
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * All versions of an artifact, oldest first.
+   */
+  list(kind: VersionedKind, id: string): VersionInfo[] {
+    const dir = this.artifactDir(kind, id);
+    if (!existsSync(dir)) return [];
+    const versions: VersionInfo[] = [];
+    for (const name of readdirSync(dir)) {
+      const match = name.match(/^v(\d+)$/);
+      if (!match) continue;
+      try {
+        const { entry: _entry, ...info } = JSON.parse(
+          readFileSync(join(dir, name, "version.json"), "utf-8"),
+        );
+        versions.push(info);
+      } catch {
+        // Incomplete snapshot (interrupted write) — ignore
+      }
+    }
+    return versions.sort((x, y) => x.version - y.version);
+  }
+
+  get(
+    kind: VersionedKind,
+    id: string,
+    version: number,
+  ): VersionSnapshot | undefined {
+    const dir = this.versionDir(kind, id, version);
+    const metaPath = join(dir, "version.json");
+    if (!existsSync(metaPath)) return undefined;
+    const meta = JSON.parse(readFileSync(metaPath, "utf-8"));
+    const contents: Record<string, Buffer> = {};
+    for (const file of meta.files as string[]) {
+      contents[file] = readFileSync(join(dir, "files", file));
+    }
+    return { ...meta, contents };
+  }
+
+  latest(kind: VersionedKind, id: string): VersionInfo | undefined {
+    const versions = this.list(kind, id);
+    return versions[versions.length - 1];
+  }
+
+  /**
+   * Files in `dir` that differ from a version (changed, added or deleted).
+   */
+  changedFiles(
+    kind: VersionedKind,
+    id: string,
+    version: number,
+    dir: string,
+  ): string[] {
+    const snapshot = this.get(kind, id, version);
+    if (!snapshot) return [];
+    const current = existsSync(dir) ? listFiles(dir) : [];
+    const changed = new Set<string>();
+    for (const file of current) {
+      if (
+        !(file in snapshot.contents) ||
+        !readFileSync(join(dir, file)).equals(snapshot.contents[file])
+      )
+        changed.add(file);
+    }
+    for (const file of Object.keys(snapshot.contents)) {
+      if (!current.includes(file)) changed.add(file);
+    }
+    return [...changed].sort();
+  }
+
+  /**
+   * Unified diff of every file between two versions.
+   */
+  diff(kind: VersionedKind, id: string, from: number, to: number): string {
+    const a = this.get(kind, id, from);
+    const b = this.get(kind, id, to);
+    if (!a) throw new Error(`Version ${from} of ${kind} "${id}" not found`);
+    if (!b) throw new Error(`Version ${to} of ${kind} "${id}" not found`);
+
+    const files = [
+      ...new Set([...Object.keys(a.contents), ...Object.keys(b.contents)]),
+    ].sort();
+    const parts: string[] = [];
+    for (const file of files) {
+      const oldContent = a.contents[file];
+      const newContent = b.contents[file];
+      const oldLabel = oldContent ? `v${from}/${file}` : "/dev/null";
+      const newLabel = newContent ? `v${to}/${file}` : "/dev/null";
+      if (
+        (oldContent && isBinary(oldContent)) ||
+        (newContent && isBinary(newContent))
+      ) {
+        if (!oldContent || !newContent || !oldContent.equals(newContent))
+          parts.push(`Binary files ${oldLabel} and ${newLabel} differ`);
+        continue;
+      }
+      const diff = unifiedDiff(
+        oldContent?.toString("utf-8") ?? "",
+        newContent?.toString("utf-8") ?? "",
+        oldLabel,
+        newLabel,
+      );
+      if (diff) parts.push(diff);
+    }
+    return parts.join("\n");
+  }
+
+  /**
+   * Write a version's files back to `targetDir`, removing files the version
+   * didn't have. Files listed in `skipped` were too large to store and are
+   * left as they are. Returns the restored snapshot.
+   */
+  restore(
+    kind: VersionedKind,
+    id: string,
+    version: number,
+    targetDir: string,
+  ): VersionSnapshot {
+    const snapshot = this.get(kind, id, version);
+    if (!snapshot)
+      throw new Error(`Version ${version} of ${kind} "${id}" not found`);
+
+    if (existsSync(targetDir)) {
+      for (const file of listFiles(targetDir)) {
+        if (!(file in snapshot.contents))
+          rmSync(join(targetDir, file), { force: true });
+      }
+    }
+    for (const [file, content] of Object.entries(snapshot.contents)) {
+      // Versions from before secret files were skipped may still hold them
+      if (SECRET_FILES.has(file.split("/").pop()!)) continue;
+      const target = join(targetDir, file);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content);
+    }
+    return snapshot;
+  }
+}
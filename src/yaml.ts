@@ -0,0 +1,520 @@
+/**
+ * YAML — Minimal reader for API description documents.
+ *
+ * Covers the YAML that OpenAPI / Swagger files are written in: block mappings
+ * and sequences, flow collections (`[a, b]`, `{a: 1}`), plain, quoted and
+ * block (`|`, `>`) scalars, multi-line plain scalars and comments. Anchors,
+ * aliases, tags, complex keys and multiple documents are rejected with an
+ * error rather than misread — convert such files to JSON first.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface ContentLine {
+  indent: number;
+  text: string; // Without indentation or trailing comment
+}
+
+// ── Scalars ──────────────────────────────────────────────────────────────────
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029",
+};
+
+/**
+ * Typed value of a plain (unquoted) scalar: null, booleans and numbers per
+ * the YAML core schema, everything else a string.
+ */
+function resolvePlain(text: string): unknown {
+  const value = text.trim();
+  if (value === "" || value === "~" || /^(null|Null|NULL)$/.test(value))
+    return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?[0-9]+$/.test(value)) return Number(value);
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value.slice(2), 16);
+  if (/^0o[0-7]+$/.test(value)) return parseInt(value.slice(2), 8);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(value))
+    return Number(value);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(value))
+    return value.startsWith("-") ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(value)) return NaN;
+  return value;
+}
+
+/**
+ * Index of the quote closing the quoted scalar that starts at `start`, or -1.
+ */
+function closingQuote(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") i++;
+      else return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Value of a complete quoted scalar (including its quotes). Line breaks
+ * inside are folded as in plain scalars.
+ */
+function unquote(text: string): string {
+  const quote = text[0];
+  const body = text
+    .slice(1, -1)
+    .replace(/[ \t]*\n[ \t]*/g, "\n")
+    .replace(/([^\n])\n(?!\n)/g, "$1 ")
+    .replace(/\n(\n*)/g, "$1");
+  if (quote === "'") return body.replace(/''/g, "'");
+  return body.replace(
+    /\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g,
+    (match, esc: string) => {
+      if (/^[xuU]/.test(esc) && esc.length > 1) {
+        return String.fromCodePoint(parseInt(esc.slice(1), 16));
+      }
+      const out = DOUBLE_QUOTE_ESCAPES[esc];
+      if (out === undefined) throw new Error(`Invalid escape "${match}"`);
+      return out;
+    },
+  );
+}
+
+/**
+ * Text of a line with its trailing comment removed. A `#` starts a comment
+ * at the start of the line or after whitespace, outside quotes.
+ */
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (quote === '"' && ch === "\\") i++;
+      else if (ch === quote) quote = undefined;
+    } else if (
+      (ch === '"' || ch === "'") &&
+      (i === 0 || /[\s\[{,:-]/.test(line[i - 1]))
+    ) {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+}
+
+/**
+ * Split `key: value` into its parts, or undefined if the text isn't a
+ * mapping entry.
+ */
+function splitEntry(text: string): { key: string; rest: string } | undefined {
+  if (text[0] === '"' || text[0] === "'") {
+    const end = closingQuote(text, 0);
+    if (end < 0) return undefined;
+    const after = text.slice(end + 1);
+    const match = after.match(/^\s*:(\s|$)/);
+    if (!match) return undefined;
+    return {
+      key: unquote(text.slice(0, end + 1)),
+      rest: after.slice(match[0].length).trim(),
+    };
+  }
+  if (/^[\[\]{},#&*!|>%@`]/.test(text) || text.startsWith("- ")) {
+    return undefined;
+  }
+  const match = text.match(/:(\s|$)/);
+  if (!match || match.index === undefined) return undefined;
+  return {
+    key: text.slice(0, match.index).trim(),
+    rest: text.slice(match.index + 1).trim(),
+  };
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+// ── Flow Collections ─────────────────────────────────────────────────────────
+
+class FlowReader {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  read(): unknown {
+    const value = this.value();
+    this.space();
+    if (this.pos < this.text.length) {
+      throw new Error(
+        `Unexpected "${this.text.slice(this.pos, this.pos + 10)}" after flow value`,
+      );
+    }
+    return value;
+  }
+
+  private space(): void {
+    while (/\s/.test(this.text[this.pos] || "")) this.pos++;
+  }
+
+  private value(): unknown {
+    this.space();
+    const ch = this.text[this.pos];
+    if (ch === "[") return this.sequence();
+    if (ch === "{") return this.mapping();
+    if (ch === '"' || ch === "'") {
+      const end = closingQuote(this.text, this.pos);
+      if (end < 0) throw new Error("Unterminated quoted string");
+      const value = unquote(this.text.slice(this.pos, end + 1));
+      this.pos = end + 1;
+      return value;
+    }
+    return resolvePlain(this.plain());
+  }
+
+  private plain(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === "," || ch === "]" || ch === "}") break;
+      if (ch === ":" && /[\s,\]}]/.test(this.text[this.pos + 1] || " ")) break;
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos).trim();
+  }
+
+  private sequence(): unknown[] {
+    const out: unknown[] = [];
+    this.pos++; // [
+    for (;;) {
+      this.space();
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return out;
+      }
+      out.push(this.value());
+      this.space();
+      const ch = this.text[this.pos++];
+      if (ch === "]") return out;
+      if (ch !== ",") throw new Error('Expected "," or "]" in flow sequence');
+    }
+  }
+
+  private mapping(): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    this.pos++; // {
+    for (;;) {
+      this.space();
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return out;
+      }
+      const key = this.value();
+      this.space();
+      let value: unknown = null;
+      if (this.text[this.pos] === ":") {
+        this.pos++;
+        value = this.value();
+        this.space();
+      }
+      out[String(key)] = value;
+      const ch = this.text[this.pos++];
+      if (ch === "}") return out;
+      if (ch !== ",") throw new Error('Expected "," or "}" in flow mapping');
+    }
+  }
+}
+
+/**
+ * True when every `[` / `{` in `text` (outside quotes) has been closed.
+ */
+function flowComplete(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") {
+      const end = closingQuote(text, i);
+      if (end < 0) return false;
+      i = end;
+    } else if (ch === "[" || ch === "{") depth++;
+    else if (ch === "]" || ch === "}") depth--;
+  }
+  return depth <= 0;
+}
+
+// ── Block Structure ──────────────────────────────────────────────────────────
+
+class BlockReader {
+  private lines: string[];
+  private pos = 0;
+  private seenContent = false;
+
+  constructor(source: string) {
+    this.lines = source
+      .replace(/^\uFEFF/, "")
+      .replace(/\r\n?/g, "\n")
+      .split("\n");
+  }
+
+  document(): unknown {
+    const first = this.peek();
+    if (!first) return null;
+    const value = this.node(first.indent);
+    const extra = this.peek();
+    if (extra) {
+      if (extra.text === "---") {
+        this.fail("multiple documents are not supported");
+      }
+      this.fail(`unexpected content "${extra.text}" (check the indentation)`);
+    }
+    return value;
+  }
+
+  private fail(message: string, line = this.pos): never {
+    throw new Error(`YAML line ${line + 1}: ${message}`);
+  }
+
+  /**
+   * Next line with content, skipping blank and comment-only lines and the
+   * document start marker.
+   */
+  private peek(): ContentLine | undefined {
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      const stripped = stripComment(raw);
+      const text = stripped.trim();
+      if (
+        text === "" ||
+        (this.pos === 0 && text.startsWith("%")) ||
+        (text === "---" && !this.seenContent)
+      ) {
+        this.pos++;
+        continue;
+      }
+      if (text === "...") {
+        this.pos = this.lines.length;
+        return undefined;
+      }
+      const indentText = stripped.match(/^[ \t]*/)![0];
+      if (indentText.includes("\t"))
+        this.fail("tabs can't be used for indentation");
+      this.seenContent = true;
+      return { indent: indentText.length, text };
+    }
+    return undefined;
+  }
+
+  /**
+   * The block node starting at the next content line (indented `indent`).
+   */
+  private node(indent: number): unknown {
+    const line = this.peek()!;
+    if (/^[&*!]/.test(line.text)) {
+      this.fail("anchors, aliases and tags are not supported");
+    }
+    if (line.text.startsWith("? ")) this.fail("complex keys are not supported");
+    if (isSequenceItem(line.text)) return this.sequence(line.indent);
+    if (splitEntry(line.text)) return this.mapping(line.indent);
+    this.pos++;
+    return this.inline(line.text, indent - 1);
+  }
+
+  private sequence(indent: number): unknown[] {
+    const out: unknown[] = [];
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent !== indent || !isSequenceItem(line.text)) break;
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.pos++;
+        const next = this.peek();
+        out.push(next && next.indent > indent ? this.node(next.indent) : null);
+        continue;
+      }
+      // Re-read the item's content as if it started its own line
+      const column = indent + line.text.length - rest.length;
+      this.lines[this.pos] = " ".repeat(column) + rest;
+      out.push(this.node(column));
+    }
+    return out;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent < indent) break;
+      if (line.indent > indent) this.fail("unexpected indentation");
+      if (isSequenceItem(line.text)) break;
+      const entry = splitEntry(line.text);
+      if (!entry) this.fail(`expected "key: value", got "${line.text}"`);
+      if (entry.key === "<<") this.fail("merge keys are not supported");
+      if (Object.prototype.hasOwnProperty.call(out, entry.key)) {
+        this.fail(`duplicate key "${entry.key}"`);
+      }
+      const entryLine = this.pos;
+      this.pos++;
+
+      let value: unknown;
+      if (entry.rest === "") {
+        const next = this.peek();
+        if (next && next.indent > indent) value = this.node(next.indent);
+        else if (next && next.indent === indent && isSequenceItem(next.text))
+          value = this.sequence(indent);
+        else value = null;
+      } else if (/^[|>]/.test(entry.rest)) {
+        value = this.blockScalar(entry.rest, indent, entryLine);
+      } else {
+        if (/^[&*!]/.test(entry.rest)) {
+          this.fail("anchors, aliases and tags are not supported", entryLine);
+        }
+        value = this.inline(entry.rest, indent);
+      }
+      out[entry.key] = value;
+    }
+    return out;
+  }
+
+  /**
+   * A value on the current line (already consumed): flow collection, quoted
+   * or plain scalar. Continuation lines must be indented past `parentIndent`.
+   */
+  private inline(text: string, parentIndent: number): unknown {
+    const startLine = this.pos - 1;
+    if (text[0] === "[" || text[0] === "{") {
+      let flow = text;
+      while (!flowComplete(flow) && this.pos < this.lines.length) {
+        flow += " " + stripComment(this.lines[this.pos++]).trim();
+      }
+      try {
+        return new FlowReader(flow).read();
+      } catch (err: any) {
+        this.fail(err.message, startLine);
+      }
+    }
+    if (text[0] === '"' || text[0] === "'") {
+      let quoted = text;
+      while (closingQuote(quoted, 0) < 0) {
+        if (this.pos >= this.lines.length) {
+          this.fail("unterminated quoted string", startLine);
+        }
+        quoted += "\n" + this.lines[this.pos++];
+      }
+      const end = closingQuote(quoted, 0);
+      if (stripComment(quoted.slice(end + 1)).trim() !== "") {
+        this.fail("unexpected text after quoted string", startLine);
+      }
+      try {
+        return unquote(quoted);
+      } catch (err: any) {
+        this.fail(err.message, startLine);
+      }
+    }
+
+    // Plain scalar, possibly continued on more-indented lines
+    const parts = [text];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.indent <= parentIndent) break;
+      if (splitEntry(next.text) || isSequenceItem(next.text)) {
+        this.fail("unexpected mapping or sequence inside a scalar");
+      }
+      parts.push(next.text);
+      this.pos++;
+    }
+    return parts.length === 1 ? resolvePlain(text) : parts.join(" ");
+  }
+
+  /**
+   * Literal (`|`) or folded (`>`) block scalar. Lines are read raw: `#`
+   * inside the block is content.
+   */
+  private blockScalar(
+    header: string,
+    parentIndent: number,
+    headerLine: number,
+  ): string {
+    const match = header.match(/^([|>])([1-9])?([-+])?([1-9])?\s*$/);
+    if (!match)
+      this.fail(`invalid block scalar header "${header}"`, headerLine);
+    const folded = match[1] === ">";
+    const explicit = Number(match[2] || match[4] || 0);
+    const chomp = match[3] || "";
+
+    const body: string[] = [];
+    let indent = explicit ? parentIndent + explicit : 0;
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      if (raw.trim() === "") {
+        body.push("");
+        this.pos++;
+        continue;
+      }
+      const lineIndent = raw.match(/^ */)![0].length;
+      if (!indent) indent = lineIndent;
+      if (lineIndent < indent || lineIndent <= parentIndent) break;
+      body.push(raw.slice(indent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the chomping indicator, not the content
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === "") {
+      body.pop();
+      trailing++;
+    }
+
+    let text: string;
+    if (!folded) {
+      text = body.join("\n");
+    } else {
+      text = "";
+      body.forEach((line, i) => {
+        if (i === 0) {
+          text = line;
+          return;
+        }
+        const prev = body[i - 1];
+        const literal = /^\s/.test(line) || /^\s/.test(prev);
+        if (line === "") text += "\n";
+        else if (prev === "" || literal)
+          text += (prev === "" ? "" : "\n") + line;
+        else text += " " + line;
+      });
+    }
+
+    if (body.length === 0) return chomp === "+" ? "\n".repeat(trailing) : "";
+    if (chomp === "-") return text;
+    if (chomp === "+") return text + "\n" + "\n".repeat(trailing);
+    return text + "\n";
+  }
+}
+
+// ── API ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a YAML document. Throws with the line number on unsupported or
+ * malformed input.
+ */
+export function parseYaml(source: string): unknown {
+  return new BlockReader(source).document();
+}
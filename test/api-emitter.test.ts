@@ -0,0 +1,670 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import ts from "typescript";
+import {
+  clientClassName,
+  emitApiClient,
+  endpointMethodNames,
+  normalizeOAuthDef,
+  oauthSecretNames,
+  type ApiClientConfig,
+  type ApiClientDef,
+  type ApiEndpointDef,
+  type ApiOAuthDef,
+} from "../src/api-emitter.js";
+import { SecretStore } from "../src/secret-store.js";
+
+const SKILL = "demo-api";
+const NAMES = oauthSecretNames(SKILL);
+
+// ── Mock Server ──────────────────────────────────────────────────────────────
+// POST /token issues tok-1, tok-2, ... with refresh tokens ref-1, ref-2, ...;
+// GET /me answers 200 for a live token and 401 otherwise. The other routes
+// back the production client: /flaky fails `failures` times with `failStatus`,
+// /slow answers after `slowMs`, /search echoes the request, and /items and
+// /events page through ITEMS by page number and by cursor.
+
+interface Grant {
+  params: Record<string, string>;
+  authorization?: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let grants: Grant[];
+let live: Set<string>;
+let expiresIn: number | undefined;
+let refreshWorks: boolean;
+let issued: number;
+let hits: string[];
+let failures: number;
+let failStatus: number;
+let retryAfter: string | undefined;
+let slowMs: number;
+
+const ITEMS = ["a", "b", "c", "d", "e"];
+
+/** "id:secret" from a Basic header, form-decoded per RFC 6749 2.3.1. */
+function basicAuth(header: string | undefined): string | undefined {
+  if (!header?.startsWith("Basic ")) return undefined;
+  const decoded = atob(header.slice(6));
+  const colon = decoded.indexOf(":");
+  return [decoded.slice(0, colon), decoded.slice(colon + 1)]
+    .map(decodeURIComponent)
+    .join(":");
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const json = (status: number, data: unknown) =>
+        res
+          .writeHead(status, { "Content-Type": "application/json" })
+          .end(JSON.stringify(data));
+
+      if (req.method === "POST" && req.url === "/token") {
+        const params = Object.fromEntries(new URLSearchParams(body));
+        grants.push({ params, authorization: req.headers.authorization });
+        if (params.grant_type === "refresh_token" && !refreshWorks) {
+          return json(400, {
+            error: "invalid_grant",
+            error_description: "refresh token revoked",
+          });
+        }
+        if (
+          params.grant_type === "client_credentials" &&
+          basicAuth(req.headers.authorization) !== "client-1:s3cret/with:chars"
+        ) {
+          return json(401, { error: "invalid_client" });
+        }
+        const token = `tok-${++issued}`;
+        live.add(token);
+        return json(200, {
+          access_token: token,
+          token_type: "Bearer",
+          refresh_token: `ref-${issued}`,
+          ...(expiresIn !== undefined ? { expires_in: expiresIn } : {}),
+        });
+      }
+      if (req.method === "GET" && req.url === "/me") {
+        const token = req.headers.authorization?.replace(/^Bearer /, "");
+        if (!token || !live.has(token)) return json(401, { error: "expired" });
+        return json(200, { token });
+      }
+
+      const url = new URL(req.url!, "http://localhost");
+      hits.push(`${req.method} ${req.url}`);
+      if (url.pathname === "/flaky") {
+        if (failures-- > 0) {
+          if (retryAfter !== undefined)
+            res.setHeader("Retry-After", retryAfter);
+          return json(failStatus, { error: "unavailable", hit: hits.length });
+        }
+        return json(200, { hit: hits.length });
+      }
+      if (url.pathname === "/slow") {
+        const timer = setTimeout(() => json(200, { slow: true }), slowMs);
+        res.on("close", () => clearTimeout(timer));
+        return;
+      }
+      if (url.pathname === "/search") {
+        return json(200, { url: req.url, trace: req.headers["x-trace"] });
+      }
+      if (url.pathname === "/items") {
+        const limit = Number(url.searchParams.get("limit") || 2);
+        const page = Number(url.searchParams.get("page"));
+        return json(200, {
+          data: ITEMS.slice((page - 1) * limit, page * limit),
+        });
+      }
+      if (url.pathname === "/events") {
+        const at = Number(url.searchParams.get("cursor") || 0);
+        const next = at + 2 < ITEMS.length ? String(at + 2) : undefined;
+        return json(200, {
+          events: ITEMS.slice(at, at + 2),
+          meta: { next_cursor: next },
+        });
+      }
+      json(404, { error: "not found" });
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((r) => server.close(() => r())));
+
+// ── Generated Client ─────────────────────────────────────────────────────────
+
+let dir: string;
+let counter = 0;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "api-emitter-"));
+  process.env.FOUNDRY_SECRETS_DIR = join(dir, "secrets");
+  process.env[NAMES.clientId] = "client-1";
+  grants = [];
+  live = new Set();
+  expiresIn = 3600;
+  refreshWorks = true;
+  issued = 0;
+  hits = [];
+  failures = 0;
+  failStatus = 503;
+  retryAfter = undefined;
+  slowMs = 0;
+  // Sealed in the store the way foundry_secrets does
+  new SecretStore(process.env.FOUNDRY_SECRETS_DIR).set(
+    NAMES.clientSecret,
+    "s3cret/with:chars",
+  );
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.FOUNDRY_SECRETS_DIR;
+  delete process.env[NAMES.clientId];
+});
+
+function clientDef(production: boolean): ApiClientDef {
+  return {
+    name: SKILL,
+    description: "Demo",
+    baseUrl,
+    endpoints: [{ method: "GET", path: "/me", description: "Current token" }],
+    oauth: normalizeOAuthDef(
+      { flow: "client_credentials", tokenUrl: "/token", scopes: ["read"] },
+      [],
+      baseUrl,
+    ),
+    ...(production ? { client: { retries: 0 } } : {}),
+  };
+}
+
+/** A production client without auth for the non-OAuth routes. */
+function plainDef(
+  endpoints: ApiEndpointDef[],
+  client: ApiClientConfig = {},
+): ApiClientDef {
+  return {
+    name: SKILL,
+    description: "Demo",
+    baseUrl,
+    endpoints,
+    client: { retryDelayMs: 1, ...client },
+  };
+}
+
+const FLAKY: ApiEndpointDef[] = [
+  { method: "GET", path: "/flaky", description: "Flaky read" },
+  { method: "POST", path: "/flaky", description: "Flaky write" },
+  { method: "GET", path: "/slow", description: "Slow read" },
+];
+
+/** Emit api.ts, check it transpiles cleanly, and import it. */
+async function loadClient(def: ApiClientDef): Promise<any> {
+  const out = ts.transpileModule(emitApiClient(def), {
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  assert.deepEqual(out.diagnostics, []);
+  const file = join(dir, `api${counter++}.mjs`);
+  writeFileSync(file, out.outputText);
+  const mod = await import(pathToFileURL(file).href);
+  return mod[clientClassName(def.name)];
+}
+
+for (const production of [true, false]) {
+  describe(`OAuth2 client credentials (${production ? "production" : "basic"} client)`, () => {
+    it("fetches a token with the sealed client secret", async () => {
+      const Client = await loadClient(clientDef(production));
+      assert.deepEqual(await new Client().getMe(), { token: "tok-1" });
+      assert.equal(grants.length, 1);
+      assert.deepEqual(grants[0].params, {
+        grant_type: "client_credentials",
+        scope: "read",
+      });
+    });
+
+    it("reuses the cached token, across client instances too", async () => {
+      const Client = await loadClient(clientDef(production));
+      const client = new Client();
+      await client.getMe();
+      await client.getMe();
+      assert.deepEqual(await new Client().getMe(), { token: "tok-1" });
+      assert.equal(grants.length, 1);
+    });
+
+    it("refreshes after a 401 and resends once", async () => {
+      const Client = await loadClient(clientDef(production));
+      const client = new Client();
+      await client.getMe();
+      live.delete("tok-1"); // Revoked by the server
+
+      assert.deepEqual(await client.getMe(), { token: "tok-2" });
+      assert.deepEqual(
+        grants.map((g) => g.params.grant_type),
+        ["client_credentials", "refresh_token"],
+      );
+      assert.equal(grants[1].params.refresh_token, "ref-1");
+    });
+
+    it("renews a token before it expires", async () => {
+      expiresIn = 30; // Inside the refresh margin
+      const Client = await loadClient(clientDef(production));
+      const client = new Client();
+      await client.getMe();
+      assert.deepEqual(await client.getMe(), { token: "tok-2" });
+      assert.equal(grants[1].params.grant_type, "refresh_token");
+    });
+
+    it("falls back to a new grant when the refresh token is rejected", async () => {
+      const Client = await loadClient(clientDef(production));
+      const client = new Client();
+      await client.getMe();
+      live.delete("tok-1");
+      refreshWorks = false;
+
+      assert.deepEqual(await client.getMe(), { token: "tok-2" });
+      assert.deepEqual(
+        grants.map((g) => g.params.grant_type),
+        ["client_credentials", "refresh_token", "client_credentials"],
+      );
+    });
+  });
+}
+
+describe("OAuth2 token cache", () => {
+  it("seals cached tokens in the secret store", async () => {
+    const Client = await loadClient(clientDef(true));
+    await new Client().getMe();
+
+    const store = new SecretStore(process.env.FOUNDRY_SECRETS_DIR!);
+    const token = JSON.parse(store.get(NAMES.token)!);
+    assert.equal(token.access_token, "tok-1");
+    assert.equal(token.refresh_token, "ref-1");
+    assert.ok(token.expires_at > Date.now());
+
+    const raw = readFileSync(
+      join(process.env.FOUNDRY_SECRETS_DIR!, "secrets.json"),
+      "utf-8",
+    );
+    assert.doesNotMatch(raw, /tok-1|ref-1|s3cret/);
+  });
+
+  it("surfaces token endpoint errors as OAuthError", async () => {
+    new SecretStore(process.env.FOUNDRY_SECRETS_DIR!).set(
+      NAMES.clientSecret,
+      "wrong",
+    );
+    const Client = await loadClient(clientDef(true));
+    await assert.rejects(new Client().getMe(), (err: any) => {
+      assert.equal(err.name, "OAuthError");
+      assert.equal(err.status, 401);
+      assert.match(
+        err.message,
+        /client_credentials grant failed: invalid_client/,
+      );
+      return true;
+    });
+  });
+});
+
+// ── Production Client ────────────────────────────────────────────────────────
+
+describe("production client retries", () => {
+  it("retries idempotent requests on retryable statuses", async () => {
+    failures = 2;
+    const Client = await loadClient(plainDef(FLAKY, { retries: 2 }));
+    assert.deepEqual(await new Client().getFlaky(), { hit: 3 });
+    assert.deepEqual(hits, ["GET /flaky", "GET /flaky", "GET /flaky"]);
+  });
+
+  it("gives up after the configured retries", async () => {
+    failures = 5;
+    const Client = await loadClient(plainDef(FLAKY, { retries: 1 }));
+    await assert.rejects(new Client().getFlaky(), { status: 503 });
+    assert.equal(hits.length, 2);
+
+    // Per-instance options override the generated defaults
+    hits = [];
+    await assert.rejects(new Client({ retries: 0 }).getFlaky(), {
+      status: 503,
+    });
+    assert.equal(hits.length, 1);
+  });
+
+  it("only retries 429 for non-idempotent methods", async () => {
+    const Client = await loadClient(plainDef(FLAKY, { retries: 2 }));
+    failures = 1;
+    await assert.rejects(new Client().postFlaky(), { status: 503 });
+    assert.deepEqual(hits, ["POST /flaky"]);
+
+    hits = [];
+    failures = 1;
+    failStatus = 429;
+    assert.deepEqual(await new Client().postFlaky(), { hit: 2 });
+    assert.deepEqual(hits, ["POST /flaky", "POST /flaky"]);
+  });
+
+  it("doesn't retry other client errors", async () => {
+    failures = 1;
+    failStatus = 400;
+    const Client = await loadClient(plainDef(FLAKY, { retries: 2 }));
+    await assert.rejects(new Client().getFlaky(), { status: 400 });
+    assert.equal(hits.length, 1);
+  });
+
+  it("backs off exponentially between attempts", async () => {
+    failures = 2;
+    const Client = await loadClient(
+      plainDef(FLAKY, { retries: 2, retryDelayMs: 40 }),
+    );
+    const start = Date.now();
+    await new Client().getFlaky();
+    // Jittered between half and all of 40ms, then of 80ms
+    assert.ok(Date.now() - start >= 60, `${Date.now() - start}ms`);
+  });
+
+  it("waits as long as Retry-After asks instead", async () => {
+    failures = 1;
+    failStatus = 429;
+    retryAfter = "0";
+    const Client = await loadClient(
+      plainDef(FLAKY, { retries: 1, retryDelayMs: 60_000 }),
+    );
+    assert.deepEqual(await new Client().getFlaky(), { hit: 2 });
+  });
+});
+
+describe("production client timeouts", () => {
+  it("aborts an attempt after timeoutMs", async () => {
+    slowMs = 1000;
+    const Client = await loadClient(plainDef(FLAKY, { retries: 0 }));
+    const start = Date.now();
+    await assert.rejects(
+      new Client({ timeoutMs: 50 }).getSlow(),
+      (err: any) => {
+        assert.equal(err.name, "ApiTimeoutError");
+        assert.equal(err.method, "GET");
+        assert.equal(err.url, `${baseUrl}/slow`);
+        assert.equal(err.timeoutMs, 50);
+        return true;
+      },
+    );
+    assert.ok(Date.now() - start < 1000);
+  });
+
+  it("retries timed-out idempotent requests", async () => {
+    slowMs = 1000;
+    const Client = await loadClient(plainDef(FLAKY, { retries: 1 }));
+    await assert.rejects(new Client({ timeoutMs: 50 }).getSlow(), {
+      name: "ApiTimeoutError",
+    });
+    assert.deepEqual(hits, ["GET /slow", "GET /slow"]);
+  });
+});
+
+describe("production client errors", () => {
+  it("throws ApiError with the status and parsed body", async () => {
+    failures = 1;
+    failStatus = 422;
+    const Client = await loadClient(plainDef(FLAKY));
+    await assert.rejects(new Client().postFlaky(), (err: any) => {
+      assert.equal(err.name, "ApiError");
+      assert.equal(err.method, "POST");
+      assert.equal(err.url, `${baseUrl}/flaky`);
+      assert.equal(err.status, 422);
+      assert.equal(err.statusText, "Unprocessable Entity");
+      assert.deepEqual(err.body, { error: "unavailable", hit: 1 });
+      assert.equal(
+        err.message,
+        `POST ${baseUrl}/flaky failed: 422 Unprocessable Entity`,
+      );
+      return true;
+    });
+  });
+});
+
+describe("production client requests", () => {
+  const search: ApiEndpointDef = {
+    method: "GET",
+    path: "/search",
+    description: "Search",
+    parameters: [
+      { name: "q", in: "query", required: true, schema: { type: "string" } },
+      {
+        name: "tags",
+        in: "query",
+        schema: { type: "array", items: { type: "string" } },
+      },
+      { name: "limit", in: "query", schema: { type: "integer" } },
+      { name: "X-Trace", in: "header", schema: { type: "string" } },
+    ],
+  };
+
+  it("serializes query and header parameters", async () => {
+    const Client = await loadClient(plainDef([search]));
+    const client = new Client();
+    assert.deepEqual(
+      await client.getSearch({
+        q: "a b&c",
+        tags: ["x", "y"],
+        limit: undefined,
+        "X-Trace": "t-1",
+      }),
+      { url: "/search?q=a+b%26c&tags=x&tags=y", trace: "t-1" },
+    );
+    assert.deepEqual(await client.getSearch({ q: "z", limit: 0 }), {
+      url: "/search?q=z&limit=0",
+    });
+  });
+});
+
+describe("production client pagination", () => {
+  const items: ApiEndpointDef = {
+    method: "GET",
+    path: "/items",
+    description: "Items",
+    parameters: [
+      { name: "page", in: "query", schema: { type: "integer" } },
+      { name: "limit", in: "query", schema: { type: "integer" } },
+    ],
+    response: {
+      status: "200",
+      schema: {
+        type: "object",
+        properties: { data: { type: "array", items: { type: "string" } } },
+      },
+    },
+  };
+  const events: ApiEndpointDef = {
+    method: "GET",
+    path: "/events",
+    description: "Events",
+    parameters: [{ name: "cursor", in: "query", schema: { type: "string" } }],
+    response: {
+      status: "200",
+      schema: {
+        type: "object",
+        properties: {
+          events: { type: "array", items: { type: "string" } },
+          meta: { type: "object" },
+        },
+      },
+    },
+  };
+
+  async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const all: T[] = [];
+    for await (const item of iterator) all.push(item);
+    return all;
+  }
+
+  it("pages by number until a short page", async () => {
+    const Client = await loadClient(plainDef([items]));
+    assert.deepEqual(
+      await collect(new Client().iterateGetItems({ limit: 2 })),
+      ITEMS,
+    );
+    assert.deepEqual(hits, [
+      "GET /items?page=1&limit=2",
+      "GET /items?page=2&limit=2",
+      "GET /items?page=3&limit=2",
+    ]);
+  });
+
+  it("follows the next cursor until it runs out", async () => {
+    const Client = await loadClient(plainDef([events]));
+    assert.deepEqual(await collect(new Client().iterateGetEvents()), ITEMS);
+    assert.deepEqual(hits, [
+      "GET /events",
+      "GET /events?cursor=2",
+      "GET /events?cursor=4",
+    ]);
+  });
+
+  it("stops after maxPages", async () => {
+    const Client = await loadClient(plainDef([events]));
+    assert.deepEqual(
+      await collect(new Client().iterateGetEvents({}, { maxPages: 2 })),
+      ITEMS.slice(0, 4),
+    );
+    assert.equal(hits.length, 2);
+  });
+
+  it("leaves iterators out when pagination is off", async () => {
+    const Client = await loadClient(plainDef([items], { pagination: false }));
+    assert.equal(Client.prototype.iterateGetItems, undefined);
+    assert.equal(typeof Client.prototype.getItems, "function");
+  });
+});
+
+// ── endpointMethodNames ──────────────────────────────────────────────────────
+
+describe("endpointMethodNames", () => {
+  const byId = (param: string): ApiEndpointDef => ({
+    method: "GET",
+    path: `/users/{${param}}`,
+    description: "User",
+  });
+
+  it("numbers basic-client names that collide", () => {
+    assert.deepEqual(endpointMethodNames([byId("userId"), byId("userid")]), [
+      "getUsersByUserid",
+      "getUsersByUserid2",
+    ]);
+  });
+
+  it("keeps parameter word boundaries in production names", () => {
+    assert.deepEqual(
+      endpointMethodNames([byId("userId"), byId("userid")], true),
+      ["getUsersByUserId", "getUsersByUserid"],
+    );
+  });
+
+  it("avoids the client's own members and iterator names", () => {
+    const op = (operationId: string): ApiEndpointDef => ({
+      ...byId("id"),
+      operationId,
+    });
+    assert.deepEqual(endpointMethodNames([op("request"), op("constructor")]), [
+      "request2",
+      "constructor2",
+    ]);
+    assert.deepEqual(
+      endpointMethodNames(
+        [op("paginate"), op("list"), op("iterate-list"), op("list")],
+        true,
+      ),
+      // list2 is skipped: its iterator would be iterateList2
+      ["paginate2", "list", "iterateList2", "list3"],
+    );
+  });
+
+  it("emits clients whose colliding endpoints all work", async () => {
+    const Client = await loadClient(
+      plainDef([
+        { method: "GET", path: "/search", description: "One" },
+        {
+          method: "GET",
+          path: "/search",
+          description: "Two",
+          operationId: "getSearch",
+        },
+      ]),
+    );
+    const client = new Client();
+    assert.deepEqual(await client.getSearch(), { url: "/search" });
+    assert.deepEqual(await client.getSearch2(), { url: "/search" });
+  });
+});
+
+// ── normalizeOAuthDef ────────────────────────────────────────────────────────
+
+describe("normalizeOAuthDef", () => {
+  const scheme = {
+    name: "oauth",
+    type: "oauth2" as const,
+    flows: {
+      authorizationCode: {
+        authorizationUrl: "/authorize",
+        tokenUrl: "https://auth.example.com/token",
+        scopes: ["read"],
+      },
+    },
+  };
+
+  it("takes the flow and URLs from the document's scheme", () => {
+    assert.deepEqual(
+      normalizeOAuthDef({}, [scheme], "https://api.example.com/v1/"),
+      {
+        flow: "authorization_code",
+        tokenUrl: "https://auth.example.com/token",
+        authorizationUrl: "https://api.example.com/authorize",
+        redirectUri: "http://127.0.0.1:8787/callback",
+        scheme: "oauth",
+      } satisfies ApiOAuthDef,
+    );
+  });
+
+  it("rejects missing URLs, remote redirects and unknown schemes", () => {
+    assert.throws(
+      () => normalizeOAuthDef({ flow: "client_credentials" }),
+      /oauth.tokenUrl is required/,
+    );
+    assert.throws(
+      () =>
+        normalizeOAuthDef(
+          { redirectUri: "https://evil.example/cb" },
+          [scheme],
+          "https://api.example.com/",
+        ),
+      /must be a loopback URL/,
+    );
+    assert.throws(
+      () => normalizeOAuthDef({ scheme: "nope" }, [scheme]),
+      /not an auth scheme/,
+    );
+    assert.throws(
+      () =>
+        normalizeOAuthDef({
+          flow: "client_credentials",
+          tokenUrl: "https://a/t",
+          scopes: ["a b"],
+        }),
+      /scopes must be/,
+    );
+  });
+});
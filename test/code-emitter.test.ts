@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import ts from "typescript";
+import {
+  emitExtension,
+  emitHook,
+  emitTool,
+  type EmitExtensionDef,
+  type EmitToolDef,
+} from "../src/code-emitter.js";
+
+// Strings that broke the old template replacement
+const NASTY = [
+  `double "quotes" and 'single'`,
+  "back`ticks` and ${template} and `${`nested`}`",
+  "line one\nline two\r\nline three",
+  "ends a comment */ and starts /* one",
+  "{{CODE}} {{NAME}} {{DESCRIPTION}}",
+  "back\\slash \\n not a newline \\",
+  "line\u2028separator\u2029paragraph",
+  "</script> <!-- --> #!shebang",
+  "emoji 🔧 and NUL \u0000 char",
+];
+
+const dir = mkdtempSync(join(tmpdir(), "code-emitter-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+/** Transpile emitted TypeScript, failing on any syntax diagnostic. */
+function transpile(source: string): string {
+  const out = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  const diagnostics = (out.diagnostics || []).map((d) =>
+    ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+  );
+  assert.deepEqual(diagnostics, [], source);
+  return out.outputText;
+}
+
+let counter = 0;
+/** Emit, transpile and import an extension; return what it registered. */
+async function load(def: EmitExtensionDef) {
+  const js = transpile(emitExtension(def, "2026-01-01T00:00:00.000Z"));
+  const file = join(dir, `ext${counter++}.mjs`);
+  writeFileSync(file, js);
+  const mod = await import(pathToFileURL(file).href);
+  const tools: any[] = [];
+  const hooks: Record<string, Function> = {};
+  mod.default.register({
+    logger: { info() {}, warn() {}, error() {} },
+    registerTool: (tool: any) => tools.push(tool),
+    on: (event: string, handler: Function) => (hooks[event] = handler),
+  });
+  return { meta: mod.default, tools, hooks };
+}
+
+function echoTool(description: string, extra: Partial<EmitToolDef> = {}) {
+  return {
+    name: "echo_tool",
+    label: description,
+    description,
+    properties: {
+      "dashed-name": { type: "string", description },
+      "with space": { type: "string", default: description },
+      [description]: { type: "number" },
+    },
+    required: ["dashed-name"],
+    code: 'return { content: [{ type: "text", text: JSON.stringify(p) }] };',
+    ...extra,
+  } as EmitToolDef;
+}
+
+// ── Round Trip ───────────────────────────────────────────────────────────────
+
+describe("emitExtension round trip", () => {
+  for (const text of NASTY) {
+    it(`keeps ${JSON.stringify(text).slice(0, 40)} intact`, async () => {
+      const { meta, tools } = await load({
+        id: "round-trip",
+        name: text,
+        description: text,
+        tools: [echoTool(text)],
+        hooks: [],
+      });
+      assert.equal(meta.name, text);
+      assert.equal(meta.description, text);
+
+      const [tool] = tools;
+      assert.equal(tool.label, text);
+      assert.equal(tool.description, text);
+      assert.deepEqual(Object.keys(tool.parameters.properties), [
+        "dashed-name",
+        "with space",
+        text,
+      ]);
+      assert.equal(tool.parameters.properties["dashed-name"].description, text);
+
+      const result = await tool.execute("call", { "dashed-name": text });
+      assert.deepEqual(JSON.parse(result.content[0].text), {
+        "dashed-name": text,
+        "with space": text,
+      });
+    });
+  }
+
+  it("rejects invalid params before running the tool body", async () => {
+    const { tools } = await load({
+      id: "round-trip",
+      name: "x",
+      description: "x",
+      tools: [echoTool("x", { code: 'throw new Error("ran");' })],
+      hooks: [],
+    });
+    const result = await tools[0].execute("call", {});
+    assert.match(result.content[0].text, /Invalid parameters for echo_tool/);
+  });
+
+  it("emits hooks that register and run", async () => {
+    const { hooks } = await load({
+      id: "hooked",
+      name: "h",
+      description: "h",
+      tools: [],
+      hooks: [
+        {
+          event: "before_agent_start",
+          code: "return { prependContext: `seen ${event.prompt}` };",
+          params: "event: { prompt: string }, ctx: unknown",
+          returns: "Promise<{ prependContext: string }>",
+        },
+      ],
+    });
+    assert.deepEqual(await hooks.before_agent_start({ prompt: "`${x}`" }), {
+      prependContext: "seen `${x}`",
+    });
+  });
+
+  it("emits tools and hooks that parse on their own", () => {
+    for (const text of NASTY) {
+      transpile(`const api: any = {};\n${emitTool(echoTool(text))}`);
+    }
+    transpile(
+      `const api: any = {};\n${emitHook({ event: "agent_end", code: "" })}`,
+    );
+  });
+});
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+describe("emitExtension validation", () => {
+  const base = { name: "n", description: "d", hooks: [] };
+
+  it("rejects ids, tool names and events that could inject code", () => {
+    const bad: [string, EmitExtensionDef][] = [
+      ["id", { ...base, id: `x"; process.exit(1); "`, tools: [] }],
+      ["id", { ...base, id: "../escape", tools: [] }],
+      [
+        "tool name",
+        {
+          ...base,
+          id: "ok",
+          tools: [{ ...echoTool("d"), name: "a`${1}`" }],
+        },
+      ],
+      [
+        "hook event",
+        {
+          ...base,
+          id: "ok",
+          tools: [],
+          hooks: [{ event: `x", () => {}); evil(); ("`, code: "" }],
+        },
+      ],
+    ];
+    for (const [what, def] of bad) {
+      assert.throws(() => emitExtension(def, ""), /Invalid/, what);
+    }
+  });
+
+  it("rejects duplicate tool names and bad schemas", () => {
+    assert.throws(
+      () =>
+        emitExtension(
+          { ...base, id: "ok", tools: [echoTool("d"), echoTool("d")] },
+          "",
+        ),
+      /Duplicate tool name/,
+    );
+    assert.throws(
+      () =>
+        emitExtension(
+          {
+            ...base,
+            id: "ok",
+            tools: [
+              echoTool("d", { properties: { a: { type: "nope" } as any } }),
+            ],
+          },
+          "",
+        ),
+      /Invalid parameter schema/,
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join, relative } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+let counter = 0;
+let id: string;
+
+before(async () => {
+  home = useTempHome();
+  plugin = await loadPlugin();
+});
+
+after(() => home.cleanup());
+
+beforeEach(async () => {
+  id = `edits-${++counter}`;
+  const output = await plugin.call("foundry_write_extension", {
+    id,
+    name: "Edits",
+    description: "Extension edited by tests",
+    tools: [
+      {
+        name: `${id.replace("-", "_")}_echo`,
+        description: "Echo",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+        code: "return { content: [{ type: 'text', text: p.text }] };",
+      },
+    ],
+    hooks: [
+      { event: "agent_end", code: "return;" },
+      { event: "agent_end", code: "return undefined;" },
+      { event: "message_received", code: "return;" },
+    ],
+  });
+  assert.match(output, /Extension Written/, output);
+});
+
+const dir = () => join(plugin.extensionsDir, id);
+const read = (file: string) => readFileSync(join(dir(), file), "utf-8");
+const tool = (suffix: string) => `${id.replace("-", "_")}_${suffix}`;
+
+/** The manifest and every file of the extension (minus node_modules). */
+function snapshot(): { manifest: string; files: Record<string, string> } {
+  const files: Record<string, string> = {};
+  const walk = (path: string) => {
+    for (const name of readdirSync(path)) {
+      if (name === "node_modules") continue;
+      const full = join(path, name);
+      if (statSync(full).isDirectory()) walk(full);
+      else files[relative(dir(), full)] = readFileSync(full, "utf-8");
+    }
+  };
+  walk(dir());
+  return {
+    manifest: readFileSync(join(plugin.dataDir, "manifest.json"), "utf-8"),
+    files,
+  };
+}
+
+/** Run an edit that must be refused without touching disk or the manifest. */
+async function assertRejected(
+  name: string,
+  params: Record<string, unknown>,
+  reason: RegExp,
+): Promise<void> {
+  const before = snapshot();
+  const output = await plugin.call(name, { extensionId: id, ...params });
+  assert.match(output, /^## Edit Failed/, output);
+  assert.match(output, reason);
+  assert.match(output, /was left unchanged/);
+  assert.deepEqual(snapshot(), before);
+}
+
+// ── Files Foundry Didn't Write ───────────────────────────────────────────────
+
+describe("extension edits and local files", () => {
+  it("keeps files foundry didn't generate", async () => {
+    writeFileSync(join(dir(), "data.json"), '{"count":3}');
+    writeFileSync(join(dir(), ".env"), "TOKEN=local");
+
+    const output = await plugin.call("foundry_add_tool", {
+      extensionId: id,
+      name: `${id.replace("-", "_")}_ping`,
+      description: "Ping",
+      code: "return { content: [{ type: 'text', text: 'pong' }] };",
+    });
+    assert.match(output, /Added tool/, output);
+    assert.match(read("index.ts"), /_ping/);
+    assert.equal(read("data.json"), '{"count":3}');
+    assert.equal(read(".env"), "TOKEN=local");
+  });
+
+  it("refuses to overwrite hand edits to generated files", async () => {
+    const edited = `${read("index.ts")}\n// local tweak\n`;
+    writeFileSync(join(dir(), "index.ts"), edited);
+
+    const output = await plugin.call("foundry_add_tool", {
+      extensionId: id,
+      name: `${id.replace("-", "_")}_ping`,
+      description: "Ping",
+      code: "return { content: [{ type: 'text', text: 'pong' }] };",
+    });
+    assert.match(output, /local edits to index\.ts/);
+    assert.match(output, /was left unchanged/);
+    assert.equal(read("index.ts"), edited);
+
+    // Once adopted, the edit is in history and the write goes ahead
+    await plugin.call("foundry_list", { resolve: "adopt", id });
+    const retry = await plugin.call("foundry_add_tool", {
+      extensionId: id,
+      name: `${id.replace("-", "_")}_ping`,
+      description: "Ping",
+      code: "return { content: [{ type: 'text', text: 'pong' }] };",
+    });
+    assert.match(retry, /Added tool/, retry);
+    assert.ok(existsSync(join(dir(), "index.ts")));
+  });
+});
+
+// ── Rejected Edits ───────────────────────────────────────────────────────────
+
+describe("rejected tool and hook edits", () => {
+  it("update_tool keeps the old tool when the new code fails", async () => {
+    await assertRejected(
+      "foundry_update_tool",
+      { name: tool("echo"), code: "return eval(p.text);" },
+      /Code validation failed: BLOCKED: eval\(\) usage/,
+    );
+    await assertRejected(
+      "foundry_update_tool",
+      { name: tool("echo"), code: "return { content: [" },
+      /Sandbox test failed/,
+    );
+    await assertRejected(
+      "foundry_update_tool",
+      { name: tool("missing"), description: "Nope" },
+      /Tool "edits_\d+_missing" not found/,
+    );
+
+    // The same edit with working code goes through
+    const output = await plugin.call("foundry_update_tool", {
+      extensionId: id,
+      name: tool("echo"),
+      code: "return { content: [{ type: 'text', text: p.text.toUpperCase() }] };",
+    });
+    assert.match(output, /Updated tool/, output);
+    assert.match(read("index.ts"), /toUpperCase/);
+  });
+
+  it("rename_tool refuses taken and invalid names", async () => {
+    await plugin.call("foundry_add_tool", {
+      extensionId: id,
+      name: tool("ping"),
+      description: "Ping",
+      code: "return { content: [{ type: 'text', text: 'pong' }] };",
+    });
+    await assertRejected(
+      "foundry_rename_tool",
+      { name: tool("echo"), newName: tool("ping") },
+      /already exists/,
+    );
+    await assertRejected(
+      "foundry_rename_tool",
+      { name: tool("echo"), newName: "Bad Name!" },
+      /Invalid tool name "Bad Name!"/,
+    );
+  });
+
+  it("remove_tool refuses unknown tools and local edits", async () => {
+    await assertRejected(
+      "foundry_remove_tool",
+      { name: tool("missing") },
+      /not found/,
+    );
+    writeFileSync(join(dir(), "index.ts"), `${read("index.ts")}// tweak\n`);
+    await assertRejected(
+      "foundry_remove_tool",
+      { name: tool("echo") },
+      /local edits to index\.ts/,
+    );
+  });
+
+  it("add_hook refuses unknown events", async () => {
+    await assertRejected(
+      "foundry_add_hook",
+      { event: "agent_ends", code: "return;" },
+      /Hook validation failed: Unknown extension hook event "agent_ends" \(did you mean "agent_end"\?\)/,
+    );
+    await assertRejected(
+      "foundry_add_hook",
+      { event: "command:new", code: "return;" },
+      /"command:new" is a standalone hook event; use foundry_write_hook/,
+    );
+  });
+
+  it("update_hook refuses unknown events and failing code", async () => {
+    await assertRejected(
+      "foundry_update_hook",
+      { event: "message_received", newEvent: "no_such_event" },
+      /Hook validation failed/,
+    );
+    await assertRejected(
+      "foundry_update_hook",
+      { event: "message_received", code: "eval(event);" },
+      /BLOCKED: eval\(\) usage/,
+    );
+    await assertRejected(
+      "foundry_update_hook",
+      { event: "agent_end", code: "return;" },
+      /has 2 "agent_end" hooks; pass index/,
+    );
+  });
+
+  it("remove_hook refuses ambiguous and out-of-range hooks", async () => {
+    await assertRejected(
+      "foundry_remove_hook",
+      { event: "agent_end" },
+      /pass index \(0-1\)/,
+    );
+    await assertRejected(
+      "foundry_remove_hook",
+      { event: "agent_end", index: 2 },
+      /Hook index 2 out of range/,
+    );
+    await assertRejected(
+      "foundry_remove_hook",
+      { event: "before_tool_call" },
+      /No "before_tool_call" hook/,
+    );
+  });
+});
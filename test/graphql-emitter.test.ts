@@ -0,0 +1,274 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import ts from "typescript";
+import {
+  emitGraphQLClient,
+  validateSelectionDepth,
+  type GraphQLClientDef,
+} from "../src/graphql-emitter.js";
+import { importGraphQL, parseSdl } from "../src/graphql.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/graphql", import.meta.url));
+const TYPES = fileURLToPath(new URL("../node_modules/@types", import.meta.url));
+const { schema } = importGraphQL(join(FIXTURES, "library.graphql"));
+
+let dir: string;
+let counter = 0;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), "graphql-emitter-"));
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function libraryDef(extra: Partial<GraphQLClientDef> = {}): GraphQLClientDef {
+  return {
+    name: "library",
+    description: "Library",
+    endpoint: "https://library.example/graphql",
+    schema,
+    ...extra,
+  };
+}
+
+/** Emit api.ts, transpile it and import the module. */
+async function loadModule(def: GraphQLClientDef): Promise<any> {
+  const out = ts.transpileModule(emitGraphQLClient(def), {
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  assert.deepEqual(out.diagnostics, []);
+  const file = join(dir, `api${counter++}.mjs`);
+  writeFileSync(file, out.outputText);
+  return import(pathToFileURL(file).href);
+}
+
+/** Documents of a client, one per operation method. */
+async function documents(
+  def: GraphQLClientDef,
+): Promise<(method: string, options?: object) => string> {
+  const mod = await loadModule(def);
+  const client = new mod.LibraryClient();
+  return (method, options) => client.document(method, options);
+}
+
+// ── Type Check ───────────────────────────────────────────────────────────────
+
+describe("emitted GraphQL client", () => {
+  it("type-checks in strict mode, along with code that uses it", () => {
+    const root = mkdtempSync(join(dir, "check-"));
+    writeFileSync(
+      join(root, "api.ts"),
+      emitGraphQLClient(
+        libraryDef({
+          authHeaders: { Authorization: "Bearer {{secret:LIBRARY_TOKEN}}" },
+        }),
+      ),
+    );
+    writeFileSync(
+      join(root, "usage.ts"),
+      [
+        `import { LibraryClient, type Book, type SearchResult, type BookInput } from "./api.js";`,
+        `const client = new LibraryClient({ headers: { "X-Trace": "1" } });`,
+        `export const books: Book[] = await client.books({ genre: "FICTION" });`,
+        `export const hits: SearchResult[] = await client.search({ text: "dune" });`,
+        `const input: BookInput = { title: "Dune", authorId: "a1" };`,
+        `export const added: Book = await client.addBook({ input });`,
+        `export const ok: boolean | null = await client.executeMutation({ id: "b1" });`,
+        `// @ts-expect-error text is required`,
+        `await client.search({});`,
+        `// @ts-expect-error not a Genre`,
+        `await client.books({ genre: "SCIFI" });`,
+      ].join("\n"),
+    );
+
+    const program = ts.createProgram([join(root, "usage.ts")], {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+      types: ["node"],
+      typeRoots: [TYPES],
+      skipLibCheck: true,
+    });
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    assert.deepEqual(diagnostics, []);
+  });
+
+  it("types unions and interfaces by their possible types", () => {
+    const source = emitGraphQLClient(libraryDef());
+    assert.match(source, /^export type SearchResult = Book \| Author;$/m);
+    assert.match(
+      source,
+      /export interface Node \{\n {2}__typename\?: "Author" \| "Book";\n {2}id\?: string;\n\}/,
+    );
+    assert.match(
+      source,
+      /^export type Genre = "FICTION" \| "NONFICTION" \| "POETRY";$/m,
+    );
+    assert.match(source, /^export type DateTime = unknown;$/m);
+  });
+});
+
+// ── Names ────────────────────────────────────────────────────────────────────
+
+describe("GraphQL client names", () => {
+  it("renames operations that clash with client members or each other", async () => {
+    const source = emitGraphQLClient(libraryDef());
+    for (const signature of [
+      "executeQuery(): Promise<string | null>",
+      "documentQuery(): Promise<string | null>",
+      "executeMutation(variables: ExecuteMutationVariables): Promise<boolean | null>",
+      "booksMutation(): Promise<number | null>",
+      "books(variables: BooksVariables = {}, options: OperationOptions = {}): Promise<Book[]>",
+    ]) {
+      assert.ok(source.includes(`  async ${signature} {`), signature);
+    }
+
+    // The renamed methods still send the schema's field names
+    const doc = await documents(libraryDef());
+    assert.equal(doc("executeQuery"), "query ExecuteQuery { execute }");
+    assert.equal(
+      doc("executeMutation"),
+      "mutation ExecuteMutation($id: ID!) { execute(id: $id) }",
+    );
+    assert.equal(doc("booksMutation"), "mutation BooksMutation { books }");
+  });
+
+  it("renames types that clash with TypeScript or client names", () => {
+    const source = emitGraphQLClient({
+      ...libraryDef(),
+      schema: parseSdl(`
+        type Query { response: Response, client: LibraryClient, errors: [Error!] }
+        type Response { status: Int }
+        type LibraryClient { id: ID }
+        type Error { message: String }
+      `),
+    });
+    assert.match(source, /^export interface Response_ \{$/m);
+    assert.match(source, /^export interface LibraryClient_ \{$/m);
+    assert.match(source, /^export interface Error_ \{$/m);
+    assert.match(source, /^export class LibraryClient \{$/m);
+    assert.match(
+      source,
+      /async errors\(options: OperationOptions = \{\}\): Promise<Error_\[\] \| null>/,
+    );
+  });
+});
+
+// ── Selections ───────────────────────────────────────────────────────────────
+
+describe("GraphQL default selections", () => {
+  it("selects unions and interfaces through their possible types", async () => {
+    const doc = await documents(libraryDef());
+    assert.equal(
+      doc("search").split("\n")[0],
+      "query Search($text: String!, $limit: Int) { search(text: $text, limit: $limit) { __typename ... on Book { ...BookFields } ... on Author { ...AuthorFields } } }",
+    );
+    assert.equal(
+      doc("node").split("\n")[0],
+      "query Node($id: ID!) { node(id: $id) { ...NodeFields ... on Author { ...AuthorFields } ... on Book { ...BookFields } } }",
+    );
+  });
+
+  it("leaves out fields that need arguments or are deprecated", async () => {
+    const mod = await loadModule(libraryDef());
+    assert.equal(
+      mod.FRAGMENTS.BookFields,
+      "fragment BookFields on Book { __typename id title genre published }",
+    );
+  });
+
+  it("skips nested fields with required arguments at every depth", async () => {
+    const doc = await documents(libraryDef({ depth: 2 }));
+    const [operation, ...fragments] = doc("books").split("\n");
+    // `reviews(first: Int!)` can't be selected without a value; `books(first: Int = 20)` can
+    assert.equal(
+      operation,
+      "query Books($genre: Genre) { books(genre: $genre) { ...BookFields author { ...AuthorFields books { ...BookFields } } } }",
+    );
+    assert.deepEqual(fragments, [
+      "fragment BookFields on Book { __typename id title genre published }",
+      "fragment AuthorFields on Author { __typename id name }",
+    ]);
+  });
+
+  it("nests as deep as `depth` asks", async () => {
+    const flat = await documents(libraryDef({ depth: 0 }));
+    assert.equal(
+      flat("addBook").split("\n")[0],
+      "mutation AddBook($input: BookInput!) { addBook(input: $input) { ...BookFields } }",
+    );
+    assert.throws(() => validateSelectionDepth(4), /from 0 to 3/);
+    assert.throws(() => validateSelectionDepth(1.5), /from 0 to 3/);
+    validateSelectionDepth(3);
+  });
+
+  it("adds only the generated fragments a custom selection spreads", async () => {
+    const doc = await documents(libraryDef());
+    assert.equal(
+      doc("books", { selection: "id author { ...AuthorFields }" }),
+      [
+        "query Books($genre: Genre) { books(genre: $genre) { id author { ...AuthorFields } } }",
+        "fragment AuthorFields on Author { __typename id name }",
+      ].join("\n"),
+    );
+  });
+});
+
+// ── Requests ─────────────────────────────────────────────────────────────────
+
+describe("GraphQL client requests", () => {
+  it("posts the document and returns the operation's field", async () => {
+    const mod = await loadModule(libraryDef());
+    const sent: any[] = [];
+    const client = new mod.LibraryClient({
+      fetch: async (_url: string, init: RequestInit) => {
+        sent.push(JSON.parse(init.body as string));
+        return new Response(JSON.stringify({ data: { execute: true } }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      },
+    });
+    assert.equal(await client.executeMutation({ id: "b1" }), true);
+    assert.deepEqual(sent, [
+      {
+        query: "mutation ExecuteMutation($id: ID!) { execute(id: $id) }",
+        variables: { id: "b1" },
+        operationName: "ExecuteMutation",
+      },
+    ]);
+  });
+
+  it("throws GraphQLError with the partial data", async () => {
+    const mod = await loadModule(libraryDef());
+    const client = new mod.LibraryClient({
+      fetch: async () =>
+        new Response(
+          JSON.stringify({
+            data: { node: null },
+            errors: [{ message: "Not found", path: ["node"] }],
+          }),
+        ),
+    });
+    await assert.rejects(client.node({ id: "x" }), (err: any) => {
+      assert.equal(err.name, "GraphQLError");
+      assert.equal(err.message, "Not found");
+      assert.deepEqual(err.data, { node: null });
+      return true;
+    });
+  });
+});
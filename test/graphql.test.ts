@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  BUILTIN_SCALARS,
+  importGraphQL,
+  loadGraphQLSchema,
+  parseSdl,
+  printTypeRef,
+  type GqlSchemaDef,
+  type GqlTypeDef,
+} from "../src/graphql.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+// library.json is graphql-js's introspection result for library.graphql
+const FIXTURES = fileURLToPath(new URL("./fixtures/graphql", import.meta.url));
+const SDL_PATH = join(FIXTURES, "library.graphql");
+const JSON_PATH = join(FIXTURES, "library.json");
+const SDL = readFileSync(SDL_PATH, "utf-8");
+const INTROSPECTION = JSON.parse(readFileSync(JSON_PATH, "utf-8"));
+
+function typeOf(schema: GqlSchemaDef, name: string): GqlTypeDef {
+  const type = schema.types.find((t) => t.name === name);
+  assert.ok(type, `no type ${name}`);
+  return type;
+}
+
+/** Types by name, minus the descriptions servers attach to built-in scalars. */
+function comparable(schema: GqlSchemaDef): Record<string, GqlTypeDef> {
+  return Object.fromEntries(
+    schema.types.map((t) => {
+      if (!BUILTIN_SCALARS.includes(t.name)) return [t.name, t];
+      const { description: _, ...rest } = t;
+      return [t.name, rest];
+    }),
+  );
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+describe("loadGraphQLSchema", () => {
+  it("reads SDL and introspection from paths, text and objects", () => {
+    const cases: [unknown, "sdl" | "introspection"][] = [
+      [SDL_PATH, "sdl"],
+      [SDL, "sdl"],
+      [JSON_PATH, "introspection"],
+      [JSON.stringify(INTROSPECTION), "introspection"],
+      [INTROSPECTION, "introspection"],
+      [INTROSPECTION.data, "introspection"],
+    ];
+    for (const [source, format] of cases) {
+      const loaded = loadGraphQLSchema(source);
+      assert.equal(loaded.format, format);
+      assert.equal(loaded.schema.queryType, "Query");
+      assert.equal(loaded.schema.mutationType, "Mutation");
+    }
+  });
+
+  it("skips introspection's own __ types", () => {
+    const { schema } = loadGraphQLSchema(INTROSPECTION);
+    assert.equal(
+      schema.types.some((t) => t.name.startsWith("__")),
+      false,
+    );
+  });
+
+  it("rejects what isn't a schema", () => {
+    assert.throws(
+      () => loadGraphQLSchema({ data: { user: null } }),
+      /Not a GraphQL schema/,
+    );
+    assert.throws(
+      () => loadGraphQLSchema(join(FIXTURES, "missing.graphql")),
+      /GraphQL schema not found/,
+    );
+    assert.throws(() => parseSdl("type Query {"), Error);
+  });
+});
+
+// ── SDL vs Introspection ─────────────────────────────────────────────────────
+
+describe("SDL and introspection input", () => {
+  const sdl = importGraphQL(SDL_PATH);
+  const introspection = importGraphQL(JSON_PATH);
+
+  it("reduce to the same model", () => {
+    assert.equal(sdl.format, "sdl");
+    assert.equal(introspection.format, "introspection");
+    assert.deepEqual(comparable(sdl.schema), comparable(introspection.schema));
+    assert.deepEqual(sdl.warnings, []);
+    assert.deepEqual(introspection.warnings, []);
+  });
+
+  it("count queries and mutations", () => {
+    for (const imported of [sdl, introspection]) {
+      assert.equal(imported.queries, 5);
+      assert.equal(imported.mutations, 3);
+    }
+  });
+
+  it("keep interfaces, unions, enums and input objects", () => {
+    for (const { schema } of [sdl, introspection]) {
+      assert.deepEqual(typeOf(schema, "Node").possibleTypes?.sort(), [
+        "Author",
+        "Book",
+      ]);
+      assert.equal(typeOf(schema, "Node").kind, "INTERFACE");
+      assert.deepEqual(typeOf(schema, "SearchResult"), {
+        kind: "UNION",
+        name: "SearchResult",
+        possibleTypes: ["Book", "Author"],
+      });
+      assert.deepEqual(typeOf(schema, "Genre").enumValues, [
+        "FICTION",
+        "NONFICTION",
+        "POETRY",
+      ]);
+      const input = typeOf(schema, "BookInput").inputFields!;
+      assert.deepEqual(
+        input.map((f) => [f.name, printTypeRef(f.type), f.defaultValue]),
+        [
+          ["title", "String!", undefined],
+          ["genre", "Genre", "FICTION"],
+          ["authorId", "ID!", undefined],
+        ],
+      );
+      assert.equal(typeOf(schema, "DateTime").kind, "SCALAR");
+    }
+  });
+
+  it("keep arguments, defaults, deprecations and descriptions", () => {
+    for (const { schema } of [sdl, introspection]) {
+      const book = typeOf(schema, "Book").fields!;
+      const reviews = book.find((f) => f.name === "reviews")!;
+      assert.equal(printTypeRef(reviews.type), "[Review!]!");
+      assert.deepEqual(
+        reviews.args.map((a) => printTypeRef(a.type)),
+        ["Int!"],
+      );
+      assert.equal(book.find((f) => f.name === "isbn")!.deprecated, "Use id");
+      assert.equal(book.find((f) => f.name === "title")!.deprecated, undefined);
+
+      const query = typeOf(schema, "Query").fields!;
+      const search = query.find((f) => f.name === "search")!;
+      assert.equal(search.args[1].defaultValue, "10");
+      assert.equal(
+        query.find((f) => f.name === "node")!.description,
+        "Fetch any object by ID.",
+      );
+    }
+  });
+});
+
+// ── SDL Reader ───────────────────────────────────────────────────────────────
+
+describe("parseSdl", () => {
+  it("merges type extensions and drops other directives", () => {
+    const schema = parseSdl(`
+      directive @cached(ttl: Int) on FIELD_DEFINITION
+      type Query { me: User @cached(ttl: 60) }
+      type User { id: ID! }
+      extend type User { email: String @deprecated }
+      extend type Query { users: [User!]! }
+    `);
+    assert.equal(schema.queryType, "Query");
+    assert.deepEqual(
+      typeOf(schema, "Query").fields!.map((f) => f.name),
+      ["me", "users"],
+    );
+    const email = typeOf(schema, "User").fields!.find(
+      (f) => f.name === "email",
+    )!;
+    assert.equal(email.deprecated, "");
+  });
+});
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+describe("importGraphQL", () => {
+  it("trims to the selected operations and the types they reach", () => {
+    const { schema, queries, mutations } = importGraphQL(SDL, {
+      operations: ["books"],
+    });
+    // `books` exists as a query and as a mutation; both are kept
+    assert.equal(queries, 1);
+    assert.equal(mutations, 1);
+    assert.deepEqual(schema.types.map((t) => t.name).sort(), [
+      "Author",
+      "Book",
+      "DateTime",
+      "Genre",
+      "ID",
+      "Int",
+      "Mutation",
+      "Query",
+      "Review",
+      "String",
+    ]);
+  });
+
+  it("drops a root type none of the selected operations use", () => {
+    const { schema, mutations } = importGraphQL(SDL, {
+      operations: ["search"],
+    });
+    assert.equal(mutations, 0);
+    assert.equal(schema.mutationType, undefined);
+    assert.equal(
+      schema.types.some((t) => t.name === "Mutation"),
+      false,
+    );
+  });
+
+  it("rejects unknown operations and schemas without any", () => {
+    assert.throws(
+      () => importGraphQL(SDL, { operations: ["nope"] }),
+      /No query or mutation named nope/,
+    );
+    assert.throws(
+      () => importGraphQL({ __schema: { types: [] } }),
+      /The schema has no query or mutation fields/,
+    );
+  });
+
+  it("warns about referenced types that aren't defined", () => {
+    const { warnings } = importGraphQL("type Query {\n  me: Profile\n}");
+    assert.deepEqual(warnings, [
+      'Type "Profile" is referenced but not defined',
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * jsdom Browser — Headless `BrowserDriver` for tests.
+ *
+ * Loads pages over HTTP into jsdom with their scripts running, and evaluates
+ * the runner's page scripts in the page's window. jsdom has no layout, so
+ * elements get a fixed-size box unless they or an ancestor are
+ * `display: none`, which is all the runner's visibility check needs.
+ * Results are passed through JSON, as the browser control server does.
+ */
+
+import { JSDOM } from "jsdom";
+import type { BrowserDriver } from "../../src/browser-steps.js";
+
+export interface JsdomBrowser extends BrowserDriver {
+  /** URLs passed to `navigate`, in order. */
+  visited: string[];
+  close(): void;
+}
+
+function installLayout(window: JSDOM["window"]): void {
+  window.HTMLElement.prototype.getBoundingClientRect = function () {
+    for (let el: Element | null = this; el; el = el.parentElement) {
+      if (window.getComputedStyle(el).display === "none") {
+        return new window.DOMRect(0, 0, 0, 0);
+      }
+    }
+    return new window.DOMRect(0, 0, 100, 20);
+  };
+  window.Element.prototype.scrollIntoView = () => {};
+}
+
+export function jsdomBrowser(): JsdomBrowser {
+  let dom: JSDOM | undefined;
+  const visited: string[] = [];
+
+  return {
+    visited,
+    async navigate(url) {
+      visited.push(url);
+      dom?.window.close();
+      dom = undefined;
+      const next = await JSDOM.fromURL(url, {
+        runScripts: "dangerously",
+        resources: "usable",
+        pretendToBeVisual: true,
+      });
+      installLayout(next.window);
+      dom = next;
+    },
+    async evaluate<T>(fn: string) {
+      if (!dom) throw new Error("No page loaded");
+      // Results cross a JSON boundary with the real control server too
+      const result = (dom.window as any).eval(`(${fn})()`);
+      return (
+        result === undefined ? undefined : JSON.parse(JSON.stringify(result))
+      ) as T;
+    },
+    close() {
+      dom?.window.close();
+      dom = undefined;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Plugin — Registers foundry against a stub plugin API for tests.
+ *
+ * Everything foundry writes under the home directory (extensions, skills,
+ * hooks, its data dir) lands in a throwaway `HOME`, so a test file sets up
+ * one home in `before` and removes it in `after`. The gateway loads plugins
+ * with a CommonJS-capable loader; `require` is provided the same way here.
+ * Sandbox runs use the repo's own `tsx`.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+(globalThis as any).require ??= createRequire(import.meta.url);
+
+// Sandboxes run `npx tsx`; find this repo's tsx instead of downloading one
+// into the temp home
+const BIN = fileURLToPath(new URL("../../node_modules/.bin", import.meta.url));
+if (!(process.env.PATH || "").split(delimiter).includes(BIN)) {
+  process.env.PATH = [BIN, process.env.PATH].filter(Boolean).join(delimiter);
+}
+
+export interface LoadedPlugin {
+  home: string;
+  dataDir: string;
+  extensionsDir: string;
+  skillsDir: string;
+  hooksDir: string;
+  tools: any[];
+  logs: string[];
+  /** Run a tool and return the text of its reply. */
+  call(name: string, params?: Record<string, unknown>): Promise<string>;
+}
+
+/**
+ * Point `HOME` at a fresh temp dir. Call before `loadPlugin`.
+ */
+export function useTempHome(): { home: string; cleanup(): void } {
+  const previous = process.env.HOME;
+  const home = mkdtempSync(join(tmpdir(), "foundry-home-"));
+  process.env.HOME = home;
+  return {
+    home,
+    cleanup() {
+      process.env.HOME = previous;
+      rmSync(home, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Register the plugin (again) against the current `HOME`, as a gateway
+ * restart would.
+ */
+export async function loadPlugin(): Promise<LoadedPlugin> {
+  const { default: plugin } = await import("../../index.js");
+  const home = process.env.HOME!;
+  const tools: any[] = [];
+  const logs: string[] = [];
+  const log = (msg: string) => logs.push(msg);
+  plugin.register({
+    logger: { info: log, warn: log, error: log },
+    pluginConfig: {
+      dataDir: join(home, ".openclaw", "foundry"),
+      openclawPath: join(home, "openclaw"),
+    },
+    config: {},
+    registerTool: (factory: any) => tools.push(...factory({})),
+    on: () => {},
+  } as any);
+
+  return {
+    home,
+    dataDir: join(home, ".openclaw", "foundry"),
+    extensionsDir: join(home, ".openclaw", "extensions"),
+    skillsDir: join(home, ".openclaw", "skills"),
+    hooksDir: join(home, ".openclaw", "hooks"),
+    tools,
+    logs,
+    async call(name, params = {}) {
+      const tool = tools.find((t) => t.name === name);
+      if (!tool) throw new Error(`No tool ${name}`);
+      const result = await tool.execute("test", params);
+      return result.content.map((c: any) => c.text).join("\n");
+    },
+  };
+}
@@ -0,0 +1,228 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  HookEventCatalog,
+  mockHookEvent,
+  mockWorkspaceFiles,
+  type HookEventSource,
+} from "../src/hook-events.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+// Shaped like the LocalDocs pages of an OpenClaw install
+const TYPES: HookEventSource = {
+  name: "plugin-sdk/types.d.ts",
+  kind: "types",
+  content: `
+export type PluginHookName = "agent_end" | "before_model_call" | "message_sending";
+
+/** Emitted before the model is called */
+export interface PluginHookBeforeModelCallEvent {
+  model: string; // Provider/model ID
+  tokens: number;
+}
+export type PluginHookBeforeModelCallResult = { model?: string };
+export interface PluginHookAgentEndEvent {
+  messages: unknown[];
+  success: boolean;
+}
+`,
+};
+
+const PLUGIN_DOC: HookEventSource = {
+  name: "plugins/hooks",
+  kind: "doc",
+  content: "```ts\napi.on('session_resume', async (event) => {});\n```",
+};
+
+const HOOK_DOC: HookEventSource = {
+  name: "automation/hooks",
+  kind: "doc",
+  content: "Standalone hooks can also listen for `command:compact`.",
+};
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+describe("HookEventCatalog.validate", () => {
+  const catalog = new HookEventCatalog();
+
+  it("accepts built-in events of each kind", () => {
+    assert.equal(catalog.validate("before_tool_call", "plugin").kind, "plugin");
+    assert.equal(
+      catalog.validate("command:new", "standalone").kind,
+      "standalone",
+    );
+  });
+
+  it("rejects unknown events and lists the known ones", () => {
+    assert.throws(
+      () => catalog.validate("on_everything", "plugin"),
+      (err: Error) => {
+        assert.match(
+          err.message,
+          /^Unknown extension hook event "on_everything"\. Known: /,
+        );
+        assert.match(err.message, /before_agent_start, agent_end/);
+        return true;
+      },
+    );
+    assert.throws(
+      () => catalog.validate("command:launch", "standalone"),
+      /Unknown standalone hook event "command:launch"\. Known: command:new/,
+    );
+  });
+
+  it("suggests the closest name for a typo", () => {
+    assert.throws(
+      () => catalog.validate("before_tool_cal", "plugin"),
+      /\(did you mean "before_tool_call"\?\)/,
+    );
+    assert.throws(
+      () => catalog.validate("command:nwe", "standalone"),
+      /\(did you mean "command:new"\?\)/,
+    );
+  });
+
+  it("points out events of the other hook kind", () => {
+    assert.throws(
+      () => catalog.validate("command:new", "plugin"),
+      /"command:new" is a standalone hook event; use foundry_write_hook/,
+    );
+    assert.throws(
+      () => catalog.validate("agent_end", "standalone"),
+      /"agent_end" is an extension hook event; use foundry_add_hook/,
+    );
+  });
+});
+
+// ── Discovery ────────────────────────────────────────────────────────────────
+
+describe("HookEventCatalog discovery", () => {
+  const catalog = new HookEventCatalog([TYPES, PLUGIN_DOC, HOOK_DOC]);
+
+  it("adds events the install's types declare, with their payloads", () => {
+    assert.deepEqual(catalog.get("before_model_call", "plugin"), {
+      name: "before_model_call",
+      kind: "plugin",
+      description: "",
+      event: "{ model: string; tokens: number }",
+      context: "Record<string, unknown>",
+      result: "{ model?: string }",
+      source: "types",
+    });
+  });
+
+  it("prefers declared payloads but keeps built-in descriptions", () => {
+    const spec = catalog.get("agent_end", "plugin")!;
+    assert.equal(spec.event, "{ messages: unknown[]; success: boolean }");
+    assert.equal(spec.description, "After the agent finishes a run");
+    assert.equal(spec.source, "types");
+
+    // Declared by name only: the built-in payload stays
+    const sending = catalog.get("message_sending", "plugin")!;
+    assert.match(sending.event, /to: string; content: string/);
+    assert.equal(sending.source, "builtin");
+  });
+
+  it("adds events only the docs mention", () => {
+    assert.equal(catalog.get("session_resume", "plugin")?.source, "docs");
+    assert.equal(
+      catalog.get("session_resume", "plugin")?.event,
+      "Record<string, unknown>",
+    );
+    assert.ok(catalog.names("standalone").includes("command:compact"));
+    catalog.validate("command:compact", "standalone");
+  });
+
+  it("ignores pages that aren't about hooks", () => {
+    const other = new HookEventCatalog([
+      { name: "tools/browser", kind: "doc", content: "`command:launch`" },
+    ]);
+    assert.throws(() => other.validate("command:launch", "standalone"));
+  });
+});
+
+// ── Handler Types ────────────────────────────────────────────────────────────
+
+describe("HookEventCatalog handler types", () => {
+  const catalog = new HookEventCatalog();
+
+  it("types extension handlers from the event's payload and result", () => {
+    const signature = catalog.pluginHandlerSignature("before_tool_call");
+    assert.match(
+      signature.params,
+      /^event: \{ toolName: string; params: Record<string, unknown> \}, ctx: \{ agentId\?: string; sessionKey\?: string; toolName: string \}$/,
+    );
+    assert.match(
+      signature.returns!,
+      /^Promise<\{ params\?.*blockReason\?: string \} \| void>$/,
+    );
+    assert.equal(
+      catalog.pluginHandlerSignature("agent_end").returns,
+      undefined,
+    );
+  });
+
+  it("joins the context types of a standalone hook's events", () => {
+    const type = catalog.standaloneContextType([
+      "command:new",
+      "gateway:startup",
+    ]);
+    assert.match(type, /commandSource: string/);
+    assert.match(type, / \| \{ .*\}$/);
+    assert.equal(
+      catalog.standaloneContextType(["command:new", "command:reset"]),
+      catalog.standaloneContextType(["command:new"]),
+    );
+  });
+});
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+describe("mockHookEvent", () => {
+  const workspace = "/tmp/sandbox/workspace";
+  const now = new Date("2026-01-02T03:04:05Z");
+
+  it("builds command events pointing into the workspace", () => {
+    const event = mockHookEvent("command:reset", workspace, now);
+    assert.equal(event.type, "command");
+    assert.equal(event.action, "reset");
+    assert.equal(event.timestamp, now.toISOString());
+    assert.deepEqual(event.messages, []);
+    const context = event.context as any;
+    assert.equal(context.workspaceDir, workspace);
+    assert.ok(context.sessionFile.startsWith(join(workspace, "sessions")));
+    // The session file the event names exists among the workspace files
+    const files = mockWorkspaceFiles();
+    assert.ok(
+      Object.keys(files).some(
+        (f) => join(workspace, f) === context.sessionFile,
+      ),
+    );
+  });
+
+  it("hands agent:bootstrap the workspace's bootstrap files", () => {
+    const context = mockHookEvent("agent:bootstrap", workspace, now)
+      .context as any;
+    assert.deepEqual(
+      context.bootstrapFiles.map((f: any) => f.name),
+      ["AGENTS.md", "SOUL.md", "TOOLS.md", "USER.md"],
+    );
+    assert.equal(
+      context.bootstrapFiles[0].content,
+      mockWorkspaceFiles()["AGENTS.md"],
+    );
+  });
+
+  it("gives events only known from the docs a minimal context", () => {
+    assert.deepEqual(mockHookEvent("command:compact", workspace, now), {
+      sessionKey: "agent:main:main",
+      timestamp: now.toISOString(),
+      messages: [],
+      type: "command",
+      action: "compact",
+      context: { workspaceDir: workspace, cfg: {} },
+    });
+  });
+});
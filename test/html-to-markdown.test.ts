@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { htmlToMarkdown } from "../src/html-to-markdown.js";
+
+// Each <name>.html is a saved page, trimmed to a few sections but keeping the
+// generator's markup; <name>.md is the Markdown we expect
+const FIXTURES = join(
+  fileURLToPath(new URL(".", import.meta.url)),
+  "fixtures",
+  "html-to-markdown",
+);
+
+// Pages whose links are relative are converted against the URL they came from
+const BASE_URLS: Record<string, string> = {
+  "docusaurus-lifecycle-apis":
+    "https://docusaurus.io/docs/api/plugin-methods/lifecycle-apis",
+  "github-readme": "https://github.com/sindresorhus/ky",
+  "openclaw-hooks": "https://docs.openclaw.ai/automation/hooks",
+  "sphinx-requests-api": "https://requests.readthedocs.io/en/latest/api/",
+};
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+describe("htmlToMarkdown fixtures", () => {
+  const pages = readdirSync(FIXTURES).filter((f) => f.endsWith(".html"));
+  assert.ok(pages.length > 0);
+
+  for (const page of pages) {
+    const name = page.replace(/\.html$/, "");
+    it(name, () => {
+      const html = readFileSync(join(FIXTURES, page), "utf-8");
+      const expected = readFileSync(join(FIXTURES, `${name}.md`), "utf-8");
+      assert.equal(htmlToMarkdown(html, BASE_URLS[name]) + "\n", expected);
+    });
+  }
+});
+
+// ── Details ──────────────────────────────────────────────────────────────────
+
+describe("htmlToMarkdown", () => {
+  it("keeps a custom admonition title as the label", () => {
+    const md = htmlToMarkdown(
+      '<div class="admonition warning"><p class="admonition-title">Heads up</p><p>Body</p></div>',
+    );
+    assert.equal(md, "> **Heads up**\n>\n> Body");
+  });
+
+  it("keeps a title inside the article's header but drops the site header", () => {
+    const md = htmlToMarkdown(
+      "<body><header><a href='/'>Site</a></header><article><header><h1>Hooks Reference</h1></header><p>Body</p></article></body>",
+    );
+    assert.equal(md, "# Hooks Reference\n\nBody");
+  });
+
+  it("keeps section headers when there is no content element", () => {
+    const md = htmlToMarkdown(
+      "<body><header>Site</header><section><header><h2>Intro</h2></header></section></body>",
+    );
+    assert.equal(md, "## Intro");
+  });
+
+  it("renders a plain aside as content, not an admonition", () => {
+    const md = htmlToMarkdown(
+      "<main><aside><p>On this page</p><ul><li><a href='#a'>A</a></li></ul></aside><aside role='note'><p>Careful</p></aside></main>",
+    );
+    assert.equal(md, "On this page\n\n- [A](#a)\n\n> **Note**\n>\n> Careful");
+  });
+
+  it("does not take the page language for a code language", () => {
+    const md = htmlToMarkdown(
+      '<html lang="en"><body><pre><code>x = 1</code></pre></body></html>',
+    );
+    assert.equal(md, "```\nx = 1\n```");
+  });
+
+  it("fences code that contains backtick runs", () => {
+    const md = htmlToMarkdown("<pre><code>```md\nhi\n```</code></pre>");
+    assert.equal(md, "````\n```md\nhi\n```\n````");
+  });
+
+  it("escapes pipes and joins line breaks in table cells", () => {
+    const md = htmlToMarkdown(
+      "<table><tr><th>a</th></tr><tr><td>x|y<br>z</td></tr></table>",
+    );
+    assert.equal(md, "| a |\n| --- |\n| x\\|y<br>z |");
+  });
+});
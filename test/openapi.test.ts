@@ -0,0 +1,220 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { importOpenApi, loadOpenApiDocument } from "../src/openapi.js";
+
+const FIXTURES = join(
+  fileURLToPath(new URL(".", import.meta.url)),
+  "fixtures",
+  "openapi",
+);
+
+const SWAGGER = join(FIXTURES, "petstore-swagger2.yaml");
+const OPENAPI = join(FIXTURES, "store-openapi3.yaml");
+
+const endpoint = (
+  spec: ReturnType<typeof importOpenApi>,
+  method: string,
+  path: string,
+) => {
+  const found = spec.endpoints.find(
+    (e) => e.method === method && e.path === path,
+  );
+  assert.ok(found, `${method} ${path}`);
+  return found;
+};
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+describe("loadOpenApiDocument", () => {
+  it("reads a file path, inline YAML or inline JSON alike", () => {
+    const fromFile = loadOpenApiDocument(SWAGGER);
+    const fromYaml = loadOpenApiDocument(readFileSync(SWAGGER, "utf-8"));
+    const fromJson = loadOpenApiDocument(JSON.stringify(fromFile));
+    assert.deepEqual(fromYaml, fromFile);
+    assert.deepEqual(fromJson, fromFile);
+  });
+
+  it("rejects documents that are not OpenAPI", () => {
+    assert.throws(
+      () => loadOpenApiDocument({ info: {} }),
+      /expected an "openapi" \(3\.x\) or "swagger" \(2\.0\) field/,
+    );
+  });
+});
+
+// ── Swagger 2.0 ──────────────────────────────────────────────────────────────
+
+describe("importOpenApi (Swagger 2.0)", () => {
+  const spec = importOpenApi(SWAGGER);
+
+  it("builds servers from host, basePath and schemes, https first", () => {
+    assert.equal(spec.specVersion, "2.0");
+    assert.deepEqual(
+      spec.servers.map((s) => s.url),
+      ["https://petstore.example.com/v1", "http://petstore.example.com/v1"],
+    );
+  });
+
+  it("reads securityDefinitions, including the inline oauth2 flow", () => {
+    assert.deepEqual(spec.security, ["api_key"]);
+    assert.deepEqual(spec.authSchemes[0], {
+      name: "api_key",
+      type: "apiKey",
+      in: "header",
+      paramName: "X-API-Key",
+      description: undefined,
+    });
+    assert.deepEqual(spec.authSchemes[1].flows, {
+      clientCredentials: {
+        tokenUrl: "https://petstore.example.com/oauth/token",
+        scopes: ["read:pets"],
+      },
+    });
+  });
+
+  it("resolves parameter refs and keeps inline schema keywords", () => {
+    const list = endpoint(spec, "GET", "/pets");
+    assert.deepEqual(list.parameters, [
+      {
+        name: "limit",
+        in: "query",
+        required: false,
+        schema: { type: "integer", maximum: 100 },
+      },
+      {
+        name: "tag",
+        in: "query",
+        required: false,
+        description: "Filter by tag",
+        schema: { type: "string" },
+      },
+    ]);
+  });
+
+  it("cuts $ref cycles between definitions", () => {
+    const body = endpoint(spec, "POST", "/pets").body!;
+    assert.equal(body.required, true);
+    assert.deepEqual(
+      (body.schema as any).properties.owner.properties.pets.items,
+      { description: "Recursive reference to Pet" },
+    );
+  });
+
+  it("turns formData parameters into a form body", () => {
+    const upload = endpoint(spec, "POST", "/pets/{petId}/photo");
+    assert.equal(upload.parameters![0].name, "petId");
+    assert.equal(upload.parameters![0].required, true);
+    assert.deepEqual(upload.body, {
+      contentType: "multipart/form-data",
+      required: true,
+      schema: {
+        type: "object",
+        properties: { file: { type: "file" } },
+        required: ["file"],
+      },
+    });
+    assert.equal(upload.response?.status, "default");
+  });
+});
+
+// ── OpenAPI 3 ────────────────────────────────────────────────────────────────
+
+describe("importOpenApi (OpenAPI 3)", () => {
+  const spec = importOpenApi(OPENAPI);
+
+  it("fills server variables and warns about those without a default", () => {
+    assert.deepEqual(spec.servers, [
+      { url: "https://eu.store.example.com/api", description: "Regional" },
+      { url: "https://sandbox.store.example.com/api", description: "Sandbox" },
+      { url: "https://{tenant}.store.example.com" },
+    ]);
+    assert.ok(
+      spec.warnings.includes(
+        "Server variable {tenant} in https://{tenant}.store.example.com has no default",
+      ),
+    );
+  });
+
+  it("cuts self-references and turns nullable into a type union", () => {
+    const order = endpoint(spec, "GET", "/orders/{orderId}").response!
+      .schema as any;
+    assert.deepEqual(order.properties.note, { type: ["string", "null"] });
+    assert.deepEqual(order.properties.category.properties.parent, {
+      description: "Recursive reference to Category",
+    });
+    assert.deepEqual(order.properties.category.properties.children.items, {
+      description: "Recursive reference to Category",
+    });
+  });
+
+  it("prefers JSON request bodies and falls back to 2XX responses", () => {
+    assert.equal(
+      endpoint(spec, "POST", "/orders").body?.contentType,
+      "application/json",
+    );
+    const list = endpoint(spec, "GET", "/orders");
+    assert.equal(list.response?.status, "2XX");
+    assert.deepEqual(list.security, ["bearer"]);
+  });
+
+  it("warns about cookie parameters instead of failing", () => {
+    assert.deepEqual(endpoint(spec, "GET", "/orders").parameters, []);
+    assert.ok(
+      spec.warnings.includes(
+        'GET /orders: cookie parameter "session" is not supported',
+      ),
+    );
+  });
+
+  it("gives up on a $ref chain that never ends", () => {
+    const looped = importOpenApi({
+      openapi: "3.1.0",
+      info: { title: "Loop", version: "1" },
+      components: {
+        parameters: { Loop: { $ref: "#/components/parameters/Loop" } },
+      },
+      paths: {
+        "/x": {
+          get: {
+            parameters: [{ $ref: "#/components/parameters/Loop" }],
+            responses: { "204": { description: "Nothing" } },
+          },
+        },
+      },
+    });
+    assert.deepEqual(looped.endpoints[0].parameters, []);
+  });
+});
+
+// ── Tags ─────────────────────────────────────────────────────────────────────
+
+describe("importOpenApi tag grouping", () => {
+  it("lists declared tags first and drops those no operation leads with", () => {
+    const swagger = importOpenApi(SWAGGER);
+    assert.deepEqual(swagger.tags, [
+      { name: "pets", description: "Everything about pets" },
+      { name: "photos" },
+    ]);
+    // "reports" is only a second tag, so nothing is grouped under it
+    assert.deepEqual(
+      importOpenApi(OPENAPI).tags.map((t) => t.name),
+      ["orders", "catalog"],
+    );
+  });
+
+  it("imports only operations with the requested tags", () => {
+    const reports = importOpenApi(OPENAPI, { tags: ["reports", "catalog"] });
+    assert.deepEqual(
+      reports.endpoints.map((e) => `${e.method} ${e.path}`),
+      ["GET /orders", "GET /categories"],
+    );
+    assert.equal(reports.endpoints[1].deprecated, true);
+    assert.throws(
+      () => importOpenApi(OPENAPI, { tags: ["missing"] }),
+      /No operations tagged missing/,
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+
+before(async () => {
+  home = useTempHome();
+  const docs = join(home.home, "openclaw", "docs");
+  mkdirSync(docs, { recursive: true });
+  writeFileSync(join(docs, "skills.md"), "# Skills\n\nSkills are folders.\n");
+  writeFileSync(join(docs, "browser.md"), "# Browser\n\nDrive a browser.\n");
+  plugin = await loadPlugin();
+  await plugin.call("foundry_docs", { reload: true });
+});
+
+after(() => home.cleanup());
+
+const docsIn = (explain: string) =>
+  [...explain.matchAll(/^ {2}- (.+)$/gm)].map((m) => m[1]);
+
+// ── foundry_explain ──────────────────────────────────────────────────────────
+
+describe("provenance", () => {
+  it("lists the docs consulted for each write, not every recent one", async () => {
+    await plugin.call("foundry_docs", { page: "skills" });
+    await plugin.call("foundry_write_skill", {
+      name: "first",
+      description: "First skill",
+      content: "Do the first thing.",
+    });
+    await plugin.call("foundry_docs", { page: "browser" });
+    await plugin.call("foundry_write_skill", {
+      name: "second",
+      description: "Second skill",
+      content: "Do the second thing.",
+    });
+
+    const first = docsIn(await plugin.call("foundry_explain", { id: "first" }));
+    const second = docsIn(
+      await plugin.call("foundry_explain", { id: "second" }),
+    );
+    assert.equal(first.length, 1, first.join(", "));
+    assert.match(first[0], /skills\.md/);
+    assert.equal(second.length, 1, second.join(", "));
+    assert.match(second[0], /browser\.md/);
+  });
+
+  it("keeps the docs of a failed write for the retry", async () => {
+    await plugin.call("foundry_docs", { page: "skills" });
+    const failed = await plugin.call("foundry_write_extension", {
+      id: "broken",
+      name: "Broken",
+      description: "Does not compile",
+      tools: [
+        {
+          name: "broken_tool",
+          description: "Broken",
+          properties: {},
+          code: "return {{;",
+        },
+      ],
+    });
+    assert.doesNotMatch(failed, /Extension Written/);
+    await plugin.call("foundry_write_skill", {
+      name: "third",
+      description: "Third skill",
+      content: "Do the third thing.",
+    });
+    const third = docsIn(await plugin.call("foundry_explain", { id: "third" }));
+    assert.deepEqual(third.length, 1);
+    assert.match(third[0], /skills\.md/);
+  });
+});
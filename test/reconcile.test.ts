@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+
+before(async () => {
+  home = useTempHome();
+  plugin = await loadPlugin();
+});
+
+after(() => home.cleanup());
+
+async function writeExtension(id: string): Promise<string> {
+  const output = await plugin.call("foundry_write_extension", {
+    id,
+    name: "Drift",
+    description: "Extension for drift tests",
+    tools: [
+      {
+        name: `${id.replace(/-/g, "_")}_echo`,
+        description: "Echo",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+        code: "return { content: [{ type: 'text', text: p.text }] };",
+      },
+    ],
+  });
+  assert.match(output, /Extension Written/, output);
+  return join(plugin.extensionsDir, id);
+}
+
+async function writeSkill(name: string): Promise<string> {
+  await plugin.call("foundry_write_skill", {
+    name,
+    description: "Skill for drift tests",
+    content: "Do the thing.",
+  });
+  return join(plugin.skillsDir, name);
+}
+
+function handInstalled(root: string, name: string, marker: string): string {
+  const dir = join(root, name);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, marker), "# hand-installed");
+  return dir;
+}
+
+/** Drift lines `foundry_list` reports for `id`, e.g. "modified extension". */
+async function driftOf(id: string): Promise<string[]> {
+  const output = await plugin.call("foundry_list");
+  return [...output.matchAll(/^- \*\*(\w+)\*\* (\w+) `([^`]+)`/gm)]
+    .filter((m) => m[3] === id)
+    .map((m) => `${m[1]} ${m[2]}`);
+}
+
+const resolve = (resolve: string, id: string, kind?: string) =>
+  plugin.call("foundry_list", { resolve, id, ...(kind ? { kind } : {}) });
+
+// ── Detection ────────────────────────────────────────────────────────────────
+
+describe("drift detection", () => {
+  it("reports artifacts whose directory is gone as missing", async () => {
+    rmSync(await writeSkill("gone-skill"), { recursive: true });
+    assert.deepEqual(await driftOf("gone-skill"), ["missing skill"]);
+  });
+
+  it("reports hand-edited files as modified", async () => {
+    const dir = await writeExtension("drift-edited");
+    assert.deepEqual(await driftOf("drift-edited"), []);
+
+    writeFileSync(join(dir, "index.ts"), "// replaced by hand\n");
+    const output = await plugin.call("foundry_list");
+    assert.match(
+      output,
+      /- \*\*modified\*\* extension `drift-edited` — `[^`]+` \(index\.ts\)/,
+    );
+  });
+
+  it("reports directories foundry didn't write as unmanaged", async () => {
+    handInstalled(plugin.extensionsDir, "foundry-weather", "index.ts");
+    handInstalled(plugin.skillsDir, "manual-notes", "SKILL.md");
+    handInstalled(plugin.hooksDir, "manual-hook", "HOOK.md");
+    // Without the marker file it isn't an artifact at all
+    mkdirSync(join(plugin.extensionsDir, "scratch"), { recursive: true });
+
+    assert.deepEqual(await driftOf("foundry-weather"), ["unmanaged extension"]);
+    assert.deepEqual(await driftOf("manual-notes"), ["unmanaged skill"]);
+    assert.deepEqual(await driftOf("manual-hook"), ["unmanaged hook"]);
+    assert.deepEqual(await driftOf("scratch"), []);
+  });
+
+  it("leaves out foundry's own plugin directory, whatever its name", async () => {
+    for (const name of ["foundry", "openclaw-foundry"]) {
+      const dir = handInstalled(plugin.extensionsDir, name, "index.ts");
+      writeFileSync(
+        join(dir, "openclaw.plugin.json"),
+        JSON.stringify({ id: "foundry-openclaw", name: "Foundry" }),
+      );
+      assert.deepEqual(await driftOf(name), [], name);
+    }
+  });
+
+  it("logs a drift summary at register", async () => {
+    const reloaded = await loadPlugin();
+    assert.ok(
+      reloaded.logs.some((l) => /Manifest drift: \d+ missing/.test(l)),
+      reloaded.logs.join("\n"),
+    );
+  });
+});
+
+// ── Resolution ───────────────────────────────────────────────────────────────
+
+describe("drift resolution", () => {
+  it("restores hand-edited files from the latest version", async () => {
+    const dir = await writeExtension("drift-restore");
+    const original = readFileSync(join(dir, "index.ts"), "utf-8");
+    writeFileSync(join(dir, "index.ts"), "// replaced by hand\n");
+
+    const output = await resolve("restore", "drift-restore");
+    assert.match(
+      output,
+      /\*\*Resolved\*\*: Restored extension "drift-restore"/,
+    );
+    assert.equal(readFileSync(join(dir, "index.ts"), "utf-8"), original);
+    assert.deepEqual(await driftOf("drift-restore"), []);
+  });
+
+  it("restores a missing artifact", async () => {
+    const dir = await writeSkill("drift-missing");
+    rmSync(dir, { recursive: true });
+
+    const output = await resolve("restore", "drift-missing");
+    assert.match(output, /\*\*Resolved\*\*: Restored skill "drift-missing"/);
+    assert.match(readFileSync(join(dir, "SKILL.md"), "utf-8"), /Do the thing/);
+    assert.deepEqual(await driftOf("drift-missing"), []);
+  });
+
+  it("adopts hand edits as a new version", async () => {
+    const dir = await writeExtension("drift-adopt");
+    writeFileSync(join(dir, "index.ts"), "// kept by hand\n");
+
+    const output = await resolve("adopt", "drift-adopt");
+    assert.match(
+      output,
+      /\*\*Resolved\*\*: Adopted local edits to extension "drift-adopt" as v2/,
+    );
+    assert.equal(
+      readFileSync(join(dir, "index.ts"), "utf-8"),
+      "// kept by hand\n",
+    );
+    assert.deepEqual(await driftOf("drift-adopt"), []);
+  });
+
+  it("adopts an unmanaged skill into the manifest", async () => {
+    const dir = join(plugin.skillsDir, "adopted-notes");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, "SKILL.md"),
+      "---\nname: adopted-notes\ndescription: Notes made by hand\n---\n\nWrite it down.\n",
+    );
+
+    const output = await resolve("adopt", "adopted-notes");
+    assert.match(output, /Adopted unmanaged skill "adopted-notes" \(v1\)/);
+    assert.match(output, /^\*\*adopted-notes\*\*$/m);
+    assert.deepEqual(await driftOf("adopted-notes"), []);
+  });
+
+  it("forgets a missing artifact without touching disk", async () => {
+    const dir = await writeSkill("drift-forget");
+    rmSync(dir, { recursive: true });
+
+    const output = await resolve("forget", "drift-forget");
+    assert.match(output, /Forgot skill "drift-forget" \(files left in place\)/);
+    assert.doesNotMatch(output, /^\*\*drift-forget\*\*$/m);
+    assert.deepEqual(await driftOf("drift-forget"), []);
+  });
+
+  it("stops reporting a forgotten unmanaged artifact", async () => {
+    const dir = handInstalled(
+      plugin.extensionsDir,
+      "manual-forget",
+      "index.ts",
+    );
+
+    const output = await resolve("forget", "manual-forget", "extension");
+    assert.match(
+      output,
+      /No longer reporting unmanaged extension "manual-forget"/,
+    );
+    assert.ok(existsSync(dir));
+    assert.deepEqual(await driftOf("manual-forget"), []);
+  });
+
+  it("refuses actions that don't apply", async () => {
+    handInstalled(plugin.skillsDir, "manual-restore", "SKILL.md");
+    assert.match(
+      await resolve("restore", "manual-restore"),
+      /\*\*Resolve failed\*\*: "manual-restore" is not managed by foundry/,
+    );
+
+    rmSync(await writeSkill("drift-no-adopt"), { recursive: true });
+    assert.match(
+      await resolve("adopt", "drift-no-adopt"),
+      /\*\*Resolve failed\*\*: "drift-no-adopt" has no files to adopt/,
+    );
+    assert.deepEqual(await driftOf("drift-no-adopt"), ["missing skill"]);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+
+before(async () => {
+  home = useTempHome();
+  plugin = await loadPlugin();
+});
+
+after(() => home.cleanup());
+
+function handInstalled(root: string, name: string, marker: string): string {
+  const dir = join(root, name);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, marker), "# hand-installed");
+  return dir;
+}
+
+// ── foundry_remove ───────────────────────────────────────────────────────────
+
+describe("foundry_remove", () => {
+  it("removes a skill foundry wrote", async () => {
+    await plugin.call("foundry_write_skill", {
+      name: "notes",
+      description: "Take notes",
+      content: "Write things down.",
+    });
+    const dir = join(plugin.skillsDir, "notes");
+    assert.ok(existsSync(dir));
+
+    const output = await plugin.call("foundry_remove", { id: "notes" });
+    assert.match(output, /## Removed skill `notes`/);
+    assert.equal(existsSync(dir), false);
+  });
+
+  it("rejects IDs that are not a single path segment", async () => {
+    for (const id of ["..", ".", "../skills", "a/b", ""]) {
+      for (const kind of ["extension", "skill", "hook"]) {
+        const output = await plugin.call("foundry_remove", { id, kind });
+        assert.match(output, /## Not Removed\n\nInvalid ID/, `${kind} ${id}`);
+      }
+    }
+    assert.ok(existsSync(join(home.home, ".openclaw")));
+    assert.ok(existsSync(plugin.extensionsDir));
+    assert.ok(existsSync(plugin.skillsDir));
+  });
+
+  it("leaves directories it didn't write alone unless forced", async () => {
+    const ext = handInstalled(plugin.extensionsDir, "manual-ext", "index.ts");
+    const skill = handInstalled(plugin.skillsDir, "manual-skill", "SKILL.md");
+
+    for (const [id, kind, dir] of [
+      ["manual-ext", "extension", ext],
+      ["manual-skill", "skill", skill],
+    ]) {
+      const output = await plugin.call("foundry_remove", { id, kind });
+      assert.match(output, /is not managed by foundry; pass force/);
+      assert.ok(existsSync(dir));
+    }
+    // Without a kind, unmanaged directories aren't even matched
+    assert.match(
+      await plugin.call("foundry_remove", { id: "manual-ext" }),
+      /No extension, skill or hook named "manual-ext"/,
+    );
+
+    const forced = await plugin.call("foundry_remove", {
+      id: "manual-skill",
+      kind: "skill",
+      force: true,
+    });
+    assert.match(forced, /- \*\*Manifest entry\*\*: no/);
+    assert.equal(existsSync(skill), false);
+    assert.ok(existsSync(ext));
+  });
+});
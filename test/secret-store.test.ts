@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import ts from "typescript";
+import { emitSecretRuntime, SecretStore } from "../src/secret-store.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "secret-store-"));
+  delete process.env.FOUNDRY_SECRETS_KEY;
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+  delete process.env.FOUNDRY_SECRETS_DIR;
+});
+
+const keyPath = () => join(root, "secrets.key");
+const nextPath = () => join(root, "secrets.key.next");
+
+// ── Key Rotation ─────────────────────────────────────────────────────────────
+
+describe("SecretStore master key rotation", () => {
+  it("re-encrypts every secret under a new key", () => {
+    const store = new SecretStore(root);
+    store.set("A", "one");
+    store.set("B", "two");
+    const oldKey = readFileSync(keyPath(), "utf-8");
+    assert.equal(store.rotateMasterKey(), 2);
+    assert.notEqual(readFileSync(keyPath(), "utf-8"), oldKey);
+    assert.equal(existsSync(nextPath()), false);
+    assert.equal(new SecretStore(root).get("B"), "two");
+  });
+
+  it("finishes a rotation that crashed after the store was rewritten", () => {
+    const store = new SecretStore(root);
+    store.set("A", "one");
+    const oldKey = readFileSync(keyPath(), "utf-8");
+    store.rotateMasterKey();
+    // Put the old key back and the new one aside, as if the rename never ran
+    writeFileSync(nextPath(), readFileSync(keyPath(), "utf-8"));
+    writeFileSync(keyPath(), oldKey);
+
+    assert.equal(new SecretStore(root).get("A"), "one");
+    assert.equal(existsSync(nextPath()), false);
+  });
+
+  it("discards a rotation that crashed before the store was rewritten", () => {
+    const store = new SecretStore(root);
+    store.set("A", "one");
+    const oldKey = readFileSync(keyPath(), "utf-8");
+    writeFileSync(nextPath(), Buffer.alloc(32, 7).toString("base64"));
+
+    assert.equal(new SecretStore(root).get("A"), "one");
+    assert.equal(existsSync(nextPath()), false);
+    assert.equal(readFileSync(keyPath(), "utf-8"), oldKey);
+  });
+});
+
+// ── Generated Runtime ────────────────────────────────────────────────────────
+
+describe("emitSecretRuntime", () => {
+  let counter = 0;
+
+  async function loadRuntime(write: boolean): Promise<any> {
+    const source = `${emitSecretRuntime({ write })}\nexport { secret${write ? ", storeSecret" : ""} };\n`;
+    const out = ts.transpileModule(source, {
+      reportDiagnostics: true,
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+      },
+    });
+    assert.deepEqual(out.diagnostics, []);
+    const file = join(root, `runtime${counter++}.mjs`);
+    writeFileSync(file, out.outputText);
+    return import(pathToFileURL(file).href);
+  }
+
+  it("bakes no store path into the generated code", () => {
+    for (const write of [false, true]) {
+      const source = emitSecretRuntime({ write });
+      assert.doesNotMatch(source, /\/root|\/home|\/Users|\/tmp/);
+      assert.match(source, /process\.env\.FOUNDRY_SECRETS_DIR/);
+    }
+  });
+
+  it("resolves the store from FOUNDRY_SECRETS_DIR at call time", async () => {
+    const runtime = await loadRuntime(true);
+    const a = join(root, "a");
+    const b = join(root, "b");
+    new SecretStore(a).set("TOKEN", "from-a");
+    new SecretStore(b).set("TOKEN", "from-b");
+
+    process.env.FOUNDRY_SECRETS_DIR = a;
+    assert.equal(runtime.secret("TOKEN"), "from-a");
+    process.env.FOUNDRY_SECRETS_DIR = b;
+    assert.equal(runtime.secret("TOKEN"), "from-b");
+
+    runtime.storeSecret("CACHED", "written-by-client");
+    assert.equal(new SecretStore(b).get("CACHED"), "written-by-client");
+    assert.equal(new SecretStore(a).has("CACHED"), false);
+  });
+});
@@ -0,0 +1,292 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import {
+  planInstall,
+  SkillDeps,
+  type CommandRunner,
+  type InstallSpec,
+} from "../src/skill-deps.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let root: string;
+let prefix: string;
+let cache: string;
+let calls: string[][];
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "skill-deps-"));
+  prefix = join(root, "data", "deps");
+  cache = join(root, "cache");
+  calls = [];
+  delete process.env.FOUNDRY_DEPS_OFFLINE;
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+  delete process.env.FOUNDRY_DEPS_OFFLINE;
+});
+
+/**
+ * Stands in for npm and uv: `npm install <name>` writes the package (with a
+ * bin named after it) under the prefix, `uv tool install` creates the tool
+ * dir and links its bin, as the real tools do.
+ */
+const stubRunner: CommandRunner = async (command, args, options) => {
+  calls.push([command, ...args]);
+  if (command === "npm") {
+    const dir = args[args.indexOf("--prefix") + 1];
+    const pkgFile = join(dir, "package.json");
+    const pkg = JSON.parse(readFileSync(pkgFile, "utf-8"));
+    pkg.dependencies ||= {};
+    if (args[0] === "install") {
+      const name = args[args.length - 1];
+      if (name === "broken") throw new Error("npm install failed: E404");
+      const moduleDir = join(dir, "node_modules", name);
+      mkdirSync(join(dir, "node_modules", ".bin"), { recursive: true });
+      mkdirSync(moduleDir, { recursive: true });
+      writeFileSync(join(moduleDir, "cli.js"), "#!/usr/bin/env node\n");
+      const link = join(dir, "node_modules", ".bin", name);
+      if (!existsSync(link)) symlinkSync(join(moduleDir, "cli.js"), link);
+      pkg.dependencies[name] ??= "^1.0.0";
+    } else {
+      for (const name of args.slice(3)) {
+        rmSync(join(dir, "node_modules", name), { recursive: true });
+        rmSync(join(dir, "node_modules", ".bin", name), { force: true });
+        delete pkg.dependencies[name];
+      }
+    }
+    writeFileSync(pkgFile, JSON.stringify(pkg));
+    return;
+  }
+  const tool = args[2];
+  const toolDir = join(options.env!.UV_TOOL_DIR!, tool);
+  mkdirSync(toolDir, { recursive: true });
+  writeFileSync(join(toolDir, "run"), "#!/bin/sh\n");
+  symlinkSync(join(toolDir, "run"), join(options.env!.UV_TOOL_BIN_DIR!, tool));
+};
+
+function deps(): SkillDeps {
+  return new SkillDeps(prefix, { run: stubRunner, cacheDir: cache });
+}
+
+function localFile(name: string, content: string): string {
+  const file = join(root, name);
+  writeFileSync(file, content);
+  return pathToFileURL(file).href;
+}
+
+function cacheDownload(url: string, content: string): void {
+  const name = url.split("/").pop()!;
+  const key = createHash("sha256").update(url).digest("hex").slice(0, 16);
+  mkdirSync(join(cache, "downloads"), { recursive: true });
+  writeFileSync(join(cache, "downloads", `${key}-${name}`), content);
+}
+
+async function installAll(d: SkillDeps, skill: string, specs: InstallSpec[]) {
+  return d.install(
+    skill,
+    d.plan(skill, specs, "linux", () => false),
+  );
+}
+
+// ── Plan ─────────────────────────────────────────────────────────────────────
+
+describe("planInstall", () => {
+  it("filters by OS and lists brew/go as manual", () => {
+    const steps = planInstall(
+      [
+        { id: "mac", kind: "brew", formula: "jq", os: ["darwin"] },
+        { id: "brew", kind: "brew", formula: "jq" },
+        { id: "go", kind: "go", package: "example.com/tool@latest" },
+        { id: "cli", kind: "node", package: "cli", os: ["linux"] },
+      ],
+      "linux",
+      () => false,
+    );
+    assert.deepEqual(
+      steps.map((s) => [s.spec.id, s.action]),
+      [
+        ["mac", "skip"],
+        ["brew", "manual"],
+        ["go", "manual"],
+        ["cli", "install"],
+      ],
+    );
+    assert.equal(steps[0].reason, "only for darwin");
+    assert.equal(steps[1].command, "brew install jq");
+  });
+
+  it("skips specs whose bins are on PATH or that are already installed", () => {
+    const steps = planInstall(
+      [
+        { id: "a", kind: "node", package: "a", bins: ["node"] },
+        { id: "b", kind: "uv", package: "b" },
+      ],
+      "linux",
+      (bin) => bin === "node",
+      ["b"],
+    );
+    assert.deepEqual(
+      steps.map((s) => s.reason),
+      ["already on PATH: node", "already installed by foundry"],
+    );
+  });
+
+  it("rejects ids and bins that are not plain file names", () => {
+    const steps = planInstall(
+      [
+        { id: "../../..", kind: "download", url: "file:///x" },
+        { id: "a/b", kind: "node", package: "a" },
+        { id: "..", kind: "node", package: "a" },
+        { id: "ok", kind: "download", url: "file:///x", bins: ["../sh"] },
+      ],
+      "linux",
+      () => false,
+    );
+    assert.ok(steps.every((s) => s.action === "skip"));
+  });
+});
+
+// ── Downloads ────────────────────────────────────────────────────────────────
+
+describe("downloads", () => {
+  it("installs a file: URL and links its bin", async () => {
+    const d = deps();
+    const url = localFile("tool.sh", "#!/bin/sh\necho hi\n");
+    const [outcome] = await installAll(d, "demo", [
+      { id: "tool", kind: "download", url, bins: ["tool"] },
+    ]);
+    assert.equal(outcome.ok, true, outcome.error);
+    const file = join(prefix, "downloads", "demo", "tool", "tool.sh");
+    assert.equal(readFileSync(file, "utf-8"), "#!/bin/sh\necho hi\n");
+    assert.deepEqual(outcome.dep!.bins, ["tool"]);
+    assert.ok(existsSync(join(prefix, "bin", "tool")));
+    assert.deepEqual(
+      d.installed("demo").map((dep) => dep.id),
+      ["tool"],
+    );
+  });
+
+  it("serves http downloads from the cache when offline", async () => {
+    process.env.FOUNDRY_DEPS_OFFLINE = "1";
+    const url = "https://example.invalid/dl/data.bin";
+    cacheDownload(url, "cached");
+    const d = new SkillDeps(prefix, {
+      run: stubRunner,
+      cacheDir: cache,
+      fetch: (() => assert.fail("fetched while offline")) as any,
+    });
+    const [outcome] = await installAll(d, "demo", [
+      { id: "data", kind: "download", url },
+    ]);
+    assert.equal(outcome.ok, true, outcome.error);
+    assert.equal(
+      readFileSync(
+        join(prefix, "downloads", "demo", "data", "data.bin"),
+        "utf-8",
+      ),
+      "cached",
+    );
+  });
+
+  it("fails an offline cache miss and leaves nothing behind", async () => {
+    process.env.FOUNDRY_DEPS_OFFLINE = "1";
+    const d = deps();
+    const [outcome] = await installAll(d, "demo", [
+      { id: "data", kind: "download", url: "https://example.invalid/x.bin" },
+    ]);
+    assert.equal(outcome.ok, false);
+    assert.match(outcome.error!, /not in the download cache/);
+    assert.equal(existsSync(join(prefix, "downloads", "demo", "data")), false);
+    assert.deepEqual(d.installed("demo"), []);
+  });
+
+  it("rolls back a failed download without touching the data dir", async () => {
+    const marker = join(root, "data", "keep.json");
+    mkdirSync(join(root, "data"), { recursive: true });
+    writeFileSync(marker, "{}");
+    const d = new SkillDeps(prefix, {
+      run: stubRunner,
+      cacheDir: cache,
+      fetch: (async () => new Response("", { status: 404 })) as any,
+    });
+    const [outcome] = await d.install("demo", [
+      {
+        spec: { id: "../../..", kind: "download", url: "https://x.invalid/a" },
+        action: "install",
+        command: "",
+      },
+    ]);
+    assert.equal(outcome.ok, false);
+    assert.ok(existsSync(marker));
+  });
+});
+
+// ── node / uv ────────────────────────────────────────────────────────────────
+
+describe("node and uv installs", () => {
+  it("records and removes packages, tools and bins", async () => {
+    const d = deps();
+    const outcomes = await installAll(d, "demo", [
+      { id: "cli", kind: "node", package: "hello-cli" },
+      { id: "ruff", kind: "uv", package: "ruff" },
+    ]);
+    assert.ok(outcomes.every((o) => o.ok));
+    assert.deepEqual(outcomes[0].dep!.packages, ["hello-cli"]);
+    assert.deepEqual(outcomes[0].dep!.bins, ["hello-cli"]);
+    assert.deepEqual(outcomes[1].dep!.bins, ["ruff"]);
+
+    const removed = await d.remove("demo");
+    assert.equal(removed.length, 2);
+    assert.ok(calls.some((c) => c[0] === "npm" && c[1] === "uninstall"));
+    assert.equal(existsSync(join(prefix, "bin", "hello-cli")), false);
+    assert.equal(existsSync(join(prefix, "bin", "ruff")), false);
+    assert.equal(existsSync(join(prefix, "uv", "tools", "ruff")), false);
+    assert.deepEqual(d.installed("demo"), []);
+  });
+
+  it("keeps packages and bins another skill still uses", async () => {
+    const d = deps();
+    const spec: InstallSpec = { id: "cli", kind: "node", package: "hello-cli" };
+    await installAll(d, "a", [spec]);
+    const [b] = await installAll(d, "b", [spec]);
+    assert.deepEqual(b.dep!.packages, ["hello-cli"]);
+    assert.deepEqual(b.dep!.bins, ["hello-cli"]);
+
+    await d.remove("a");
+    assert.equal(
+      calls.some((c) => c[1] === "uninstall"),
+      false,
+      "uninstalled a package skill b uses",
+    );
+    assert.ok(existsSync(join(prefix, "bin", "hello-cli")));
+
+    await d.remove("b");
+    assert.ok(calls.some((c) => c[1] === "uninstall"));
+    assert.equal(existsSync(join(prefix, "bin", "hello-cli")), false);
+  });
+
+  it("reports a failed install and records nothing", async () => {
+    const d = deps();
+    const [outcome] = await installAll(d, "demo", [
+      { id: "bad", kind: "node", package: "broken" },
+    ]);
+    assert.equal(outcome.ok, false);
+    assert.match(outcome.error!, /E404/);
+    assert.deepEqual(d.installed("demo"), []);
+  });
+});
@@ -0,0 +1,331 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  checkSkillRequirements,
+  describeGaps,
+  formatSkillLint,
+  lintSkillDir,
+  lintSkillMd,
+  type SkillHost,
+} from "../src/skill-lint.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let root: string;
+
+before(() => {
+  root = mkdtempSync(join(tmpdir(), "skill-lint-"));
+});
+
+after(() => rmSync(root, { recursive: true, force: true }));
+
+/** A linux host with `git` on PATH, `HOME` set and the given config. */
+function host(config: Record<string, any> = {}): SkillHost {
+  return {
+    platform: "linux",
+    env: { HOME: "/home/me" },
+    hasBin: (bin) => bin === "git",
+    config,
+  };
+}
+
+function skillMd(frontmatter: string[], body = "Do the thing."): string {
+  return ["---", ...frontmatter, "---", "", body, ""].join("\n");
+}
+
+function withOpenClaw(openclaw: object, name = "demo"): string {
+  return skillMd([
+    `name: ${name}`,
+    "description: Demo skill",
+    `metadata: ${JSON.stringify({ openclaw })}`,
+  ]);
+}
+
+function writeSkillDir(name: string, md?: string): string {
+  const dir = join(root, name);
+  mkdirSync(dir, { recursive: true });
+  if (md !== undefined) writeFileSync(join(dir, "SKILL.md"), md);
+  return dir;
+}
+
+const errors = (md: string) =>
+  lintSkillMd(md, "demo")
+    .issues.filter((i) => i.level === "error")
+    .map((i) => `${i.field}: ${i.message}`);
+
+// ── Frontmatter ──────────────────────────────────────────────────────────────
+
+describe("lintSkillMd", () => {
+  it("accepts a skill that follows the spec", () => {
+    const { name, issues, openclaw } = lintSkillMd(
+      withOpenClaw({ emoji: "🔧", requires: { bins: ["git"] } }),
+      "demo",
+    );
+    assert.equal(name, "demo");
+    assert.deepEqual(issues, []);
+    assert.deepEqual(openclaw, { emoji: "🔧", requires: { bins: ["git"] } });
+  });
+
+  it("rejects multi-line frontmatter values", () => {
+    const md = skillMd([
+      "name: demo",
+      "description: Demo skill",
+      "metadata:",
+      "  openclaw:",
+      "    emoji: 🔧",
+    ]);
+    assert.deepEqual(errors(md), [
+      "frontmatter: line 5 continues a multi-line value; OpenClaw reads one `key: value` per line (write metadata as single-line JSON)",
+      "metadata: must be a single-line JSON object",
+    ]);
+
+    // A folded description is just as unreadable to OpenClaw
+    assert.match(
+      errors(skillMd(["name: demo", "description: >", "  Demo skill"]))[0],
+      /^frontmatter: line 4 continues a multi-line value/,
+    );
+  });
+
+  it("rejects a missing or unclosed frontmatter block", () => {
+    for (const md of ["# Demo\n", "---\nname: demo\ndescription: Demo\n"]) {
+      assert.deepEqual(errors(md), [
+        "frontmatter: SKILL.md must start with a `---` frontmatter block closed by `---`",
+      ]);
+    }
+  });
+
+  it("requires name and description", () => {
+    assert.deepEqual(errors(skillMd(["license: MIT"])), [
+      "name: required",
+      "description: required",
+    ]);
+  });
+
+  it("requires metadata to be JSON", () => {
+    assert.match(
+      errors(
+        skillMd([
+          "name: demo",
+          "description: Demo skill",
+          "metadata: {openclaw: {emoji: x}}",
+        ]),
+      )[0],
+      /^metadata: not valid JSON/,
+    );
+  });
+
+  it("warns about fields and values OpenClaw won't use", () => {
+    const { issues } = lintSkillMd(
+      skillMd([
+        "name: Demo_Skill",
+        "description: Demo skill",
+        "user-invocable: yes",
+        "tags: [demo]",
+        `metadata: ${JSON.stringify({
+          openclaw: {
+            os: ["macos"],
+            primaryEnv: "DEMO_KEY",
+            requires: { bins: "git", paths: ["/tmp"] },
+            install: [{ id: "demo", kind: "brew" }, { id: "demo" }],
+          },
+        })}`,
+      ]),
+      "demo",
+    );
+    assert.deepEqual(
+      issues.map((i) => `${i.level} ${i.field}`),
+      [
+        "warning tags",
+        "warning name",
+        "warning name",
+        "warning user-invocable",
+        "warning metadata.openclaw.os",
+        "warning metadata.openclaw.requires.bins",
+        "warning metadata.openclaw.requires.paths",
+        "warning metadata.openclaw.primaryEnv",
+        "warning metadata.openclaw.install[0]",
+        "warning metadata.openclaw.install[1]",
+        "warning metadata.openclaw.install[1]",
+      ],
+    );
+    assert.match(issues[2].message, /does not match the folder name "demo"/);
+    assert.match(issues[8].message, /a brew install needs "formula"/);
+    assert.match(issues[9].message, /duplicate id "demo"/);
+  });
+});
+
+// ── Requirements ─────────────────────────────────────────────────────────────
+
+describe("checkSkillRequirements", () => {
+  it("reports unmet os, bins, env and config", () => {
+    const gaps = checkSkillRequirements(
+      {
+        os: ["darwin"],
+        requires: {
+          bins: ["git", "jq", "yq"],
+          anyBins: ["rg", "ag"],
+          env: ["HOME", "DEMO_KEY"],
+          config: ["browser.enabled"],
+        },
+      },
+      "demo",
+      host(),
+    );
+    assert.deepEqual(gaps, [
+      { kind: "os", missing: ["linux"] },
+      { kind: "bins", missing: ["jq", "yq"] },
+      { kind: "anyBins", missing: ["rg", "ag"] },
+      { kind: "env", missing: ["DEMO_KEY"] },
+      { kind: "config", missing: ["browser.enabled"] },
+    ]);
+    assert.deepEqual(describeGaps(gaps), [
+      "not supported on: linux",
+      "missing binaries: jq, yq",
+      "needs one of: rg, ag",
+      "missing env: DEMO_KEY",
+      "config not set: browser.enabled",
+    ]);
+  });
+
+  it("takes env from the skill's config entry", () => {
+    const openclaw = {
+      skillKey: "demo-skill",
+      primaryEnv: "DEMO_KEY",
+      requires: { env: ["DEMO_KEY", "DEMO_REGION"] },
+    };
+    const config = (entry: object) => ({
+      skills: { entries: { "demo-skill": entry } },
+    });
+    assert.deepEqual(
+      checkSkillRequirements(openclaw, "demo", host(config({ apiKey: "k" }))),
+      [{ kind: "env", missing: ["DEMO_REGION"] }],
+    );
+    assert.deepEqual(
+      checkSkillRequirements(
+        openclaw,
+        "demo",
+        host(config({ apiKey: "k", env: { DEMO_REGION: "eu" } })),
+      ),
+      [],
+    );
+  });
+
+  it("is met by truthy config paths, anyBins matches and always", () => {
+    const openclaw = {
+      requires: { anyBins: ["rg", "git"], config: ["browser.enabled"] },
+    };
+    assert.deepEqual(
+      checkSkillRequirements(
+        openclaw,
+        "demo",
+        host({ browser: { enabled: true } }),
+      ),
+      [],
+    );
+    assert.deepEqual(
+      checkSkillRequirements(
+        { always: true, os: ["win32"], requires: { bins: ["jq"] } },
+        "demo",
+        host(),
+      ),
+      [],
+    );
+    assert.deepEqual(checkSkillRequirements(undefined, "demo", host()), []);
+  });
+});
+
+// ── Skill Folders ────────────────────────────────────────────────────────────
+
+describe("lintSkillDir", () => {
+  it("marks a skill runnable when it loads and its requirements are met", () => {
+    const dir = writeSkillDir(
+      "ready",
+      withOpenClaw({ requires: { bins: ["git"], env: ["HOME"] } }, "ready"),
+    );
+    const result = lintSkillDir(dir, host());
+    assert.deepEqual(result, {
+      name: "ready",
+      path: dir,
+      issues: [],
+      unmet: [],
+      runnable: true,
+    });
+    assert.equal(
+      formatSkillLint(result),
+      `**ready** — ✅ ready\n- Path: \`${dir}\`\n`,
+    );
+  });
+
+  it("marks a skill with unmet bins, env or os as not runnable", () => {
+    const cases: [object, string][] = [
+      [{ requires: { bins: ["jq"] } }, "missing binaries: jq"],
+      [{ requires: { env: ["DEMO_KEY"] } }, "missing env: DEMO_KEY"],
+      [{ os: ["darwin", "win32"] }, "not supported on: linux"],
+    ];
+    for (const [i, [openclaw, gap]] of cases.entries()) {
+      const dir = writeSkillDir(
+        `gated-${i}`,
+        withOpenClaw(openclaw, `gated-${i}`),
+      );
+      const result = lintSkillDir(dir, host());
+      assert.deepEqual(result.issues, []);
+      assert.equal(result.runnable, false, gap);
+      assert.deepEqual(describeGaps(result.unmet), [gap]);
+      assert.match(
+        formatSkillLint(result),
+        new RegExp(`— ⚠️ can't run on this host\\n.*\\n- Unmet: ${gap}\\n$`),
+      );
+    }
+  });
+
+  it("marks a skill with spec errors as invalid", () => {
+    const dir = writeSkillDir(
+      "multiline",
+      skillMd([
+        "name: multiline",
+        "description: >",
+        "  Wrapped over",
+        "  two lines",
+      ]),
+    );
+    const result = lintSkillDir(dir, host());
+    assert.equal(result.runnable, false);
+    assert.deepEqual(result.unmet, []);
+    assert.match(formatSkillLint(result), /^\*\*multiline\*\* — ❌ invalid\n/);
+    assert.match(
+      formatSkillLint(result),
+      /- Error `frontmatter`: line 4 continues a multi-line value/,
+    );
+  });
+
+  it("lists errors before warnings", () => {
+    const dir = writeSkillDir(
+      "ordered",
+      skillMd(["name: Ordered", "tags: [demo]"]),
+    );
+    const lines = formatSkillLint(lintSkillDir(dir, host()))
+      .split("\n")
+      .filter((l) => /^- (Error|Warning)/.test(l))
+      .map((l) => l.split(":")[0]);
+    assert.deepEqual(lines, [
+      "- Error `description`",
+      "- Warning `tags`",
+      "- Warning `name`",
+      "- Warning `name`",
+    ]);
+  });
+
+  it("reports a folder without SKILL.md", () => {
+    const dir = writeSkillDir("empty");
+    assert.deepEqual(lintSkillDir(dir, host()), {
+      name: "empty",
+      path: dir,
+      issues: [{ level: "error", field: "SKILL.md", message: "missing" }],
+      unmet: [],
+      runnable: false,
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+
+before(async () => {
+  home = useTempHome();
+  plugin = await loadPlugin();
+});
+
+after(() => home.cleanup());
+
+// ── foundry_test ─────────────────────────────────────────────────────────────
+
+describe("foundry_test", () => {
+  it("runs tool tests on a copy of the extension", async () => {
+    const written = await plugin.call("foundry_write_extension", {
+      id: "scratch",
+      name: "Scratch",
+      description: "Writes next to itself",
+      tools: [
+        {
+          name: "scratch_note",
+          description: "Save a note in the working directory",
+          properties: { text: { type: "string" } },
+          required: ["text"],
+          code:
+            "const fs = await import('node:fs');\n" +
+            "fs.writeFileSync(`${process.cwd()}/note.txt`, p.text);\n" +
+            "fs.appendFileSync(`${process.cwd()}/index.ts`, '\\n// tampered');\n" +
+            "return { content: [{ type: 'text', text: 'saved' }] };",
+          tests: [{ input: { text: "hi" }, expect: { text: "saved" } }],
+        },
+      ],
+    });
+    assert.match(written, /Extension Written/, written);
+    const extDir = join(plugin.extensionsDir, "scratch");
+    const before = readFileSync(join(extDir, "index.ts"), "utf-8");
+
+    const output = await plugin.call("foundry_test", { id: "scratch" });
+    assert.match(output, /## Tests: `scratch`/, output);
+    assert.match(output, /1\/1/, output);
+
+    assert.equal(existsSync(join(extDir, "note.txt")), false);
+    assert.equal(readFileSync(join(extDir, "index.ts"), "utf-8"), before);
+    assert.deepEqual(readdirSync(join(plugin.dataDir, "sandbox")), []);
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { VersionStore } from "../src/version-store.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let root: string;
+let source: string;
+let store: VersionStore;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "version-store-"));
+  source = join(root, "skill");
+  mkdirSync(source);
+  store = new VersionStore(join(root, "data"));
+});
+
+afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+/** Directory of version 1 of skill "demo". */
+function v1(): string {
+  return join(root, "data", "versions", "skill", "demo", "v1");
+}
+
+/** Add auth.json to v1, as versions written before secrets were skipped have. */
+function plantAuthJson(): void {
+  writeFileSync(join(v1(), "files", "auth.json"), "plaintext");
+  const metaPath = join(v1(), "version.json");
+  const meta = JSON.parse(readFileSync(metaPath, "utf-8"));
+  meta.files.push("auth.json");
+  writeFileSync(metaPath, JSON.stringify(meta));
+}
+
+function write(files: Record<string, string>): void {
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(source, name, ".."), { recursive: true });
+    writeFileSync(join(source, name), content);
+  }
+}
+
+// ── Secret Files ─────────────────────────────────────────────────────────────
+
+describe("VersionStore secret files", () => {
+  it("never snapshots auth.json or .env", () => {
+    write({
+      "SKILL.md": "# demo",
+      "auth.json": '{"headers":{"X-Key":"plaintext"}}',
+      "sub/.env": "TOKEN=plaintext",
+    });
+    const version = store.snapshot("skill", "demo", source, {}, "write");
+    const snapshot = store.get("skill", "demo", version)!;
+    assert.deepEqual(snapshot.files, ["SKILL.md"]);
+    assert.equal(existsSync(join(v1(), "files", "auth.json")), false);
+    assert.deepEqual(store.changedFiles("skill", "demo", version, source), []);
+  });
+
+  it("rewrites old versions that still hold them", () => {
+    write({ "SKILL.md": "# demo" });
+    store.snapshot("skill", "demo", source, { key: "plaintext" }, "write");
+    plantAuthJson();
+
+    const changed = store.rewrite("skill", (entry, info) => ({
+      entry: { ...(entry as object), key: "{{secret:KEY}}" },
+      removeFiles: info.files.filter((f) => f === "auth.json"),
+    }));
+    assert.equal(changed, 1);
+    const snapshot = store.get("skill", "demo", 1)!;
+    assert.deepEqual(snapshot.files, ["SKILL.md"]);
+    assert.deepEqual(snapshot.entry, { key: "{{secret:KEY}}" });
+    assert.equal(existsSync(join(v1(), "files", "auth.json")), false);
+  });
+
+  it("does not restore secret files from old versions", () => {
+    write({ "SKILL.md": "# demo" });
+    store.snapshot("skill", "demo", source, {}, "write");
+    plantAuthJson();
+
+    const target = join(root, "restored");
+    store.restore("skill", "demo", 1, target);
+    assert.equal(readFileSync(join(target, "SKILL.md"), "utf-8"), "# demo");
+    assert.equal(existsSync(join(target, "auth.json")), false);
+  });
+});
+
+// ── File Contents ────────────────────────────────────────────────────────────
+
+describe("VersionStore file contents", () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80]);
+
+  it("stores and restores binary files byte for byte", () => {
+    write({ "SKILL.md": "# demo" });
+    writeFileSync(join(source, "icon.png"), png);
+    store.snapshot("skill", "demo", source, {}, "write");
+
+    const snapshot = store.get("skill", "demo", 1)!;
+    assert.ok(Buffer.isBuffer(snapshot.contents["icon.png"]));
+    assert.ok(snapshot.contents["icon.png"].equals(png));
+    assert.deepEqual(store.changedFiles("skill", "demo", 1, source), []);
+
+    const target = join(root, "restored");
+    store.restore("skill", "demo", 1, target);
+    assert.ok(readFileSync(join(target, "icon.png")).equals(png));
+  });
+
+  it("reports binary changes without a line diff", () => {
+    write({ "SKILL.md": "# demo" });
+    writeFileSync(join(source, "icon.png"), png);
+    store.snapshot("skill", "demo", source, {}, "write");
+    writeFileSync(join(source, "icon.png"), Buffer.concat([png, png]));
+    store.snapshot("skill", "demo", source, {}, "write");
+
+    assert.deepEqual(store.changedFiles("skill", "demo", 1, source), [
+      "icon.png",
+    ]);
+    assert.equal(
+      store.diff("skill", "demo", 1, 2),
+      "Binary files v1/icon.png and v2/icon.png differ",
+    );
+  });
+
+  it("records files too large to keep and leaves them alone on restore", () => {
+    write({ "SKILL.md": "# demo" });
+    const big = Buffer.alloc(1024 * 1024 + 1, "a");
+    writeFileSync(join(source, "model.bin"), big);
+    store.snapshot("skill", "demo", source, {}, "write");
+
+    const [info] = store.list("skill", "demo");
+    assert.deepEqual(info.files, ["SKILL.md"]);
+    assert.deepEqual(info.skipped, ["model.bin"]);
+    assert.equal(existsSync(join(v1(), "files", "model.bin")), false);
+
+    const snapshot = store.restore("skill", "demo", 1, source);
+    assert.deepEqual(snapshot.skipped, ["model.bin"]);
+    assert.ok(readFileSync(join(source, "model.bin")).equals(big));
+  });
+});
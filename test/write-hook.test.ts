@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  loadPlugin,
+  useTempHome,
+  type LoadedPlugin,
+} from "./helpers/plugin.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+let home: ReturnType<typeof useTempHome>;
+let plugin: LoadedPlugin;
+
+before(async () => {
+  home = useTempHome();
+  plugin = await loadPlugin();
+});
+
+after(() => home.cleanup());
+
+const writeHook = (name: string, code: string, events = ["command:new"]) =>
+  plugin.call("foundry_write_hook", {
+    name,
+    description: `Hook ${name}`,
+    events,
+    code,
+  });
+
+const manifestHooks = (): string[] =>
+  JSON.parse(
+    readFileSync(join(plugin.dataDir, "manifest.json"), "utf-8"),
+  ).hooks.map((h: { name: string }) => h.name);
+
+/** The hook left no trace: no directory, no manifest entry, no staging. */
+function assertNotInstalled(name: string): void {
+  assert.equal(existsSync(join(plugin.hooksDir, name)), false);
+  assert.equal(manifestHooks().includes(name), false);
+  const staging = join(plugin.dataDir, "staging");
+  if (existsSync(staging)) {
+    assert.deepEqual(
+      readdirSync(staging).filter((f) => f.includes(name)),
+      [],
+    );
+  }
+}
+
+// ── Sandbox Gate ─────────────────────────────────────────────────────────────
+
+describe("foundry_write_hook sandbox", () => {
+  it("installs a handler that handles every declared event", async () => {
+    const output = await writeHook(
+      "greeter",
+      `const handler: HookHandler = async (event) => {
+  event.messages.push("hello from " + event.type + ":" + event.action);
+};`,
+      ["command:new", "gateway:startup"],
+    );
+    assert.match(output, /## Hook Written/, output);
+    assert.match(output, /command:new ✅ \(\d+ms, 1 message\)/);
+    assert.match(output, /gateway:startup ✅/);
+    assert.ok(existsSync(join(plugin.hooksDir, "greeter", "handler.ts")));
+    assert.ok(manifestHooks().includes("greeter"));
+  });
+
+  it("blocks a handler that throws", async () => {
+    const output = await writeHook(
+      "thrower",
+      `const handler: HookHandler = async () => {
+  throw new Error("boom");
+};`,
+    );
+    assert.match(output, /## Hook FAILED/);
+    assert.match(output, /\*\*Runtime Error\*\*/);
+    assert.match(output, /Sandbox test failed: command:new: boom/);
+    assert.match(output, /Nothing was installed/);
+    assertNotInstalled("thrower");
+  });
+
+  it("blocks a handler that fails for only one of its events", async () => {
+    const output = await writeHook(
+      "picky",
+      `const handler: HookHandler = async (event) => {
+  if (event.type === "gateway") throw new Error("not at startup");
+};`,
+      ["command:new", "gateway:startup"],
+    );
+    assert.match(
+      output,
+      /Sandbox test failed: gateway:startup: not at startup/,
+    );
+    assertNotInstalled("picky");
+  });
+
+  it("blocks a handler that never settles", async () => {
+    const output = await writeHook(
+      "hanger",
+      `const handler: HookHandler = () => new Promise(() => {});`,
+    );
+    assert.match(
+      output,
+      /Sandbox test failed: command:new: Timed out after 5000ms/,
+    );
+    assertNotInstalled("hanger");
+  });
+
+  it("blocks a handler that doesn't load", async () => {
+    const output = await writeHook(
+      "broken",
+      `const handler: HookHandler = async (event) => {
+  event.messages.push(;
+};`,
+    );
+    assert.match(output, /## Hook FAILED/);
+    assert.match(output, /Sandbox test failed/);
+    assertNotInstalled("broken");
+  });
+
+  it("keeps the installed version when a rewrite fails", async () => {
+    const good = `const handler: HookHandler = async (event) => {
+  event.messages.push("v1");
+};`;
+    assert.match(await writeHook("steady", good), /## Hook Written/);
+    const handler = join(plugin.hooksDir, "steady", "handler.ts");
+    const installed = readFileSync(handler, "utf-8");
+
+    const output = await writeHook(
+      "steady",
+      `const handler: HookHandler = async () => {
+  throw new Error("v2 is broken");
+};`,
+    );
+    assert.match(output, /Sandbox test failed: command:new: v2 is broken/);
+    assert.equal(readFileSync(handler, "utf-8"), installed);
+  });
+});
+
+// ── Static Checks ────────────────────────────────────────────────────────────
+
+describe("foundry_write_hook validation", () => {
+  it("rejects handlers without a handler function", async () => {
+    const output = await writeHook("nameless", `export const run = () => {};`);
+    assert.match(output, /\*\*Validation Error\*\*/);
+    assert.match(output, /Hook code must define a `handler` function/);
+    assertNotInstalled("nameless");
+  });
+
+  it("rejects unknown or missing events", async () => {
+    const code = `const handler: HookHandler = async () => {};`;
+    let output = await writeHook("typo", code, ["command:nwe"]);
+    assert.match(
+      output,
+      /Hook validation failed: Unknown standalone hook event "command:nwe" \(did you mean "command:new"\?\)/,
+    );
+    output = await writeHook("wrong-kind", code, ["agent_end"]);
+    assert.match(output, /"agent_end" is an extension hook event/);
+    output = await writeHook("eventless", code, []);
+    assert.match(output, /Hook validation failed: no events declared/);
+    for (const name of ["typo", "wrong-kind", "eventless"]) {
+      assertNotInstalled(name);
+    }
+  });
+
+  it("rejects blocked patterns before running anything", async () => {
+    const output = await writeHook(
+      "shell",
+      `const handler: HookHandler = async () => {
+  require("child_process").execSync("ls");
+};`,
+    );
+    assert.match(
+      output,
+      /Code validation failed: .*BLOCKED: Child process import/,
+    );
+    assertNotInstalled("shell");
+  });
+});
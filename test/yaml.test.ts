@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseYaml } from "../src/yaml.js";
+
+// ── Collections ──────────────────────────────────────────────────────────────
+
+describe("parseYaml collections", () => {
+  it("reads nested block mappings and sequences", () => {
+    const doc = parseYaml(
+      [
+        "paths:",
+        "  /pets:",
+        "    get:",
+        "      tags:",
+        "        - pets",
+        "      parameters:",
+        "        - name: limit",
+        "          in: query",
+        "          required: false",
+        "        - name: offset",
+        "          in: query",
+        "count: 2",
+      ].join("\n"),
+    );
+    assert.deepEqual(doc, {
+      paths: {
+        "/pets": {
+          get: {
+            tags: ["pets"],
+            parameters: [
+              { name: "limit", in: "query", required: false },
+              { name: "offset", in: "query" },
+            ],
+          },
+        },
+      },
+      count: 2,
+    });
+  });
+
+  it("reads flow sequences and mappings, nested and empty", () => {
+    const doc = parseYaml(
+      "tags: [pets, 'store', \"a, b\"]\nobj: {a: 1, b: [x, y], c: {d: e}}\nempty: []\nnone: {}\n",
+    );
+    assert.deepEqual(doc, {
+      tags: ["pets", "store", "a, b"],
+      obj: { a: 1, b: ["x", "y"], c: { d: "e" } },
+      empty: [],
+      none: {},
+    });
+  });
+
+  it("types plain scalars like YAML 1.2 core", () => {
+    assert.deepEqual(
+      parseYaml("a: null\nb: ~\nc: true\nd: 1.5\ne: -3\nf: '012'\ng: 012a\n"),
+      { a: null, b: null, c: true, d: 1.5, e: -3, f: "012", g: "012a" },
+    );
+  });
+});
+
+// ── Scalars ──────────────────────────────────────────────────────────────────
+
+describe("parseYaml scalars", () => {
+  it("unescapes single- and double-quoted strings", () => {
+    assert.deepEqual(parseYaml("s: 'it''s'\nd: \"line\\nnext \\u00e9\"\n"), {
+      s: "it's",
+      d: "line\nnext é",
+    });
+  });
+
+  it("reads literal and folded block scalars with chomping", () => {
+    const doc = parseYaml(
+      [
+        "lit: |",
+        "  one",
+        "  two",
+        "fold: >",
+        "  one",
+        "  two",
+        "",
+        "  three",
+        "keep: |+",
+        "  x",
+        "",
+        "strip: |-",
+        "  y",
+        "last: 1",
+      ].join("\n"),
+    );
+    assert.deepEqual(doc, {
+      lit: "one\ntwo\n",
+      fold: "one two\nthree\n",
+      keep: "x\n\n",
+      strip: "y",
+      last: 1,
+    });
+  });
+
+  it("joins multi-line plain scalars", () => {
+    assert.deepEqual(parseYaml("d: first line\n  continues here\n"), {
+      d: "first line continues here",
+    });
+  });
+
+  it("only treats ' #' as a comment, not # inside URLs or quotes", () => {
+    const doc = parseYaml(
+      [
+        "# leading comment",
+        "url: https://api.example.com/v1#frag",
+        "note: value # trailing comment",
+        "hash: a#b",
+        "quoted: '# not a comment'",
+      ].join("\n"),
+    );
+    assert.deepEqual(doc, {
+      url: "https://api.example.com/v1#frag",
+      note: "value",
+      hash: "a#b",
+      quoted: "# not a comment",
+    });
+  });
+});
+
+// ── Unsupported ──────────────────────────────────────────────────────────────
+
+describe("parseYaml rejects what it can't represent", () => {
+  for (const [name, source, message] of [
+    ["anchors", "a: &x 1\nb: 2\n", /anchors, aliases and tags/],
+    ["aliases", "a: 1\nb: *x\n", /anchors, aliases and tags/],
+    ["tags", "a: !!str 1\n", /anchors, aliases and tags/],
+    ["complex keys", "? a\n: b\n", /complex keys/],
+    ["duplicate keys", "a: 1\na: 2\n", /line 2: duplicate key "a"/],
+    ["several documents", "a: 1\n---\nb: 2\n", /line 2/],
+  ] as const) {
+    it(name, () => {
+      assert.throws(() => parseYaml(source), message);
+    });
+  }
+});